@@ -132,7 +132,7 @@ public sealed class AuthService
     public async Task<IEnumerable<AdminUserDto>> GetAllUsersAsync(CancellationToken cancellationToken = default)
     {
         var users = await _adminUserRepository.GetAllAsync(cancellationToken);
-        return users.Select(u => new AdminUserDto(u.Id, u.Username, u.CreatedAt, u.LastLoginAt));
+        return users.Select(u => new AdminUserDto(u.Id, u.Username, u.CreatedAt, u.LastLoginAt, u.MustChangePassword));
     }
 
     /// <summary>
@@ -140,6 +140,16 @@ public sealed class AuthService
     /// </summary>
     public async Task<AdminUserDto> CreateUserAsync(CreateAdminUserDto dto, CancellationToken cancellationToken = default)
     {
+        if (string.IsNullOrWhiteSpace(dto.Username) || string.IsNullOrWhiteSpace(dto.Password))
+        {
+            throw new InvalidOperationException("Username and password are required.");
+        }
+
+        if (dto.Password.Length < 8)
+        {
+            throw new InvalidOperationException("Password must be at least 8 characters.");
+        }
+
         var existingUser = await _adminUserRepository.GetByUsernameAsync(dto.Username, cancellationToken);
         if (existingUser != null)
         {
@@ -150,7 +160,7 @@ public sealed class AuthService
         {
             Username = dto.Username,
             PasswordHash = "", // Will be set below
-            MustChangePassword = true,
+            MustChangePassword = dto.MustChangePassword,
             CreatedAt = DateTime.UtcNow
         };
 
@@ -159,17 +169,22 @@ public sealed class AuthService
         await _adminUserRepository.AddAsync(user, cancellationToken);
         await _adminUserRepository.SaveChangesAsync(cancellationToken);
 
-        return new AdminUserDto(user.Id, user.Username, user.CreatedAt, user.LastLoginAt);
+        return new AdminUserDto(user.Id, user.Username, user.CreatedAt, user.LastLoginAt, user.MustChangePassword);
     }
 
     /// <summary>
-    /// Deletes an admin user.
+    /// Deletes an admin user. Users cannot delete their own account, so at least one admin always remains.
     /// </summary>
-    public async Task DeleteUserAsync(int id, CancellationToken cancellationToken = default)
+    public async Task DeleteUserAsync(int id, string? currentUsername, CancellationToken cancellationToken = default)
     {
         var user = await _adminUserRepository.GetByIdAsync(id, cancellationToken);
         if (user != null)
         {
+            if (string.Equals(user.Username, currentUsername, StringComparison.Ordinal))
+            {
+                throw new InvalidOperationException("You cannot delete your own account.");
+            }
+
             await _adminUserRepository.DeleteAsync(user, cancellationToken);
             await _adminUserRepository.SaveChangesAsync(cancellationToken);
         }
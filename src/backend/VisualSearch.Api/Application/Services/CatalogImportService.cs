@@ -0,0 +1,266 @@
+using Microsoft.EntityFrameworkCore;
+using VisualSearch.Api.Contracts.DTOs;
+using VisualSearch.Api.Contracts.Requests;
+using VisualSearch.Api.Data;
+using VisualSearch.Api.Data.Entities;
+
+namespace VisualSearch.Api.Application.Services;
+
+/// <summary>
+/// Service for importing product catalogs uploaded as CSV or JSON from the admin panel.
+/// Rows are upserted by provider and external ID; images are stored without embeddings.
+/// </summary>
+public sealed class CatalogImportService
+{
+    public const int MaxRowsPerRequest = 200;
+
+    private const int MaxNameLength = 500;
+    private const int MaxExternalIdLength = 255;
+    private const int MaxDescriptionLength = 4000;
+    private const int MaxUrlLength = 1024;
+
+    private readonly VisualSearchDbContext _db;
+
+    public CatalogImportService(VisualSearchDbContext db)
+    {
+        _db = db;
+    }
+
+    /// <summary>
+    /// Validates a batch of rows and, unless it is a dry run, creates or updates the products.
+    /// Invalid rows are reported and skipped; the valid rows are saved together.
+    /// </summary>
+    /// <exception cref="InvalidOperationException">The batch is empty, too large, or the provider does not exist.</exception>
+    public async Task<CatalogImportResultDto> ImportAsync(
+        CatalogImportRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        var rows = request.Rows ?? [];
+        if (rows.Length == 0)
+        {
+            throw new InvalidOperationException("No rows provided.");
+        }
+
+        if (rows.Length > MaxRowsPerRequest)
+        {
+            throw new InvalidOperationException($"At most {MaxRowsPerRequest} rows can be imported per request.");
+        }
+
+        if (!await _db.Providers.AnyAsync(p => p.Id == request.ProviderId, cancellationToken))
+        {
+            throw new InvalidOperationException($"Provider with ID {request.ProviderId} not found.");
+        }
+
+        var categoryIds = rows.Where(r => r.CategoryId is > 0).Select(r => r.CategoryId!.Value).Distinct().ToList();
+        var existingCategoryIds = (await _db.Categories
+            .Where(c => categoryIds.Contains(c.Id))
+            .Select(c => c.Id)
+            .ToListAsync(cancellationToken))
+            .ToHashSet();
+
+        var externalIds = rows
+            .Select(r => r.ExternalId?.Trim())
+            .Where(id => !string.IsNullOrEmpty(id))
+            .Distinct()
+            .ToList();
+        var existingProducts = await _db.Products
+            .Include(p => p.Images)
+            .Where(p => p.ProviderId == request.ProviderId && externalIds.Contains(p.ExternalId!))
+            .ToDictionaryAsync(p => p.ExternalId!, cancellationToken);
+
+        var results = new CatalogImportRowResultDto[rows.Length];
+        var createdProducts = new Dictionary<int, Product>();
+        var seenExternalIds = new HashSet<string>();
+        var imagesAdded = 0;
+
+        for (var i = 0; i < rows.Length; i++)
+        {
+            var row = rows[i];
+            var externalId = NullIfBlank(row.ExternalId);
+            var imageUrls = (row.ImageUrls ?? [])
+                .Select(u => u?.Trim())
+                .OfType<string>()
+                .Where(u => u.Length > 0)
+                .Distinct()
+                .ToList();
+
+            var existing = externalId is not null ? existingProducts.GetValueOrDefault(externalId) : null;
+            var errors = Validate(row, existing is not null, imageUrls, existingCategoryIds);
+
+            if (externalId is not null && !seenExternalIds.Add(externalId))
+            {
+                errors.Add($"External ID '{externalId}' appears more than once in this batch.");
+            }
+
+            if (errors.Count > 0)
+            {
+                results[i] = new CatalogImportRowResultDto(row.RowNumber, CatalogImportRowAction.Invalid, existing?.Id, errors);
+                continue;
+            }
+
+            var product = existing;
+            if (product is null)
+            {
+                product = new Product
+                {
+                    ProviderId = request.ProviderId,
+                    ExternalId = externalId,
+                    Name = row.Name!.Trim()
+                };
+                createdProducts[i] = product;
+            }
+
+            imagesAdded += imageUrls.Count(url => product.Images.All(img => img.ImageUrl != url));
+
+            if (!request.DryRun)
+            {
+                Apply(product, row, imageUrls);
+                if (existing is null)
+                {
+                    _db.Products.Add(product);
+                }
+            }
+
+            results[i] = new CatalogImportRowResultDto(
+                row.RowNumber,
+                existing is null ? CatalogImportRowAction.Create : CatalogImportRowAction.Update,
+                existing?.Id,
+                []);
+        }
+
+        if (!request.DryRun)
+        {
+            await _db.SaveChangesAsync(cancellationToken);
+
+            foreach (var (index, product) in createdProducts)
+            {
+                results[index] = results[index] with { ProductId = product.Id };
+            }
+        }
+
+        return new CatalogImportResultDto(
+            DryRun: request.DryRun,
+            Created: results.Count(r => r.Action == CatalogImportRowAction.Create),
+            Updated: results.Count(r => r.Action == CatalogImportRowAction.Update),
+            Invalid: results.Count(r => r.Action == CatalogImportRowAction.Invalid),
+            ImagesAdded: imagesAdded,
+            Rows: results);
+    }
+
+    private static List<string> Validate(
+        CatalogImportRowRequest row,
+        bool isUpdate,
+        IReadOnlyList<string> imageUrls,
+        HashSet<int> existingCategoryIds)
+    {
+        var errors = new List<string>();
+
+        // Updates only touch the fields present in the row, so name and price are optional there
+        if (string.IsNullOrWhiteSpace(row.Name))
+        {
+            if (!isUpdate || row.Name is not null)
+            {
+                errors.Add("Name is required.");
+            }
+        }
+        else if (row.Name.Trim().Length > MaxNameLength)
+        {
+            errors.Add($"Name must be at most {MaxNameLength} characters.");
+        }
+
+        if (row.Price is null && !isUpdate)
+        {
+            errors.Add("Price is required.");
+        }
+        else if (row.Price < 0)
+        {
+            errors.Add("Price cannot be negative.");
+        }
+
+        if (row.ExternalId?.Trim().Length > MaxExternalIdLength)
+        {
+            errors.Add($"External ID must be at most {MaxExternalIdLength} characters.");
+        }
+
+        if (row.Description?.Length > MaxDescriptionLength)
+        {
+            errors.Add($"Description must be at most {MaxDescriptionLength} characters.");
+        }
+
+        var currency = NullIfBlank(row.Currency);
+        if (currency is not null && (currency.Length != 3 || !currency.All(char.IsAsciiLetter)))
+        {
+            errors.Add($"Currency '{currency}' must be a 3-letter ISO code.");
+        }
+
+        if (row.CategoryId is > 0 && !existingCategoryIds.Contains(row.CategoryId.Value))
+        {
+            errors.Add($"Category with ID {row.CategoryId.Value} not found.");
+        }
+
+        var productUrl = NullIfBlank(row.ProductUrl);
+        if (productUrl is not null && !IsValidUrl(productUrl))
+        {
+            errors.Add($"Product URL '{productUrl}' must be an absolute http(s) URL of at most {MaxUrlLength} characters.");
+        }
+
+        foreach (var url in imageUrls.Where(u => !IsValidUrl(u)))
+        {
+            errors.Add($"Image URL '{url}' must be an absolute http(s) URL of at most {MaxUrlLength} characters.");
+        }
+
+        return errors;
+    }
+
+    private static void Apply(Product product, CatalogImportRowRequest row, IReadOnlyList<string> imageUrls)
+    {
+        if (!string.IsNullOrWhiteSpace(row.Name))
+        {
+            product.Name = row.Name.Trim();
+        }
+
+        if (row.Description is not null)
+        {
+            product.Description = NullIfBlank(row.Description);
+        }
+
+        if (row.Price.HasValue)
+        {
+            product.Price = row.Price.Value;
+        }
+
+        if (NullIfBlank(row.Currency) is { } currency)
+        {
+            product.Currency = currency.ToUpperInvariant();
+        }
+
+        if (row.CategoryId.HasValue)
+        {
+            product.CategoryId = row.CategoryId > 0 ? row.CategoryId : null;
+        }
+
+        if (row.ProductUrl is not null)
+        {
+            product.ProductUrl = NullIfBlank(row.ProductUrl);
+        }
+
+        var hasPrimary = product.Images.Any(img => img.IsPrimary);
+        foreach (var url in imageUrls.Where(url => product.Images.All(img => img.ImageUrl != url)))
+        {
+            product.Images.Add(new ProductImage
+            {
+                ImageUrl = url,
+                IsPrimary = !hasPrimary
+            });
+            hasPrimary = true;
+        }
+    }
+
+    private static bool IsValidUrl(string url) =>
+        url.Length <= MaxUrlLength &&
+        Uri.TryCreate(url, UriKind.Absolute, out var uri) &&
+        (uri.Scheme == Uri.UriSchemeHttp || uri.Scheme == Uri.UriSchemeHttps);
+
+    private static string? NullIfBlank(string? value) =>
+        string.IsNullOrWhiteSpace(value) ? null : value.Trim();
+}
@@ -0,0 +1,247 @@
+using System.Globalization;
+using Microsoft.EntityFrameworkCore;
+using VisualSearch.Api.Contracts.DTOs;
+using VisualSearch.Api.Contracts.Requests;
+using VisualSearch.Api.Data;
+using VisualSearch.Api.Data.Entities;
+using VisualSearch.Contracts.Crawling;
+
+namespace VisualSearch.Api.Application.Services;
+
+/// <summary>
+/// Service for managing recurring crawl schedules. The worker queues the jobs;
+/// this service validates schedules and keeps their next run up to date.
+/// </summary>
+public sealed class CrawlScheduleService
+{
+    private const string TimeOfDayFormat = "HH:mm";
+
+    private readonly VisualSearchDbContext _db;
+
+    public CrawlScheduleService(VisualSearchDbContext db)
+    {
+        _db = db;
+    }
+
+    /// <summary>
+    /// Gets all schedules, optionally for one provider, soonest first. Paused schedules come last.
+    /// </summary>
+    public async Task<IReadOnlyList<CrawlScheduleDto>> GetSchedulesAsync(
+        int? providerId,
+        CancellationToken cancellationToken = default)
+    {
+        var query = _db.CrawlSchedules
+            .AsNoTracking()
+            .Include(s => s.Provider)
+            .Include(s => s.LastJob)
+            .AsQueryable();
+
+        if (providerId.HasValue)
+        {
+            query = query.Where(s => s.ProviderId == providerId.Value);
+        }
+
+        var schedules = await query
+            .OrderBy(s => s.NextRunAt == null)
+            .ThenBy(s => s.NextRunAt)
+            .ThenBy(s => s.Id)
+            .ToListAsync(cancellationToken);
+
+        return schedules.Select(MapToDto).ToList();
+    }
+
+    public async Task<CrawlScheduleDto?> GetScheduleByIdAsync(int id, CancellationToken cancellationToken = default)
+    {
+        var schedule = await _db.CrawlSchedules
+            .AsNoTracking()
+            .Include(s => s.Provider)
+            .Include(s => s.LastJob)
+            .FirstOrDefaultAsync(s => s.Id == id, cancellationToken);
+
+        return schedule is null ? null : MapToDto(schedule);
+    }
+
+    /// <exception cref="InvalidOperationException">The provider does not exist or the timing is invalid.</exception>
+    public async Task<CrawlScheduleDto> CreateScheduleAsync(
+        CreateCrawlScheduleRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        var provider = await _db.Providers.FindAsync([request.ProviderId], cancellationToken)
+            ?? throw new InvalidOperationException($"Provider with ID {request.ProviderId} not found.");
+
+        var schedule = new CrawlSchedule
+        {
+            ProviderId = provider.Id,
+            Provider = provider,
+            TimeZoneId = request.TimeZoneId,
+            CreatedAt = DateTime.UtcNow
+        };
+
+        Apply(
+            schedule,
+            request.Frequency,
+            request.TimeOfDay,
+            request.DayOfWeek,
+            request.CronExpression,
+            request.TimeZoneId,
+            request.StartUrl,
+            request.SitemapUrl,
+            request.MaxPages,
+            request.IsEnabled);
+
+        _db.CrawlSchedules.Add(schedule);
+        await _db.SaveChangesAsync(cancellationToken);
+
+        return MapToDto(schedule);
+    }
+
+    /// <summary>
+    /// Replaces a schedule's settings. Returns null when the schedule does not exist.
+    /// </summary>
+    /// <exception cref="InvalidOperationException">The timing is invalid.</exception>
+    public async Task<CrawlScheduleDto?> UpdateScheduleAsync(
+        int id,
+        UpdateCrawlScheduleRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        var schedule = await _db.CrawlSchedules
+            .Include(s => s.Provider)
+            .Include(s => s.LastJob)
+            .FirstOrDefaultAsync(s => s.Id == id, cancellationToken);
+
+        if (schedule is null)
+        {
+            return null;
+        }
+
+        Apply(
+            schedule,
+            request.Frequency,
+            request.TimeOfDay,
+            request.DayOfWeek,
+            request.CronExpression,
+            request.TimeZoneId,
+            request.StartUrl,
+            request.SitemapUrl,
+            request.MaxPages,
+            request.IsEnabled);
+
+        await _db.SaveChangesAsync(cancellationToken);
+
+        return MapToDto(schedule);
+    }
+
+    public async Task<bool> DeleteScheduleAsync(int id, CancellationToken cancellationToken = default)
+    {
+        var deleted = await _db.CrawlSchedules
+            .Where(s => s.Id == id)
+            .ExecuteDeleteAsync(cancellationToken);
+
+        return deleted > 0;
+    }
+
+    /// <summary>
+    /// Validates and applies schedule settings. The next run is always recomputed from now,
+    /// so a paused schedule that is re-enabled does not catch up on the runs it missed.
+    /// </summary>
+    private static void Apply(
+        CrawlSchedule schedule,
+        CrawlScheduleFrequency frequency,
+        string? timeOfDay,
+        DayOfWeek? dayOfWeek,
+        string? cronExpression,
+        string timeZoneId,
+        string? startUrl,
+        string? sitemapUrl,
+        int? maxPages,
+        bool isEnabled)
+    {
+        if (!Enum.IsDefined(frequency))
+        {
+            throw new InvalidOperationException($"Unknown schedule frequency '{frequency}'.");
+        }
+
+        TimeOnly? time = null;
+        if (frequency != CrawlScheduleFrequency.Cron)
+        {
+            if (!TimeOnly.TryParseExact(timeOfDay, TimeOfDayFormat, CultureInfo.InvariantCulture, DateTimeStyles.None, out var parsed))
+            {
+                throw new InvalidOperationException("Time of day must be given as HH:mm.");
+            }
+
+            time = parsed;
+        }
+
+        if (frequency == CrawlScheduleFrequency.Weekly && (dayOfWeek is null || !Enum.IsDefined(dayOfWeek.Value)))
+        {
+            throw new InvalidOperationException("Weekly schedules need a day of week.");
+        }
+
+        if (maxPages is <= 0)
+        {
+            throw new InvalidOperationException("Max pages must be greater than zero.");
+        }
+
+        var cron = frequency == CrawlScheduleFrequency.Cron ? cronExpression?.Trim() : null;
+        var day = frequency == CrawlScheduleFrequency.Weekly ? dayOfWeek : null;
+
+        CronExpression expression;
+        try
+        {
+            expression = CrawlScheduleCalculator.GetExpression(frequency, time, day, cron);
+        }
+        catch (FormatException ex)
+        {
+            throw new InvalidOperationException(ex.Message);
+        }
+
+        DateTime? nextRunAt;
+        try
+        {
+            nextRunAt = CrawlScheduleCalculator.GetNextRunUtc(expression, timeZoneId, DateTime.UtcNow);
+        }
+        catch (TimeZoneNotFoundException)
+        {
+            throw new InvalidOperationException($"Unknown time zone '{timeZoneId}'.");
+        }
+
+        if (nextRunAt is null)
+        {
+            throw new InvalidOperationException("The schedule never runs.");
+        }
+
+        schedule.Frequency = frequency;
+        schedule.TimeOfDay = time;
+        schedule.DayOfWeek = day;
+        schedule.CronExpression = cron;
+        schedule.TimeZoneId = timeZoneId;
+        schedule.StartUrl = string.IsNullOrWhiteSpace(startUrl) ? null : startUrl.Trim();
+        schedule.SitemapUrl = string.IsNullOrWhiteSpace(sitemapUrl) ? null : sitemapUrl.Trim();
+        schedule.MaxPages = maxPages;
+        schedule.IsEnabled = isEnabled;
+        schedule.NextRunAt = isEnabled ? nextRunAt : null;
+    }
+
+    private static CrawlScheduleDto MapToDto(CrawlSchedule schedule)
+    {
+        return new CrawlScheduleDto(
+            schedule.Id,
+            schedule.ProviderId,
+            schedule.Provider?.Name ?? string.Empty,
+            schedule.Frequency,
+            schedule.TimeOfDay?.ToString(TimeOfDayFormat, CultureInfo.InvariantCulture),
+            schedule.DayOfWeek,
+            schedule.CronExpression,
+            schedule.TimeZoneId,
+            schedule.StartUrl,
+            schedule.SitemapUrl,
+            schedule.MaxPages,
+            schedule.IsEnabled,
+            schedule.NextRunAt,
+            schedule.LastRunAt,
+            schedule.LastJobId,
+            schedule.LastJob?.Status,
+            schedule.LastSkipReason,
+            schedule.CreatedAt);
+    }
+}
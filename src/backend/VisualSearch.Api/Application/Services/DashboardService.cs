@@ -1,6 +1,10 @@
+using System.Diagnostics;
+using Microsoft.EntityFrameworkCore;
 using VisualSearch.Api.Contracts.DTOs;
+using VisualSearch.Api.Data;
 using VisualSearch.Api.Domain.Interfaces;
 using VisualSearch.Api.Services;
+using VisualSearch.Contracts.Crawling;
 
 namespace VisualSearch.Api.Application.Services;
 
@@ -9,6 +13,13 @@ namespace VisualSearch.Api.Application.Services;
 /// </summary>
 public sealed class DashboardService
 {
+    // The worker polls every few seconds; a job queued longer than this means nobody is picking it up
+    private static readonly TimeSpan QueuedJobStallThreshold = TimeSpan.FromMinutes(2);
+
+    private static readonly TimeSpan DefaultTimeSeriesRange = TimeSpan.FromDays(30);
+    private static readonly TimeSpan MaxTimeSeriesRange = TimeSpan.FromDays(90);
+
+    private readonly VisualSearchDbContext _db;
     private readonly IProviderRepository _providerRepository;
     private readonly IProductRepository _productRepository;
     private readonly IProductImageRepository _productImageRepository;
@@ -16,16 +27,24 @@ public sealed class DashboardService
     private readonly IClipEmbeddingService _clipEmbeddingService;
     private readonly IObjectDetectionService _objectDetectionService;
     private readonly VectorizationService _vectorizationService;
+    private readonly ImageUploadService _imageUploadService;
+    private readonly SearchMetricsService _searchMetricsService;
+    private readonly ILogger<DashboardService> _logger;
 
     public DashboardService(
+        VisualSearchDbContext db,
         IProviderRepository providerRepository,
         IProductRepository productRepository,
         IProductImageRepository productImageRepository,
         ICategoryRepository categoryRepository,
         IClipEmbeddingService clipEmbeddingService,
         IObjectDetectionService objectDetectionService,
-        VectorizationService vectorizationService)
+        VectorizationService vectorizationService,
+        ImageUploadService imageUploadService,
+        SearchMetricsService searchMetricsService,
+        ILogger<DashboardService> logger)
     {
+        _db = db;
         _providerRepository = providerRepository;
         _productRepository = productRepository;
         _productImageRepository = productImageRepository;
@@ -33,6 +52,9 @@ public sealed class DashboardService
         _clipEmbeddingService = clipEmbeddingService;
         _objectDetectionService = objectDetectionService;
         _vectorizationService = vectorizationService;
+        _imageUploadService = imageUploadService;
+        _searchMetricsService = searchMetricsService;
+        _logger = logger;
     }
 
     public async Task<DashboardStatsDto> GetStatsAsync(CancellationToken cancellationToken = default)
@@ -74,6 +96,76 @@ public sealed class DashboardService
         );
     }
 
+    /// <summary>
+    /// Gets products added and images vectorized per day, and crawl pages fetched per hour.
+    /// Defaults to the last 30 days; ranges longer than 90 days are rejected.
+    /// </summary>
+    public async Task<DashboardTimeSeriesDto> GetTimeSeriesAsync(
+        DateTime? from,
+        DateTime? to,
+        CancellationToken cancellationToken = default)
+    {
+        var end = to?.ToUniversalTime() ?? DateTime.UtcNow;
+        var start = from?.ToUniversalTime() ?? end - DefaultTimeSeriesRange;
+
+        if (start >= end)
+        {
+            throw new InvalidOperationException("The start of the range must be before its end.");
+        }
+
+        if (end - start > MaxTimeSeriesRange)
+        {
+            throw new InvalidOperationException($"The range cannot be longer than {MaxTimeSeriesRange.TotalDays} days.");
+        }
+
+        var productsPerDay = await _db.Products
+            .Where(p => p.CreatedAt >= start && p.CreatedAt < end)
+            .GroupBy(p => p.CreatedAt.Date)
+            .Select(g => new { Bucket = g.Key, Count = g.Count() })
+            .ToDictionaryAsync(x => x.Bucket, x => x.Count, cancellationToken);
+
+        var vectorizedPerDay = await _db.ProductImages
+            .Where(i => i.VectorizedAt >= start && i.VectorizedAt < end)
+            .GroupBy(i => i.VectorizedAt!.Value.Date)
+            .Select(g => new { Bucket = g.Key, Count = g.Count() })
+            .ToDictionaryAsync(x => x.Bucket, x => x.Count, cancellationToken);
+
+        var pagesPerHour = (await _db.CrawlPages
+            .Where(p => p.FetchedAt >= start && p.FetchedAt < end)
+            .GroupBy(p => new { p.FetchedAt!.Value.Date, p.FetchedAt.Value.Hour })
+            .Select(g => new { g.Key.Date, g.Key.Hour, Count = g.Count() })
+            .ToListAsync(cancellationToken))
+            .ToDictionary(x => x.Date.AddHours(x.Hour), x => x.Count);
+
+        return new DashboardTimeSeriesDto(
+            From: start,
+            To: end,
+            ProductsAdded: FillBuckets(productsPerDay, start.Date, end, TimeSpan.FromDays(1)),
+            ImagesVectorized: FillBuckets(vectorizedPerDay, start.Date, end, TimeSpan.FromDays(1)),
+            CrawlPagesFetched: FillBuckets(
+                pagesPerHour,
+                start.Date.AddHours(start.Hour),
+                end,
+                TimeSpan.FromHours(1))
+        );
+    }
+
+    private static List<TimeSeriesPointDto> FillBuckets(
+        IReadOnlyDictionary<DateTime, int> counts,
+        DateTime firstBucket,
+        DateTime end,
+        TimeSpan bucketSize)
+    {
+        var points = new List<TimeSeriesPointDto>();
+        for (var bucket = firstBucket; bucket < end; bucket += bucketSize)
+        {
+            var timestamp = DateTime.SpecifyKind(bucket, DateTimeKind.Utc);
+            points.Add(new TimeSeriesPointDto(timestamp, counts.GetValueOrDefault(bucket)));
+        }
+
+        return points;
+    }
+
     public Task<SystemStatusDto> GetSystemStatusAsync(CancellationToken cancellationToken = default)
     {
         var status = new SystemStatusDto(
@@ -87,15 +179,96 @@ public sealed class DashboardService
     }
 
     /// <summary>
-    /// Gets admin system status including service availability.
+    /// Gets admin system status including service availability, database and worker health,
+    /// search latency and upload storage usage.
     /// </summary>
-    public AdminSystemStatusDto GetAdminSystemStatus()
+    public async Task<AdminSystemStatusDto> GetAdminSystemStatusAsync(CancellationToken cancellationToken = default)
     {
+        var database = await CheckDatabaseAsync(cancellationToken);
+        var worker = database.Connected
+            ? await GetWorkerStatusAsync(cancellationToken)
+            : new WorkerStatusDto(WorkerState.Unknown, 0, 0, null, null);
+
+        var latency = _searchMetricsService.GetSnapshot();
+        var storage = _imageUploadService.GetStorageUsage();
+
         return new AdminSystemStatusDto(
             ClipModelLoaded: _clipEmbeddingService.IsModelLoaded,
             YoloModelLoaded: _objectDetectionService.IsModelLoaded,
             VectorizationAvailable: _vectorizationService.IsAvailable,
-            ObjectDetectionAvailable: _vectorizationService.IsDetectionAvailable
+            ObjectDetectionAvailable: _vectorizationService.IsDetectionAvailable,
+            Database: database,
+            Worker: worker,
+            SearchLatency: new SearchLatencyDto(
+                SampleCount: latency.SampleCount,
+                AverageEmbeddingMs: latency.AverageEmbeddingMs,
+                P95EmbeddingMs: latency.P95EmbeddingMs,
+                AverageTotalMs: latency.AverageTotalMs,
+                P95TotalMs: latency.P95TotalMs,
+                LastSearchAt: latency.LastSearchAt),
+            Storage: new StorageUsageDto(
+                UsedBytes: storage.UsedBytes,
+                FileCount: storage.FileCount,
+                FreeBytes: storage.FreeBytes,
+                TotalBytes: storage.TotalBytes,
+                MeasuredAt: storage.MeasuredAt),
+            CheckedAt: DateTime.UtcNow
+        );
+    }
+
+    private async Task<DatabaseStatusDto> CheckDatabaseAsync(CancellationToken cancellationToken)
+    {
+        var sw = Stopwatch.StartNew();
+        try
+        {
+            var connected = await _db.Database.CanConnectAsync(cancellationToken);
+            return new DatabaseStatusDto(
+                Connected: connected,
+                LatencyMs: sw.ElapsedMilliseconds,
+                Error: connected ? null : "Database did not accept the connection");
+        }
+        catch (Exception ex) when (ex is not OperationCanceledException)
+        {
+            _logger.LogWarning(ex, "Database health check failed");
+            return new DatabaseStatusDto(Connected: false, LatencyMs: null, Error: ex.Message);
+        }
+    }
+
+    /// <summary>
+    /// Infers whether a crawler worker is alive. Workers don't report in directly, but they
+    /// renew the lease on the job they run and pick up queued jobs within one poll interval.
+    /// </summary>
+    private async Task<WorkerStatusDto> GetWorkerStatusAsync(CancellationToken cancellationToken)
+    {
+        var now = DateTime.UtcNow;
+
+        var running = await _db.CrawlJobs
+            .Where(j => j.Status == CrawlJobStatus.Running)
+            .Select(j => new { j.LeaseExpiresAt })
+            .ToListAsync(cancellationToken);
+        var queued = await _db.CrawlJobs
+            .Where(j => j.Status == CrawlJobStatus.Queued)
+            .GroupBy(_ => 1)
+            .Select(g => new { Count = g.Count(), Oldest = g.Min(j => j.CreatedAt) })
+            .FirstOrDefaultAsync(cancellationToken);
+        var lastJobStartedAt = await _db.CrawlJobs.MaxAsync(j => j.StartedAt, cancellationToken);
+
+        var hasLiveLease = running.Any(j => j.LeaseExpiresAt > now);
+        var hasExpiredLease = running.Any(j => j.LeaseExpiresAt is null || j.LeaseExpiresAt <= now);
+        var queueIsStuck = queued is not null && now - queued.Oldest > QueuedJobStallThreshold;
+
+        var state = hasLiveLease
+            ? WorkerState.Active
+            : hasExpiredLease || queueIsStuck
+                ? WorkerState.Stalled
+                : WorkerState.Idle;
+
+        return new WorkerStatusDto(
+            State: state,
+            RunningJobs: running.Count,
+            QueuedJobs: queued?.Count ?? 0,
+            OldestQueuedAt: queued?.Oldest,
+            LastJobStartedAt: lastJobStartedAt
         );
     }
 }
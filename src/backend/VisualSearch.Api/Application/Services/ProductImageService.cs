@@ -51,6 +51,59 @@ public sealed class ProductImageService : IProductImageService
         return images.Select(MapToDto);
     }
 
+    /// <inheritdoc />
+    public async Task<ProductImageContent?> GetImageContentAsync(
+        int productId,
+        string? imageUrl = null,
+        CancellationToken cancellationToken = default)
+    {
+        // Only URLs already stored for the product are fetched, never an arbitrary one from the caller
+        var images = (await _imageRepository.GetByProductAsync(productId, cancellationToken)).ToList();
+        var image = images.FirstOrDefault(i => i.ImageUrl == imageUrl) ?? images.FirstOrDefault();
+        if (image is null)
+        {
+            return null;
+        }
+
+        // Prefer local file if available; uploads are always stored as JPEG
+        if (!string.IsNullOrWhiteSpace(image.LocalPath))
+        {
+            var imageBytes = await _uploadService.ReadImageAsync(image.LocalPath, cancellationToken);
+            return imageBytes is null ? null : new ProductImageContent(imageBytes, "image/jpeg");
+        }
+
+        if (!Uri.TryCreate(image.ImageUrl, UriKind.Absolute, out var uri) ||
+            (uri.Scheme != "http" && uri.Scheme != "https"))
+        {
+            return null;
+        }
+
+        using var httpClient = _httpClientFactory.CreateClient("ImageDownload");
+        httpClient.Timeout = TimeSpan.FromSeconds(30);
+
+        try
+        {
+            using var response = await httpClient.GetAsync(uri, cancellationToken);
+            response.EnsureSuccessStatusCode();
+            var contentType = response.Content.Headers.ContentType?.MediaType?.ToLowerInvariant();
+            var imageBytes = await response.Content.ReadAsByteArrayAsync(cancellationToken);
+
+            return new ProductImageContent(
+                imageBytes,
+                contentType is not null && contentType.StartsWith("image/") ? contentType : "image/jpeg");
+        }
+        catch (HttpRequestException ex)
+        {
+            _logger.LogWarning(ex, "Failed to download image for product {ProductId} from {ImageUrl}", productId, image.ImageUrl);
+            return null;
+        }
+        catch (TaskCanceledException ex) when (!cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogWarning(ex, "Timed out downloading image for product {ProductId} from {ImageUrl}", productId, image.ImageUrl);
+            return null;
+        }
+    }
+
     /// <inheritdoc />
     public async Task<ProductImageDto> AddFromUrlAsync(
         int productId,
@@ -269,6 +322,7 @@ public sealed class ProductImageService : IProductImageService
         }
 
         image.Embedding = new Vector(embedding);
+        image.VectorizedAt = DateTime.UtcNow;
         await _imageRepository.UpdateAsync(image, cancellationToken);
 
         _logger.LogInformation("Vectorized image {ImageId}", imageId);
@@ -373,6 +427,14 @@ public sealed class ProductImageService : IProductImageService
     }
 
     private async Task<bool> VectorizeImageInternalAsync(ProductImage image, CancellationToken cancellationToken)
+    {
+        return await VectorizeImageWithReasonAsync(image, cancellationToken) is null;
+    }
+
+    /// <summary>
+    /// Vectorizes an image and returns why it failed, or null on success.
+    /// </summary>
+    private async Task<string?> VectorizeImageWithReasonAsync(ProductImage image, CancellationToken cancellationToken)
     {
         float[]? embedding;
 
@@ -383,7 +445,7 @@ public sealed class ProductImageService : IProductImageService
             if (imageBytes is null)
             {
                 _logger.LogWarning("Local file not found for image {ImageId}: {LocalPath}", image.Id, image.LocalPath);
-                return false;
+                return $"Local file not found: {image.LocalPath}.";
             }
 
             embedding = await _vectorizationService.GenerateEmbeddingAsync(imageBytes, cancellationToken);
@@ -396,13 +458,16 @@ public sealed class ProductImageService : IProductImageService
         if (embedding is null)
         {
             _logger.LogWarning("Failed to generate embedding for image {ImageId}", image.Id);
-            return false;
+            return string.IsNullOrWhiteSpace(image.LocalPath)
+                ? "The image could not be downloaded or decoded."
+                : "The local file could not be decoded.";
         }
 
         image.Embedding = new Vector(embedding);
+        image.VectorizedAt = DateTime.UtcNow;
         await _imageRepository.UpdateAsync(image, cancellationToken);
 
-        return true;
+        return null;
     }
 
     private async Task ClearPrimaryImagesAsync(int productId, CancellationToken cancellationToken)
@@ -677,6 +742,7 @@ public sealed class ProductImageService : IProductImageService
             if (embedding is not null)
             {
                 image.Embedding = new Vector(embedding);
+                image.VectorizedAt = DateTime.UtcNow;
                 _logger.LogInformation("Re-vectorized image {ImageId} after URL change", imageId);
             }
             else
@@ -713,54 +779,21 @@ public sealed class ProductImageService : IProductImageService
     }
 
     /// <inheritdoc />
-    public async Task<AllVectorizationResultDto> VectorizeAllAdminAsync(bool force = false, CancellationToken cancellationToken = default)
+    public async Task<IReadOnlyList<int>> GetImageIdsToVectorizeAsync(bool force = false, CancellationToken cancellationToken = default)
     {
-        if (!_vectorizationService.IsAvailable)
-        {
-            throw new InvalidOperationException("Vectorization is not available. CLIP model not loaded.");
-        }
-
-        // Get all images
-        var productIds = await GetAllProductIdsAsync(cancellationToken);
-        var allImages = new List<ProductImage>();
-
-        foreach (var productId in productIds)
-        {
-            var productImages = await _imageRepository.GetByProductAsync(productId, cancellationToken);
-            if (force)
-            {
-                allImages.AddRange(productImages);
-            }
-            else
-            {
-                allImages.AddRange(productImages.Where(i => i.Embedding is null));
-            }
-        }
-
-        var total = allImages.Count;
-        var successCount = 0;
-
-        _logger.LogInformation("Starting admin batch vectorization of {Count} images (force={Force})", total, force);
+        return await _imageRepository.GetIdsForVectorizationAsync(includeVectorized: force, cancellationToken);
+    }
 
-        foreach (var image in allImages)
+    /// <inheritdoc />
+    public async Task<ImageVectorizationOutcome> TryVectorizeImageAsync(int imageId, CancellationToken cancellationToken = default)
+    {
+        var image = await _imageRepository.GetByIdAsync(imageId, cancellationToken);
+        if (image is null)
         {
-            if (cancellationToken.IsCancellationRequested)
-            {
-                break;
-            }
-
-            if (await VectorizeImageInternalAsync(image, cancellationToken))
-            {
-                successCount++;
-            }
+            return new ImageVectorizationOutcome(imageId, null, null, "Image no longer exists.");
         }
 
-        _logger.LogInformation("Admin batch vectorization completed: {Success}/{Total}", successCount, total);
-
-        return new AllVectorizationResultDto(
-            TotalImages: total,
-            VectorizedImages: successCount,
-            SkippedOrFailed: total - successCount
-        );
+        var error = await VectorizeImageWithReasonAsync(image, cancellationToken);
+        return new ImageVectorizationOutcome(image.Id, image.ProductId, image.ImageUrl, error);
     }
 }
@@ -32,39 +32,14 @@ public sealed class ProductImportService
     public async Task<ExtractedProductsPagedResult> GetExtractedProductsAsync(
         int page,
         int pageSize,
-        ExtractedProductStatus? status = null,
-        int? providerId = null,
-        long? jobId = null,
-        string? search = null,
+        ExtractedProductFilter filter,
         CancellationToken cancellationToken = default)
     {
-        var query = _db.CrawlExtractedProducts
-            .Include(e => e.Provider)
-            .Include(e => e.CrawlJob)
-            .AsQueryable();
-
-        if (status.HasValue)
-        {
-            query = query.Where(e => e.Status == status.Value);
-        }
-
-        if (providerId.HasValue)
-        {
-            query = query.Where(e => e.ProviderId == providerId.Value);
-        }
-
-        if (jobId.HasValue)
-        {
-            query = query.Where(e => e.CrawlJobId == jobId.Value);
-        }
-
-        if (!string.IsNullOrWhiteSpace(search))
-        {
-            var searchLower = search.ToLower();
-            query = query.Where(e =>
-                (e.Name != null && e.Name.ToLower().Contains(searchLower)) ||
-                (e.ExternalId != null && e.ExternalId.ToLower().Contains(searchLower)));
-        }
+        var query = ApplyFilter(
+            _db.CrawlExtractedProducts
+                .Include(e => e.Provider)
+                .Include(e => e.CrawlJob),
+            filter);
 
         var totalCount = await query.CountAsync(cancellationToken);
         var totalPages = (int)Math.Ceiling(totalCount / (double)pageSize);
@@ -124,6 +99,20 @@ public sealed class ProductImportService
         };
     }
 
+    /// <summary>
+    /// Gets the IDs of all extracted products matching the filter, newest first, for bulk review
+    /// across pages.
+    /// </summary>
+    public async Task<IReadOnlyList<long>> GetExtractedProductIdsAsync(
+        ExtractedProductFilter filter,
+        CancellationToken cancellationToken = default)
+    {
+        return await ApplyFilter(_db.CrawlExtractedProducts, filter)
+            .OrderByDescending(e => e.CreatedAt)
+            .Select(e => e.Id)
+            .ToListAsync(cancellationToken);
+    }
+
     /// <summary>
     /// Gets statistics about extracted products.
     /// </summary>
@@ -146,11 +135,13 @@ public sealed class ProductImportService
 
     /// <summary>
     /// Approves and imports an extracted product to the products table.
+    /// Reviewer corrections in <paramref name="edits"/> are saved on the extracted product first.
     /// </summary>
     public async Task<ImportResult> ApproveAsync(
         long extractedProductId,
         int adminUserId,
         int? categoryId = null,
+        ExtractedProductEdits? edits = null,
         CancellationToken cancellationToken = default)
     {
         var extracted = await _db.CrawlExtractedProducts
@@ -167,55 +158,174 @@ public sealed class ProductImportService
             return ImportResult.AlreadyProcessed(extracted.Status);
         }
 
-        // Check for existing product with same provider + external ID
-        if (!string.IsNullOrWhiteSpace(extracted.ExternalId))
+        if (edits != null && ApplyEdits(extracted, edits) is { } editError)
         {
-            var existingProduct = await _db.Products
-                .FirstOrDefaultAsync(p =>
-                    p.ProviderId == extracted.ProviderId &&
-                    p.ExternalId == extracted.ExternalId, cancellationToken);
+            return ImportResult.Invalid(editError);
+        }
 
-            if (existingProduct != null)
+        // Check for an existing product of the same provider with the same external ID
+        var (existingProduct, _) = await FindExistingProductAsync(extracted, cancellationToken);
+        if (existingProduct != null)
+        {
+            // Mark as duplicate
+            extracted.Status = ExtractedProductStatus.Duplicate;
+            extracted.ImportedProductId = existingProduct.Id;
+            extracted.ReviewedAt = DateTime.UtcNow;
+            extracted.ReviewedByAdminUserId = adminUserId;
+            await _db.SaveChangesAsync(cancellationToken);
+
+            return ImportResult.Duplicate(existingProduct.Id);
+        }
+
+        var productId = await CreateProductAsync(extracted, extracted.ExternalId, categoryId, cancellationToken);
+
+        // Update extracted product status
+        extracted.Status = ExtractedProductStatus.Approved;
+        extracted.ImportedProductId = productId;
+        extracted.ReviewedAt = DateTime.UtcNow;
+        extracted.ReviewedByAdminUserId = adminUserId;
+        await _db.SaveChangesAsync(cancellationToken);
+
+        return ImportResult.Success(productId);
+    }
+
+    /// <summary>
+    /// Gets an extracted product next to the catalog product it duplicates.
+    /// Returns null when the extracted product does not exist.
+    /// </summary>
+    public async Task<DuplicateComparisonDto?> GetDuplicateComparisonAsync(
+        long extractedProductId,
+        CancellationToken cancellationToken = default)
+    {
+        var extracted = await _db.CrawlExtractedProducts
+            .AsNoTracking()
+            .Include(e => e.Provider)
+            .FirstOrDefaultAsync(e => e.Id == extractedProductId, cancellationToken);
+
+        if (extracted == null)
+        {
+            return null;
+        }
+
+        var (existing, matchedOn) = await FindExistingProductAsync(extracted, cancellationToken);
+
+        return new DuplicateComparisonDto
+        {
+            Extracted = MapToDto(extracted),
+            Existing = existing == null ? null : new MatchedProductDto
             {
-                // Mark as duplicate
-                extracted.Status = ExtractedProductStatus.Duplicate;
-                extracted.ImportedProductId = existingProduct.Id;
-                extracted.ReviewedAt = DateTime.UtcNow;
-                extracted.ReviewedByAdminUserId = adminUserId;
-                await _db.SaveChangesAsync(cancellationToken);
-
-                return ImportResult.Duplicate(existingProduct.Id);
-            }
+                Id = existing.Id,
+                ExternalId = existing.ExternalId,
+                Name = existing.Name,
+                Description = existing.Description,
+                Price = existing.Price,
+                Currency = existing.Currency,
+                ProductUrl = existing.ProductUrl,
+                CategoryName = existing.Category?.Name,
+                ImageUrls = existing.Images
+                    .OrderByDescending(i => i.IsPrimary)
+                    .ThenBy(i => i.Id)
+                    .Select(i => i.ImageUrl)
+                    .ToList(),
+                CreatedAt = existing.CreatedAt
+            },
+            MatchedOn = matchedOn
+        };
+    }
+
+    /// <summary>
+    /// Merges a pending or duplicate extracted product into the catalog product it matches:
+    /// the price and currency are updated and images the product doesn't have yet are added.
+    /// </summary>
+    public async Task<ImportResult> MergeIntoExistingAsync(
+        long extractedProductId,
+        int adminUserId,
+        CancellationToken cancellationToken = default)
+    {
+        var extracted = await _db.CrawlExtractedProducts
+            .FirstOrDefaultAsync(e => e.Id == extractedProductId, cancellationToken);
+
+        if (extracted == null)
+        {
+            return ImportResult.NotFound();
         }
 
-        // Create the product
-        var productId = await _productService.CreateAdminProductAsync(
-            providerId: extracted.ProviderId,
-            name: extracted.Name ?? "Unknown Product",
-            externalId: extracted.ExternalId,
-            description: extracted.Description,
-            price: extracted.Price ?? 0,
-            currency: extracted.Currency,
-            categoryId: categoryId,
-            productUrl: extracted.ProductUrl,
-            cancellationToken: cancellationToken);
+        if (!IsReviewable(extracted.Status))
+        {
+            return ImportResult.AlreadyProcessed(extracted.Status);
+        }
 
-        // Import images
-        if (!string.IsNullOrEmpty(extracted.ImageUrlsJson))
+        var (existing, _) = await FindExistingProductAsync(extracted, cancellationToken);
+        if (existing == null)
         {
-            var imageUrls = JsonSerializer.Deserialize<List<string>>(extracted.ImageUrlsJson);
-            if (imageUrls?.Count > 0)
+            return ImportResult.NoMatch();
+        }
+
+        if (extracted.Price.HasValue)
+        {
+            existing.Price = extracted.Price.Value;
+            existing.Currency = extracted.Currency ?? existing.Currency;
+        }
+
+        var knownImageUrls = existing.Images.Select(i => i.ImageUrl).ToHashSet(StringComparer.Ordinal);
+        var hasPrimary = existing.Images.Any(i => i.IsPrimary);
+        foreach (var imageUrl in DeserializeImageUrls(extracted.ImageUrlsJson))
+        {
+            if (knownImageUrls.Add(imageUrl))
             {
-                for (int i = 0; i < imageUrls.Count; i++)
-                {
-                    var isPrimary = i == 0;
-                    await _productImageService.AddFromUrlAsync(
-                        productId, imageUrls[i], isPrimary, cancellationToken);
-                }
+                await _productImageService.AddFromUrlAsync(existing.Id, imageUrl, !hasPrimary, cancellationToken);
+                hasPrimary = true;
             }
         }
 
-        // Update extracted product status
+        extracted.Status = ExtractedProductStatus.Approved;
+        extracted.ImportedProductId = existing.Id;
+        extracted.ReviewedAt = DateTime.UtcNow;
+        extracted.ReviewedByAdminUserId = adminUserId;
+        await _db.SaveChangesAsync(cancellationToken);
+
+        return ImportResult.Success(existing.Id);
+    }
+
+    /// <summary>
+    /// Imports a pending or duplicate extracted product as a new catalog product, even when it
+    /// matches an existing one. The external ID is dropped if another product of the provider
+    /// already uses it, since external IDs are unique per provider.
+    /// </summary>
+    public async Task<ImportResult> ImportAsNewAsync(
+        long extractedProductId,
+        int adminUserId,
+        int? categoryId = null,
+        ExtractedProductEdits? edits = null,
+        CancellationToken cancellationToken = default)
+    {
+        var extracted = await _db.CrawlExtractedProducts
+            .FirstOrDefaultAsync(e => e.Id == extractedProductId, cancellationToken);
+
+        if (extracted == null)
+        {
+            return ImportResult.NotFound();
+        }
+
+        if (!IsReviewable(extracted.Status))
+        {
+            return ImportResult.AlreadyProcessed(extracted.Status);
+        }
+
+        if (edits != null && ApplyEdits(extracted, edits) is { } editError)
+        {
+            return ImportResult.Invalid(editError);
+        }
+
+        var externalId = extracted.ExternalId;
+        if (!string.IsNullOrWhiteSpace(externalId) &&
+            await _db.Products.AnyAsync(p => p.ProviderId == extracted.ProviderId && p.ExternalId == externalId, cancellationToken))
+        {
+            externalId = null;
+        }
+
+        var productId = await CreateProductAsync(extracted, externalId, categoryId, cancellationToken);
+
         extracted.Status = ExtractedProductStatus.Approved;
         extracted.ImportedProductId = productId;
         extracted.ReviewedAt = DateTime.UtcNow;
@@ -226,7 +336,7 @@ public sealed class ProductImportService
     }
 
     /// <summary>
-    /// Rejects an extracted product.
+    /// Rejects a pending or duplicate extracted product.
     /// </summary>
     public async Task<bool> RejectAsync(
         long extractedProductId,
@@ -241,12 +351,13 @@ public sealed class ProductImportService
             return false;
         }
 
-        if (extracted.Status != ExtractedProductStatus.Pending)
+        if (!IsReviewable(extracted.Status))
         {
             return false;
         }
 
         extracted.Status = ExtractedProductStatus.Rejected;
+        extracted.ImportedProductId = null;
         extracted.ReviewedAt = DateTime.UtcNow;
         extracted.ReviewedByAdminUserId = adminUserId;
         await _db.SaveChangesAsync(cancellationToken);
@@ -269,7 +380,7 @@ public sealed class ProductImportService
         {
             try
             {
-                var importResult = await ApproveAsync(id, adminUserId, categoryId, cancellationToken);
+                var importResult = await ApproveAsync(id, adminUserId, categoryId, cancellationToken: cancellationToken);
                 if (importResult.IsSuccess)
                 {
                     result.SuccessCount++;
@@ -335,6 +446,215 @@ public sealed class ProductImportService
 
         return true;
     }
+
+    private static IQueryable<CrawlExtractedProduct> ApplyFilter(
+        IQueryable<CrawlExtractedProduct> query,
+        ExtractedProductFilter filter)
+    {
+        if (filter.Status.HasValue)
+        {
+            query = query.Where(e => e.Status == filter.Status.Value);
+        }
+
+        if (filter.ProviderId.HasValue)
+        {
+            query = query.Where(e => e.ProviderId == filter.ProviderId.Value);
+        }
+
+        if (filter.JobId.HasValue)
+        {
+            query = query.Where(e => e.CrawlJobId == filter.JobId.Value);
+        }
+
+        if (!string.IsNullOrWhiteSpace(filter.Search))
+        {
+            var searchLower = filter.Search.ToLower();
+            query = query.Where(e =>
+                (e.Name != null && e.Name.ToLower().Contains(searchLower)) ||
+                (e.ExternalId != null && e.ExternalId.ToLower().Contains(searchLower)));
+        }
+
+        if (filter.CreatedFrom.HasValue)
+        {
+            var from = filter.CreatedFrom.Value.ToUniversalTime();
+            query = query.Where(e => e.CreatedAt >= from);
+        }
+
+        if (filter.CreatedTo.HasValue)
+        {
+            var to = filter.CreatedTo.Value.ToUniversalTime();
+            query = query.Where(e => e.CreatedAt < to);
+        }
+
+        if (filter.HasPrice.HasValue)
+        {
+            query = filter.HasPrice.Value
+                ? query.Where(e => e.Price != null)
+                : query.Where(e => e.Price == null);
+        }
+
+        if (filter.MinImages.HasValue)
+        {
+            query = query.Where(e => e.ImageCount >= filter.MinImages.Value);
+        }
+
+        if (filter.MaxImages.HasValue)
+        {
+            query = query.Where(e => e.ImageCount <= filter.MaxImages.Value);
+        }
+
+        return query;
+    }
+
+    // Duplicates still need a decision: merge, import as new or reject
+    private static bool IsReviewable(ExtractedProductStatus status) =>
+        status is ExtractedProductStatus.Pending or ExtractedProductStatus.Duplicate;
+
+    /// <summary>
+    /// Finds the catalog product an extracted product duplicates: the product recorded when it was
+    /// marked as duplicate, else one of the same provider with the same external ID.
+    /// URLs aren't compared; products crawled from a listing page without their own link all share its URL.
+    /// </summary>
+    private async Task<(Product? Product, DuplicateMatchField? MatchedOn)> FindExistingProductAsync(
+        CrawlExtractedProduct extracted,
+        CancellationToken cancellationToken)
+    {
+        var products = _db.Products
+            .Include(p => p.Images)
+            .Include(p => p.Category)
+            .Where(p => p.ProviderId == extracted.ProviderId);
+        var hasExternalId = !string.IsNullOrWhiteSpace(extracted.ExternalId);
+
+        // The matching product may have changed its external ID since it was flagged
+        if (extracted.Status == ExtractedProductStatus.Duplicate && extracted.ImportedProductId.HasValue)
+        {
+            var flagged = await products
+                .FirstOrDefaultAsync(p => p.Id == extracted.ImportedProductId.Value, cancellationToken);
+            if (flagged != null)
+            {
+                var stillMatches = hasExternalId && flagged.ExternalId == extracted.ExternalId;
+                return (flagged, stillMatches ? DuplicateMatchField.ExternalId : null);
+            }
+        }
+
+        if (hasExternalId)
+        {
+            var byExternalId = await products
+                .FirstOrDefaultAsync(p => p.ExternalId == extracted.ExternalId, cancellationToken);
+            if (byExternalId != null)
+            {
+                return (byExternalId, DuplicateMatchField.ExternalId);
+            }
+        }
+
+        return (null, null);
+    }
+
+    /// <summary>
+    /// Applies reviewer corrections to an extracted product. Returns why they are invalid, or null.
+    /// Kept images must come from the crawled ones; the first is imported as the primary image.
+    /// </summary>
+    private static string? ApplyEdits(CrawlExtractedProduct extracted, ExtractedProductEdits edits)
+    {
+        if (edits.Name != null && string.IsNullOrWhiteSpace(edits.Name))
+        {
+            return "Name cannot be empty.";
+        }
+
+        if (edits.Price is < 0)
+        {
+            return "Price cannot be negative.";
+        }
+
+        var currency = edits.Currency?.Trim().ToUpperInvariant();
+        if (currency != null && (currency.Length != 3 || !currency.All(char.IsAsciiLetterUpper)))
+        {
+            return "Currency must be a three-letter ISO code.";
+        }
+
+        if (edits.ImageUrls != null)
+        {
+            var crawledImageUrls = DeserializeImageUrls(extracted.ImageUrlsJson);
+            if (edits.ImageUrls.Any(url => !crawledImageUrls.Contains(url)))
+            {
+                return "Only crawled images can be kept.";
+            }
+
+            extracted.ImageUrlsJson = JsonSerializer.Serialize(edits.ImageUrls.Distinct().ToList());
+        }
+
+        if (edits.Name != null)
+        {
+            extracted.Name = edits.Name.Trim();
+        }
+
+        if (edits.Description != null)
+        {
+            extracted.Description = string.IsNullOrWhiteSpace(edits.Description) ? null : edits.Description.Trim();
+        }
+
+        extracted.Price = edits.Price ?? extracted.Price;
+        extracted.Currency = currency ?? extracted.Currency;
+        return null;
+    }
+
+    private async Task<int> CreateProductAsync(
+        CrawlExtractedProduct extracted,
+        string? externalId,
+        int? categoryId,
+        CancellationToken cancellationToken)
+    {
+        var productId = await _productService.CreateAdminProductAsync(
+            providerId: extracted.ProviderId,
+            name: extracted.Name ?? "Unknown Product",
+            externalId: externalId,
+            description: extracted.Description,
+            price: extracted.Price ?? 0,
+            currency: extracted.Currency,
+            categoryId: categoryId,
+            productUrl: extracted.ProductUrl,
+            cancellationToken: cancellationToken);
+
+        // Import images
+        var imageUrls = DeserializeImageUrls(extracted.ImageUrlsJson);
+        for (int i = 0; i < imageUrls.Count; i++)
+        {
+            var isPrimary = i == 0;
+            await _productImageService.AddFromUrlAsync(
+                productId, imageUrls[i], isPrimary, cancellationToken);
+        }
+
+        return productId;
+    }
+
+    private static List<string> DeserializeImageUrls(string? imageUrlsJson)
+    {
+        return !string.IsNullOrEmpty(imageUrlsJson)
+            ? JsonSerializer.Deserialize<List<string>>(imageUrlsJson) ?? []
+            : [];
+    }
+
+    private static ExtractedProductDto MapToDto(CrawlExtractedProduct extracted)
+    {
+        return new ExtractedProductDto
+        {
+            Id = extracted.Id,
+            CrawlJobId = extracted.CrawlJobId,
+            ProviderId = extracted.ProviderId,
+            ProviderName = extracted.Provider?.Name,
+            ExternalId = extracted.ExternalId,
+            Name = extracted.Name,
+            Description = extracted.Description,
+            Price = extracted.Price,
+            Currency = extracted.Currency,
+            ProductUrl = extracted.ProductUrl,
+            ImageUrls = DeserializeImageUrls(extracted.ImageUrlsJson),
+            Status = extracted.Status,
+            ImportedProductId = extracted.ImportedProductId,
+            ReviewedAt = extracted.ReviewedAt,
+            CreatedAt = extracted.CreatedAt
+        };
+    }
 }
 
 /// <summary>
@@ -346,6 +666,9 @@ public sealed class ImportResult
     public bool IsNotFound { get; private set; }
     public bool IsAlreadyProcessed { get; private set; }
     public bool IsDuplicate { get; private set; }
+    public bool IsNoMatch { get; private set; }
+    public bool IsInvalid { get; private set; }
+    public string? Error { get; private set; }
     public int? ProductId { get; private set; }
     public ExtractedProductStatus? PreviousStatus { get; private set; }
 
@@ -355,8 +678,26 @@ public sealed class ImportResult
         new() { IsAlreadyProcessed = true, PreviousStatus = status };
     public static ImportResult Duplicate(int existingProductId) =>
         new() { IsDuplicate = true, ProductId = existingProductId };
+    public static ImportResult NoMatch() => new() { IsNoMatch = true };
+    public static ImportResult Invalid(string error) => new() { IsInvalid = true, Error = error };
 }
 
+/// <summary>
+/// Reviewer corrections applied to an extracted product when it is imported.
+/// Null values keep what was crawled.
+/// </summary>
+/// <param name="Name">Corrected product name.</param>
+/// <param name="Description">Corrected description; an empty string clears it.</param>
+/// <param name="Price">Corrected price.</param>
+/// <param name="Currency">Corrected ISO currency code.</param>
+/// <param name="ImageUrls">Crawled images to keep, primary image first.</param>
+public sealed record ExtractedProductEdits(
+    string? Name,
+    string? Description,
+    decimal? Price,
+    string? Currency,
+    IReadOnlyList<string>? ImageUrls);
+
 /// <summary>
 /// Result of a bulk import operation.
 /// </summary>
@@ -368,6 +709,35 @@ public sealed class BulkImportResult
     public List<int> ImportedProductIds { get; set; } = [];
 }
 
+/// <summary>
+/// Filters for the extracted product review queue. Unset filters match everything.
+/// </summary>
+public sealed class ExtractedProductFilter
+{
+    public ExtractedProductStatus? Status { get; set; }
+    public int? ProviderId { get; set; }
+    public long? JobId { get; set; }
+
+    /// <summary>
+    /// Matches name or external ID, case-insensitively.
+    /// </summary>
+    public string? Search { get; set; }
+
+    /// <summary>
+    /// Inclusive lower bound on when the product was extracted.
+    /// </summary>
+    public DateTime? CreatedFrom { get; set; }
+
+    /// <summary>
+    /// Exclusive upper bound on when the product was extracted.
+    /// </summary>
+    public DateTime? CreatedTo { get; set; }
+
+    public bool? HasPrice { get; set; }
+    public int? MinImages { get; set; }
+    public int? MaxImages { get; set; }
+}
+
 /// <summary>
 /// DTO for extracted product display.
 /// </summary>
@@ -390,6 +760,42 @@ public sealed class ExtractedProductDto
     public DateTime CreatedAt { get; set; }
 }
 
+/// <summary>
+/// Which field an extracted product matched an existing catalog product on.
+/// </summary>
+public enum DuplicateMatchField
+{
+    ExternalId = 0
+}
+
+/// <summary>
+/// Catalog product an extracted product is compared against.
+/// </summary>
+public sealed class MatchedProductDto
+{
+    public int Id { get; set; }
+    public string? ExternalId { get; set; }
+    public required string Name { get; set; }
+    public string? Description { get; set; }
+    public decimal Price { get; set; }
+    public required string Currency { get; set; }
+    public string? ProductUrl { get; set; }
+    public string? CategoryName { get; set; }
+    public List<string> ImageUrls { get; set; } = [];
+    public DateTime CreatedAt { get; set; }
+}
+
+/// <summary>
+/// An extracted product next to the catalog product it duplicates.
+/// Existing is null when no catalog product matches.
+/// </summary>
+public sealed class DuplicateComparisonDto
+{
+    public required ExtractedProductDto Extracted { get; set; }
+    public MatchedProductDto? Existing { get; set; }
+    public DuplicateMatchField? MatchedOn { get; set; }
+}
+
 /// <summary>
 /// Paged result for extracted products.
 /// </summary>
@@ -10,21 +10,29 @@ namespace VisualSearch.Api.Application.Services;
 /// </summary>
 public sealed class ProductService
 {
+    /// <summary>
+    /// Maximum number of products a single bulk or lookup request may name.
+    /// </summary>
+    public const int MaxBulkProducts = 500;
+
     private readonly IProductRepository _productRepository;
     private readonly IProviderRepository _providerRepository;
     private readonly ICategoryRepository _categoryRepository;
     private readonly IProductImageRepository _productImageRepository;
+    private readonly IProductImageService _productImageService;
 
     public ProductService(
         IProductRepository productRepository,
         IProviderRepository providerRepository,
         ICategoryRepository categoryRepository,
-        IProductImageRepository productImageRepository)
+        IProductImageRepository productImageRepository,
+        IProductImageService productImageService)
     {
         _productRepository = productRepository;
         _providerRepository = providerRepository;
         _categoryRepository = categoryRepository;
         _productImageRepository = productImageRepository;
+        _productImageService = productImageService;
     }
 
     public async Task<PagedResult<ProductSummaryDto>> GetProductsPagedAsync(
@@ -36,7 +44,7 @@ public sealed class ProductService
         CancellationToken cancellationToken = default)
     {
         var (items, totalCount) = await _productRepository.GetPagedAsync(
-            page, pageSize, providerId, categoryId, search, cancellationToken);
+            page, pageSize, providerId, categoryId, search, cancellationToken: cancellationToken);
 
         var dtos = items.Select(MapToSummaryDto);
         var totalPages = (int)Math.Ceiling(totalCount / (double)pageSize);
@@ -53,10 +61,11 @@ public sealed class ProductService
         int? providerId = null,
         int? categoryId = null,
         string? search = null,
+        bool? vectorized = null,
         CancellationToken cancellationToken = default)
     {
         var (items, totalCount) = await _productRepository.GetPagedAsync(
-            page, pageSize, providerId, categoryId, search, cancellationToken);
+            page, pageSize, providerId, categoryId, search, vectorized, cancellationToken);
 
         var dtos = items.Select(MapToAdminDto).ToList();
         var totalPages = (int)Math.Ceiling(totalCount / (double)pageSize);
@@ -71,6 +80,32 @@ public sealed class ProductService
         };
     }
 
+    /// <summary>
+    /// Gets the IDs of all products matching the admin list filters, newest first.
+    /// </summary>
+    public async Task<IReadOnlyList<int>> GetAdminProductIdsAsync(
+        int? providerId = null,
+        int? categoryId = null,
+        string? search = null,
+        bool? vectorized = null,
+        CancellationToken cancellationToken = default)
+    {
+        return await _productRepository.GetIdsAsync(providerId, categoryId, search, vectorized, cancellationToken);
+    }
+
+    /// <summary>
+    /// Gets products by ID for admin dashboard. Unknown IDs are skipped.
+    /// </summary>
+    public async Task<IReadOnlyList<AdminProductDto>> GetAdminProductsByIdsAsync(
+        IReadOnlyCollection<int> ids,
+        CancellationToken cancellationToken = default)
+    {
+        EnsureBulkSize(ids.Count);
+
+        var products = await _productRepository.GetByIdsWithImagesAsync(ids, cancellationToken);
+        return products.Select(MapToAdminDto).ToList();
+    }
+
     public async Task<ProductDto?> GetProductByIdAsync(int id, CancellationToken cancellationToken = default)
     {
         var product = await _productRepository.GetWithImagesAsync(id, cancellationToken);
@@ -319,6 +354,72 @@ public sealed class ProductService
         return true;
     }
 
+    /// <summary>
+    /// Applies one action to many products, continuing past individual failures.
+    /// </summary>
+    public async Task<BulkProductActionResultDto> ExecuteBulkActionAsync(
+        BulkProductActionRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        var ids = request.Ids.Distinct().ToList();
+        EnsureBulkSize(ids.Count);
+
+        // Check the target once up front instead of failing every product with the same error
+        switch (request.Action)
+        {
+            case BulkProductAction.SetCategory when request.CategoryId is > 0:
+                if (!await _categoryRepository.ExistsAsync(request.CategoryId.Value, cancellationToken))
+                {
+                    throw new InvalidOperationException($"Category with ID {request.CategoryId.Value} not found.");
+                }
+                break;
+
+            case BulkProductAction.SetProvider:
+                if (request.ProviderId is null)
+                {
+                    throw new InvalidOperationException("A target provider is required.");
+                }
+                if (!await _providerRepository.ExistsAsync(request.ProviderId.Value, cancellationToken))
+                {
+                    throw new InvalidOperationException($"Provider with ID {request.ProviderId.Value} not found.");
+                }
+                break;
+
+            case BulkProductAction.Vectorize:
+                if (!_productImageService.IsVectorizationAvailable)
+                {
+                    throw new InvalidOperationException("Vectorization is not available. CLIP model not loaded.");
+                }
+                break;
+        }
+
+        var products = (await _productRepository.GetByIdsWithImagesAsync(ids, cancellationToken))
+            .ToDictionary(p => p.Id);
+        var results = new List<BulkProductItemResultDto>(ids.Count);
+
+        foreach (var id in ids)
+        {
+            if (!products.TryGetValue(id, out var product))
+            {
+                results.Add(new BulkProductItemResultDto(id, null, false, "Product not found."));
+                continue;
+            }
+
+            try
+            {
+                var error = await ApplyBulkActionAsync(product, request, cancellationToken);
+                results.Add(new BulkProductItemResultDto(id, product.Name, error is null, error));
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                results.Add(new BulkProductItemResultDto(id, product.Name, false, ex.Message));
+            }
+        }
+
+        var succeeded = results.Count(r => r.Succeeded);
+        return new BulkProductActionResultDto(request.Action, succeeded, results.Count - succeeded, results);
+    }
+
     public async Task<IEnumerable<ProductDto>> GetProductsByProviderAsync(int providerId, CancellationToken cancellationToken = default)
     {
         var products = await _productRepository.GetByProviderAsync(providerId, cancellationToken);
@@ -331,6 +432,66 @@ public sealed class ProductService
         return products.Select(MapToDto);
     }
 
+    /// <summary>
+    /// Applies a bulk action to one product and returns why it failed, or null on success.
+    /// </summary>
+    private async Task<string?> ApplyBulkActionAsync(
+        Product product,
+        BulkProductActionRequest request,
+        CancellationToken cancellationToken)
+    {
+        switch (request.Action)
+        {
+            case BulkProductAction.Delete:
+                await DeleteAdminProductAsync(product.Id, cancellationToken);
+                return null;
+
+            case BulkProductAction.SetCategory:
+                await UpdateAdminProductAsync(product.Id, null, null, null, null, null, null,
+                    request.CategoryId ?? 0, null, cancellationToken);
+                return null;
+
+            case BulkProductAction.SetProvider:
+                var providerId = request.ProviderId!.Value;
+                if (product.ExternalId is not null &&
+                    await _productRepository.ExternalIdExistsAsync(providerId, product.ExternalId, product.Id, cancellationToken))
+                {
+                    return $"The target provider already has a product with external ID '{product.ExternalId}'.";
+                }
+
+                await UpdateAdminProductAsync(product.Id, providerId, null, null, null, null, null,
+                    null, null, cancellationToken);
+                return null;
+
+            case BulkProductAction.Vectorize:
+                if (product.Images.Count == 0)
+                {
+                    return "Product has no images.";
+                }
+
+                var vectorized = await _productImageService.VectorizeProductImagesAsync(product.Id, cancellationToken);
+                return vectorized == product.Images.Count
+                    ? null
+                    : $"{product.Images.Count - vectorized} of {product.Images.Count} images could not be vectorized.";
+
+            default:
+                throw new InvalidOperationException($"Unknown bulk action: {request.Action}.");
+        }
+    }
+
+    private static void EnsureBulkSize(int count)
+    {
+        if (count == 0)
+        {
+            throw new InvalidOperationException("No product IDs provided.");
+        }
+
+        if (count > MaxBulkProducts)
+        {
+            throw new InvalidOperationException($"At most {MaxBulkProducts} products can be processed per request.");
+        }
+    }
+
     private static ProductDto MapToDto(Product product)
     {
         return new ProductDto(
@@ -16,6 +16,7 @@ public sealed class VisualSearchService
     private readonly VectorizationService _vectorizationService;
     private readonly ClipEmbeddingService _clipEmbeddingService;
     private readonly ObjectDetectionService _objectDetectionService;
+    private readonly SearchMetricsService _searchMetricsService;
     private readonly ILogger<VisualSearchService> _logger;
     private readonly SearchSettings _searchSettings;
 
@@ -24,6 +25,7 @@ public sealed class VisualSearchService
         VectorizationService vectorizationService,
         ClipEmbeddingService clipEmbeddingService,
         ObjectDetectionService objectDetectionService,
+        SearchMetricsService searchMetricsService,
         IOptions<ModelSettings> settings,
         ILogger<VisualSearchService> logger)
     {
@@ -31,6 +33,7 @@ public sealed class VisualSearchService
         _vectorizationService = vectorizationService;
         _clipEmbeddingService = clipEmbeddingService;
         _objectDetectionService = objectDetectionService;
+        _searchMetricsService = searchMetricsService;
         _searchSettings = settings.Value.Search;
         _logger = logger;
     }
@@ -173,9 +176,13 @@ public sealed class VisualSearchService
             allResults.Count,
             allResults.Sum(r => r.Results.Count));
 
+        var embeddingTimeMs = timings.GetValueOrDefault("DetectAndEmbed") + timings.GetValueOrDefault("FallbackEmbedding");
+        _searchMetricsService.Record(embeddingTimeMs, totalSw.ElapsedMilliseconds);
+
         return new VisualSearchResultDto(
             DetectedObjects: allResults,
             ProcessingTimeMs: (int)totalSw.ElapsedMilliseconds,
+            EmbeddingTimeMs: (int)embeddingTimeMs,
             UsedObjectDetection: usedObjectDetection,
             ClipModelLoaded: _clipEmbeddingService.IsModelLoaded,
             YoloModelLoaded: _objectDetectionService.IsModelLoaded
@@ -220,6 +227,7 @@ public sealed class VisualSearchService
 public record VisualSearchResultDto(
     List<DetectedObjectResultDto> DetectedObjects,
     int ProcessingTimeMs,
+    int EmbeddingTimeMs,
     bool UsedObjectDetection,
     bool ClipModelLoaded,
     bool YoloModelLoaded
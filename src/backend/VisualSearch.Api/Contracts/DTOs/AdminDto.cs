@@ -18,6 +18,32 @@ public record AdminDashboardStatsDto(
     double VectorizationProgress
 );
 
+/// <summary>
+/// A single bucket of a dashboard time series.
+/// </summary>
+/// <param name="Timestamp">Start of the bucket (UTC).</param>
+/// <param name="Count">Number of events in the bucket.</param>
+public record TimeSeriesPointDto(
+    DateTime Timestamp,
+    int Count
+);
+
+/// <summary>
+/// Dashboard activity over a date range. Every bucket in the range is present, empty ones with a zero count.
+/// </summary>
+/// <param name="From">Start of the range (UTC).</param>
+/// <param name="To">End of the range (UTC).</param>
+/// <param name="ProductsAdded">Products created per day.</param>
+/// <param name="ImagesVectorized">Images whose embedding was generated per day.</param>
+/// <param name="CrawlPagesFetched">Crawl pages fetched per hour.</param>
+public record DashboardTimeSeriesDto(
+    DateTime From,
+    DateTime To,
+    IReadOnlyList<TimeSeriesPointDto> ProductsAdded,
+    IReadOnlyList<TimeSeriesPointDto> ImagesVectorized,
+    IReadOnlyList<TimeSeriesPointDto> CrawlPagesFetched
+);
+
 // ========== Provider DTOs ==========
 
 /// <summary>
@@ -99,6 +125,54 @@ public record AdminPagedResult<T>
     public int TotalPages { get; init; }
 }
 
+// ========== Bulk Product Actions ==========
+
+/// <summary>
+/// Action applied to every selected product in a bulk request.
+/// </summary>
+public enum BulkProductAction
+{
+    /// <summary>Deletes the products and their images.</summary>
+    Delete = 0,
+
+    /// <summary>Moves the products to a category, or clears it.</summary>
+    SetCategory = 1,
+
+    /// <summary>Moves the products to another provider.</summary>
+    SetProvider = 2,
+
+    /// <summary>Regenerates CLIP embeddings for the products' images.</summary>
+    Vectorize = 3
+}
+
+/// <summary>
+/// Outcome of a bulk product action.
+/// </summary>
+/// <param name="Action">The action that was applied.</param>
+/// <param name="Succeeded">Products the action was applied to.</param>
+/// <param name="Failed">Products the action failed for.</param>
+/// <param name="Results">Per-product results, in request order.</param>
+public record BulkProductActionResultDto(
+    BulkProductAction Action,
+    int Succeeded,
+    int Failed,
+    IReadOnlyList<BulkProductItemResultDto> Results
+);
+
+/// <summary>
+/// Result of a bulk action for a single product.
+/// </summary>
+/// <param name="ProductId">The product ID.</param>
+/// <param name="Name">The product name, when the product exists.</param>
+/// <param name="Succeeded">Whether the action was applied.</param>
+/// <param name="Error">Why the action failed, when it did.</param>
+public record BulkProductItemResultDto(
+    int ProductId,
+    string? Name,
+    bool Succeeded,
+    string? Error
+);
+
 // ========== Vectorization Results ==========
 
 /// <summary>
@@ -111,12 +185,67 @@ public record ProductVectorizationResultDto(
 );
 
 /// <summary>
-/// Result of vectorizing all images.
+/// State of a "vectorize all" run.
 /// </summary>
-public record AllVectorizationResultDto(
+public enum VectorizationRunStatus
+{
+    /// <summary>Images are being listed or vectorized.</summary>
+    Running = 0,
+
+    /// <summary>Every listed image was processed.</summary>
+    Completed = 1,
+
+    /// <summary>An admin canceled the run before it finished.</summary>
+    Canceled = 2,
+
+    /// <summary>The run stopped on an unexpected error.</summary>
+    Failed = 3
+}
+
+/// <summary>
+/// Progress of the current or most recent "vectorize all" run.
+/// </summary>
+/// <param name="Status">The run state.</param>
+/// <param name="Force">Whether images that already had embeddings are regenerated.</param>
+/// <param name="TotalImages">Images selected for the run.</param>
+/// <param name="ProcessedImages">Images attempted so far.</param>
+/// <param name="SucceededImages">Images that got a new embedding.</param>
+/// <param name="FailedImages">Images that could not be vectorized.</param>
+/// <param name="StartedAt">When the run started (UTC).</param>
+/// <param name="FinishedAt">When the run stopped (UTC).</param>
+/// <param name="EstimatedSecondsRemaining">Time left at the current rate, once at least one image is processed.</param>
+/// <param name="CancelRequested">Whether cancellation was requested while the run is still stopping.</param>
+/// <param name="Error">Why the run failed, when it did.</param>
+/// <param name="Failures">The most recent per-image failures.</param>
+public record VectorizationRunDto(
+    VectorizationRunStatus Status,
+    bool Force,
     int TotalImages,
-    int VectorizedImages,
-    int SkippedOrFailed
+    int ProcessedImages,
+    int SucceededImages,
+    int FailedImages,
+    DateTime StartedAt,
+    DateTime? FinishedAt,
+    double? EstimatedSecondsRemaining,
+    bool CancelRequested,
+    string? Error,
+    IReadOnlyList<VectorizationFailureDto> Failures
+);
+
+/// <summary>
+/// An image that could not be vectorized during a run.
+/// </summary>
+/// <param name="ImageId">The image ID.</param>
+/// <param name="ProductId">The owning product, when the image still exists.</param>
+/// <param name="ImageUrl">The image source URL, when the image still exists.</param>
+/// <param name="Reason">Why vectorization failed.</param>
+/// <param name="FailedAt">When the failure happened (UTC).</param>
+public record VectorizationFailureDto(
+    int ImageId,
+    int? ProductId,
+    string? ImageUrl,
+    string Reason,
+    DateTime FailedAt
 );
 
 // ========== System Status ==========
@@ -124,9 +253,103 @@ public record AllVectorizationResultDto(
 /// <summary>
 /// Admin system status DTO.
 /// </summary>
+/// <param name="ClipModelLoaded">Whether the CLIP embedding model is loaded.</param>
+/// <param name="YoloModelLoaded">Whether the YOLO detection model is loaded.</param>
+/// <param name="VectorizationAvailable">Whether images can be vectorized.</param>
+/// <param name="ObjectDetectionAvailable">Whether object detection can be used during search.</param>
+/// <param name="Database">Database connectivity.</param>
+/// <param name="Worker">Crawler worker activity, inferred from crawl job leases.</param>
+/// <param name="SearchLatency">Latency of recent visual searches.</param>
+/// <param name="Storage">Disk usage of uploaded images.</param>
+/// <param name="CheckedAt">When the status was collected (UTC).</param>
 public record AdminSystemStatusDto(
     bool ClipModelLoaded,
     bool YoloModelLoaded,
     bool VectorizationAvailable,
-    bool ObjectDetectionAvailable
+    bool ObjectDetectionAvailable,
+    DatabaseStatusDto Database,
+    WorkerStatusDto Worker,
+    SearchLatencyDto SearchLatency,
+    StorageUsageDto Storage,
+    DateTime CheckedAt
+);
+
+/// <summary>
+/// Database connectivity status.
+/// </summary>
+/// <param name="Connected">Whether the database answered.</param>
+/// <param name="LatencyMs">Round-trip time of the connectivity check.</param>
+/// <param name="Error">Why the check failed, when it did.</param>
+public record DatabaseStatusDto(
+    bool Connected,
+    long? LatencyMs,
+    string? Error
+);
+
+/// <summary>
+/// Crawler worker state as seen from the crawl job table.
+/// </summary>
+public enum WorkerState
+{
+    /// <summary>No jobs are waiting and none are running.</summary>
+    Idle = 0,
+
+    /// <summary>A worker holds a live lease on a running job.</summary>
+    Active = 1,
+
+    /// <summary>Jobs are waiting or leases have expired without a worker picking them up.</summary>
+    Stalled = 2,
+
+    /// <summary>The state could not be determined, usually because the database is unreachable.</summary>
+    Unknown = 3
+}
+
+/// <summary>
+/// Crawler worker status.
+/// </summary>
+/// <param name="State">The inferred worker state.</param>
+/// <param name="RunningJobs">Jobs currently marked as running.</param>
+/// <param name="QueuedJobs">Jobs waiting for a worker.</param>
+/// <param name="OldestQueuedAt">Creation time of the oldest queued job (UTC).</param>
+/// <param name="LastJobStartedAt">When a worker last started a job (UTC).</param>
+public record WorkerStatusDto(
+    WorkerState State,
+    int RunningJobs,
+    int QueuedJobs,
+    DateTime? OldestQueuedAt,
+    DateTime? LastJobStartedAt
+);
+
+/// <summary>
+/// Latency of recent visual searches, measured by this API instance.
+/// </summary>
+/// <param name="SampleCount">Number of searches in the window.</param>
+/// <param name="AverageEmbeddingMs">Mean detection and embedding time.</param>
+/// <param name="P95EmbeddingMs">95th percentile detection and embedding time.</param>
+/// <param name="AverageTotalMs">Mean total search time.</param>
+/// <param name="P95TotalMs">95th percentile total search time.</param>
+/// <param name="LastSearchAt">When the most recent search finished (UTC).</param>
+public record SearchLatencyDto(
+    int SampleCount,
+    double? AverageEmbeddingMs,
+    long? P95EmbeddingMs,
+    double? AverageTotalMs,
+    long? P95TotalMs,
+    DateTime? LastSearchAt
+);
+
+/// <summary>
+/// Disk usage of uploaded images.
+/// </summary>
+/// <param name="UsedBytes">Total size of uploaded files.</param>
+/// <param name="FileCount">Number of uploaded files.</param>
+/// <param name="FreeBytes">Free space on the uploads volume.</param>
+/// <param name="TotalBytes">Size of the uploads volume.</param>
+/// <param name="MeasuredAt">When the usage was measured (UTC).</param>
+public record StorageUsageDto(
+    long UsedBytes,
+    int FileCount,
+    long? FreeBytes,
+    long? TotalBytes,
+    DateTime MeasuredAt
 );
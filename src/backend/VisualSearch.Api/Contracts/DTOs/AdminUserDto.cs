@@ -7,19 +7,23 @@ namespace VisualSearch.Api.Contracts.DTOs;
 /// <param name="Username">The username.</param>
 /// <param name="CreatedAt">When the user was created.</param>
 /// <param name="LastLoginAt">When the user last logged in.</param>
+/// <param name="MustChangePassword">Whether the user must change their password at next login.</param>
 public record AdminUserDto(
     int Id,
     string Username,
     DateTime CreatedAt,
-    DateTime? LastLoginAt
+    DateTime? LastLoginAt,
+    bool MustChangePassword
 );
 
 /// <summary>
 /// DTO for creating a new admin user.
 /// </summary>
 /// <param name="Username">The username.</param>
-/// <param name="Password">The password.</param>
+/// <param name="Password">The initial password.</param>
+/// <param name="MustChangePassword">Whether the user must choose a new password at first login.</param>
 public record CreateAdminUserDto(
     string Username,
-    string Password
+    string Password,
+    bool MustChangePassword = true
 );
@@ -0,0 +1,48 @@
+namespace VisualSearch.Api.Contracts.DTOs;
+
+/// <summary>
+/// What a catalog import does, or would do in a dry run, with one row.
+/// </summary>
+public enum CatalogImportRowAction
+{
+    /// <summary>No product matches the row's external ID, so a new one is created.</summary>
+    Create = 0,
+
+    /// <summary>The provider already has a product with the row's external ID, so it is updated.</summary>
+    Update = 1,
+
+    /// <summary>The row failed validation and is skipped.</summary>
+    Invalid = 2
+}
+
+/// <summary>
+/// Outcome of importing one batch of catalog rows.
+/// </summary>
+/// <param name="DryRun">Whether the batch was only validated.</param>
+/// <param name="Created">Rows that created (or would create) a product.</param>
+/// <param name="Updated">Rows that updated (or would update) a product.</param>
+/// <param name="Invalid">Rows that were skipped because of validation errors.</param>
+/// <param name="ImagesAdded">Image URLs added to products. Images are stored without embeddings.</param>
+/// <param name="Rows">Per-row results, in request order.</param>
+public record CatalogImportResultDto(
+    bool DryRun,
+    int Created,
+    int Updated,
+    int Invalid,
+    int ImagesAdded,
+    IReadOnlyList<CatalogImportRowResultDto> Rows
+);
+
+/// <summary>
+/// Result for a single catalog row.
+/// </summary>
+/// <param name="RowNumber">The row number in the source file, as sent by the client.</param>
+/// <param name="Action">What happened to the row.</param>
+/// <param name="ProductId">The created or updated product; for dry-run updates, the product that would change.</param>
+/// <param name="Errors">Validation errors, when the row is invalid.</param>
+public record CatalogImportRowResultDto(
+    int RowNumber,
+    CatalogImportRowAction Action,
+    int? ProductId,
+    IReadOnlyList<string> Errors
+);
@@ -0,0 +1,45 @@
+using VisualSearch.Contracts.Crawling;
+
+namespace VisualSearch.Api.Contracts.DTOs;
+
+/// <summary>
+/// A recurring crawl of a provider, with its next and last run.
+/// </summary>
+/// <param name="Id">The schedule ID.</param>
+/// <param name="ProviderId">The crawled provider.</param>
+/// <param name="ProviderName">The crawled provider's name.</param>
+/// <param name="Frequency">How often the schedule runs.</param>
+/// <param name="TimeOfDay">Local time for daily and weekly schedules, as "HH:mm".</param>
+/// <param name="DayOfWeek">Day for weekly schedules.</param>
+/// <param name="CronExpression">Cron expression for cron schedules.</param>
+/// <param name="TimeZoneId">IANA time zone the schedule is evaluated in.</param>
+/// <param name="StartUrl">Entry URL for the jobs; null uses the provider website URL.</param>
+/// <param name="SitemapUrl">Sitemap URL for the jobs.</param>
+/// <param name="MaxPages">Page limit per job.</param>
+/// <param name="IsEnabled">Whether the schedule is active.</param>
+/// <param name="NextRunAt">When the schedule is next due (UTC); null while paused.</param>
+/// <param name="LastRunAt">When the schedule last came due (UTC).</param>
+/// <param name="LastJobId">The job queued by the last run, if it queued one.</param>
+/// <param name="LastJobStatus">Current status of that job.</param>
+/// <param name="LastSkipReason">Why the last run did not queue a job.</param>
+/// <param name="CreatedAt">When the schedule was created (UTC).</param>
+public record CrawlScheduleDto(
+    int Id,
+    int ProviderId,
+    string ProviderName,
+    CrawlScheduleFrequency Frequency,
+    string? TimeOfDay,
+    DayOfWeek? DayOfWeek,
+    string? CronExpression,
+    string TimeZoneId,
+    string? StartUrl,
+    string? SitemapUrl,
+    int? MaxPages,
+    bool IsEnabled,
+    DateTime? NextRunAt,
+    DateTime? LastRunAt,
+    long? LastJobId,
+    CrawlJobStatus? LastJobStatus,
+    string? LastSkipReason,
+    DateTime CreatedAt
+);
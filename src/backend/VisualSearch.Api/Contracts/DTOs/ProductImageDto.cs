@@ -7,3 +7,13 @@ public record ProductImageDto(
     bool IsPrimary,
     DateTime CreatedAt
 );
+
+/// <summary>
+/// The bytes of a stored product image, for serving it from this origin.
+/// </summary>
+/// <param name="Bytes">The image bytes.</param>
+/// <param name="ContentType">The image media type.</param>
+public record ProductImageContent(
+    byte[] Bytes,
+    string ContentType
+);
@@ -6,3 +6,23 @@ public record SystemStatusDto(
     bool DatabaseConnected,
     string ApiVersion
 );
+
+/// <summary>
+/// Response of the unauthenticated health check.
+/// </summary>
+/// <param name="Status">Always "Healthy" when the API answers.</param>
+/// <param name="Timestamp">Server time (UTC).</param>
+/// <param name="Models">Model load state.</param>
+public record HealthCheckResponse(
+    string Status,
+    DateTime Timestamp,
+    HealthCheckModels Models
+);
+
+/// <summary>
+/// Model load state reported by the health check.
+/// </summary>
+public record HealthCheckModels(
+    bool ClipLoaded,
+    bool YoloLoaded
+);
@@ -19,3 +19,21 @@ public record VectorizationProgressDto(
     string? CurrentImageUrl,
     string Status
 );
+
+/// <summary>
+/// Outcome of vectorizing a single image as part of a batch run.
+/// </summary>
+/// <param name="ImageId">The image ID.</param>
+/// <param name="ProductId">The owning product, when the image was found.</param>
+/// <param name="ImageUrl">The image source URL, when the image was found.</param>
+/// <param name="Error">Why vectorization failed, or null when it succeeded.</param>
+public record ImageVectorizationOutcome(
+    int ImageId,
+    int? ProductId,
+    string? ImageUrl,
+    string? Error
+)
+{
+    /// <summary>Whether the image got a new embedding.</summary>
+    public bool Succeeded => Error is null;
+}
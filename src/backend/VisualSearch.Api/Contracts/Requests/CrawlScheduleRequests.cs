@@ -0,0 +1,54 @@
+using System.ComponentModel.DataAnnotations;
+using VisualSearch.Contracts.Crawling;
+
+namespace VisualSearch.Api.Contracts.Requests;
+
+/// <summary>
+/// Creates a recurring crawl of a provider.
+/// </summary>
+/// <param name="ProviderId">The provider to crawl.</param>
+/// <param name="Frequency">How often the schedule runs.</param>
+/// <param name="TimeOfDay">Local time for daily and weekly schedules, as "HH:mm".</param>
+/// <param name="DayOfWeek">Day for weekly schedules.</param>
+/// <param name="CronExpression">Five-field cron expression for cron schedules, evaluated in the schedule's time zone.</param>
+/// <param name="TimeZoneId">IANA time zone, e.g. "Europe/Madrid".</param>
+/// <param name="StartUrl">Entry URL for the jobs; defaults to the provider website URL.</param>
+/// <param name="SitemapUrl">Optional sitemap URL for the jobs.</param>
+/// <param name="MaxPages">Optional page limit per job.</param>
+/// <param name="IsEnabled">Whether the schedule starts active.</param>
+public record CreateCrawlScheduleRequest(
+    [Required] int ProviderId,
+    [Required] CrawlScheduleFrequency Frequency,
+    string? TimeOfDay,
+    DayOfWeek? DayOfWeek,
+    [MaxLength(100)] string? CronExpression,
+    [Required][MaxLength(100)] string TimeZoneId,
+    [Url][MaxLength(2048)] string? StartUrl,
+    [Url][MaxLength(2048)] string? SitemapUrl,
+    [Range(1, int.MaxValue)] int? MaxPages,
+    bool IsEnabled = true
+);
+
+/// <summary>
+/// Replaces a crawl schedule's settings. Changing the timing or re-enabling the schedule recomputes its next run.
+/// </summary>
+/// <param name="Frequency">How often the schedule runs.</param>
+/// <param name="TimeOfDay">Local time for daily and weekly schedules, as "HH:mm".</param>
+/// <param name="DayOfWeek">Day for weekly schedules.</param>
+/// <param name="CronExpression">Five-field cron expression for cron schedules, evaluated in the schedule's time zone.</param>
+/// <param name="TimeZoneId">IANA time zone, e.g. "Europe/Madrid".</param>
+/// <param name="StartUrl">Entry URL for the jobs; defaults to the provider website URL.</param>
+/// <param name="SitemapUrl">Optional sitemap URL for the jobs.</param>
+/// <param name="MaxPages">Optional page limit per job.</param>
+/// <param name="IsEnabled">Whether the schedule is active; false pauses it.</param>
+public record UpdateCrawlScheduleRequest(
+    [Required] CrawlScheduleFrequency Frequency,
+    string? TimeOfDay,
+    DayOfWeek? DayOfWeek,
+    [MaxLength(100)] string? CronExpression,
+    [Required][MaxLength(100)] string TimeZoneId,
+    [Url][MaxLength(2048)] string? StartUrl,
+    [Url][MaxLength(2048)] string? SitemapUrl,
+    [Range(1, int.MaxValue)] int? MaxPages,
+    bool IsEnabled
+);
@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using VisualSearch.Api.Contracts.DTOs;
 
 namespace VisualSearch.Api.Contracts.Requests;
 
@@ -21,3 +22,61 @@ public record UpdateProductRequest(
     [Required] int ProviderId,
     int? CategoryId
 );
+
+/// <summary>
+/// Applies one action to many products.
+/// </summary>
+/// <param name="Action">The action to apply.</param>
+/// <param name="Ids">The products to apply it to.</param>
+/// <param name="CategoryId">Target category for <see cref="BulkProductAction.SetCategory"/>; null clears the category.</param>
+/// <param name="ProviderId">Target provider for <see cref="BulkProductAction.SetProvider"/>.</param>
+public record BulkProductActionRequest(
+    [Required] BulkProductAction Action,
+    [Required] int[] Ids,
+    int? CategoryId,
+    int? ProviderId
+);
+
+/// <summary>
+/// A set of product IDs.
+/// </summary>
+/// <param name="Ids">The product IDs.</param>
+public record ProductIdsRequest(
+    [Required] int[] Ids
+);
+
+/// <summary>
+/// A batch of catalog rows to upsert into one provider's products.
+/// </summary>
+/// <param name="ProviderId">The provider the rows belong to.</param>
+/// <param name="DryRun">When true, rows are validated and classified but nothing is saved.</param>
+/// <param name="Rows">The rows, already mapped from the source file's columns.</param>
+public record CatalogImportRequest(
+    [Required] int ProviderId,
+    bool DryRun,
+    [Required] CatalogImportRowRequest[] Rows
+);
+
+/// <summary>
+/// One product row of a catalog import. Null fields leave existing values unchanged on update.
+/// </summary>
+/// <param name="RowNumber">The row number in the source file, echoed back in results.</param>
+/// <param name="ExternalId">The provider's product ID; rows are matched on it. Rows without one always create a product.</param>
+/// <param name="Name">The product name.</param>
+/// <param name="Description">The product description.</param>
+/// <param name="Price">The product price.</param>
+/// <param name="Currency">ISO 4217 currency code.</param>
+/// <param name="CategoryId">The category ID.</param>
+/// <param name="ProductUrl">Link to the product page.</param>
+/// <param name="ImageUrls">Image URLs; the first becomes primary when the product has none.</param>
+public record CatalogImportRowRequest(
+    int RowNumber,
+    string? ExternalId,
+    string? Name,
+    string? Description,
+    decimal? Price,
+    string? Currency,
+    int? CategoryId,
+    string? ProductUrl,
+    string[]? ImageUrls
+);
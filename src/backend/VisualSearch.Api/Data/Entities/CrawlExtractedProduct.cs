@@ -78,6 +78,11 @@ public class CrawlExtractedProduct
     /// </summary>
     public string? ImageUrlsJson { get; set; }
 
+    /// <summary>
+    /// Gets the number of image URLs, computed by the database from <see cref="ImageUrlsJson"/>.
+    /// </summary>
+    public int ImageCount { get; private set; }
+
     /// <summary>
     /// Gets or sets the raw extraction payload as JSON for auditing.
     /// </summary>
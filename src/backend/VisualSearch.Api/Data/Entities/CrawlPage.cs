@@ -73,6 +73,11 @@ public class CrawlPage
     /// </summary>
     public DateTime? FetchedAt { get; set; }
 
+    /// <summary>
+    /// Gets or sets how long fetching and parsing the page took, in milliseconds.
+    /// </summary>
+    public int? DurationMs { get; set; }
+
     /// <summary>
     /// Gets or sets the extracted products found on this page.
     /// </summary>
@@ -0,0 +1,100 @@
+using VisualSearch.Contracts.Crawling;
+
+namespace VisualSearch.Api.Data.Entities;
+
+/// <summary>
+/// Represents a recurring crawl of a provider. The worker queues a crawl job whenever
+/// the schedule is due, unless a job for the provider is still queued, running or paused.
+/// </summary>
+public class CrawlSchedule
+{
+    /// <summary>
+    /// Gets or sets the unique identifier for the schedule.
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// Gets or sets the provider foreign key.
+    /// </summary>
+    public int ProviderId { get; set; }
+
+    /// <summary>
+    /// Gets or sets the navigation property to the provider.
+    /// </summary>
+    public Provider? Provider { get; set; }
+
+    /// <summary>
+    /// Gets or sets how often the schedule runs.
+    /// </summary>
+    public CrawlScheduleFrequency Frequency { get; set; }
+
+    /// <summary>
+    /// Gets or sets the local time of day for daily and weekly schedules.
+    /// </summary>
+    public TimeOnly? TimeOfDay { get; set; }
+
+    /// <summary>
+    /// Gets or sets the day of week for weekly schedules.
+    /// </summary>
+    public DayOfWeek? DayOfWeek { get; set; }
+
+    /// <summary>
+    /// Gets or sets the five-field cron expression for cron schedules.
+    /// </summary>
+    public string? CronExpression { get; set; }
+
+    /// <summary>
+    /// Gets or sets the IANA time zone the schedule is evaluated in (e.g. "Europe/Madrid").
+    /// </summary>
+    public required string TimeZoneId { get; set; }
+
+    /// <summary>
+    /// Gets or sets the URL the scheduled jobs start from. When null, the provider website URL is used.
+    /// </summary>
+    public string? StartUrl { get; set; }
+
+    /// <summary>
+    /// Gets or sets the optional sitemap URL for scheduled jobs.
+    /// </summary>
+    public string? SitemapUrl { get; set; }
+
+    /// <summary>
+    /// Gets or sets the optional maximum number of pages per scheduled job.
+    /// </summary>
+    public int? MaxPages { get; set; }
+
+    /// <summary>
+    /// Gets or sets whether the schedule is active. Paused schedules keep their settings but don't run.
+    /// </summary>
+    public bool IsEnabled { get; set; } = true;
+
+    /// <summary>
+    /// Gets or sets when the schedule is next due (UTC). Null while paused.
+    /// </summary>
+    public DateTime? NextRunAt { get; set; }
+
+    /// <summary>
+    /// Gets or sets when the schedule last came due (UTC), whether or not it queued a job.
+    /// </summary>
+    public DateTime? LastRunAt { get; set; }
+
+    /// <summary>
+    /// Gets or sets the job queued by the last run.
+    /// </summary>
+    public long? LastJobId { get; set; }
+
+    /// <summary>
+    /// Gets or sets the navigation property to the job queued by the last run.
+    /// </summary>
+    public CrawlJob? LastJob { get; set; }
+
+    /// <summary>
+    /// Gets or sets why the last run did not queue a job, e.g. because another job was still running.
+    /// </summary>
+    public string? LastSkipReason { get; set; }
+
+    /// <summary>
+    /// Gets or sets the date and time when the schedule was created (UTC).
+    /// </summary>
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+}
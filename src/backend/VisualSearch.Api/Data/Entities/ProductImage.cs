@@ -38,6 +38,11 @@ public class ProductImage
     /// </summary>
     public Vector? Embedding { get; set; }
 
+    /// <summary>
+    /// Gets or sets the date and time when the embedding was last generated (UTC).
+    /// </summary>
+    public DateTime? VectorizedAt { get; set; }
+
     /// <summary>
     /// Gets or sets whether this is the primary/main image for the product.
     /// </summary>
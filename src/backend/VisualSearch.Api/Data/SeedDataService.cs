@@ -1,6 +1,7 @@
 using Microsoft.AspNetCore.Identity;
 using Microsoft.EntityFrameworkCore;
 using VisualSearch.Api.Data.Entities;
+using VisualSearch.Api.Services;
 
 namespace VisualSearch.Api.Data;
 
@@ -90,75 +91,32 @@ public class SeedDataService : IHostedService
 
     private async Task SeedSettingsAsync(VisualSearchDbContext dbContext, CancellationToken cancellationToken)
     {
-        if (await dbContext.Settings.AnyAsync(cancellationToken))
+        // Settings added in later versions are seeded too; existing values are never overwritten
+        var existingKeys = await dbContext.Settings
+            .Select(s => s.Key)
+            .ToListAsync(cancellationToken);
+
+        var missingSettings = SettingDefinitions.All
+            .Where(d => !existingKeys.Contains(d.Key))
+            .Select(d => new Setting
+            {
+                Key = d.Key,
+                Value = d.DefaultValue,
+                Type = d.Type,
+                Category = d.Category,
+                Description = d.Description
+            })
+            .ToList();
+
+        if (missingSettings.Count == 0)
         {
             _logger.LogInformation("Settings already exist, skipping settings seed.");
             return;
         }
 
-        var defaultSettings = new List<Setting>
-        {
-            new()
-            {
-                Key = "search.maxImageSize",
-                Value = "800",
-                Type = SettingType.Integer,
-                Category = "search",
-                Description = "Maximum image dimension (width/height) in pixels for preprocessing before search"
-            },
-            new()
-            {
-                Key = "search.jpegQuality",
-                Value = "85",
-                Type = SettingType.Integer,
-                Category = "search",
-                Description = "JPEG quality (1-100) for image compression during preprocessing"
-            },
-            new()
-            {
-                Key = "search.maxResults",
-                Value = "20",
-                Type = SettingType.Integer,
-                Category = "search",
-                Description = "Maximum number of search results to return"
-            },
-            new()
-            {
-                Key = "ui.siteName",
-                Value = "Visual Search",
-                Type = SettingType.String,
-                Category = "ui",
-                Description = "The site name displayed in the header and browser title"
-            },
-            new()
-            {
-                Key = "ui.welcomeMessage",
-                Value = "Discover products through visual search. Upload an image to find similar items.",
-                Type = SettingType.String,
-                Category = "ui",
-                Description = "Welcome message displayed on the home page"
-            },
-            new()
-            {
-                Key = "ui.primaryColor",
-                Value = "#8B7355",
-                Type = SettingType.String,
-                Category = "ui",
-                Description = "Primary accent color for the UI"
-            },
-            new()
-            {
-                Key = "ui.showSimilarityScore",
-                Value = "true",
-                Type = SettingType.Boolean,
-                Category = "ui",
-                Description = "Whether to show similarity percentage on search results"
-            }
-        };
-
-        dbContext.Settings.AddRange(defaultSettings);
+        dbContext.Settings.AddRange(missingSettings);
         await dbContext.SaveChangesAsync(cancellationToken);
-        _logger.LogInformation("Seeded {Count} default settings", defaultSettings.Count);
+        _logger.LogInformation("Seeded {Count} default settings", missingSettings.Count);
     }
 
     private async Task SeedAdminUserAsync(VisualSearchDbContext dbContext, IPasswordHasher<AdminUser> passwordHasher, CancellationToken cancellationToken)
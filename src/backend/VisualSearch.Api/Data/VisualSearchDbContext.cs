@@ -68,6 +68,11 @@ public class VisualSearchDbContext : DbContext
     /// </summary>
     public DbSet<CrawlExtractedProduct> CrawlExtractedProducts => Set<CrawlExtractedProduct>();
 
+    /// <summary>
+    /// Gets or sets the crawl schedules DbSet.
+    /// </summary>
+    public DbSet<CrawlSchedule> CrawlSchedules => Set<CrawlSchedule>();
+
     /// <inheritdoc/>
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -204,6 +209,9 @@ public class VisualSearchDbContext : DbContext
                 .HasColumnName("embedding")
                 .HasColumnType("vector(768)");
 
+            entity.Property(e => e.VectorizedAt)
+                .HasColumnName("vectorized_at");
+
             entity.Property(e => e.IsPrimary)
                 .HasColumnName("is_primary")
                 .HasDefaultValue(false);
@@ -219,6 +227,7 @@ public class VisualSearchDbContext : DbContext
 
             entity.HasIndex(e => e.ProductId);
             entity.HasIndex(e => e.IsPrimary);
+            entity.HasIndex(e => e.VectorizedAt);
 
             // Note: HNSW index will be added in migration via raw SQL
         });
@@ -467,6 +476,9 @@ public class VisualSearchDbContext : DbContext
             entity.Property(e => e.FetchedAt)
                 .HasColumnName("fetched_at");
 
+            entity.Property(e => e.DurationMs)
+                .HasColumnName("duration_ms");
+
             entity.HasOne(e => e.CrawlJob)
                 .WithMany(j => j.Pages)
                 .HasForeignKey(e => e.CrawlJobId)
@@ -525,6 +537,10 @@ public class VisualSearchDbContext : DbContext
                 .HasColumnName("image_urls_json")
                 .HasColumnType("text");
 
+            entity.Property(e => e.ImageCount)
+                .HasColumnName("image_count")
+                .HasComputedColumnSql("jsonb_array_length(COALESCE(image_urls_json, '[]')::jsonb)", stored: true);
+
             entity.Property(e => e.RawJson)
                 .HasColumnName("raw_json")
                 .HasColumnType("text");
@@ -581,5 +597,84 @@ public class VisualSearchDbContext : DbContext
                 .HasFilter("external_id IS NOT NULL");
             entity.HasIndex(e => e.CreatedAt);
         });
+
+        // Configure CrawlSchedule entity
+        modelBuilder.Entity<CrawlSchedule>(entity =>
+        {
+            entity.ToTable("crawl_schedules");
+
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Id)
+                .HasColumnName("id");
+
+            entity.Property(e => e.ProviderId)
+                .HasColumnName("provider_id");
+
+            entity.Property(e => e.Frequency)
+                .HasColumnName("frequency")
+                .HasConversion<int>();
+
+            entity.Property(e => e.TimeOfDay)
+                .HasColumnName("time_of_day");
+
+            entity.Property(e => e.DayOfWeek)
+                .HasColumnName("day_of_week")
+                .HasConversion<int?>();
+
+            entity.Property(e => e.CronExpression)
+                .HasColumnName("cron_expression")
+                .HasMaxLength(100);
+
+            entity.Property(e => e.TimeZoneId)
+                .HasColumnName("time_zone_id")
+                .HasMaxLength(100)
+                .IsRequired();
+
+            entity.Property(e => e.StartUrl)
+                .HasColumnName("start_url")
+                .HasMaxLength(2048);
+
+            entity.Property(e => e.SitemapUrl)
+                .HasColumnName("sitemap_url")
+                .HasMaxLength(2048);
+
+            entity.Property(e => e.MaxPages)
+                .HasColumnName("max_pages");
+
+            entity.Property(e => e.IsEnabled)
+                .HasColumnName("is_enabled")
+                .HasDefaultValue(true);
+
+            entity.Property(e => e.NextRunAt)
+                .HasColumnName("next_run_at");
+
+            entity.Property(e => e.LastRunAt)
+                .HasColumnName("last_run_at");
+
+            entity.Property(e => e.LastJobId)
+                .HasColumnName("last_job_id");
+
+            entity.Property(e => e.LastSkipReason)
+                .HasColumnName("last_skip_reason")
+                .HasMaxLength(500);
+
+            entity.Property(e => e.CreatedAt)
+                .HasColumnName(CreatedAtColumnName)
+                .HasDefaultValueSql(CurrentTimestampSql);
+
+            entity.HasOne(e => e.Provider)
+                .WithMany()
+                .HasForeignKey(e => e.ProviderId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.LastJob)
+                .WithMany()
+                .HasForeignKey(e => e.LastJobId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasIndex(e => e.ProviderId);
+            entity.HasIndex(e => new { e.IsEnabled, e.NextRunAt });
+        });
     }
 }
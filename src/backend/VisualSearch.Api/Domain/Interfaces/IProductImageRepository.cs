@@ -58,6 +58,13 @@ public interface IProductImageRepository : IRepository<ProductImage, int>
     /// </summary>
     Task<int> GetVectorizedCountAsync(CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Gets the IDs of images to vectorize, ordered by product.
+    /// </summary>
+    /// <param name="includeVectorized">Whether to include images that already have embeddings.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    Task<List<int>> GetIdsForVectorizationAsync(bool includeVectorized, CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Gets an image by ID ensuring it belongs to the specified product.
     /// </summary>
@@ -18,6 +18,13 @@ public interface IProductImageService
     /// </summary>
     Task<IEnumerable<ProductImageDto>> GetByProductIdAsync(int productId, CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Loads one of a product's images, downloading it server-side when it isn't stored locally.
+    /// Picks the image with the given URL, falling back to the primary image.
+    /// Returns null when the product has no images or the image can't be loaded.
+    /// </summary>
+    Task<ProductImageContent?> GetImageContentAsync(int productId, string? imageUrl = null, CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Adds a new image to a product from a URL.
     /// </summary>
@@ -87,10 +94,16 @@ public interface IProductImageService
     Task<VectorizationResultDto> VectorizeAllAsync(IProgress<VectorizationProgressDto>? progress = null, CancellationToken cancellationToken = default);
 
     /// <summary>
-    /// Generates embeddings for all images (optionally including those with existing embeddings).
-    /// Returns admin-specific result DTO.
+    /// Gets the IDs of images a "vectorize all" run should process.
+    /// </summary>
+    /// <param name="force">Whether to include images that already have embeddings.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    Task<IReadOnlyList<int>> GetImageIdsToVectorizeAsync(bool force = false, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Generates the embedding for a single image, reporting why it failed instead of only whether it did.
     /// </summary>
-    Task<AllVectorizationResultDto> VectorizeAllAdminAsync(bool force = false, CancellationToken cancellationToken = default);
+    Task<ImageVectorizationOutcome> TryVectorizeImageAsync(int imageId, CancellationToken cancellationToken = default);
 
     /// <summary>
     /// Checks if vectorization service is available.
@@ -10,6 +10,7 @@ public interface IProductRepository : IRepository<Product, int>
         int? providerId = null,
         int? categoryId = null,
         string? search = null,
+        bool? vectorized = null,
         CancellationToken cancellationToken = default);
     
     Task<IEnumerable<Product>> GetByProviderAsync(int providerId, CancellationToken cancellationToken = default);
@@ -17,4 +18,7 @@ public interface IProductRepository : IRepository<Product, int>
     Task<Product?> GetWithImagesAsync(int id, CancellationToken cancellationToken = default);
     Task<int> GetCountByProviderAsync(int providerId, CancellationToken cancellationToken = default);
     Task<int> GetCountByCategoryAsync(int categoryId, CancellationToken cancellationToken = default);
+    Task<List<int>> GetIdsAsync(int? providerId = null, int? categoryId = null, string? search = null, bool? vectorized = null, CancellationToken cancellationToken = default);
+    Task<List<Product>> GetByIdsWithImagesAsync(IEnumerable<int> ids, CancellationToken cancellationToken = default);
+    Task<bool> ExternalIdExistsAsync(int providerId, string externalId, int excludeProductId, CancellationToken cancellationToken = default);
 }
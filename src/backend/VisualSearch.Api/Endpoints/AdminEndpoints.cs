@@ -1,3 +1,5 @@
+using System.Security.Claims;
+using System.Text.Json;
 using Microsoft.AspNetCore.Mvc;
 using VisualSearch.Api.Application.Services;
 using VisualSearch.Api.Contracts.DTOs;
@@ -14,6 +16,8 @@ namespace VisualSearch.Api.Endpoints;
 /// </summary>
 public static class AdminEndpoints
 {
+    private static readonly JsonSerializerOptions SseJsonOptions = new(JsonSerializerDefaults.Web);
+
     /// <summary>
     /// Maps the admin endpoints to the application.
     /// </summary>
@@ -25,126 +29,257 @@ public static class AdminEndpoints
 
         // Dashboard stats
         group.MapGet("/stats", GetStatsAsync)
+            .Produces<AdminDashboardStatsDto>(200)
             .WithName("GetStats")
             .WithDescription("Gets dashboard statistics.");
 
+        group.MapGet("/stats/timeseries", GetStatsTimeSeriesAsync)
+            .Produces<DashboardTimeSeriesDto>(200)
+            .Produces(400)
+            .WithName("GetStatsTimeSeries")
+            .WithDescription("Gets products added and images vectorized per day, and crawl pages fetched per hour.");
+
         // User endpoints
         group.MapGet("/users", GetUsersAsync)
+            .Produces<IReadOnlyList<AdminUserDto>>(200)
             .WithName("GetUsers")
             .WithDescription("Gets all admin users.");
 
         group.MapPost("/users", CreateUserAsync)
+            .Produces<AdminUserDto>(201)
+            .Produces(400)
             .WithName("CreateUser")
             .WithDescription("Creates a new admin user.");
 
         group.MapDelete("/users/{id:int}", DeleteUserAsync)
+            .Produces(204)
+            .Produces(400)
             .WithName("DeleteUser")
-            .WithDescription("Deletes an admin user.");
+            .WithDescription("Deletes an admin user. The current user cannot delete themselves.");
 
         // Provider endpoints
         group.MapGet("/providers", GetProvidersAsync)
+            .Produces<IReadOnlyList<AdminProviderDto>>(200)
             .WithName("GetProviders")
             .WithDescription("Gets all providers.");
 
         group.MapGet("/providers/{id:int}", GetProviderByIdAsync)
+            .Produces<AdminProviderDto>(200)
+            .Produces(404)
             .WithName("GetProviderById")
             .WithDescription("Gets a provider by ID.");
 
         group.MapPost("/providers", CreateProviderAsync)
+            .Produces<AdminProviderDto>(201)
+            .Produces(400)
             .WithName("CreateProvider")
             .WithDescription("Creates a new provider.");
 
         group.MapPut("/providers/{id:int}", UpdateProviderAsync)
+            .Produces<AdminProviderDto>(200)
+            .Produces(400)
+            .Produces(404)
             .WithName("UpdateProvider")
             .WithDescription("Updates a provider.");
 
         group.MapDelete("/providers/{id:int}", DeleteProviderAsync)
+            .Produces(204)
+            .Produces(404)
             .WithName("DeleteProvider")
             .WithDescription("Deletes a provider and all its products.");
 
+        // Crawl schedule endpoints
+        group.MapGet("/schedules", GetSchedulesAsync)
+            .Produces<IReadOnlyList<CrawlScheduleDto>>(200)
+            .WithName("GetCrawlSchedules")
+            .WithDescription("Gets recurring crawl schedules, optionally for one provider.");
+
+        group.MapPost("/schedules", CreateScheduleAsync)
+            .Produces<CrawlScheduleDto>(201)
+            .Produces(400)
+            .WithName("CreateCrawlSchedule")
+            .WithDescription("Creates a recurring crawl schedule for a provider.");
+
+        group.MapPut("/schedules/{id:int}", UpdateScheduleAsync)
+            .Produces<CrawlScheduleDto>(200)
+            .Produces(400)
+            .Produces(404)
+            .WithName("UpdateCrawlSchedule")
+            .WithDescription("Updates a crawl schedule. Setting IsEnabled to false pauses it.");
+
+        group.MapDelete("/schedules/{id:int}", DeleteScheduleAsync)
+            .Produces(204)
+            .Produces(404)
+            .WithName("DeleteCrawlSchedule")
+            .WithDescription("Deletes a crawl schedule. Jobs it already queued are kept.");
+
         // Category endpoints
         group.MapGet("/categories", GetCategoriesAsync)
+            .Produces<IReadOnlyList<AdminCategoryDto>>(200)
             .WithName("GetCategories")
             .WithDescription("Gets all categories.");
 
+        group.MapGet("/categories/detection-classes", GetDetectionClasses)
+            .Produces<IReadOnlyList<string>>(200)
+            .WithName("GetDetectionClasses")
+            .WithDescription("Gets the object detector's class names, indexed by COCO class ID.");
+
         group.MapGet("/categories/{id:int}", GetCategoryByIdAsync)
+            .Produces<AdminCategoryDto>(200)
+            .Produces(404)
             .WithName("GetCategoryById")
             .WithDescription("Gets a category by ID.");
 
         group.MapPost("/categories", CreateCategoryAsync)
+            .Produces<AdminCategoryDto>(201)
+            .Produces(400)
             .WithName("CreateCategory")
             .WithDescription("Creates a new category.");
 
         group.MapPut("/categories/{id:int}", UpdateCategoryAsync)
+            .Produces<AdminCategoryDto>(200)
+            .Produces(400)
+            .Produces(404)
             .WithName("UpdateCategory")
             .WithDescription("Updates a category.");
 
         group.MapDelete("/categories/{id:int}", DeleteCategoryAsync)
+            .Produces(204)
+            .Produces(400)
+            .Produces(404)
             .WithName("DeleteCategory")
             .WithDescription("Deletes a category. Fails if products are associated.");
 
         group.MapPatch("/categories/{id:int}/detection", ToggleCategoryDetectionAsync)
+            .Produces<AdminCategoryDto>(200)
+            .Produces(404)
             .WithName("ToggleCategoryDetection")
             .WithDescription("Toggles detection enabled for a category.");
 
         // Product endpoints
         group.MapGet("/products", GetProductsAsync)
+            .Produces<AdminPagedResult<AdminProductDto>>(200)
             .WithName("GetProducts")
             .WithDescription("Gets products with pagination.");
 
+        group.MapGet("/products/ids", GetProductIdsAsync)
+            .Produces<IReadOnlyList<int>>(200)
+            .WithName("GetProductIds")
+            .WithDescription("Gets the IDs of all products matching the list filters, for selecting across pages.");
+
+        group.MapPost("/products/by-ids", GetProductsByIdsAsync)
+            .Produces<IReadOnlyList<AdminProductDto>>(200)
+            .Produces(400)
+            .WithName("GetProductsByIds")
+            .WithDescription("Gets up to 500 products by ID.");
+
+        group.MapPost("/products/bulk", BulkProductActionAsync)
+            .Produces<BulkProductActionResultDto>(200)
+            .Produces(400)
+            .WithName("BulkProductAction")
+            .WithDescription("Deletes, recategorizes, moves or vectorizes up to 500 products, reporting the result for each.");
+
+        group.MapPost("/products/import", ImportProductsAsync)
+            .Produces<CatalogImportResultDto>(200)
+            .Produces(400)
+            .WithName("ImportProducts")
+            .WithDescription("Validates and upserts up to 200 catalog rows for a provider, matching existing products by external ID. Set dryRun to only validate.");
+
         group.MapGet("/products/{id:int}", GetProductByIdAsync)
+            .Produces<AdminProductDto>(200)
+            .Produces(404)
             .WithName("GetProductById")
             .WithDescription("Gets a product by ID.");
 
         group.MapPost("/products", CreateProductAsync)
+            .Produces<ProductIdResponse>(201)
+            .Produces(400)
             .WithName("CreateProduct")
             .WithDescription("Creates a new product.");
 
         group.MapPut("/products/{id:int}", UpdateProductAsync)
+            .Produces<ProductIdResponse>(200)
+            .Produces(400)
+            .Produces(404)
             .WithName("UpdateProduct")
             .WithDescription("Updates a product.");
 
         group.MapDelete("/products/{id:int}", DeleteProductAsync)
+            .Produces(204)
+            .Produces(404)
             .WithName("DeleteProduct")
             .WithDescription("Deletes a product and all its images.");
 
         // Product image endpoints
         group.MapPost("/products/{productId:int}/images", AddProductImageAsync)
+            .Produces<AdminProductImageDto>(201)
+            .Produces(400)
+            .Produces(404)
             .WithName("AddProductImage")
             .WithDescription("Adds an image to a product with automatic CLIP embedding generation.");
 
         group.MapPut("/products/{productId:int}/images/{imageId:int}", UpdateProductImageAsync)
+            .Produces<AdminProductImageDto>(200)
+            .Produces(404)
             .WithName("UpdateProductImage")
             .WithDescription("Updates a product image. Triggers re-vectorization if URL changes.");
 
         group.MapDelete("/products/{productId:int}/images/{imageId:int}", DeleteProductImageAsync)
+            .Produces(204)
+            .Produces(404)
             .WithName("DeleteProductImage")
             .WithDescription("Deletes a product image.");
 
         // Image upload endpoint
         group.MapPost("/products/{productId:int}/images/upload", UploadProductImageAsync)
+            .Produces<AdminProductImageDto>(201)
+            .Produces(400)
+            .Produces(404)
             .WithName("UploadProductImage")
             .WithDescription("Uploads an image file to a product with automatic resize, compression, and CLIP embedding generation.")
             .DisableAntiforgery();
 
         // Image download from URL endpoint (server-side download to avoid CORS)
         group.MapPost("/products/{productId:int}/images/download", DownloadAndSaveProductImageAsync)
+            .Produces<AdminProductImageDto>(201)
+            .Produces(400)
+            .Produces(404)
             .WithName("DownloadProductImage")
             .WithDescription("Downloads an image from a URL and saves it locally with automatic resize, compression, and CLIP embedding generation.");
 
         // Vectorization endpoints
         group.MapPost("/products/{productId:int}/vectorize", VectorizeProductAsync)
+            .Produces<ProductVectorizationResultDto>(200)
+            .Produces(400)
+            .Produces(404)
             .WithName("VectorizeProduct")
             .WithDescription("Regenerates CLIP embeddings for all images of a product.");
 
-        group.MapPost("/vectorize-all", VectorizeAllAsync)
+        group.MapPost("/vectorize-all", VectorizeAll)
+            .Produces<VectorizationRunDto>(200)
+            .Produces(400)
             .WithName("VectorizeAll")
-            .WithDescription("Regenerates CLIP embeddings for all product images.");
+            .WithDescription("Starts a background run that generates CLIP embeddings for all product images without one, or for every image when forced.");
+
+        group.MapPost("/vectorize-all/cancel", CancelVectorizeAll)
+            .Produces<VectorizationRunDto>(200)
+            .Produces(400)
+            .WithName("CancelVectorizeAll")
+            .WithDescription("Cancels the running vectorization run after the current image.");
+
+        // SSE endpoint (EventSource cannot send Authorization headers)
+        app.MapGet("/api/admin/vectorize-all/sse", HandleVectorizationSseConnectionAsync)
+            .AllowAnonymous()
+            .Produces(200, contentType: "text/event-stream")
+            .WithName("VectorizationSSE")
+            .WithTags("Admin")
+            .WithDescription("Server-Sent Events endpoint for vectorization run progress. Requires a short-lived SSE ticket.");
 
         // System info
         group.MapGet("/system-status", GetSystemStatusAsync)
+            .Produces<AdminSystemStatusDto>(200)
             .WithName("GetSystemStatus")
-            .WithDescription("Gets AI model loading status and system info.");
+            .WithDescription("Gets AI model, database, worker, search latency and storage status.");
     }
 
     // ========== Dashboard Stats ==========
@@ -157,11 +292,30 @@ public static class AdminEndpoints
         return Results.Ok(stats);
     }
 
+    private static async Task<IResult> GetStatsTimeSeriesAsync(
+        DashboardService dashboardService,
+        [FromQuery] DateTime? from = null,
+        [FromQuery] DateTime? to = null,
+        CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var series = await dashboardService.GetTimeSeriesAsync(from, to, cancellationToken);
+            return Results.Ok(series);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Results.BadRequest(new { Error = ex.Message });
+        }
+    }
+
     // ========== System Status ==========
 
-    private static IResult GetSystemStatusAsync(DashboardService dashboardService)
+    private static async Task<IResult> GetSystemStatusAsync(
+        DashboardService dashboardService,
+        CancellationToken cancellationToken)
     {
-        var status = dashboardService.GetAdminSystemStatus();
+        var status = await dashboardService.GetAdminSystemStatusAsync(cancellationToken);
         return Results.Ok(status);
     }
 
@@ -247,6 +401,59 @@ public static class AdminEndpoints
         return deleted ? Results.NoContent() : Results.NotFound();
     }
 
+    // ========== Crawl Schedule Endpoints ==========
+
+    private static async Task<IResult> GetSchedulesAsync(
+        CrawlScheduleService crawlScheduleService,
+        [FromQuery] int? providerId = null,
+        CancellationToken cancellationToken = default)
+    {
+        var schedules = await crawlScheduleService.GetSchedulesAsync(providerId, cancellationToken);
+        return Results.Ok(schedules);
+    }
+
+    private static async Task<IResult> CreateScheduleAsync(
+        [FromBody] CreateCrawlScheduleRequest request,
+        CrawlScheduleService crawlScheduleService,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var schedule = await crawlScheduleService.CreateScheduleAsync(request, cancellationToken);
+            return Results.Created($"/api/admin/schedules/{schedule.Id}", schedule);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Results.BadRequest(new { Error = ex.Message });
+        }
+    }
+
+    private static async Task<IResult> UpdateScheduleAsync(
+        int id,
+        [FromBody] UpdateCrawlScheduleRequest request,
+        CrawlScheduleService crawlScheduleService,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var schedule = await crawlScheduleService.UpdateScheduleAsync(id, request, cancellationToken);
+            return schedule is not null ? Results.Ok(schedule) : Results.NotFound();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Results.BadRequest(new { Error = ex.Message });
+        }
+    }
+
+    private static async Task<IResult> DeleteScheduleAsync(
+        int id,
+        CrawlScheduleService crawlScheduleService,
+        CancellationToken cancellationToken)
+    {
+        var deleted = await crawlScheduleService.DeleteScheduleAsync(id, cancellationToken);
+        return deleted ? Results.NoContent() : Results.NotFound();
+    }
+
     // ========== Category Endpoints ==========
 
     private static async Task<IResult> GetCategoriesAsync(
@@ -258,6 +465,9 @@ public static class AdminEndpoints
         return Results.Ok(categories);
     }
 
+    private static IResult GetDetectionClasses() =>
+        Results.Ok(ObjectDetectionService.ClassNames);
+
     private static async Task<IResult> GetCategoryByIdAsync(
         int id,
         CategoryService categoryService,
@@ -342,13 +552,74 @@ public static class AdminEndpoints
         [FromQuery] int? providerId = null,
         [FromQuery] int? categoryId = null,
         [FromQuery] string? search = null,
+        [FromQuery] bool? vectorized = null,
         CancellationToken cancellationToken = default)
     {
         var result = await productService.GetAdminProductsPagedAsync(
-            page, pageSize, providerId, categoryId, search, cancellationToken);
+            page, pageSize, providerId, categoryId, search, vectorized, cancellationToken);
         return Results.Ok(result);
     }
 
+    private static async Task<IResult> GetProductIdsAsync(
+        ProductService productService,
+        [FromQuery] int? providerId = null,
+        [FromQuery] int? categoryId = null,
+        [FromQuery] string? search = null,
+        [FromQuery] bool? vectorized = null,
+        CancellationToken cancellationToken = default)
+    {
+        var ids = await productService.GetAdminProductIdsAsync(providerId, categoryId, search, vectorized, cancellationToken);
+        return Results.Ok(ids);
+    }
+
+    private static async Task<IResult> GetProductsByIdsAsync(
+        [FromBody] ProductIdsRequest request,
+        ProductService productService,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var products = await productService.GetAdminProductsByIdsAsync(request.Ids, cancellationToken);
+            return Results.Ok(products);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Results.BadRequest(new { Error = ex.Message });
+        }
+    }
+
+    private static async Task<IResult> BulkProductActionAsync(
+        [FromBody] BulkProductActionRequest request,
+        ProductService productService,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var result = await productService.ExecuteBulkActionAsync(request, cancellationToken);
+            return Results.Ok(result);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Results.BadRequest(new { Error = ex.Message });
+        }
+    }
+
+    private static async Task<IResult> ImportProductsAsync(
+        [FromBody] CatalogImportRequest request,
+        CatalogImportService catalogImportService,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var result = await catalogImportService.ImportAsync(request, cancellationToken);
+            return Results.Ok(result);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Results.BadRequest(new { Error = ex.Message });
+        }
+    }
+
     private static async Task<IResult> GetProductByIdAsync(
         int id,
         ProductService productService,
@@ -381,7 +652,7 @@ public static class AdminEndpoints
                 request.ProductUrl,
                 cancellationToken);
 
-            return Results.Created($"/api/admin/products/{productId}", new { Id = productId });
+            return Results.Created($"/api/admin/products/{productId}", new ProductIdResponse(productId));
         }
         catch (InvalidOperationException ex)
         {
@@ -409,7 +680,7 @@ public static class AdminEndpoints
                 request.ProductUrl,
                 cancellationToken);
 
-            return productId.HasValue ? Results.Ok(new { Id = productId.Value }) : Results.NotFound();
+            return productId.HasValue ? Results.Ok(new ProductIdResponse(productId.Value)) : Results.NotFound();
         }
         catch (InvalidOperationException ex)
         {
@@ -621,18 +892,89 @@ public static class AdminEndpoints
         ));
     }
 
-    private static async Task<IResult> VectorizeAllAsync(
+    private static IResult VectorizeAll(
         [FromQuery] bool force = false,
-        IProductImageService productImageService = null!,
-        CancellationToken cancellationToken = default)
+        VectorizationRunService vectorizationRunService = null!)
     {
-        if (!productImageService.IsVectorizationAvailable)
+        try
         {
-            return Results.BadRequest(new { Error = "Vectorization is not available. CLIP model not loaded." });
+            return Results.Ok(vectorizationRunService.Start(force));
         }
+        catch (InvalidOperationException ex)
+        {
+            return Results.BadRequest(new { Error = ex.Message });
+        }
+    }
 
-        var result = await productImageService.VectorizeAllAdminAsync(force, cancellationToken);
-        return Results.Ok(result);
+    private static IResult CancelVectorizeAll(VectorizationRunService vectorizationRunService)
+    {
+        try
+        {
+            return Results.Ok(vectorizationRunService.Cancel());
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Results.BadRequest(new { Error = ex.Message });
+        }
+    }
+
+    private static async Task HandleVectorizationSseConnectionAsync(
+        HttpContext context,
+        SseTicketService sseTicketService,
+        VectorizationRunService vectorizationRunService,
+        [FromQuery] string ticket,
+        CancellationToken ct = default)
+    {
+        if (!sseTicketService.TryConsume("vectorization", ticket, out _))
+        {
+            context.Response.StatusCode = StatusCodes.Status401Unauthorized;
+            await context.Response.WriteAsJsonAsync(new { error = "Invalid or expired SSE ticket" }, ct);
+            return;
+        }
+
+        context.Response.Headers.Append("Content-Type", "text/event-stream");
+        context.Response.Headers.Append("Cache-Control", "no-cache");
+        context.Response.Headers.Append("Connection", "keep-alive");
+        context.Response.Headers.Append("X-Accel-Buffering", "no");
+
+        await context.Response.Body.FlushAsync(ct);
+
+        await using var writer = new StreamWriter(context.Response.Body);
+
+        try
+        {
+            // Progress is held in memory, so polling it every second is cheap
+            await WriteVectorizationProgressAsync(writer, vectorizationRunService);
+
+            using var timer = new PeriodicTimer(TimeSpan.FromSeconds(1));
+            while (await timer.WaitForNextTickAsync(ct))
+            {
+                await WriteVectorizationProgressAsync(writer, vectorizationRunService);
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            // Client disconnected
+        }
+        catch (Exception)
+        {
+            // Connection error
+        }
+    }
+
+    private static async Task WriteVectorizationProgressAsync(StreamWriter writer, VectorizationRunService vectorizationRunService)
+    {
+        var payload = new VectorizationSsePayload
+        {
+            Run = vectorizationRunService.GetStatus(),
+            TimestampUtc = DateTime.UtcNow
+        };
+
+        var json = JsonSerializer.Serialize(payload, SseJsonOptions);
+
+        await writer.WriteAsync("event: vectorization-progress\n");
+        await writer.WriteAsync($"data: {json}\n\n");
+        await writer.FlushAsync();
     }
 
     private static async Task<IResult> GetUsersAsync(
@@ -661,11 +1003,19 @@ public static class AdminEndpoints
 
     private static async Task<IResult> DeleteUserAsync(
         int id,
+        ClaimsPrincipal currentUser,
         [FromServices] AuthService authService,
         CancellationToken cancellationToken)
     {
-        await authService.DeleteUserAsync(id, cancellationToken);
-        return Results.NoContent();
+        try
+        {
+            await authService.DeleteUserAsync(id, currentUser.FindFirst(ClaimTypes.Name)?.Value, cancellationToken);
+            return Results.NoContent();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Results.BadRequest(new { Error = ex.Message });
+        }
     }
 
     // ========== Request DTOs (Admin-specific with ExternalId) ==========
@@ -710,4 +1060,15 @@ public static class AdminEndpoints
     /// Request DTO for downloading an image from URL.
     /// </summary>
     private sealed record DownloadImageRequest(string ImageUrl, bool IsPrimary = false);
+
+    /// <summary>
+    /// Response DTO for product create/update, carrying the product ID.
+    /// </summary>
+    private sealed record ProductIdResponse(int Id);
+}
+
+public sealed record VectorizationSsePayload
+{
+    public required VectorizationRunDto? Run { get; init; }
+    public required DateTime TimestampUtc { get; init; }
 }
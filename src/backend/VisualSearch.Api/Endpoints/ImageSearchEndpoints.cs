@@ -1,5 +1,6 @@
 using VisualSearch.Api.Application.Services;
 using VisualSearch.Api.Contracts.DTOs;
+using VisualSearch.Api.Domain.Interfaces;
 
 namespace VisualSearch.Api.Endpoints;
 
@@ -19,6 +20,13 @@ public static class ImageSearchEndpoints
             .WithDescription("Upload image for visual search. Server performs detection and embedding.")
             .WithTags("Search")
             .DisableAntiforgery();
+
+        app.MapGet("/api/search/products/{productId:int}/image", HandleGetProductImageAsync)
+            .Produces(200, contentType: "image/jpeg")
+            .Produces(404)
+            .WithName("GetSearchProductImage")
+            .WithDescription("Get a product image through the API, so a result can be searched again without CORS on the provider's CDN. Pass the result's imageUrl to pick that image; otherwise the primary image is returned.")
+            .WithTags("Search");
     }
 
     private static async Task<IResult> HandleImageSearchAsync(
@@ -78,6 +86,7 @@ public static class ImageSearchEndpoints
                     .ToList(),
                 Results = result.AllResults.Select(MapToProductResult).ToList(),
                 ProcessingTimeMs = result.ProcessingTimeMs,
+                EmbeddingTimeMs = result.EmbeddingTimeMs,
                 UsedObjectDetection = result.UsedObjectDetection,
                 ClipModelLoaded = result.ClipModelLoaded,
                 YoloModelLoaded = result.YoloModelLoaded
@@ -90,6 +99,18 @@ public static class ImageSearchEndpoints
         }
     }
 
+    private static async Task<IResult> HandleGetProductImageAsync(
+        int productId,
+        string? imageUrl,
+        IProductImageService productImageService,
+        CancellationToken cancellationToken)
+    {
+        var image = await productImageService.GetImageContentAsync(productId, imageUrl, cancellationToken);
+        return image is null
+            ? Results.NotFound(new { error = "Product image not found" })
+            : Results.File(image.Bytes, image.ContentType);
+    }
+
     private static ProductResult MapToProductResult(SearchResultDto dto)
     {
         return new ProductResult
@@ -125,6 +146,11 @@ public class ImageSearchResponse
     /// Total processing time in milliseconds.
     /// </summary>
     public int ProcessingTimeMs { get; set; }
+
+    /// <summary>
+    /// Time spent detecting objects and generating embeddings, in milliseconds.
+    /// </summary>
+    public int EmbeddingTimeMs { get; set; }
     
     /// <summary>
     /// Whether object detection (YOLO) was used.
@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using System.Linq.Expressions;
 using System.Text.Json;
 using VisualSearch.Api.Data;
 using VisualSearch.Api.Data.Entities;
@@ -14,8 +15,26 @@ namespace VisualSearch.Api.Endpoints;
 /// </summary>
 public static class JobsEndpoints
 {
+    private const int MaxErrorSampleUrls = 5;
+
     private static readonly JsonSerializerOptions SseJsonOptions = new(JsonSerializerDefaults.Web);
 
+    private static readonly Expression<Func<CrawlPage, CrawlPageDto>> ToPageDto = p => new CrawlPageDto
+    {
+        Id = p.Id,
+        JobId = p.CrawlJobId,
+        Url = p.Url,
+        Status = p.Status,
+        HttpStatusCode = p.HttpStatusCode,
+        Title = p.Title,
+        ContentType = p.ContentType,
+        Error = p.ErrorMessage,
+        StartedAtUtc = p.CreatedAt,
+        FinishedAtUtc = p.FetchedAt,
+        DurationMs = p.DurationMs,
+        ProductsExtracted = p.ExtractedProducts.Count
+    };
+
     /// <summary>
     /// Maps the job endpoints to the application.
     /// </summary>
@@ -46,6 +65,20 @@ public static class JobsEndpoints
             .WithName("GetJobById")
             .WithDescription("Gets detailed information about a specific job.");
 
+        // Page log of a job
+        group.MapGet("/{id:long}/pages", GetJobPagesAsync)
+            .Produces<CrawlJobPagesResponse>(200)
+            .Produces(404)
+            .WithName("GetJobPages")
+            .WithDescription("Gets a job's pages in crawl order, with per-status counts.");
+
+        // Failed pages of a job grouped by error message
+        group.MapGet("/{id:long}/errors", GetJobErrorsAsync)
+            .Produces<List<CrawlJobErrorGroupDto>>(200)
+            .Produces(404)
+            .WithName("GetJobErrors")
+            .WithDescription("Gets a job's page errors grouped by message, most frequent first.");
+
         // Create a new crawl job
         group.MapPost("/", CreateJobAsync)
             .Produces<CrawlJobDto>(201)
@@ -348,9 +381,7 @@ public static class JobsEndpoints
         CancellationToken ct)
     {
         var job = await db.CrawlJobs
-            .Include(j => j.Provider)
-            .Include(j => j.Pages.OrderByDescending(p => p.CreatedAt).Take(100))
-            .Include(j => j.ExtractedProducts)
+            .AsNoTracking()
             .FirstOrDefaultAsync(j => j.Id == id, ct);
 
         if (job is null)
@@ -358,6 +389,9 @@ public static class JobsEndpoints
             return Results.NotFound(new { error = "Job not found" });
         }
 
+        // Counts cover every page; the details only carry the most recent ones
+        var pages = db.CrawlPages.Where(p => p.CrawlJobId == id);
+
         var dto = new CrawlJobDetailsDto
         {
             Job = new CrawlJobDto
@@ -368,29 +402,125 @@ public static class JobsEndpoints
                 CreatedAtUtc = job.CreatedAt,
                 StartedAtUtc = job.StartedAt,
                 FinishedAtUtc = job.CompletedAt ?? job.CanceledAt,
-                PagesTotal = job.Pages.Count,
-                PagesProcessed = job.Pages.Count(p => p.Status == CrawlPageStatus.Succeeded || p.Status == CrawlPageStatus.Failed),
-                ProductsExtracted = job.ExtractedProducts.Count,
-                ErrorsCount = job.Pages.Count(p => p.Status == CrawlPageStatus.Failed),
+                PagesTotal = await pages.CountAsync(ct),
+                PagesProcessed = await pages.CountAsync(p => p.Status == CrawlPageStatus.Succeeded || p.Status == CrawlPageStatus.Failed, ct),
+                ProductsExtracted = await db.CrawlExtractedProducts.CountAsync(e => e.CrawlJobId == id, ct),
+                ErrorsCount = await pages.CountAsync(p => p.Status == CrawlPageStatus.Failed, ct),
                 LastError = job.ErrorMessage
             },
-            Pages = job.Pages.Select(p => new CrawlPageDto
-            {
-                Id = p.Id,
-                JobId = p.CrawlJobId,
-                Url = p.Url,
-                Status = p.Status,
-                HttpStatusCode = p.HttpStatusCode,
-                Error = p.ErrorMessage,
-                StartedAtUtc = p.CreatedAt,
-                FinishedAtUtc = p.FetchedAt,
-                DurationMs = null
-            }).ToList()
+            Pages = await pages
+                .OrderByDescending(p => p.CreatedAt)
+                .Take(100)
+                .Select(ToPageDto)
+                .ToListAsync(ct)
         };
 
         return Results.Ok(dto);
     }
 
+    private static async Task<IResult> GetJobPagesAsync(
+        long id,
+        VisualSearchDbContext db,
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 50,
+        [FromQuery] CrawlPageStatus? status = null,
+        [FromQuery] bool? hasProducts = null,
+        CancellationToken ct = default)
+    {
+        if (!await db.CrawlJobs.AnyAsync(j => j.Id == id, ct))
+        {
+            return Results.NotFound(new { error = "Job not found" });
+        }
+
+        var jobPages = db.CrawlPages.Where(p => p.CrawlJobId == id);
+
+        var countsByStatus = await jobPages
+            .GroupBy(p => p.Status)
+            .Select(g => new { Status = g.Key, Count = g.Count() })
+            .ToDictionaryAsync(g => g.Status, g => g.Count, ct);
+
+        var statusCounts = new CrawlPageStatusCounts
+        {
+            Queued = countsByStatus.GetValueOrDefault(CrawlPageStatus.Queued),
+            Processing = countsByStatus.GetValueOrDefault(CrawlPageStatus.Processing),
+            Succeeded = countsByStatus.GetValueOrDefault(CrawlPageStatus.Succeeded),
+            Skipped = countsByStatus.GetValueOrDefault(CrawlPageStatus.Skipped),
+            Failed = countsByStatus.GetValueOrDefault(CrawlPageStatus.Failed),
+            SucceededWithoutProducts = await jobPages.CountAsync(
+                p => p.Status == CrawlPageStatus.Succeeded && !p.ExtractedProducts.Any(), ct)
+        };
+
+        var query = jobPages;
+
+        if (status.HasValue)
+        {
+            query = query.Where(p => p.Status == status.Value);
+        }
+
+        if (hasProducts.HasValue)
+        {
+            query = query.Where(p => p.ExtractedProducts.Any() == hasProducts.Value);
+        }
+
+        var totalCount = await query.CountAsync(ct);
+
+        // Pages are processed in the order they were queued
+        var pages = await query
+            .OrderBy(p => p.CreatedAt)
+            .ThenBy(p => p.Id)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .Select(ToPageDto)
+            .ToListAsync(ct);
+
+        return Results.Ok(new CrawlJobPagesResponse
+        {
+            Pages = pages,
+            TotalCount = totalCount,
+            Page = page,
+            PageSize = pageSize,
+            StatusCounts = statusCounts
+        });
+    }
+
+    private static async Task<IResult> GetJobErrorsAsync(
+        long id,
+        VisualSearchDbContext db,
+        CancellationToken ct)
+    {
+        if (!await db.CrawlJobs.AnyAsync(j => j.Id == id, ct))
+        {
+            return Results.NotFound(new { error = "Job not found" });
+        }
+
+        var failedPages = await db.CrawlPages
+            .Where(p => p.CrawlJobId == id && p.Status == CrawlPageStatus.Failed)
+            .OrderBy(p => p.CreatedAt)
+            .Select(p => new { p.Url, p.ErrorMessage, p.HttpStatusCode, SeenAt = p.FetchedAt ?? p.CreatedAt })
+            .ToListAsync(ct);
+
+        var groups = failedPages
+            .GroupBy(p => p.ErrorMessage ?? "Unknown error")
+            .Select(g => new CrawlJobErrorGroupDto
+            {
+                Message = g.Key,
+                Count = g.Count(),
+                HttpStatusCodes = g
+                    .Where(p => p.HttpStatusCode.HasValue)
+                    .Select(p => p.HttpStatusCode!.Value)
+                    .Distinct()
+                    .Order()
+                    .ToList(),
+                SampleUrls = g.Select(p => p.Url).Take(MaxErrorSampleUrls).ToList(),
+                FirstSeenAtUtc = g.Min(p => p.SeenAt),
+                LastSeenAtUtc = g.Max(p => p.SeenAt)
+            })
+            .OrderByDescending(g => g.Count)
+            .ToList();
+
+        return Results.Ok(groups);
+    }
+
     private static async Task<IResult> CreateJobAsync(
         CreateCrawlJobRequest request,
         VisualSearchDbContext db,
@@ -740,3 +870,41 @@ public sealed record JobsSsePayload
     public required JobStatsResponse Stats { get; init; }
     public required DateTime TimestampUtc { get; init; }
 }
+
+/// <summary>
+/// Response for the job pages endpoint.
+/// </summary>
+public sealed record CrawlJobPagesResponse
+{
+    public required IReadOnlyList<CrawlPageDto> Pages { get; init; }
+    public required int TotalCount { get; init; }
+    public required int Page { get; init; }
+    public required int PageSize { get; init; }
+    public required CrawlPageStatusCounts StatusCounts { get; init; }
+}
+
+/// <summary>
+/// Number of pages of a job in each status, ignoring the page filters.
+/// </summary>
+public sealed record CrawlPageStatusCounts
+{
+    public int Queued { get; init; }
+    public int Processing { get; init; }
+    public int Succeeded { get; init; }
+    public int Skipped { get; init; }
+    public int Failed { get; init; }
+    public int SucceededWithoutProducts { get; init; }
+}
+
+/// <summary>
+/// Failed pages of a job that share an error message.
+/// </summary>
+public sealed record CrawlJobErrorGroupDto
+{
+    public required string Message { get; init; }
+    public required int Count { get; init; }
+    public required IReadOnlyList<int> HttpStatusCodes { get; init; }
+    public required IReadOnlyList<string> SampleUrls { get; init; }
+    public required DateTime FirstSeenAtUtc { get; init; }
+    public required DateTime LastSeenAtUtc { get; init; }
+}
@@ -24,6 +24,12 @@ public static class ProductImportEndpoints
             .WithName("GetExtractedProducts")
             .WithDescription("Gets a paginated list of extracted products for review.");
 
+        // IDs of everything matching the list filters
+        group.MapGet("/ids", GetExtractedProductIdsAsync)
+            .Produces<IReadOnlyList<long>>(200)
+            .WithName("GetExtractedProductIds")
+            .WithDescription("Gets the IDs of all extracted products matching the list filters, for bulk review across pages.");
+
         // Get statistics
         group.MapGet("/stats", GetStatsAsync)
             .Produces<ExtractedProductsStatsDto>(200)
@@ -44,7 +50,30 @@ public static class ProductImportEndpoints
             .Produces(400)
             .Produces(404)
             .WithName("RejectExtractedProduct")
-            .WithDescription("Rejects an extracted product.");
+            .WithDescription("Rejects a pending or duplicate extracted product.");
+
+        // Compare a duplicate with the catalog product it matches
+        group.MapGet("/{id:long}/compare", GetDuplicateComparisonAsync)
+            .Produces<DuplicateComparisonDto>(200)
+            .Produces(404)
+            .WithName("GetDuplicateComparison")
+            .WithDescription("Gets an extracted product next to the catalog product it matches on external ID.");
+
+        // Merge into the matching catalog product
+        group.MapPost("/{id:long}/merge", MergeIntoExistingAsync)
+            .Produces<ApproveResult>(200)
+            .Produces(400)
+            .Produces(404)
+            .WithName("MergeExtractedProduct")
+            .WithDescription("Updates the matching catalog product's price and adds its missing images from an extracted product.");
+
+        // Import a duplicate as a separate product
+        group.MapPost("/{id:long}/import-as-new", ImportAsNewAsync)
+            .Produces<ApproveResult>(200)
+            .Produces(400)
+            .Produces(404)
+            .WithName("ImportExtractedProductAsNew")
+            .WithDescription("Imports an extracted product as a new catalog product even if it matches an existing one.");
 
         // Reset to pending
         group.MapPost("/{id:long}/reset", ResetToPendingAsync)
@@ -56,12 +85,14 @@ public static class ProductImportEndpoints
         // Bulk approve
         group.MapPost("/bulk-approve", BulkApproveAsync)
             .Produces<BulkImportResult>(200)
+            .Produces(400)
             .WithName("BulkApproveExtractedProducts")
             .WithDescription("Approves and imports multiple extracted products.");
 
         // Bulk reject
         group.MapPost("/bulk-reject", BulkRejectAsync)
             .Produces<BulkRejectResult>(200)
+            .Produces(400)
             .WithName("BulkRejectExtractedProducts")
             .WithDescription("Rejects multiple extracted products.");
     }
@@ -74,14 +105,60 @@ public static class ProductImportEndpoints
         [FromQuery] int? providerId = null,
         [FromQuery] long? jobId = null,
         [FromQuery] string? search = null,
+        [FromQuery] DateTime? createdFrom = null,
+        [FromQuery] DateTime? createdTo = null,
+        [FromQuery] bool? hasPrice = null,
+        [FromQuery] int? minImages = null,
+        [FromQuery] int? maxImages = null,
         CancellationToken ct = default)
     {
-        var result = await importService.GetExtractedProductsAsync(
-            page, pageSize, status, providerId, jobId, search, ct);
+        var filter = new ExtractedProductFilter
+        {
+            Status = status,
+            ProviderId = providerId,
+            JobId = jobId,
+            Search = search,
+            CreatedFrom = createdFrom,
+            CreatedTo = createdTo,
+            HasPrice = hasPrice,
+            MinImages = minImages,
+            MaxImages = maxImages
+        };
+        var result = await importService.GetExtractedProductsAsync(page, pageSize, filter, ct);
 
         return Results.Ok(result);
     }
 
+    private static async Task<IResult> GetExtractedProductIdsAsync(
+        ProductImportService importService,
+        [FromQuery] ExtractedProductStatus? status = null,
+        [FromQuery] int? providerId = null,
+        [FromQuery] long? jobId = null,
+        [FromQuery] string? search = null,
+        [FromQuery] DateTime? createdFrom = null,
+        [FromQuery] DateTime? createdTo = null,
+        [FromQuery] bool? hasPrice = null,
+        [FromQuery] int? minImages = null,
+        [FromQuery] int? maxImages = null,
+        CancellationToken ct = default)
+    {
+        var filter = new ExtractedProductFilter
+        {
+            Status = status,
+            ProviderId = providerId,
+            JobId = jobId,
+            Search = search,
+            CreatedFrom = createdFrom,
+            CreatedTo = createdTo,
+            HasPrice = hasPrice,
+            MinImages = minImages,
+            MaxImages = maxImages
+        };
+        var ids = await importService.GetExtractedProductIdsAsync(filter, ct);
+
+        return Results.Ok(ids);
+    }
+
     private static async Task<IResult> GetStatsAsync(
         ProductImportService importService,
         CancellationToken ct = default)
@@ -103,7 +180,7 @@ public static class ProductImportEndpoints
             return Results.Unauthorized();
         }
 
-        var result = await importService.ApproveAsync(id, adminUserId.Value, request?.CategoryId, ct);
+        var result = await importService.ApproveAsync(id, adminUserId.Value, request?.CategoryId, request?.ToEdits(), ct);
 
         if (result.IsNotFound)
         {
@@ -115,6 +192,11 @@ public static class ProductImportEndpoints
             return Results.BadRequest(new { error = $"Product already processed with status: {result.PreviousStatus}" });
         }
 
+        if (result.IsInvalid)
+        {
+            return Results.BadRequest(new { error = result.Error });
+        }
+
         if (result.IsDuplicate)
         {
             return Results.Ok(new ApproveResult
@@ -156,6 +238,96 @@ public static class ProductImportEndpoints
         return Results.Ok(new { message = "Product rejected" });
     }
 
+    private static async Task<IResult> GetDuplicateComparisonAsync(
+        long id,
+        ProductImportService importService,
+        CancellationToken ct = default)
+    {
+        var comparison = await importService.GetDuplicateComparisonAsync(id, ct);
+
+        if (comparison == null)
+        {
+            return Results.NotFound(new { error = "Extracted product not found" });
+        }
+
+        return Results.Ok(comparison);
+    }
+
+    private static async Task<IResult> MergeIntoExistingAsync(
+        long id,
+        ProductImportService importService,
+        HttpContext httpContext,
+        CancellationToken ct = default)
+    {
+        var adminUserId = GetAdminUserId(httpContext);
+        if (!adminUserId.HasValue)
+        {
+            return Results.Unauthorized();
+        }
+
+        var result = await importService.MergeIntoExistingAsync(id, adminUserId.Value, ct);
+
+        if (result.IsNotFound)
+        {
+            return Results.NotFound(new { error = "Extracted product not found" });
+        }
+
+        if (result.IsAlreadyProcessed)
+        {
+            return Results.BadRequest(new { error = $"Product already processed with status: {result.PreviousStatus}" });
+        }
+
+        if (result.IsNoMatch)
+        {
+            return Results.BadRequest(new { error = "No existing product matches this extracted product" });
+        }
+
+        return Results.Ok(new ApproveResult
+        {
+            Success = true,
+            ProductId = result.ProductId,
+            Message = "Product merged into existing product"
+        });
+    }
+
+    private static async Task<IResult> ImportAsNewAsync(
+        long id,
+        ProductImportService importService,
+        HttpContext httpContext,
+        [FromBody] ApproveRequest? request = null,
+        CancellationToken ct = default)
+    {
+        var adminUserId = GetAdminUserId(httpContext);
+        if (!adminUserId.HasValue)
+        {
+            return Results.Unauthorized();
+        }
+
+        var result = await importService.ImportAsNewAsync(id, adminUserId.Value, request?.CategoryId, request?.ToEdits(), ct);
+
+        if (result.IsNotFound)
+        {
+            return Results.NotFound(new { error = "Extracted product not found" });
+        }
+
+        if (result.IsAlreadyProcessed)
+        {
+            return Results.BadRequest(new { error = $"Product already processed with status: {result.PreviousStatus}" });
+        }
+
+        if (result.IsInvalid)
+        {
+            return Results.BadRequest(new { error = result.Error });
+        }
+
+        return Results.Ok(new ApproveResult
+        {
+            Success = true,
+            ProductId = result.ProductId,
+            Message = "Product imported as a new product"
+        });
+    }
+
     private static async Task<IResult> ResetToPendingAsync(
         long id,
         ProductImportService importService,
@@ -188,6 +360,11 @@ public static class ProductImportEndpoints
             return Results.BadRequest(new { error = "No product IDs provided" });
         }
 
+        if (request.Ids.Length > ProductService.MaxBulkProducts)
+        {
+            return Results.BadRequest(new { error = $"At most {ProductService.MaxBulkProducts} products can be processed per request" });
+        }
+
         var result = await importService.BulkApproveAsync(
             request.Ids, adminUserId.Value, request.CategoryId, ct);
 
@@ -211,6 +388,11 @@ public static class ProductImportEndpoints
             return Results.BadRequest(new { error = "No product IDs provided" });
         }
 
+        if (request.Ids.Length > ProductService.MaxBulkProducts)
+        {
+            return Results.BadRequest(new { error = $"At most {ProductService.MaxBulkProducts} products can be processed per request" });
+        }
+
         var count = await importService.BulkRejectAsync(request.Ids, adminUserId.Value, ct);
 
         return Results.Ok(new BulkRejectResult { RejectedCount = count });
@@ -232,11 +414,23 @@ public static class ProductImportEndpoints
 }
 
 /// <summary>
-/// Request for approving an extracted product.
+/// Request for approving an extracted product. The optional fields correct crawled values
+/// before import; null keeps what was crawled.
 /// </summary>
 public sealed class ApproveRequest
 {
     public int? CategoryId { get; set; }
+    public string? Name { get; set; }
+    public string? Description { get; set; }
+    public decimal? Price { get; set; }
+    public string? Currency { get; set; }
+
+    /// <summary>
+    /// Crawled images to keep, primary image first.
+    /// </summary>
+    public List<string>? ImageUrls { get; set; }
+
+    internal ExtractedProductEdits ToEdits() => new(Name, Description, Price, Currency, ImageUrls);
 }
 
 /// <summary>
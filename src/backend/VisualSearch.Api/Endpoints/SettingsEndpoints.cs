@@ -46,9 +46,18 @@ public static class SettingsEndpoints
         group.MapPut("/{key}", HandleUpdateSettingAsync)
             .RequireAuthorization("Admin")
             .Produces<SettingDto>(200)
+            .Produces(400)
             .Produces(404)
             .WithName("UpdateSetting")
-            .WithDescription("Updates a setting value (admin only).");
+            .WithDescription("Updates a setting value after validating it against the setting's type and range (admin only).");
+
+        group.MapPost("/{key}/reset", HandleResetSettingAsync)
+            .RequireAuthorization("Admin")
+            .Produces<SettingDto>(200)
+            .Produces(400)
+            .Produces(404)
+            .WithName("ResetSetting")
+            .WithDescription("Restores a built-in setting to its default value (admin only).");
 
         group.MapPost("/", HandleCreateSettingAsync)
             .RequireAuthorization("Admin")
@@ -122,15 +131,7 @@ public static class SettingsEndpoints
     {
         var settings = await settingsService.GetAllAsync(cancellationToken);
 
-        var result = settings.Select(s => new SettingDto
-        {
-            Key = s.Key,
-            Value = s.Value,
-            Type = s.Type.ToString().ToLowerInvariant(),
-            Category = s.Category,
-            Description = s.Description,
-            UpdatedAt = s.UpdatedAt
-        }).ToList();
+        var result = settings.Select(ToDto).ToList();
 
         return Results.Ok(result);
     }
@@ -148,15 +149,7 @@ public static class SettingsEndpoints
             return Results.NotFound(new { error = "Setting not found" });
         }
 
-        return Results.Ok(new SettingDto
-        {
-            Key = setting.Key,
-            Value = setting.Value,
-            Type = setting.Type.ToString().ToLowerInvariant(),
-            Category = setting.Category,
-            Description = setting.Description,
-            UpdatedAt = setting.UpdatedAt
-        });
+        return Results.Ok(ToDto(setting));
     }
 
     private static async Task<IResult> HandleUpdateSettingAsync(
@@ -165,9 +158,18 @@ public static class SettingsEndpoints
         SettingsService settingsService,
         CancellationToken cancellationToken)
     {
-        if (string.IsNullOrWhiteSpace(request.Value))
+        var settings = await settingsService.GetAllAsync(cancellationToken);
+        var existing = settings.FirstOrDefault(s => s.Key == key);
+
+        if (existing is null)
         {
-            return Results.BadRequest(new { error = "Value is required" });
+            return Results.NotFound(new { error = "Setting not found" });
+        }
+
+        var validationError = SettingDefinitions.Validate(key, existing.Type, request.Value);
+        if (validationError is not null)
+        {
+            return Results.BadRequest(new { error = validationError });
         }
 
         var setting = await settingsService.UpdateAsync(key, request.Value, cancellationToken);
@@ -177,15 +179,28 @@ public static class SettingsEndpoints
             return Results.NotFound(new { error = "Setting not found" });
         }
 
-        return Results.Ok(new SettingDto
+        return Results.Ok(ToDto(setting));
+    }
+
+    private static async Task<IResult> HandleResetSettingAsync(
+        string key,
+        SettingsService settingsService,
+        CancellationToken cancellationToken)
+    {
+        var definition = SettingDefinitions.Find(key);
+        if (definition is null)
         {
-            Key = setting.Key,
-            Value = setting.Value,
-            Type = setting.Type.ToString().ToLowerInvariant(),
-            Category = setting.Category,
-            Description = setting.Description,
-            UpdatedAt = setting.UpdatedAt
-        });
+            return Results.BadRequest(new { error = "Setting has no default value" });
+        }
+
+        var setting = await settingsService.UpdateAsync(key, definition.DefaultValue, cancellationToken);
+
+        if (setting is null)
+        {
+            return Results.NotFound(new { error = "Setting not found" });
+        }
+
+        return Results.Ok(ToDto(setting));
     }
 
     private static async Task<IResult> HandleCreateSettingAsync(
@@ -211,6 +226,18 @@ public static class SettingsEndpoints
             _ => SettingType.String
         };
 
+        var validationError = SettingDefinitions.Validate(request.Key, settingType, request.Value);
+        if (validationError is not null)
+        {
+            return Results.BadRequest(new { error = validationError });
+        }
+
+        var existing = await settingsService.GetAllAsync(cancellationToken);
+        if (existing.Any(s => s.Key == request.Key))
+        {
+            return Results.BadRequest(new { error = "A setting with this key already exists" });
+        }
+
         var setting = new Setting
         {
             Key = request.Key,
@@ -222,15 +249,7 @@ public static class SettingsEndpoints
 
         var created = await settingsService.CreateAsync(setting, cancellationToken);
 
-        return Results.Created($"/api/settings/{created.Key}", new SettingDto
-        {
-            Key = created.Key,
-            Value = created.Value,
-            Type = created.Type.ToString().ToLowerInvariant(),
-            Category = created.Category,
-            Description = created.Description,
-            UpdatedAt = created.UpdatedAt
-        });
+        return Results.Created($"/api/settings/{created.Key}", ToDto(created));
     }
 
     private static async Task<IResult> HandleInvalidateCacheAsync(
@@ -241,6 +260,25 @@ public static class SettingsEndpoints
         return Results.Ok(new { message = "Cache invalidated and clients notified" });
     }
 
+    private static SettingDto ToDto(Setting setting)
+    {
+        var definition = SettingDefinitions.Find(setting.Key);
+
+        return new SettingDto
+        {
+            Key = setting.Key,
+            Value = setting.Value,
+            Type = setting.Type.ToString().ToLowerInvariant(),
+            Category = setting.Category,
+            Description = setting.Description,
+            UpdatedAt = setting.UpdatedAt,
+            DefaultValue = definition?.DefaultValue,
+            Min = definition?.Min,
+            Max = definition?.Max,
+            AllowEmpty = definition?.AllowEmpty ?? false
+        };
+    }
+
     private static async Task HandleSseConnectionAsync(
         HttpContext context,
         SettingsService settingsService,
@@ -309,6 +347,18 @@ public sealed record SettingDto
 
     /// <summary>Gets or sets when the setting was last updated.</summary>
     public DateTime? UpdatedAt { get; init; }
+
+    /// <summary>Gets or sets the built-in default, or null for settings created at runtime.</summary>
+    public string? DefaultValue { get; init; }
+
+    /// <summary>Gets or sets the smallest allowed value for numeric settings.</summary>
+    public decimal? Min { get; init; }
+
+    /// <summary>Gets or sets the largest allowed value for numeric settings.</summary>
+    public decimal? Max { get; init; }
+
+    /// <summary>Gets or sets whether the value may be left empty.</summary>
+    public bool AllowEmpty { get; init; }
 }
 
 /// <summary>
@@ -0,0 +1,27 @@
+using Microsoft.OpenApi.Any;
+using Microsoft.OpenApi.Models;
+using Swashbuckle.AspNetCore.SwaggerGen;
+
+namespace VisualSearch.Api.Extensions;
+
+/// <summary>
+/// Adds the member names of an enum to its schema as <c>x-enumNames</c>.
+/// Enums are serialized as integers, so without this the generated frontend client
+/// only knows the values; kubb uses the names as keys of its enum objects.
+/// </summary>
+public sealed class EnumNamesSchemaFilter : ISchemaFilter
+{
+    /// <inheritdoc />
+    public void Apply(OpenApiSchema schema, SchemaFilterContext context)
+    {
+        if (!context.Type.IsEnum)
+        {
+            return;
+        }
+
+        // GetNames orders members by value, matching the order of the schema's enum values
+        var names = new OpenApiArray();
+        names.AddRange(Enum.GetNames(context.Type).Select(name => new OpenApiString(name)));
+        schema.Extensions["x-enumNames"] = names;
+    }
+}
@@ -0,0 +1,38 @@
+using System.Reflection;
+using System.Text.Json;
+using Microsoft.OpenApi.Models;
+using Swashbuckle.AspNetCore.SwaggerGen;
+
+namespace VisualSearch.Api.Extensions;
+
+/// <summary>
+/// Marks every non-nullable property as required in the OpenAPI schema.
+/// The frontend generates its API types from the spec, so without this every
+/// property would be optional on the client even though the server always sends it.
+/// </summary>
+public sealed class RequiredPropertiesSchemaFilter : ISchemaFilter
+{
+    /// <inheritdoc />
+    public void Apply(OpenApiSchema schema, SchemaFilterContext context)
+    {
+        if (schema.Properties is null)
+        {
+            return;
+        }
+
+        // Nullable enums and nested objects are emitted as a bare $ref, which can't carry the nullable flag
+        var nullabilityContext = new NullabilityInfoContext();
+        var nullableProperties = context.Type.GetProperties()
+            .Where(p => nullabilityContext.Create(p).ReadState == NullabilityState.Nullable)
+            .Select(p => JsonNamingPolicy.CamelCase.ConvertName(p.Name))
+            .ToHashSet();
+
+        foreach (var (name, property) in schema.Properties)
+        {
+            if (!property.Nullable && !nullableProperties.Contains(name))
+            {
+                schema.Required.Add(name);
+            }
+        }
+    }
+}
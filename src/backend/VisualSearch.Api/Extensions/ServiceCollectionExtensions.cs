@@ -62,6 +62,8 @@ public static class ServiceCollectionExtensions
         services.AddScoped<ProviderService>();
         services.AddScoped<ProductService>();
         services.AddScoped<ProductImportService>();
+        services.AddScoped<CatalogImportService>();
+        services.AddScoped<CrawlScheduleService>();
         services.AddScoped<DashboardService>();
         services.AddScoped<AuthService>();
         services.AddScoped<VisualSearchService>();
@@ -88,6 +90,12 @@ public static class ServiceCollectionExtensions
         // Vectorization service (singleton - uses other singleton services)
         services.AddSingleton<VectorizationService>();
 
+        // Search metrics (singleton - rolling window of recent search timings)
+        services.AddSingleton<SearchMetricsService>();
+
+        // Vectorization runs (singleton - the background "vectorize all" run outlives requests)
+        services.AddSingleton<VectorizationRunService>();
+
         return services;
     }
 
@@ -192,6 +192,16 @@ public sealed class ProductImageRepository : RepositoryBase<ProductImage, int>,
         return await DbSet.CountAsync(i => i.Embedding != null, cancellationToken);
     }
 
+    public async Task<List<int>> GetIdsForVectorizationAsync(bool includeVectorized, CancellationToken cancellationToken = default)
+    {
+        return await DbSet
+            .Where(i => includeVectorized || i.Embedding == null)
+            .OrderBy(i => i.ProductId)
+            .ThenBy(i => i.Id)
+            .Select(i => i.Id)
+            .ToListAsync(cancellationToken);
+    }
+
     public async Task<ProductImage?> GetByIdAndProductAsync(int imageId, int productId, CancellationToken cancellationToken = default)
     {
         return await DbSet
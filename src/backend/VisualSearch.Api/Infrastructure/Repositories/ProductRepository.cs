@@ -25,31 +25,15 @@ public sealed class ProductRepository : RepositoryBase<Product, int>, IProductRe
         int? providerId = null,
         int? categoryId = null,
         string? search = null,
+        bool? vectorized = null,
         CancellationToken cancellationToken = default)
     {
-        var query = DbSet
-            .Include(p => p.Provider)
-            .Include(p => p.Category)
-            .Include(p => p.Images)
-            .AsQueryable();
-
-        if (providerId.HasValue)
-        {
-            query = query.Where(p => p.ProviderId == providerId.Value);
-        }
-
-        if (categoryId.HasValue)
-        {
-            query = query.Where(p => p.CategoryId == categoryId.Value);
-        }
-
-        if (!string.IsNullOrWhiteSpace(search))
-        {
-            var searchLower = search.ToLower();
-            query = query.Where(p =>
-                p.Name.ToLower().Contains(searchLower) ||
-                (p.Description != null && p.Description.ToLower().Contains(searchLower)));
-        }
+        var query = ApplyFilters(
+            DbSet
+                .Include(p => p.Provider)
+                .Include(p => p.Category)
+                .Include(p => p.Images),
+            providerId, categoryId, search, vectorized);
 
         var totalCount = await query.CountAsync(cancellationToken);
 
@@ -103,6 +87,43 @@ public sealed class ProductRepository : RepositoryBase<Product, int>, IProductRe
             .CountAsync(p => p.CategoryId == categoryId, cancellationToken);
     }
 
+    public async Task<List<int>> GetIdsAsync(
+        int? providerId = null,
+        int? categoryId = null,
+        string? search = null,
+        bool? vectorized = null,
+        CancellationToken cancellationToken = default)
+    {
+        return await ApplyFilters(DbSet, providerId, categoryId, search, vectorized)
+            .OrderByDescending(p => p.CreatedAt)
+            .Select(p => p.Id)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async Task<List<Product>> GetByIdsWithImagesAsync(IEnumerable<int> ids, CancellationToken cancellationToken = default)
+    {
+        var idList = ids.ToList();
+        return await DbSet
+            .AsNoTracking()
+            .Include(p => p.Provider)
+            .Include(p => p.Category)
+            .Include(p => p.Images)
+            .Where(p => idList.Contains(p.Id))
+            .OrderByDescending(p => p.CreatedAt)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async Task<bool> ExternalIdExistsAsync(
+        int providerId,
+        string externalId,
+        int excludeProductId,
+        CancellationToken cancellationToken = default)
+    {
+        return await DbSet.AnyAsync(
+            p => p.ProviderId == providerId && p.ExternalId == externalId && p.Id != excludeProductId,
+            cancellationToken);
+    }
+
     public override async Task<IEnumerable<Product>> GetAllAsync(CancellationToken cancellationToken = default)
     {
         return await DbSet
@@ -112,4 +133,45 @@ public sealed class ProductRepository : RepositoryBase<Product, int>, IProductRe
             .OrderByDescending(p => p.CreatedAt)
             .ToListAsync(cancellationToken);
     }
+
+    /// <summary>
+    /// Applies the admin product list filters, shared by paging and "select all matching".
+    /// </summary>
+    private static IQueryable<Product> ApplyFilters(
+        IQueryable<Product> query,
+        int? providerId,
+        int? categoryId,
+        string? search,
+        bool? vectorized)
+    {
+        if (providerId.HasValue)
+        {
+            query = query.Where(p => p.ProviderId == providerId.Value);
+        }
+
+        if (categoryId.HasValue)
+        {
+            query = query.Where(p => p.CategoryId == categoryId.Value);
+        }
+
+        if (!string.IsNullOrWhiteSpace(search))
+        {
+            var searchLower = search.ToLower();
+            query = query.Where(p =>
+                p.Name.ToLower().Contains(searchLower) ||
+                (p.Description != null && p.Description.ToLower().Contains(searchLower)));
+        }
+
+        // A product counts as vectorized once it has images and all of them have embeddings
+        if (vectorized == true)
+        {
+            query = query.Where(p => p.Images.Any() && p.Images.All(i => i.Embedding != null));
+        }
+        else if (vectorized == false)
+        {
+            query = query.Where(p => !p.Images.Any() || p.Images.Any(i => i.Embedding == null));
+        }
+
+        return query;
+    }
 }
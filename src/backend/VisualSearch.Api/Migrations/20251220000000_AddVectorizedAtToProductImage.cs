@@ -0,0 +1,42 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace VisualSearch.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddVectorizedAtToProductImage : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTime>(
+                name: "vectorized_at",
+                table: "product_images",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            // Existing embeddings have no timestamp; the image creation time is the best approximation
+            migrationBuilder.Sql(
+                "UPDATE product_images SET vectorized_at = created_at WHERE embedding IS NOT NULL;");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_product_images_vectorized_at",
+                table: "product_images",
+                column: "vectorized_at");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_product_images_vectorized_at",
+                table: "product_images");
+
+            migrationBuilder.DropColumn(
+                name: "vectorized_at",
+                table: "product_images");
+        }
+    }
+}
@@ -0,0 +1,77 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace VisualSearch.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCrawlSchedules : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "crawl_schedules",
+                columns: table => new
+                {
+                    id = table.Column<int>(type: "integer", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    provider_id = table.Column<int>(type: "integer", nullable: false),
+                    frequency = table.Column<int>(type: "integer", nullable: false),
+                    time_of_day = table.Column<TimeOnly>(type: "time without time zone", nullable: true),
+                    day_of_week = table.Column<int>(type: "integer", nullable: true),
+                    cron_expression = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: true),
+                    time_zone_id = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    start_url = table.Column<string>(type: "character varying(2048)", maxLength: 2048, nullable: true),
+                    sitemap_url = table.Column<string>(type: "character varying(2048)", maxLength: 2048, nullable: true),
+                    max_pages = table.Column<int>(type: "integer", nullable: true),
+                    is_enabled = table.Column<bool>(type: "boolean", nullable: false, defaultValue: true),
+                    next_run_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: true),
+                    last_run_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: true),
+                    last_job_id = table.Column<long>(type: "bigint", nullable: true),
+                    last_skip_reason = table.Column<string>(type: "character varying(500)", maxLength: 500, nullable: true),
+                    created_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: false, defaultValueSql: "CURRENT_TIMESTAMP")
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_crawl_schedules", x => x.id);
+                    table.ForeignKey(
+                        name: "FK_crawl_schedules_crawl_jobs_last_job_id",
+                        column: x => x.last_job_id,
+                        principalTable: "crawl_jobs",
+                        principalColumn: "id",
+                        onDelete: ReferentialAction.SetNull);
+                    table.ForeignKey(
+                        name: "FK_crawl_schedules_providers_provider_id",
+                        column: x => x.provider_id,
+                        principalTable: "providers",
+                        principalColumn: "id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_crawl_schedules_is_enabled_next_run_at",
+                table: "crawl_schedules",
+                columns: new[] { "is_enabled", "next_run_at" });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_crawl_schedules_last_job_id",
+                table: "crawl_schedules",
+                column: "last_job_id");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_crawl_schedules_provider_id",
+                table: "crawl_schedules",
+                column: "provider_id");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "crawl_schedules");
+        }
+    }
+}
@@ -0,0 +1,30 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace VisualSearch.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddImageCountToExtractedProducts : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "image_count",
+                table: "crawl_extracted_products",
+                type: "integer",
+                nullable: false,
+                computedColumnSql: "jsonb_array_length(COALESCE(image_urls_json, '[]')::jsonb)",
+                stored: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "image_count",
+                table: "crawl_extracted_products");
+        }
+    }
+}
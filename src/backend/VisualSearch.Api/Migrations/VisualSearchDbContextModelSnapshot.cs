@@ -151,6 +151,12 @@ namespace VisualSearch.Api.Migrations
                         .HasColumnType("character varying(255)")
                         .HasColumnName("external_id");
 
+                    b.Property<int>("ImageCount")
+                        .ValueGeneratedOnAddOrUpdate()
+                        .HasColumnType("integer")
+                        .HasColumnName("image_count")
+                        .HasComputedColumnSql("jsonb_array_length(COALESCE(image_urls_json, '[]')::jsonb)", true);
+
                     b.Property<string>("ImageUrlsJson")
                         .HasColumnType("text")
                         .HasColumnName("image_urls_json");
@@ -346,6 +352,10 @@ namespace VisualSearch.Api.Migrations
                         .HasColumnName("created_at")
                         .HasDefaultValueSql("CURRENT_TIMESTAMP");
 
+                    b.Property<int?>("DurationMs")
+                        .HasColumnType("integer")
+                        .HasColumnName("duration_ms");
+
                     b.Property<string>("ErrorMessage")
                         .HasMaxLength(2000)
                         .HasColumnType("character varying(2000)")
@@ -390,6 +400,96 @@ namespace VisualSearch.Api.Migrations
                     b.ToTable("crawl_pages", (string)null);
                 });
 
+            modelBuilder.Entity("VisualSearch.Api.Data.Entities.CrawlSchedule", b =>
+                {
+                    b.Property<int>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("integer")
+                        .HasColumnName("id");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<int>("Id"));
+
+                    b.Property<DateTime>("CreatedAt")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("created_at")
+                        .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+                    b.Property<string>("CronExpression")
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)")
+                        .HasColumnName("cron_expression");
+
+                    b.Property<int?>("DayOfWeek")
+                        .HasColumnType("integer")
+                        .HasColumnName("day_of_week");
+
+                    b.Property<int>("Frequency")
+                        .HasColumnType("integer")
+                        .HasColumnName("frequency");
+
+                    b.Property<bool>("IsEnabled")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("boolean")
+                        .HasDefaultValue(true)
+                        .HasColumnName("is_enabled");
+
+                    b.Property<long?>("LastJobId")
+                        .HasColumnType("bigint")
+                        .HasColumnName("last_job_id");
+
+                    b.Property<DateTime?>("LastRunAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("last_run_at");
+
+                    b.Property<string>("LastSkipReason")
+                        .HasMaxLength(500)
+                        .HasColumnType("character varying(500)")
+                        .HasColumnName("last_skip_reason");
+
+                    b.Property<int?>("MaxPages")
+                        .HasColumnType("integer")
+                        .HasColumnName("max_pages");
+
+                    b.Property<DateTime?>("NextRunAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("next_run_at");
+
+                    b.Property<int>("ProviderId")
+                        .HasColumnType("integer")
+                        .HasColumnName("provider_id");
+
+                    b.Property<string>("SitemapUrl")
+                        .HasMaxLength(2048)
+                        .HasColumnType("character varying(2048)")
+                        .HasColumnName("sitemap_url");
+
+                    b.Property<string>("StartUrl")
+                        .HasMaxLength(2048)
+                        .HasColumnType("character varying(2048)")
+                        .HasColumnName("start_url");
+
+                    b.Property<TimeOnly?>("TimeOfDay")
+                        .HasColumnType("time without time zone")
+                        .HasColumnName("time_of_day");
+
+                    b.Property<string>("TimeZoneId")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)")
+                        .HasColumnName("time_zone_id");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("LastJobId");
+
+                    b.HasIndex("ProviderId");
+
+                    b.HasIndex("IsEnabled", "NextRunAt");
+
+                    b.ToTable("crawl_schedules", (string)null);
+                });
+
             modelBuilder.Entity("VisualSearch.Api.Data.Entities.Product", b =>
                 {
                     b.Property<int>("Id")
@@ -500,12 +600,18 @@ namespace VisualSearch.Api.Migrations
                         .HasColumnType("integer")
                         .HasColumnName("product_id");
 
+                    b.Property<DateTime?>("VectorizedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("vectorized_at");
+
                     b.HasKey("Id");
 
                     b.HasIndex("IsPrimary");
 
                     b.HasIndex("ProductId");
 
+                    b.HasIndex("VectorizedAt");
+
                     b.ToTable("product_images", (string)null);
                 });
 
@@ -677,6 +783,24 @@ namespace VisualSearch.Api.Migrations
                     b.Navigation("CrawlJob");
                 });
 
+            modelBuilder.Entity("VisualSearch.Api.Data.Entities.CrawlSchedule", b =>
+                {
+                    b.HasOne("VisualSearch.Api.Data.Entities.CrawlJob", "LastJob")
+                        .WithMany()
+                        .HasForeignKey("LastJobId")
+                        .OnDelete(DeleteBehavior.SetNull);
+
+                    b.HasOne("VisualSearch.Api.Data.Entities.Provider", "Provider")
+                        .WithMany()
+                        .HasForeignKey("ProviderId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("LastJob");
+
+                    b.Navigation("Provider");
+                });
+
             modelBuilder.Entity("VisualSearch.Api.Data.Entities.Product", b =>
                 {
                     b.HasOne("VisualSearch.Api.Data.Entities.Category", "Category")
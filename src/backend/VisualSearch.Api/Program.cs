@@ -7,6 +7,7 @@ using Microsoft.OpenApi.Models;
 using Npgsql;
 using Pgvector.Npgsql;
 using VisualSearch.Api;
+using VisualSearch.Api.Contracts.DTOs;
 using VisualSearch.Api.Data;
 using VisualSearch.Api.Endpoints;
 using VisualSearch.Api.Extensions;
@@ -103,6 +104,11 @@ builder.Services.AddSwaggerGen(options =>
         Description = "High-performance visual similarity search API using CLIP embeddings and pgvector."
     });
 
+    // Emit accurate nullability so the generated frontend client (kubb) gets strict types
+    options.SupportNonNullableReferenceTypes();
+    options.SchemaFilter<RequiredPropertiesSchemaFilter>();
+    options.SchemaFilter<EnumNamesSchemaFilter>();
+
     // Add JWT authentication to Swagger
     options.AddSecurityDefinition("Bearer", new OpenApiSecurityScheme
     {
@@ -151,16 +157,13 @@ app.UseAuthorization();
 app.MapGet("/health", (
     ClipEmbeddingService clipService,
     ObjectDetectionService yoloService) => 
-    Results.Ok(new 
-    { 
-        Status = "Healthy", 
-        Timestamp = DateTime.UtcNow,
-        Models = new 
-        {
-            ClipLoaded = clipService.IsModelLoaded,
-            YoloLoaded = yoloService.IsModelLoaded
-        }
-    }))
+    Results.Ok(new HealthCheckResponse(
+        Status: "Healthy",
+        Timestamp: DateTime.UtcNow,
+        Models: new HealthCheckModels(
+            ClipLoaded: clipService.IsModelLoaded,
+            YoloLoaded: yoloService.IsModelLoaded))))
+    .Produces<HealthCheckResponse>(200)
     .WithName("HealthCheck")
     .WithTags("System");
 
@@ -16,6 +16,11 @@ public sealed class ImageUploadService
     private const int MaxImageHeight = 800;
     private const int JpegQuality = 85;
 
+    // Walking the uploads tree is slow for large catalogues; status polling reuses the last result
+    private static readonly TimeSpan StorageUsageCacheDuration = TimeSpan.FromSeconds(60);
+    private readonly object _storageUsageLock = new();
+    private UploadStorageUsage? _storageUsage;
+
     /// <summary>
     /// Initializes a new instance of the <see cref="ImageUploadService"/> class.
     /// </summary>
@@ -186,4 +191,70 @@ public sealed class ImageUploadService
         var fullPath = Path.Combine(_uploadsPath, relativePath.Replace('/', Path.DirectorySeparatorChar));
         return File.Exists(fullPath);
     }
+
+    /// <summary>
+    /// Gets disk usage of the uploads folder and free space on its volume.
+    /// Results are cached briefly because the folder is walked recursively.
+    /// </summary>
+    /// <returns>The storage usage.</returns>
+    public UploadStorageUsage GetStorageUsage()
+    {
+        lock (_storageUsageLock)
+        {
+            if (_storageUsage is not null && DateTime.UtcNow - _storageUsage.MeasuredAt < StorageUsageCacheDuration)
+            {
+                return _storageUsage;
+            }
+
+            _storageUsage = MeasureStorageUsage();
+            return _storageUsage;
+        }
+    }
+
+    private UploadStorageUsage MeasureStorageUsage()
+    {
+        if (!Directory.Exists(_uploadsPath))
+        {
+            return new UploadStorageUsage(0, 0, null, null, DateTime.UtcNow);
+        }
+
+        long usedBytes = 0;
+        var fileCount = 0;
+        long? freeBytes = null;
+        long? totalBytes = null;
+
+        try
+        {
+            foreach (var file in new DirectoryInfo(_uploadsPath).EnumerateFiles("*", SearchOption.AllDirectories))
+            {
+                usedBytes += file.Length;
+                fileCount++;
+            }
+
+            var drive = new DriveInfo(Path.GetFullPath(_uploadsPath));
+            freeBytes = drive.AvailableFreeSpace;
+            totalBytes = drive.TotalSize;
+        }
+        catch (Exception ex) when (ex is IOException or UnauthorizedAccessException or ArgumentException)
+        {
+            _logger.LogWarning(ex, "Failed to measure storage usage of {Path}", _uploadsPath);
+        }
+
+        return new UploadStorageUsage(usedBytes, fileCount, freeBytes, totalBytes, DateTime.UtcNow);
+    }
 }
+
+/// <summary>
+/// Disk usage of the uploads folder.
+/// </summary>
+/// <param name="UsedBytes">Total size of all uploaded files.</param>
+/// <param name="FileCount">Number of uploaded files.</param>
+/// <param name="FreeBytes">Free space on the uploads volume, when it can be read.</param>
+/// <param name="TotalBytes">Size of the uploads volume, when it can be read.</param>
+/// <param name="MeasuredAt">When the usage was measured (UTC).</param>
+public sealed record UploadStorageUsage(
+    long UsedBytes,
+    int FileCount,
+    long? FreeBytes,
+    long? TotalBytes,
+    DateTime MeasuredAt);
@@ -44,6 +44,11 @@ public sealed class ObjectDetectionService : IDisposable
         "refrigerator", "book", "clock", "vase", "scissors", "teddy bear", "hair drier", "toothbrush"
     ];
 
+    /// <summary>
+    /// Gets the class names the detector can report, indexed by COCO class ID.
+    /// </summary>
+    public static IReadOnlyList<string> ClassNames => CocoClasses;
+
     /// <summary>
     /// Initializes a new instance of the <see cref="ObjectDetectionService"/> class.
     /// </summary>
@@ -0,0 +1,77 @@
+namespace VisualSearch.Api.Services;
+
+/// <summary>
+/// Keeps a rolling window of recent visual search timings for the admin system status page.
+/// </summary>
+public sealed class SearchMetricsService
+{
+    private const int WindowSize = 100;
+
+    private readonly Queue<SearchTiming> _timings = new();
+    private readonly object _lock = new();
+
+    /// <summary>
+    /// Records the timings of a completed search.
+    /// </summary>
+    /// <param name="embeddingMs">Time spent detecting objects and generating embeddings.</param>
+    /// <param name="totalMs">Total search time.</param>
+    public void Record(long embeddingMs, long totalMs)
+    {
+        lock (_lock)
+        {
+            if (_timings.Count == WindowSize)
+            {
+                _timings.Dequeue();
+            }
+
+            _timings.Enqueue(new SearchTiming(embeddingMs, totalMs, DateTime.UtcNow));
+        }
+    }
+
+    /// <summary>
+    /// Gets latency statistics over the recorded window.
+    /// </summary>
+    public SearchMetricsSnapshot GetSnapshot()
+    {
+        SearchTiming[] timings;
+        lock (_lock)
+        {
+            timings = _timings.ToArray();
+        }
+
+        if (timings.Length == 0)
+        {
+            return new SearchMetricsSnapshot(0, null, null, null, null, null);
+        }
+
+        var embedding = timings.Select(t => t.EmbeddingMs).Order().ToArray();
+        var total = timings.Select(t => t.TotalMs).Order().ToArray();
+
+        return new SearchMetricsSnapshot(
+            SampleCount: timings.Length,
+            AverageEmbeddingMs: embedding.Average(),
+            P95EmbeddingMs: Percentile(embedding, 0.95),
+            AverageTotalMs: total.Average(),
+            P95TotalMs: Percentile(total, 0.95),
+            LastSearchAt: timings[^1].RecordedAt);
+    }
+
+    private static long Percentile(long[] sorted, double percentile)
+    {
+        var index = (int)Math.Ceiling(percentile * sorted.Length) - 1;
+        return sorted[Math.Clamp(index, 0, sorted.Length - 1)];
+    }
+
+    private sealed record SearchTiming(long EmbeddingMs, long TotalMs, DateTime RecordedAt);
+}
+
+/// <summary>
+/// Search latency statistics over the most recent searches.
+/// </summary>
+public sealed record SearchMetricsSnapshot(
+    int SampleCount,
+    double? AverageEmbeddingMs,
+    long? P95EmbeddingMs,
+    double? AverageTotalMs,
+    long? P95TotalMs,
+    DateTime? LastSearchAt);
@@ -0,0 +1,115 @@
+using System.Globalization;
+using VisualSearch.Api.Data.Entities;
+
+namespace VisualSearch.Api.Services;
+
+/// <summary>
+/// Describes a setting the application knows about: its default value and allowed range.
+/// </summary>
+/// <param name="Key">The setting key.</param>
+/// <param name="DefaultValue">The value seeded on first startup and restored on reset.</param>
+/// <param name="Type">The data type of the value.</param>
+/// <param name="Category">The admin panel group.</param>
+/// <param name="Description">What the setting controls.</param>
+/// <param name="Min">Smallest allowed value for numeric settings.</param>
+/// <param name="Max">Largest allowed value for numeric settings.</param>
+/// <param name="AllowEmpty">Whether an empty value is allowed, e.g. to turn an optional feature off.</param>
+public sealed record SettingDefinition(
+    string Key,
+    string DefaultValue,
+    SettingType Type,
+    string Category,
+    string Description,
+    decimal? Min = null,
+    decimal? Max = null,
+    bool AllowEmpty = false);
+
+/// <summary>
+/// Built-in settings with their defaults, and validation of setting values by type.
+/// </summary>
+public static class SettingDefinitions
+{
+    /// <summary>
+    /// Gets the built-in settings.
+    /// </summary>
+    public static IReadOnlyList<SettingDefinition> All { get; } =
+    [
+        new("search.maxImageSize", "800", SettingType.Integer, "search",
+            "Maximum image dimension (width/height) in pixels for preprocessing before search", 100, 2000),
+        new("search.jpegQuality", "85", SettingType.Integer, "search",
+            "JPEG quality (1-100) for image compression during preprocessing", 1, 100),
+        new("search.maxResults", "20", SettingType.Integer, "search",
+            "Maximum number of search results to return", 5, 100),
+        new("ui.siteName", "Visual Search", SettingType.String, "ui",
+            "The site name displayed in the header and browser title"),
+        new("ui.welcomeMessage", "Discover products through visual search. Upload an image to find similar items.",
+            SettingType.String, "ui", "Welcome message displayed on the home page"),
+        new("ui.primaryColor", "#8B7355", SettingType.String, "ui",
+            "Primary accent color for the UI"),
+        new("ui.logoUrl", "", SettingType.String, "ui",
+            "Logo image URL shown in the header instead of the site name (empty shows the name)", AllowEmpty: true),
+        new("ui.fontFamily", "Inter", SettingType.String, "ui",
+            "Font family for text; the browser falls back to its system font when it is not available"),
+        new("ui.darkModeDefault", "false", SettingType.Boolean, "ui",
+            "Whether visitors see the dark theme until they choose one themselves"),
+        new("ui.showSimilarityScore", "true", SettingType.Boolean, "ui",
+            "Whether to show similarity percentage on search results"),
+        new("ui.showProviderFilter", "true", SettingType.Boolean, "ui",
+            "Whether to show the provider filter on search results"),
+        new("ui.recentlyViewedLimit", "50", SettingType.Integer, "ui",
+            "Number of recently viewed products kept per browser (0 disables tracking)", 0, 200)
+    ];
+
+    /// <summary>
+    /// Finds the built-in definition of a setting, or null for settings created at runtime.
+    /// </summary>
+    public static SettingDefinition? Find(string key) =>
+        All.FirstOrDefault(d => d.Key == key);
+
+    /// <summary>
+    /// Checks that a value parses as the setting's type and lies within the built-in range, if any.
+    /// </summary>
+    /// <returns>Why the value is invalid, or null when it is valid.</returns>
+    public static string? Validate(string key, SettingType type, string value)
+    {
+        var definition = Find(key);
+        if (string.IsNullOrWhiteSpace(value))
+        {
+            return definition?.AllowEmpty == true ? null : "Value is required";
+        }
+
+        decimal number;
+        switch (type)
+        {
+            case SettingType.Boolean:
+                return value is "true" or "false" ? null : "Value must be true or false";
+            case SettingType.Integer:
+                if (!long.TryParse(value, NumberStyles.Integer, CultureInfo.InvariantCulture, out var integer))
+                {
+                    return "Value must be a whole number";
+                }
+                number = integer;
+                break;
+            case SettingType.Decimal:
+                if (!decimal.TryParse(value, NumberStyles.Number, CultureInfo.InvariantCulture, out number))
+                {
+                    return "Value must be a number";
+                }
+                break;
+            default:
+                return null;
+        }
+
+        if (definition?.Min is { } min && number < min)
+        {
+            return $"Value must be at least {min.ToString(CultureInfo.InvariantCulture)}";
+        }
+
+        if (definition?.Max is { } max && number > max)
+        {
+            return $"Value must be at most {max.ToString(CultureInfo.InvariantCulture)}";
+        }
+
+        return null;
+    }
+}
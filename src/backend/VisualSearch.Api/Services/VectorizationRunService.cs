@@ -0,0 +1,262 @@
+using System.Diagnostics;
+using VisualSearch.Api.Contracts.DTOs;
+using VisualSearch.Api.Domain.Interfaces;
+
+namespace VisualSearch.Api.Services;
+
+/// <summary>
+/// Runs "vectorize all" in the background and tracks its progress for the admin panel.
+/// Only one run can be active at a time; the most recent run stays readable after it finishes.
+/// </summary>
+public sealed class VectorizationRunService : IDisposable
+{
+    private const int MaxRecordedFailures = 100;
+
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly VectorizationService _vectorizationService;
+    private readonly IHostApplicationLifetime _lifetime;
+    private readonly ILogger<VectorizationRunService> _logger;
+    private readonly object _lock = new();
+
+    private RunState? _run;
+    private CancellationTokenSource? _cts;
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="VectorizationRunService"/> class.
+    /// </summary>
+    /// <param name="scopeFactory">Service scope factory for creating per-image service scopes.</param>
+    /// <param name="vectorizationService">Vectorization service, used to check that CLIP is loaded.</param>
+    /// <param name="lifetime">Application lifetime, so a run stops when the API shuts down.</param>
+    /// <param name="logger">Logger instance.</param>
+    public VectorizationRunService(
+        IServiceScopeFactory scopeFactory,
+        VectorizationService vectorizationService,
+        IHostApplicationLifetime lifetime,
+        ILogger<VectorizationRunService> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _vectorizationService = vectorizationService;
+        _lifetime = lifetime;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Gets the current or most recent run, or null if none was started since the API started.
+    /// </summary>
+    public VectorizationRunDto? GetStatus()
+    {
+        lock (_lock)
+        {
+            return _run?.ToDto();
+        }
+    }
+
+    /// <summary>
+    /// Starts a run in the background.
+    /// </summary>
+    /// <param name="force">Whether to regenerate embeddings for images that already have one.</param>
+    /// <exception cref="InvalidOperationException">CLIP is not loaded or a run is already in progress.</exception>
+    public VectorizationRunDto Start(bool force)
+    {
+        if (!_vectorizationService.IsAvailable)
+        {
+            throw new InvalidOperationException("Vectorization is not available. CLIP model not loaded.");
+        }
+
+        lock (_lock)
+        {
+            if (_run?.Status == VectorizationRunStatus.Running)
+            {
+                throw new InvalidOperationException("A vectorization run is already in progress.");
+            }
+
+            _cts?.Dispose();
+            _cts = CancellationTokenSource.CreateLinkedTokenSource(_lifetime.ApplicationStopping);
+            _run = new RunState(force);
+
+            var run = _run;
+            var cancellationToken = _cts.Token;
+            _ = Task.Run(() => ExecuteAsync(run, cancellationToken), CancellationToken.None);
+
+            return run.ToDto();
+        }
+    }
+
+    /// <summary>
+    /// Requests cancellation of the active run. The image being processed is finished first.
+    /// </summary>
+    /// <exception cref="InvalidOperationException">No run is in progress.</exception>
+    public VectorizationRunDto Cancel()
+    {
+        lock (_lock)
+        {
+            if (_run?.Status != VectorizationRunStatus.Running)
+            {
+                throw new InvalidOperationException("No vectorization run is in progress.");
+            }
+
+            _run.CancelRequested = true;
+            _cts?.Cancel();
+
+            return _run.ToDto();
+        }
+    }
+
+    public void Dispose()
+    {
+        _cts?.Cancel();
+        _cts?.Dispose();
+    }
+
+    private async Task ExecuteAsync(RunState run, CancellationToken cancellationToken)
+    {
+        try
+        {
+            IReadOnlyList<int> imageIds;
+            using (var scope = _scopeFactory.CreateScope())
+            {
+                var imageService = scope.ServiceProvider.GetRequiredService<IProductImageService>();
+                imageIds = await imageService.GetImageIdsToVectorizeAsync(run.Force, cancellationToken);
+            }
+
+            lock (_lock)
+            {
+                run.Begin(imageIds.Count);
+            }
+
+            _logger.LogInformation("Starting vectorization run of {Count} images (force={Force})", imageIds.Count, run.Force);
+
+            foreach (var imageId in imageIds)
+            {
+                cancellationToken.ThrowIfCancellationRequested();
+
+                var outcome = await VectorizeImageAsync(imageId, cancellationToken);
+
+                lock (_lock)
+                {
+                    run.Record(outcome);
+                }
+            }
+
+            Finish(run, VectorizationRunStatus.Completed);
+        }
+        catch (OperationCanceledException)
+        {
+            Finish(run, VectorizationRunStatus.Canceled);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Vectorization run failed");
+            Finish(run, VectorizationRunStatus.Failed, ex.Message);
+        }
+    }
+
+    private async Task<ImageVectorizationOutcome> VectorizeImageAsync(int imageId, CancellationToken cancellationToken)
+    {
+        // A fresh scope per image keeps the change tracker from growing over runs that take hours
+        using var scope = _scopeFactory.CreateScope();
+        var imageService = scope.ServiceProvider.GetRequiredService<IProductImageService>();
+
+        try
+        {
+            return await imageService.TryVectorizeImageAsync(imageId, cancellationToken);
+        }
+        catch (Exception ex) when (ex is not OperationCanceledException)
+        {
+            _logger.LogWarning(ex, "Failed to vectorize image {ImageId}", imageId);
+            return new ImageVectorizationOutcome(imageId, null, null, ex.Message);
+        }
+    }
+
+    private void Finish(RunState run, VectorizationRunStatus status, string? error = null)
+    {
+        lock (_lock)
+        {
+            run.Finish(status, error);
+        }
+
+        _logger.LogInformation(
+            "Vectorization run {Status}: {Succeeded} succeeded, {Failed} failed of {Total}",
+            status, run.Succeeded, run.Failed, run.Total);
+    }
+
+    /// <summary>
+    /// Mutable run state; always accessed under the service lock.
+    /// </summary>
+    private sealed class RunState
+    {
+        private readonly Queue<VectorizationFailureDto> _failures = new();
+        private readonly Stopwatch _stopwatch = new();
+
+        public RunState(bool force)
+        {
+            Force = force;
+            StartedAt = DateTime.UtcNow;
+        }
+
+        public bool Force { get; }
+        public DateTime StartedAt { get; }
+        public VectorizationRunStatus Status { get; private set; } = VectorizationRunStatus.Running;
+        public DateTime? FinishedAt { get; private set; }
+        public string? Error { get; private set; }
+        public bool CancelRequested { get; set; }
+        public int Total { get; private set; }
+        public int Processed { get; private set; }
+        public int Succeeded { get; private set; }
+        public int Failed => Processed - Succeeded;
+
+        public void Begin(int total)
+        {
+            Total = total;
+            _stopwatch.Start();
+        }
+
+        public void Record(ImageVectorizationOutcome outcome)
+        {
+            Processed++;
+            if (outcome.Succeeded)
+            {
+                Succeeded++;
+                return;
+            }
+
+            if (_failures.Count == MaxRecordedFailures)
+            {
+                _failures.Dequeue();
+            }
+
+            _failures.Enqueue(new VectorizationFailureDto(
+                outcome.ImageId, outcome.ProductId, outcome.ImageUrl, outcome.Error!, DateTime.UtcNow));
+        }
+
+        public void Finish(VectorizationRunStatus status, string? error)
+        {
+            _stopwatch.Stop();
+            Status = status;
+            Error = error;
+            FinishedAt = DateTime.UtcNow;
+        }
+
+        public VectorizationRunDto ToDto()
+        {
+            // Extrapolates from the average time per image so far
+            double? secondsRemaining = Status == VectorizationRunStatus.Running && Processed > 0
+                ? _stopwatch.Elapsed.TotalSeconds / Processed * (Total - Processed)
+                : null;
+
+            return new VectorizationRunDto(
+                Status: Status,
+                Force: Force,
+                TotalImages: Total,
+                ProcessedImages: Processed,
+                SucceededImages: Succeeded,
+                FailedImages: Failed,
+                StartedAt: StartedAt,
+                FinishedAt: FinishedAt,
+                EstimatedSecondsRemaining: secondsRemaining,
+                CancelRequested: CancelRequested,
+                Error: Error,
+                Failures: _failures.Reverse().ToList());
+        }
+    }
+}
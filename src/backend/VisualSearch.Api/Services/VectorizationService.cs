@@ -127,6 +127,7 @@ public sealed class VectorizationService
         }
 
         productImage.Embedding = new Vector(embedding);
+        productImage.VectorizedAt = DateTime.UtcNow;
         await dbContext.SaveChangesAsync(cancellationToken);
 
         _logger.LogInformation("Vectorized product image {ImageId} (source: {Source})",
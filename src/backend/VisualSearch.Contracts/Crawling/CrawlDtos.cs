@@ -71,6 +71,12 @@ public sealed record CrawlPageDto
     /// <summary>Gets the HTTP status code if available.</summary>
     public int? HttpStatusCode { get; init; }
 
+    /// <summary>Gets the HTML title if available.</summary>
+    public string? Title { get; init; }
+
+    /// <summary>Gets the response content type if available.</summary>
+    public string? ContentType { get; init; }
+
     /// <summary>Gets the last error if any.</summary>
     public string? Error { get; init; }
 
@@ -82,4 +88,7 @@ public sealed record CrawlPageDto
 
     /// <summary>Gets the duration in milliseconds if available.</summary>
     public int? DurationMs { get; init; }
+
+    /// <summary>Gets the number of products extracted from this page.</summary>
+    public int ProductsExtracted { get; init; }
 }
@@ -0,0 +1,75 @@
+namespace VisualSearch.Contracts.Crawling;
+
+/// <summary>
+/// Computes when a crawl schedule runs next. Shared by the API, which shows the next run,
+/// and the worker, which queues the jobs.
+/// </summary>
+public static class CrawlScheduleCalculator
+{
+    /// <summary>
+    /// Statuses of a provider's job that make its scheduled run skip, so crawls never overlap.
+    /// </summary>
+    public static IReadOnlyCollection<CrawlJobStatus> BlockingJobStatuses { get; } =
+    [
+        CrawlJobStatus.Queued,
+        CrawlJobStatus.Running,
+        CrawlJobStatus.Paused
+    ];
+
+    /// <summary>
+    /// Builds the cron expression a schedule runs on. Daily and weekly schedules are
+    /// shorthands for cron expressions at <paramref name="timeOfDay"/>.
+    /// </summary>
+    /// <exception cref="FormatException">The schedule settings don't describe a valid schedule.</exception>
+    public static CronExpression GetExpression(
+        CrawlScheduleFrequency frequency,
+        TimeOnly? timeOfDay,
+        DayOfWeek? dayOfWeek,
+        string? cronExpression)
+    {
+        switch (frequency)
+        {
+            case CrawlScheduleFrequency.Daily:
+                var dailyTime = timeOfDay ?? throw new FormatException("Daily schedules need a time of day.");
+                return CronExpression.Parse($"{dailyTime.Minute} {dailyTime.Hour} * * *");
+
+            case CrawlScheduleFrequency.Weekly:
+                var weeklyTime = timeOfDay ?? throw new FormatException("Weekly schedules need a time of day.");
+                var day = dayOfWeek ?? throw new FormatException("Weekly schedules need a day of week.");
+                return CronExpression.Parse($"{weeklyTime.Minute} {weeklyTime.Hour} * * {(int)day}");
+
+            case CrawlScheduleFrequency.Cron:
+                if (string.IsNullOrWhiteSpace(cronExpression))
+                {
+                    throw new FormatException("Cron schedules need a cron expression.");
+                }
+                return CronExpression.Parse(cronExpression);
+
+            default:
+                throw new FormatException($"Unknown schedule frequency '{frequency}'.");
+        }
+    }
+
+    /// <summary>
+    /// Gets the next run after <paramref name="afterUtc"/>, evaluating the schedule in its time zone.
+    /// Local times skipped by a daylight saving change are not run.
+    /// </summary>
+    /// <exception cref="TimeZoneNotFoundException">The time zone is not known on this system.</exception>
+    public static DateTime? GetNextRunUtc(CronExpression expression, string timeZoneId, DateTime afterUtc)
+    {
+        var timeZone = TimeZoneInfo.FindSystemTimeZoneById(timeZoneId);
+        var local = DateTime.SpecifyKind(TimeZoneInfo.ConvertTimeFromUtc(afterUtc, timeZone), DateTimeKind.Unspecified);
+
+        while (expression.GetNextOccurrence(local) is { } next)
+        {
+            if (!timeZone.IsInvalidTime(next))
+            {
+                return TimeZoneInfo.ConvertTimeToUtc(next, timeZone);
+            }
+
+            local = next;
+        }
+
+        return null;
+    }
+}
@@ -0,0 +1,16 @@
+namespace VisualSearch.Contracts.Crawling;
+
+/// <summary>
+/// How often a crawl schedule queues a new job.
+/// </summary>
+public enum CrawlScheduleFrequency
+{
+    /// <summary>Every day at the schedule's time of day.</summary>
+    Daily = 0,
+
+    /// <summary>Once a week on the schedule's day of week, at its time of day.</summary>
+    Weekly = 1,
+
+    /// <summary>Whenever the schedule's five-field cron expression matches.</summary>
+    Cron = 2
+}
@@ -32,37 +32,37 @@ public class CrawlerConfig
     public string UserAgent { get; set; } = "VisualSearchBot/1.0 (+https://github.com/loferreiranuno/momarq)";
 
     /// <summary>
-    /// CSS selector for product containers on listing pages.
+    /// XPath selector for product containers on listing pages.
     /// </summary>
     public string? ProductContainerSelector { get; set; }
 
     /// <summary>
-    /// CSS selector for product links.
+    /// XPath selector for product links.
     /// </summary>
     public string? ProductLinkSelector { get; set; }
 
     /// <summary>
-    /// CSS selector for product name.
+    /// XPath selector for product name.
     /// </summary>
     public string? ProductNameSelector { get; set; }
 
     /// <summary>
-    /// CSS selector for product price.
+    /// XPath selector for product price.
     /// </summary>
     public string? ProductPriceSelector { get; set; }
 
     /// <summary>
-    /// CSS selector for product description.
+    /// XPath selector for product description.
     /// </summary>
     public string? ProductDescriptionSelector { get; set; }
 
     /// <summary>
-    /// CSS selector for product images.
+    /// XPath selector for product images.
     /// </summary>
     public string? ProductImageSelector { get; set; }
 
     /// <summary>
-    /// CSS selector for pagination/next page links.
+    /// XPath selector for pagination/next page links.
     /// </summary>
     public string? PaginationSelector { get; set; }
 
@@ -87,7 +87,7 @@ public class CrawlerConfig
 /// </summary>
 public static class CrawlerTypes
 {
-    /// <summary>Generic HTML crawler with CSS selectors.</summary>
+    /// <summary>Generic HTML crawler with XPath selectors.</summary>
     public const string Generic = "generic";
 
     /// <summary>Crawler that extracts JSON-LD structured data.</summary>
@@ -0,0 +1,206 @@
+namespace VisualSearch.Contracts.Crawling;
+
+/// <summary>
+/// A standard five-field cron expression: minute, hour, day of month, month and day of week.
+/// Fields accept <c>*</c>, single values, ranges (<c>1-5</c>), steps (<c>*/15</c>, <c>0-30/10</c>)
+/// and comma-separated lists. Day of week is 0-7, where both 0 and 7 are Sunday.
+/// </summary>
+public sealed class CronExpression
+{
+    private readonly bool[] _minutes;
+    private readonly bool[] _hours;
+    private readonly bool[] _daysOfMonth;
+    private readonly bool[] _months;
+    private readonly bool[] _daysOfWeek;
+    private readonly bool _dayOfMonthRestricted;
+    private readonly bool _dayOfWeekRestricted;
+
+    private CronExpression(
+        bool[] minutes,
+        bool[] hours,
+        bool[] daysOfMonth,
+        bool[] months,
+        bool[] daysOfWeek,
+        bool dayOfMonthRestricted,
+        bool dayOfWeekRestricted)
+    {
+        _minutes = minutes;
+        _hours = hours;
+        _daysOfMonth = daysOfMonth;
+        _months = months;
+        _daysOfWeek = daysOfWeek;
+        _dayOfMonthRestricted = dayOfMonthRestricted;
+        _dayOfWeekRestricted = dayOfWeekRestricted;
+    }
+
+    /// <summary>
+    /// Parses a cron expression.
+    /// </summary>
+    /// <exception cref="FormatException">The expression is not a valid five-field cron expression.</exception>
+    public static CronExpression Parse(string expression)
+    {
+        var fields = expression.Split(' ', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries);
+        if (fields.Length != 5)
+        {
+            throw new FormatException("A cron expression needs five fields: minute, hour, day of month, month and day of week.");
+        }
+
+        var daysOfWeek = ParseField(fields[4], 0, 7, "day of week");
+        // 7 is an alias for Sunday
+        daysOfWeek[0] |= daysOfWeek[7];
+
+        return new CronExpression(
+            ParseField(fields[0], 0, 59, "minute"),
+            ParseField(fields[1], 0, 23, "hour"),
+            ParseField(fields[2], 1, 31, "day of month"),
+            ParseField(fields[3], 1, 12, "month"),
+            daysOfWeek,
+            dayOfMonthRestricted: fields[2] != "*",
+            dayOfWeekRestricted: fields[4] != "*");
+    }
+
+    /// <summary>
+    /// Tries to parse a cron expression, returning the reason when it is invalid.
+    /// </summary>
+    public static bool TryParse(string? expression, out CronExpression? result, out string? error)
+    {
+        result = null;
+        error = null;
+
+        if (string.IsNullOrWhiteSpace(expression))
+        {
+            error = "Cron expression is required.";
+            return false;
+        }
+
+        try
+        {
+            result = Parse(expression);
+            return true;
+        }
+        catch (FormatException ex)
+        {
+            error = ex.Message;
+            return false;
+        }
+    }
+
+    /// <summary>
+    /// Gets the first time after <paramref name="after"/> that matches the expression,
+    /// or null when nothing matches within the next four years (e.g. "0 0 30 2 *").
+    /// Times are compared as given; callers convert to and from the schedule's time zone.
+    /// </summary>
+    public DateTime? GetNextOccurrence(DateTime after)
+    {
+        // Cron has minute resolution, so start at the next whole minute
+        var candidate = new DateTime(after.Year, after.Month, after.Day, after.Hour, after.Minute, 0, after.Kind)
+            .AddMinutes(1);
+        var limit = candidate.AddYears(4);
+
+        while (candidate < limit)
+        {
+            if (!_months[candidate.Month])
+            {
+                candidate = new DateTime(candidate.Year, candidate.Month, 1, 0, 0, 0, candidate.Kind).AddMonths(1);
+                continue;
+            }
+
+            if (!MatchesDay(candidate))
+            {
+                candidate = candidate.Date.AddDays(1);
+                continue;
+            }
+
+            if (!_hours[candidate.Hour])
+            {
+                candidate = candidate.Date.AddHours(candidate.Hour + 1);
+                continue;
+            }
+
+            if (!_minutes[candidate.Minute])
+            {
+                candidate = candidate.AddMinutes(1);
+                continue;
+            }
+
+            return candidate;
+        }
+
+        return null;
+    }
+
+    private bool MatchesDay(DateTime date)
+    {
+        var dayOfMonth = _daysOfMonth[date.Day];
+        var dayOfWeek = _daysOfWeek[(int)date.DayOfWeek];
+
+        // When both day fields are restricted, cron runs on days matching either of them
+        if (_dayOfMonthRestricted && _dayOfWeekRestricted)
+        {
+            return dayOfMonth || dayOfWeek;
+        }
+
+        return dayOfMonth && dayOfWeek;
+    }
+
+    private static bool[] ParseField(string field, int min, int max, string name)
+    {
+        var allowed = new bool[max + 1];
+
+        foreach (var part in field.Split(','))
+        {
+            var rangeAndStep = part.Split('/');
+            if (rangeAndStep.Length > 2)
+            {
+                throw new FormatException($"Invalid {name} field '{field}'.");
+            }
+
+            var step = 1;
+            if (rangeAndStep.Length == 2 && (!int.TryParse(rangeAndStep[1], out step) || step < 1))
+            {
+                throw new FormatException($"Invalid step in {name} field '{field}'.");
+            }
+
+            int start;
+            int end;
+            var range = rangeAndStep[0];
+            if (range == "*")
+            {
+                start = min;
+                end = max;
+            }
+            else if (range.Split('-') is [var from, var to])
+            {
+                start = ParseValue(from, min, max, name);
+                end = ParseValue(to, min, max, name);
+                if (start > end)
+                {
+                    throw new FormatException($"Invalid range '{range}' in {name} field.");
+                }
+            }
+            else
+            {
+                start = ParseValue(range, min, max, name);
+                // "5/15" means every 15 starting at 5
+                end = rangeAndStep.Length == 2 ? max : start;
+            }
+
+            for (var value = start; value <= end; value += step)
+            {
+                allowed[value] = true;
+            }
+        }
+
+        return allowed;
+    }
+
+    private static int ParseValue(string text, int min, int max, string name)
+    {
+        if (!int.TryParse(text, out var value) || value < min || value > max)
+        {
+            throw new FormatException($"'{text}' is not a valid {name}; expected {min}-{max}.");
+        }
+
+        return value;
+    }
+}
@@ -21,6 +21,7 @@ public sealed class WorkerDbContext : DbContext
     public DbSet<CrawlPageEntity> CrawlPages => Set<CrawlPageEntity>();
     public DbSet<CrawlExtractedProductEntity> CrawlExtractedProducts => Set<CrawlExtractedProductEntity>();
     public DbSet<ProviderEntity> Providers => Set<ProviderEntity>();
+    public DbSet<CrawlScheduleEntity> CrawlSchedules => Set<CrawlScheduleEntity>();
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -72,6 +73,7 @@ public sealed class WorkerDbContext : DbContext
             entity.Property(e => e.ErrorMessage).HasColumnName("error_message").HasMaxLength(2000);
             entity.Property(e => e.CreatedAt).HasColumnName("created_at");
             entity.Property(e => e.FetchedAt).HasColumnName("fetched_at");
+            entity.Property(e => e.DurationMs).HasColumnName("duration_ms");
 
             entity.HasOne(e => e.CrawlJob)
                 .WithMany(j => j.Pages)
@@ -126,6 +128,35 @@ public sealed class WorkerDbContext : DbContext
             entity.Property(e => e.CrawlerType).HasColumnName("crawler_type").HasMaxLength(50);
             entity.Property(e => e.CrawlerConfigJson).HasColumnName("crawler_config_json");
         });
+
+        // CrawlSchedule (the API manages schedules; the worker queues their jobs)
+        modelBuilder.Entity<CrawlScheduleEntity>(entity =>
+        {
+            entity.ToTable("crawl_schedules");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.ProviderId).HasColumnName("provider_id");
+            entity.Property(e => e.Frequency).HasColumnName("frequency");
+            entity.Property(e => e.TimeOfDay).HasColumnName("time_of_day");
+            entity.Property(e => e.DayOfWeek).HasColumnName("day_of_week");
+            entity.Property(e => e.CronExpression).HasColumnName("cron_expression").HasMaxLength(100);
+            entity.Property(e => e.TimeZoneId).HasColumnName("time_zone_id").HasMaxLength(100);
+            entity.Property(e => e.StartUrl).HasColumnName("start_url").HasMaxLength(2048);
+            entity.Property(e => e.SitemapUrl).HasColumnName("sitemap_url").HasMaxLength(2048);
+            entity.Property(e => e.MaxPages).HasColumnName("max_pages");
+            entity.Property(e => e.IsEnabled).HasColumnName("is_enabled");
+            entity.Property(e => e.NextRunAt).HasColumnName("next_run_at");
+            entity.Property(e => e.LastRunAt).HasColumnName("last_run_at");
+            entity.Property(e => e.LastJobId).HasColumnName("last_job_id");
+            entity.Property(e => e.LastSkipReason).HasColumnName("last_skip_reason").HasMaxLength(500);
+
+            entity.HasOne(e => e.Provider)
+                .WithMany()
+                .HasForeignKey(e => e.ProviderId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.IsEnabled, e.NextRunAt });
+        });
     }
 }
 
@@ -171,6 +202,7 @@ public sealed class CrawlPageEntity
     public string? ErrorMessage { get; set; }
     public DateTime CreatedAt { get; set; }
     public DateTime? FetchedAt { get; set; }
+    public int? DurationMs { get; set; }
 
     public CrawlJobEntity? CrawlJob { get; set; }
     public ICollection<CrawlExtractedProductEntity> ExtractedProducts { get; set; } = [];
@@ -210,3 +242,27 @@ public sealed class ProviderEntity
     public string? CrawlerType { get; set; }
     public string? CrawlerConfigJson { get; set; }
 }
+
+/// <summary>
+/// Crawl schedule entity for worker context.
+/// </summary>
+public sealed class CrawlScheduleEntity
+{
+    public int Id { get; set; }
+    public int ProviderId { get; set; }
+    public CrawlScheduleFrequency Frequency { get; set; }
+    public TimeOnly? TimeOfDay { get; set; }
+    public DayOfWeek? DayOfWeek { get; set; }
+    public string? CronExpression { get; set; }
+    public required string TimeZoneId { get; set; }
+    public string? StartUrl { get; set; }
+    public string? SitemapUrl { get; set; }
+    public int? MaxPages { get; set; }
+    public bool IsEnabled { get; set; }
+    public DateTime? NextRunAt { get; set; }
+    public DateTime? LastRunAt { get; set; }
+    public long? LastJobId { get; set; }
+    public string? LastSkipReason { get; set; }
+
+    public ProviderEntity? Provider { get; set; }
+}
@@ -81,6 +81,9 @@ builder.Services.AddSingleton<ICrawlerStrategyFactory, CrawlerStrategyFactory>()
 // Background worker service
 builder.Services.AddHostedService<CrawlJobWorkerService>();
 
+// Queues jobs for recurring crawl schedules
+builder.Services.AddHostedService<CrawlScheduleWorkerService>();
+
 // Logging
 builder.Logging.ClearProviders();
 builder.Logging.AddConsole();
@@ -1,3 +1,4 @@
+using System.Diagnostics;
 using System.Text.Json;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Options;
@@ -271,6 +272,8 @@ public sealed class CrawlJobWorkerService : BackgroundService
             page.Status = CrawlPageStatus.Processing;
             await db.SaveChangesAsync(ct);
 
+            var stopwatch = Stopwatch.StartNew();
+
             try
             {
                 var result = await strategy.CrawlPageAsync(page.Url, config, ct);
@@ -280,6 +283,7 @@ public sealed class CrawlJobWorkerService : BackgroundService
                 page.Title = result.Title;
                 page.ContentSha256 = result.ContentHash;
                 page.FetchedAt = DateTime.UtcNow;
+                page.DurationMs = (int)stopwatch.ElapsedMilliseconds;
 
                 if (result.Success)
                 {
@@ -368,6 +372,7 @@ public sealed class CrawlJobWorkerService : BackgroundService
                 page.Status = CrawlPageStatus.Failed;
                 page.ErrorMessage = ex.Message;
                 page.FetchedAt = DateTime.UtcNow;
+                page.DurationMs = (int)stopwatch.ElapsedMilliseconds;
                 await db.SaveChangesAsync(ct);
                 errorCount++;
 
@@ -0,0 +1,165 @@
+using Microsoft.EntityFrameworkCore;
+using VisualSearch.Contracts.Crawling;
+using VisualSearch.Worker.Data;
+
+namespace VisualSearch.Worker.Services;
+
+/// <summary>
+/// Background service that queues crawl jobs for due schedules.
+/// A schedule whose provider still has a queued, running or paused job skips that run.
+/// </summary>
+public sealed class CrawlScheduleWorkerService : BackgroundService
+{
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly ILogger<CrawlScheduleWorkerService> _logger;
+
+    // Schedules have minute resolution
+    private static readonly TimeSpan PollInterval = TimeSpan.FromSeconds(30);
+
+    public CrawlScheduleWorkerService(
+        IServiceScopeFactory scopeFactory,
+        ILogger<CrawlScheduleWorkerService> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        _logger.LogInformation("Crawl schedule worker starting");
+
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                await RunDueSchedulesAsync(stoppingToken);
+                await Task.Delay(PollInterval, stoppingToken);
+            }
+            catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
+            {
+                break;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error in crawl schedule worker loop");
+                await Task.Delay(TimeSpan.FromSeconds(30), stoppingToken);
+            }
+        }
+
+        _logger.LogInformation("Crawl schedule worker stopped");
+    }
+
+    private async Task RunDueSchedulesAsync(CancellationToken ct)
+    {
+        await using var scope = _scopeFactory.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<WorkerDbContext>();
+        var now = DateTime.UtcNow;
+
+        var dueSchedules = await db.CrawlSchedules
+            .AsNoTracking()
+            .Include(s => s.Provider)
+            .Where(s => s.IsEnabled && s.NextRunAt <= now)
+            .OrderBy(s => s.NextRunAt)
+            .ToListAsync(ct);
+
+        foreach (var schedule in dueSchedules)
+        {
+            await RunScheduleAsync(db, schedule, now, ct);
+        }
+    }
+
+    private async Task RunScheduleAsync(WorkerDbContext db, CrawlScheduleEntity schedule, DateTime now, CancellationToken ct)
+    {
+        DateTime? nextRunAt;
+        string? invalidReason = null;
+        try
+        {
+            var expression = CrawlScheduleCalculator.GetExpression(
+                schedule.Frequency, schedule.TimeOfDay, schedule.DayOfWeek, schedule.CronExpression);
+            nextRunAt = CrawlScheduleCalculator.GetNextRunUtc(expression, schedule.TimeZoneId, now);
+        }
+        catch (Exception ex) when (ex is FormatException or TimeZoneNotFoundException)
+        {
+            nextRunAt = null;
+            invalidReason = $"Schedule paused: {ex.Message}";
+        }
+
+        // Claim this run by moving the next run forward; another worker that got here first wins
+        var claimed = await db.CrawlSchedules
+            .Where(s => s.Id == schedule.Id && s.NextRunAt == schedule.NextRunAt)
+            .ExecuteUpdateAsync(u => u
+                .SetProperty(s => s.NextRunAt, nextRunAt)
+                .SetProperty(s => s.IsEnabled, nextRunAt != null)
+                .SetProperty(s => s.LastRunAt, now), ct);
+
+        if (claimed == 0)
+        {
+            return;
+        }
+
+        if (invalidReason is not null)
+        {
+            _logger.LogWarning("Crawl schedule {ScheduleId} is invalid and was paused: {Reason}", schedule.Id, invalidReason);
+            await RecordSkipAsync(db, schedule.Id, invalidReason, ct);
+            return;
+        }
+
+        var activeJob = await db.CrawlJobs
+            .Where(j => j.ProviderId == schedule.ProviderId && CrawlScheduleCalculator.BlockingJobStatuses.Contains(j.Status))
+            .OrderByDescending(j => j.CreatedAt)
+            .Select(j => new { j.Id, j.Status })
+            .FirstOrDefaultAsync(ct);
+
+        if (activeJob is not null)
+        {
+            _logger.LogInformation(
+                "Skipping crawl schedule {ScheduleId}: job {JobId} for provider {ProviderId} is {Status}",
+                schedule.Id, activeJob.Id, schedule.ProviderId, activeJob.Status);
+            await RecordSkipAsync(
+                db,
+                schedule.Id,
+                $"Skipped: job #{activeJob.Id} was still {activeJob.Status.ToString().ToLowerInvariant()}.",
+                ct);
+            return;
+        }
+
+        var startUrl = schedule.StartUrl ?? schedule.Provider?.WebsiteUrl;
+        if (string.IsNullOrWhiteSpace(startUrl))
+        {
+            await RecordSkipAsync(db, schedule.Id, "Skipped: no start URL and the provider has no website URL.", ct);
+            return;
+        }
+
+        var job = new CrawlJobEntity
+        {
+            ProviderId = schedule.ProviderId,
+            StartUrl = startUrl,
+            SitemapUrl = schedule.SitemapUrl,
+            MaxPages = schedule.MaxPages,
+            Status = CrawlJobStatus.Queued,
+            CreatedAt = now
+        };
+
+        db.CrawlJobs.Add(job);
+        await db.SaveChangesAsync(ct);
+
+        await db.CrawlSchedules
+            .Where(s => s.Id == schedule.Id)
+            .ExecuteUpdateAsync(u => u
+                .SetProperty(s => s.LastJobId, job.Id)
+                .SetProperty(s => s.LastSkipReason, (string?)null), ct);
+
+        _logger.LogInformation(
+            "Crawl schedule {ScheduleId} queued job {JobId} for provider {ProviderId}. Next run: {NextRunAt:u}",
+            schedule.Id, job.Id, schedule.ProviderId, nextRunAt);
+    }
+
+    private static Task RecordSkipAsync(WorkerDbContext db, int scheduleId, string reason, CancellationToken ct)
+    {
+        return db.CrawlSchedules
+            .Where(s => s.Id == scheduleId)
+            .ExecuteUpdateAsync(u => u
+                .SetProperty(s => s.LastJobId, (long?)null)
+                .SetProperty(s => s.LastSkipReason, reason), ct);
+    }
+}
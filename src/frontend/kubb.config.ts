@@ -3,13 +3,15 @@ import createSwagger from '@kubb/swagger'
 import createSwaggerTS from '@kubb/swagger-ts'
 import createSwaggerTanstackQuery from '@kubb/swagger-tanstack-query'
 
+// scripts/api-codegen.js overrides these to generate into a scratch directory
+// when checking that the committed output is up to date
 export default defineConfig({
   root: '.',
   input: {
-    path: './swagger.json',
+    path: process.env.KUBB_INPUT ?? './swagger.json',
   },
   output: {
-    path: './src/api/generated',
+    path: process.env.KUBB_OUTPUT ?? './src/api/generated',
     clean: true,
   },
   plugins: [
@@ -0,0 +1,157 @@
+/**
+ * Generates the typed API layer in src/api/generated from the backend's OpenAPI spec.
+ *
+ *   node scripts/api-codegen.js generate   regenerate from the committed swagger.json
+ *   node scripts/api-codegen.js fetch      download the spec from the backend, then regenerate
+ *   node scripts/api-codegen.js check      fail if the generated output is stale
+ *
+ * `check` always verifies src/api/generated against swagger.json. When API_SPEC_URL
+ * is set it also verifies swagger.json against the running backend.
+ */
+import { spawnSync } from 'node:child_process'
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, relative, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const ROOT = resolve(fileURLToPath(import.meta.url), '../..')
+const SPEC_PATH = join(ROOT, 'swagger.json')
+const OUTPUT_PATH = join(ROOT, 'src/api/generated')
+const DEFAULT_SPEC_URL = 'http://localhost:5000/swagger/v1/swagger.json'
+
+// kubb's vue-query hooks trip our strict compiler options in four places. Each rewrite
+// fixes one of them without changing a hook's signature:
+//   - mutations without a body declare a `data` parameter they never read
+//   - multipart mutations take a FormData but copy it field by field as if it were a
+//     plain object, which doesn't compile and would send an empty form
+//   - query hooks declare a TQueryData type parameter they never use
+//   - query options are cast to the core QueryObserverOptions, whose `enabled`
+//     callback vue-query's useQuery overloads don't accept
+const HOOK_REWRITES = [
+  [/mutationFn: async \(data\) => \{(?![^]*?[^\w."]data\b)/, 'mutationFn: async () => {'],
+  [/const formData = new FormData\(\);\s+if \(data\) \{[^]*?\}\);\s+\}/, 'const formData = data;'],
+  [/\bTQueryData = /g, '_TQueryData = '],
+  [/as unknown as QueryObserverOptions,/g, 'as unknown as UseQueryOptions,'],
+  [/Omit<QueryObserverOptions, "queryKey">/g, 'Omit<UseQueryOptions, "queryKey">'],
+  [
+    /import type \{ QueryObserverOptions, (?=UseQueryReturnType)/,
+    'import type { QueryObserverOptions, UseQueryOptions, ',
+  ],
+]
+
+async function main(command) {
+  switch (command) {
+    case 'generate':
+      generate(SPEC_PATH, OUTPUT_PATH)
+      return
+    case 'fetch':
+      writeFileSync(SPEC_PATH, serializeSpec(await fetchSpec(specUrl())))
+      generate(SPEC_PATH, OUTPUT_PATH)
+      return
+    case 'check':
+      await check()
+      return
+    default:
+      throw new Error(`Unknown command "${command}". Use generate, fetch or check.`)
+  }
+}
+
+async function check() {
+  const problems = []
+
+  if (process.env.API_SPEC_URL) {
+    const live = serializeSpec(await fetchSpec(process.env.API_SPEC_URL))
+    if (live !== readFileSync(SPEC_PATH, 'utf8')) {
+      problems.push(`swagger.json differs from ${process.env.API_SPEC_URL}`)
+    }
+  }
+
+  const scratch = mkdtempSync(join(tmpdir(), 'api-codegen-'))
+  try {
+    generate(SPEC_PATH, scratch)
+    problems.push(...diffDirectories(scratch, OUTPUT_PATH))
+  } finally {
+    rmSync(scratch, { recursive: true, force: true })
+  }
+
+  if (problems.length > 0) {
+    console.error('Generated API client is out of date:')
+    for (const problem of problems) console.error(`  - ${problem}`)
+    console.error('Run `npm run fetch-api` (backend running) or `npm run generate-api` and commit the result.')
+    process.exit(1)
+  }
+
+  console.log('Generated API client is up to date.')
+}
+
+function generate(input, output) {
+  const result = spawnSync(join(ROOT, 'node_modules/.bin/kubb'), ['generate', '--logLevel', 'silent'], {
+    cwd: ROOT,
+    stdio: 'inherit',
+    env: { ...process.env, KUBB_INPUT: input, KUBB_OUTPUT: output },
+  })
+  if (result.status !== 0) {
+    throw new Error(`kubb generate failed with exit code ${result.status}`)
+  }
+
+  const hooksDir = join(output, 'hooks')
+  for (const file of listFiles(hooksDir)) {
+    const path = join(hooksDir, file)
+    const source = readFileSync(path, 'utf8')
+    writeFileSync(
+      path,
+      HOOK_REWRITES.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), source)
+    )
+  }
+}
+
+function diffDirectories(expectedDir, actualDir) {
+  const expected = new Set(listFiles(expectedDir))
+  const actual = new Set(listFiles(actualDir))
+  const problems = []
+
+  for (const file of expected) {
+    const name = relative(ROOT, join(actualDir, file))
+    if (!actual.has(file)) {
+      problems.push(`${name} is missing`)
+    } else if (readFileSync(join(expectedDir, file), 'utf8') !== readFileSync(join(actualDir, file), 'utf8')) {
+      problems.push(`${name} is stale`)
+    }
+  }
+  for (const file of actual) {
+    if (!expected.has(file)) {
+      problems.push(`${relative(ROOT, join(actualDir, file))} is no longer generated`)
+    }
+  }
+
+  return problems
+}
+
+function listFiles(dir) {
+  if (!existsSync(dir)) return []
+  return readdirSync(dir, { recursive: true, withFileTypes: true })
+    .filter((entry) => entry.isFile())
+    .map((entry) => relative(dir, join(entry.parentPath, entry.name)))
+    .sort()
+}
+
+function specUrl() {
+  return process.env.API_SPEC_URL ?? DEFAULT_SPEC_URL
+}
+
+async function fetchSpec(url) {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`)
+  }
+  return response.json()
+}
+
+function serializeSpec(spec) {
+  return JSON.stringify(spec, null, 2) + '\n'
+}
+
+main(process.argv[2]).catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
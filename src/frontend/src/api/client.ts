@@ -1,11 +1,21 @@
+import type { ImageSearchResponse } from '@/api/generated'
 import { useAuthStore } from '@/stores/auth'
 
 export interface ApiClientOptions {
   url: string
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH'
+  /** JSON-serialized, except FormData which is sent as multipart */
   data?: unknown
   headers?: Record<string, string>
-  params?: Record<string, string | number | boolean>
+  params?: Record<string, string | number | boolean | null | undefined>
+  /** Cancels the request (and any pending retries) when aborted */
+  signal?: AbortSignal
+  /** Milliseconds per attempt before giving up with a TimeoutError; 0 disables */
+  timeout?: number
+  /** Extra attempts after a network error, timeout or 408/429/5xx. Defaults to 2 for idempotent methods, 0 otherwise */
+  retries?: number
+  /** 'blob' returns the response body as a Blob, e.g. for images; defaults to parsed JSON */
+  responseType?: 'json' | 'blob'
 }
 
 export class ApiError extends Error {
@@ -19,17 +29,69 @@ export class ApiError extends Error {
   }
 }
 
+export class TimeoutError extends Error {
+  constructor(public timeout: number) {
+    super('The server took too long to respond')
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * True when a request was cancelled through its `signal`, as opposed to failing.
+ */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError'
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000
+const DEFAULT_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 500
+const IDEMPOTENT_METHODS: ApiClientOptions['method'][] = ['GET', 'PUT', 'DELETE']
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504]
+
+// Image search runs CLIP (and optionally YOLO) on the server, which can be slow on a cold start
+const SEARCH_TIMEOUT_MS = 60_000
+
 export async function apiClient<T>(options: ApiClientOptions): Promise<T> {
-  const { url, method, data, headers = {}, params } = options
+  const { method, signal } = options
+  const retries = options.retries ?? (IDEMPOTENT_METHODS.includes(method) ? DEFAULT_RETRIES : 0)
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendRequest<T>(options)
+    } catch (err) {
+      if (attempt >= retries || !isRetryable(err) || signal?.aborted) {
+        throw err
+      }
+      // Exponential backoff with jitter: ~0.5s, ~1s, ~2s...
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt * (0.75 + Math.random() * 0.5)
+      await sleep(delay, signal)
+    }
+  }
+}
+
+async function sendRequest<T>(options: ApiClientOptions): Promise<T> {
+  const {
+    url,
+    method,
+    data,
+    headers = {},
+    params,
+    signal,
+    timeout = DEFAULT_TIMEOUT_MS,
+    responseType = 'json',
+  } = options
 
   // Build URL with query params
   let fullUrl = url
   if (params) {
     const searchParams = new URLSearchParams()
     for (const [key, value] of Object.entries(params)) {
+      if (value === undefined || value === null) continue
       searchParams.append(key, String(value))
     }
-    fullUrl = `${url}?${searchParams.toString()}`
+    const query = searchParams.toString()
+    if (query) fullUrl = `${url}?${query}`
   }
 
   // Get auth headers
@@ -37,87 +99,171 @@ export async function apiClient<T>(options: ApiClientOptions): Promise<T> {
   const authHeaders = authStore.getAuthHeader()
 
   // Build request options
+  const isFormData = data instanceof FormData
+  const requestHeaders: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...authHeaders,
+    ...headers,
+  }
+  if (isFormData) {
+    // The browser sets multipart/form-data with the boundary itself
+    for (const name of Object.keys(requestHeaders)) {
+      if (name.toLowerCase() === 'content-type') delete requestHeaders[name]
+    }
+  }
+
   const requestOptions: RequestInit = {
     method,
-    headers: {
-      'Content-Type': 'application/json',
-      ...authHeaders,
-      ...headers,
-    },
+    headers: requestHeaders,
   }
 
   if (data && method !== 'GET') {
-    requestOptions.body = JSON.stringify(data)
+    requestOptions.body = isFormData ? data : JSON.stringify(data)
   }
 
-  const response = await fetch(fullUrl, requestOptions)
+  // One controller per attempt, aborted by the caller's signal or the timeout
+  const controller = new AbortController()
+  const abortFromCaller = () => controller.abort(signal?.reason)
+  if (signal?.aborted) abortFromCaller()
+  signal?.addEventListener('abort', abortFromCaller)
+  let timedOut = false
+  const timer =
+    timeout > 0
+      ? setTimeout(() => {
+          timedOut = true
+          controller.abort()
+        }, timeout)
+      : null
 
-  if (!response.ok) {
-    let errorData: unknown
-    try {
-      errorData = await response.json()
-    } catch {
-      errorData = { error: response.statusText }
+  try {
+    const response = await fetch(fullUrl, { ...requestOptions, signal: controller.signal })
+
+    if (!response.ok) {
+      let errorData: unknown
+      try {
+        errorData = await response.json()
+      } catch {
+        errorData = { error: response.statusText }
+      }
+
+      const errorMessage =
+        (errorData as { error?: string })?.error ?? response.statusText
+
+      // Only an authenticated request can mean the session is gone;
+      // a 401 from the login form is just a wrong password
+      if (response.status === 401 && authHeaders.Authorization) {
+        authStore.handleUnauthorized()
+      }
+
+      throw new ApiError(errorMessage, response.status, errorData)
     }
 
-    const errorMessage =
-      (errorData as { error?: string })?.error ?? response.statusText
+    if (responseType === 'blob') {
+      return (await response.blob()) as T
+    }
 
-    if (response.status === 401) {
-      authStore.logout()
+    // Handle empty responses
+    const contentType = response.headers.get('Content-Type')
+    if (!contentType?.includes('application/json')) {
+      return {} as T
     }
 
-    throw new ApiError(errorMessage, response.status, errorData)
+    return (await response.json()) as T
+  } catch (err) {
+    if (timedOut) {
+      throw new TimeoutError(timeout)
+    }
+    throw err
+  } finally {
+    if (timer) clearTimeout(timer)
+    signal?.removeEventListener('abort', abortFromCaller)
   }
+}
 
-  // Handle empty responses
-  const contentType = response.headers.get('Content-Type')
-  if (!contentType?.includes('application/json')) {
-    return {} as T
-  }
+function isRetryable(err: unknown): boolean {
+  if (err instanceof ApiError) return RETRYABLE_STATUSES.includes(err.status)
+  // fetch rejects with a TypeError when the network is unreachable
+  return err instanceof TimeoutError || err instanceof TypeError
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Request shape used by the kubb-generated hooks in `@/api/generated`.
+ */
+export interface RequestConfig<TVariables = unknown> {
+  method: 'get' | 'post' | 'put' | 'delete' | 'patch'
+  url: string
+  params?: Record<string, string | number | boolean | null | undefined>
+  data?: TVariables
+  headers?: Record<string, string>
+  signal?: AbortSignal
+  timeout?: number
+}
 
-  return response.json() as Promise<T>
+export interface ResponseConfig<TData = unknown> {
+  data: TData
 }
 
-export async function uploadImage(file: Blob): Promise<ImageSearchResponse> {
+/**
+ * Client adapter for the generated hooks. Delegates to `apiClient` so generated
+ * calls share auth headers and error handling with hand-written ones.
+ */
+export default async function client<TData, _TError = unknown, TVariables = unknown>(
+  config: RequestConfig<TVariables>
+): Promise<ResponseConfig<TData>> {
+  const data = await apiClient<TData>({
+    url: config.url,
+    method: config.method.toUpperCase() as ApiClientOptions['method'],
+    data: config.data,
+    params: config.params,
+    headers: config.headers,
+    signal: config.signal,
+    timeout: config.timeout,
+  })
+  return { data }
+}
+
+/**
+ * Run a visual search for an image. Pass `signal` to cancel it when a newer search starts.
+ */
+export async function uploadImage(file: Blob, signal?: AbortSignal): Promise<ImageSearchResponse> {
   const formData = new FormData()
   formData.append('file', file, 'image.jpg')
 
-  const response = await fetch('/api/search/image', {
+  return apiClient<ImageSearchResponse>({
+    url: '/api/search/image',
     method: 'POST',
-    body: formData,
+    data: formData,
+    signal,
+    timeout: SEARCH_TIMEOUT_MS,
   })
-
-  if (!response.ok) {
-    let errorData: unknown
-    try {
-      errorData = await response.json()
-    } catch {
-      errorData = { error: response.statusText }
-    }
-    throw new ApiError(
-      (errorData as { error?: string })?.error ?? 'Search failed',
-      response.status,
-      errorData
-    )
-  }
-
-  return response.json() as Promise<ImageSearchResponse>
 }
 
-export interface ProductResult {
-  productId: number
-  name: string
-  price: number
-  imageUrl: string
-  providerName: string
-  similarity: number
-}
-
-export interface ImageSearchResponse {
-  results: ProductResult[]
-  processingTimeMs: number
-  embeddingTimeMs?: number
+/**
+ * Load a product image through the API, since provider CDNs don't allow cross-origin fetches.
+ * `imageUrl` picks which of the product's images to load; the primary image is used when it doesn't match.
+ */
+export async function fetchProductImage(productId: number, imageUrl: string, signal?: AbortSignal): Promise<Blob> {
+  return apiClient<Blob>({
+    url: `/api/search/products/${productId}/image`,
+    method: 'GET',
+    params: { imageUrl },
+    signal,
+    responseType: 'blob',
+  })
 }
 
 // Convenience wrapper with shorthand methods
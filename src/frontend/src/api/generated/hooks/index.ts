@@ -0,0 +1,80 @@
+export * from "./useAddProductImage";
+export * from "./useApproveExtractedProduct";
+export * from "./useBulkApproveExtractedProducts";
+export * from "./useBulkProductAction";
+export * from "./useBulkRejectExtractedProducts";
+export * from "./useCancelJob";
+export * from "./useCancelVectorizeAll";
+export * from "./useChangePassword";
+export * from "./useCreateCategory";
+export * from "./useCreateCrawlSchedule";
+export * from "./useCreateJob";
+export * from "./useCreateProduct";
+export * from "./useCreateProvider";
+export * from "./useCreateSetting";
+export * from "./useCreateSseTicket";
+export * from "./useCreateUser";
+export * from "./useDeleteCategory";
+export * from "./useDeleteCrawlSchedule";
+export * from "./useDeleteJob";
+export * from "./useDeleteProduct";
+export * from "./useDeleteProductImage";
+export * from "./useDeleteProvider";
+export * from "./useDeleteUser";
+export * from "./useDownloadProductImage";
+export * from "./useGetAllSettings";
+export * from "./useGetCategories";
+export * from "./useGetCategoryById";
+export * from "./useGetCrawlSchedules";
+export * from "./useGetCurrentUser";
+export * from "./useGetDetectionClasses";
+export * from "./useGetDuplicateComparison";
+export * from "./useGetExtractedProductIds";
+export * from "./useGetExtractedProductStats";
+export * from "./useGetExtractedProducts";
+export * from "./useGetJobById";
+export * from "./useGetJobErrors";
+export * from "./useGetJobPages";
+export * from "./useGetJobStats";
+export * from "./useGetJobs";
+export * from "./useGetProductById";
+export * from "./useGetProductIds";
+export * from "./useGetProducts";
+export * from "./useGetProductsByIds";
+export * from "./useGetProviderById";
+export * from "./useGetProviders";
+export * from "./useGetPublicCategories";
+export * from "./useGetPublicSetting";
+export * from "./useGetPublicSettings";
+export * from "./useGetSearchProductImage";
+export * from "./useGetSetting";
+export * from "./useGetStats";
+export * from "./useGetStatsTimeSeries";
+export * from "./useGetSystemStatus";
+export * from "./useGetUsers";
+export * from "./useHealthCheck";
+export * from "./useImageSearch";
+export * from "./useImportExtractedProductAsNew";
+export * from "./useImportProducts";
+export * from "./useInvalidateCache";
+export * from "./useJobsSse";
+export * from "./useLogin";
+export * from "./useMergeExtractedProduct";
+export * from "./usePauseJob";
+export * from "./useRejectExtractedProduct";
+export * from "./useResetExtractedProduct";
+export * from "./useResetSetting";
+export * from "./useResumeJob";
+export * from "./useRetryJob";
+export * from "./useSettingsSse";
+export * from "./useToggleCategoryDetection";
+export * from "./useUpdateCategory";
+export * from "./useUpdateCrawlSchedule";
+export * from "./useUpdateProduct";
+export * from "./useUpdateProductImage";
+export * from "./useUpdateProvider";
+export * from "./useUpdateSetting";
+export * from "./useUploadProductImage";
+export * from "./useVectorizationSse";
+export * from "./useVectorizeAll";
+export * from "./useVectorizeProduct";
\ No newline at end of file
@@ -0,0 +1,45 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { AddProductImageMutationRequest, AddProductImageMutationResponse, AddProductImagePathParams, AddProductImage400, AddProductImage404 } from "../types/AddProductImage";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type AddProductImageClient = typeof client<AddProductImageMutationResponse, AddProductImage400 | AddProductImage404, AddProductImageMutationRequest>;
+type AddProductImage = {
+    data: AddProductImageMutationResponse;
+    error: AddProductImage400 | AddProductImage404;
+    request: AddProductImageMutationRequest;
+    pathParams: AddProductImagePathParams;
+    queryParams: never;
+    headerParams: never;
+    response: AddProductImageMutationResponse;
+    client: {
+        parameters: Partial<Parameters<AddProductImageClient>[0]>;
+        return: Awaited<ReturnType<AddProductImageClient>>;
+    };
+};
+/**
+ * @description Adds an image to a product with automatic CLIP embedding generation.
+ * @link /api/admin/products/:productId/images
+ */
+export function useAddProductImage(refProductId: MaybeRef<AddProductImagePathParams["productId"]>, options: {
+    mutation?: UseMutationOptions<AddProductImage["response"], AddProductImage["error"], AddProductImage["request"], unknown>;
+    client?: AddProductImage["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const productId = unref(refProductId);
+            const res = await client<AddProductImage["data"], AddProductImage["error"], AddProductImage["request"]>({
+                method: "post",
+                url: `/api/admin/products/${productId}/images`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { ApproveExtractedProductMutationRequest, ApproveExtractedProductMutationResponse, ApproveExtractedProductPathParams, ApproveExtractedProduct400, ApproveExtractedProduct404 } from "../types/ApproveExtractedProduct";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type ApproveExtractedProductClient = typeof client<ApproveExtractedProductMutationResponse, ApproveExtractedProduct400 | ApproveExtractedProduct404, ApproveExtractedProductMutationRequest>;
+type ApproveExtractedProduct = {
+    data: ApproveExtractedProductMutationResponse;
+    error: ApproveExtractedProduct400 | ApproveExtractedProduct404;
+    request: ApproveExtractedProductMutationRequest;
+    pathParams: ApproveExtractedProductPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: ApproveExtractedProductMutationResponse;
+    client: {
+        parameters: Partial<Parameters<ApproveExtractedProductClient>[0]>;
+        return: Awaited<ReturnType<ApproveExtractedProductClient>>;
+    };
+};
+/**
+ * @description Approves and imports an extracted product to the products table.
+ * @link /api/import/:id/approve
+ */
+export function useApproveExtractedProduct(refId: MaybeRef<ApproveExtractedProductPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<ApproveExtractedProduct["response"], ApproveExtractedProduct["error"], ApproveExtractedProduct["request"], unknown>;
+    client?: ApproveExtractedProduct["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const id = unref(refId);
+            const res = await client<ApproveExtractedProduct["data"], ApproveExtractedProduct["error"], ApproveExtractedProduct["request"]>({
+                method: "post",
+                url: `/api/import/${id}/approve`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { BulkApproveExtractedProductsMutationRequest, BulkApproveExtractedProductsMutationResponse, BulkApproveExtractedProducts400 } from "../types/BulkApproveExtractedProducts";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type BulkApproveExtractedProductsClient = typeof client<BulkApproveExtractedProductsMutationResponse, BulkApproveExtractedProducts400, BulkApproveExtractedProductsMutationRequest>;
+type BulkApproveExtractedProducts = {
+    data: BulkApproveExtractedProductsMutationResponse;
+    error: BulkApproveExtractedProducts400;
+    request: BulkApproveExtractedProductsMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: BulkApproveExtractedProductsMutationResponse;
+    client: {
+        parameters: Partial<Parameters<BulkApproveExtractedProductsClient>[0]>;
+        return: Awaited<ReturnType<BulkApproveExtractedProductsClient>>;
+    };
+};
+/**
+ * @description Approves and imports multiple extracted products.
+ * @link /api/import/bulk-approve
+ */
+export function useBulkApproveExtractedProducts(options: {
+    mutation?: UseMutationOptions<BulkApproveExtractedProducts["response"], BulkApproveExtractedProducts["error"], BulkApproveExtractedProducts["request"], unknown>;
+    client?: BulkApproveExtractedProducts["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<BulkApproveExtractedProducts["data"], BulkApproveExtractedProducts["error"], BulkApproveExtractedProducts["request"]>({
+                method: "post",
+                url: `/api/import/bulk-approve`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { BulkProductActionMutationRequest, BulkProductActionMutationResponse, BulkProductAction400 } from "../types/BulkProductAction";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type BulkProductActionClient = typeof client<BulkProductActionMutationResponse, BulkProductAction400, BulkProductActionMutationRequest>;
+type BulkProductAction = {
+    data: BulkProductActionMutationResponse;
+    error: BulkProductAction400;
+    request: BulkProductActionMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: BulkProductActionMutationResponse;
+    client: {
+        parameters: Partial<Parameters<BulkProductActionClient>[0]>;
+        return: Awaited<ReturnType<BulkProductActionClient>>;
+    };
+};
+/**
+ * @description Deletes, recategorizes, moves or vectorizes up to 500 products, reporting the result for each.
+ * @link /api/admin/products/bulk
+ */
+export function useBulkProductAction(options: {
+    mutation?: UseMutationOptions<BulkProductAction["response"], BulkProductAction["error"], BulkProductAction["request"], unknown>;
+    client?: BulkProductAction["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<BulkProductAction["data"], BulkProductAction["error"], BulkProductAction["request"]>({
+                method: "post",
+                url: `/api/admin/products/bulk`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { BulkRejectExtractedProductsMutationRequest, BulkRejectExtractedProductsMutationResponse, BulkRejectExtractedProducts400 } from "../types/BulkRejectExtractedProducts";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type BulkRejectExtractedProductsClient = typeof client<BulkRejectExtractedProductsMutationResponse, BulkRejectExtractedProducts400, BulkRejectExtractedProductsMutationRequest>;
+type BulkRejectExtractedProducts = {
+    data: BulkRejectExtractedProductsMutationResponse;
+    error: BulkRejectExtractedProducts400;
+    request: BulkRejectExtractedProductsMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: BulkRejectExtractedProductsMutationResponse;
+    client: {
+        parameters: Partial<Parameters<BulkRejectExtractedProductsClient>[0]>;
+        return: Awaited<ReturnType<BulkRejectExtractedProductsClient>>;
+    };
+};
+/**
+ * @description Rejects multiple extracted products.
+ * @link /api/import/bulk-reject
+ */
+export function useBulkRejectExtractedProducts(options: {
+    mutation?: UseMutationOptions<BulkRejectExtractedProducts["response"], BulkRejectExtractedProducts["error"], BulkRejectExtractedProducts["request"], unknown>;
+    client?: BulkRejectExtractedProducts["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<BulkRejectExtractedProducts["data"], BulkRejectExtractedProducts["error"], BulkRejectExtractedProducts["request"]>({
+                method: "post",
+                url: `/api/import/bulk-reject`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
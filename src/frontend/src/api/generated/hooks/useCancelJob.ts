@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { CancelJobMutationResponse, CancelJobPathParams, CancelJob400, CancelJob404 } from "../types/CancelJob";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type CancelJobClient = typeof client<CancelJobMutationResponse, CancelJob400 | CancelJob404, never>;
+type CancelJob = {
+    data: CancelJobMutationResponse;
+    error: CancelJob400 | CancelJob404;
+    request: never;
+    pathParams: CancelJobPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: CancelJobMutationResponse;
+    client: {
+        parameters: Partial<Parameters<CancelJobClient>[0]>;
+        return: Awaited<ReturnType<CancelJobClient>>;
+    };
+};
+/**
+ * @description Cancels a queued or running job.
+ * @link /api/jobs/:id/cancel
+ */
+export function useCancelJob(refId: MaybeRef<CancelJobPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<CancelJob["response"], CancelJob["error"], void, unknown>;
+    client?: CancelJob["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const id = unref(refId);
+            const res = await client<CancelJob["data"], CancelJob["error"], CancelJob["request"]>({
+                method: "post",
+                url: `/api/jobs/${id}/cancel`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
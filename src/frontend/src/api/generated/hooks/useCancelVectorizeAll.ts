@@ -0,0 +1,40 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { CancelVectorizeAllMutationResponse, CancelVectorizeAll400 } from "../types/CancelVectorizeAll";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type CancelVectorizeAllClient = typeof client<CancelVectorizeAllMutationResponse, CancelVectorizeAll400, never>;
+type CancelVectorizeAll = {
+    data: CancelVectorizeAllMutationResponse;
+    error: CancelVectorizeAll400;
+    request: never;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: CancelVectorizeAllMutationResponse;
+    client: {
+        parameters: Partial<Parameters<CancelVectorizeAllClient>[0]>;
+        return: Awaited<ReturnType<CancelVectorizeAllClient>>;
+    };
+};
+/**
+ * @description Cancels the running vectorization run after the current image.
+ * @link /api/admin/vectorize-all/cancel
+ */
+export function useCancelVectorizeAll(options: {
+    mutation?: UseMutationOptions<CancelVectorizeAll["response"], CancelVectorizeAll["error"], void, unknown>;
+    client?: CancelVectorizeAll["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const res = await client<CancelVectorizeAll["data"], CancelVectorizeAll["error"], CancelVectorizeAll["request"]>({
+                method: "post",
+                url: `/api/admin/vectorize-all/cancel`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { ChangePasswordMutationRequest, ChangePasswordMutationResponse, ChangePassword400, ChangePassword401 } from "../types/ChangePassword";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type ChangePasswordClient = typeof client<ChangePasswordMutationResponse, ChangePassword400 | ChangePassword401, ChangePasswordMutationRequest>;
+type ChangePassword = {
+    data: ChangePasswordMutationResponse;
+    error: ChangePassword400 | ChangePassword401;
+    request: ChangePasswordMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: ChangePasswordMutationResponse;
+    client: {
+        parameters: Partial<Parameters<ChangePasswordClient>[0]>;
+        return: Awaited<ReturnType<ChangePasswordClient>>;
+    };
+};
+/**
+ * @description Changes the user's password. Validates via username and current password.
+ * @link /api/auth/change-password
+ */
+export function useChangePassword(options: {
+    mutation?: UseMutationOptions<ChangePassword["response"], ChangePassword["error"], ChangePassword["request"], unknown>;
+    client?: ChangePassword["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<ChangePassword["data"], ChangePassword["error"], ChangePassword["request"]>({
+                method: "post",
+                url: `/api/auth/change-password`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { CreateCategoryMutationRequest, CreateCategoryMutationResponse, CreateCategory400 } from "../types/CreateCategory";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type CreateCategoryClient = typeof client<CreateCategoryMutationResponse, CreateCategory400, CreateCategoryMutationRequest>;
+type CreateCategory = {
+    data: CreateCategoryMutationResponse;
+    error: CreateCategory400;
+    request: CreateCategoryMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: CreateCategoryMutationResponse;
+    client: {
+        parameters: Partial<Parameters<CreateCategoryClient>[0]>;
+        return: Awaited<ReturnType<CreateCategoryClient>>;
+    };
+};
+/**
+ * @description Creates a new category.
+ * @link /api/admin/categories
+ */
+export function useCreateCategory(options: {
+    mutation?: UseMutationOptions<CreateCategory["response"], CreateCategory["error"], CreateCategory["request"], unknown>;
+    client?: CreateCategory["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<CreateCategory["data"], CreateCategory["error"], CreateCategory["request"]>({
+                method: "post",
+                url: `/api/admin/categories`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { CreateCrawlScheduleMutationRequest, CreateCrawlScheduleMutationResponse, CreateCrawlSchedule400 } from "../types/CreateCrawlSchedule";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type CreateCrawlScheduleClient = typeof client<CreateCrawlScheduleMutationResponse, CreateCrawlSchedule400, CreateCrawlScheduleMutationRequest>;
+type CreateCrawlSchedule = {
+    data: CreateCrawlScheduleMutationResponse;
+    error: CreateCrawlSchedule400;
+    request: CreateCrawlScheduleMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: CreateCrawlScheduleMutationResponse;
+    client: {
+        parameters: Partial<Parameters<CreateCrawlScheduleClient>[0]>;
+        return: Awaited<ReturnType<CreateCrawlScheduleClient>>;
+    };
+};
+/**
+ * @description Creates a recurring crawl schedule for a provider.
+ * @link /api/admin/schedules
+ */
+export function useCreateCrawlSchedule(options: {
+    mutation?: UseMutationOptions<CreateCrawlSchedule["response"], CreateCrawlSchedule["error"], CreateCrawlSchedule["request"], unknown>;
+    client?: CreateCrawlSchedule["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<CreateCrawlSchedule["data"], CreateCrawlSchedule["error"], CreateCrawlSchedule["request"]>({
+                method: "post",
+                url: `/api/admin/schedules`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { CreateJobMutationRequest, CreateJobMutationResponse, CreateJob400 } from "../types/CreateJob";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type CreateJobClient = typeof client<CreateJobMutationResponse, CreateJob400, CreateJobMutationRequest>;
+type CreateJob = {
+    data: CreateJobMutationResponse;
+    error: CreateJob400;
+    request: CreateJobMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: CreateJobMutationResponse;
+    client: {
+        parameters: Partial<Parameters<CreateJobClient>[0]>;
+        return: Awaited<ReturnType<CreateJobClient>>;
+    };
+};
+/**
+ * @description Creates a new crawl job for a provider.
+ * @link /api/jobs/
+ */
+export function useCreateJob(options: {
+    mutation?: UseMutationOptions<CreateJob["response"], CreateJob["error"], CreateJob["request"], unknown>;
+    client?: CreateJob["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<CreateJob["data"], CreateJob["error"], CreateJob["request"]>({
+                method: "post",
+                url: `/api/jobs/`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
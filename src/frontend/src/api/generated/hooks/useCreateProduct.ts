@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { CreateProductMutationRequest, CreateProductMutationResponse, CreateProduct400 } from "../types/CreateProduct";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type CreateProductClient = typeof client<CreateProductMutationResponse, CreateProduct400, CreateProductMutationRequest>;
+type CreateProduct = {
+    data: CreateProductMutationResponse;
+    error: CreateProduct400;
+    request: CreateProductMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: CreateProductMutationResponse;
+    client: {
+        parameters: Partial<Parameters<CreateProductClient>[0]>;
+        return: Awaited<ReturnType<CreateProductClient>>;
+    };
+};
+/**
+ * @description Creates a new product.
+ * @link /api/admin/products
+ */
+export function useCreateProduct(options: {
+    mutation?: UseMutationOptions<CreateProduct["response"], CreateProduct["error"], CreateProduct["request"], unknown>;
+    client?: CreateProduct["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<CreateProduct["data"], CreateProduct["error"], CreateProduct["request"]>({
+                method: "post",
+                url: `/api/admin/products`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { CreateProviderMutationRequest, CreateProviderMutationResponse, CreateProvider400 } from "../types/CreateProvider";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type CreateProviderClient = typeof client<CreateProviderMutationResponse, CreateProvider400, CreateProviderMutationRequest>;
+type CreateProvider = {
+    data: CreateProviderMutationResponse;
+    error: CreateProvider400;
+    request: CreateProviderMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: CreateProviderMutationResponse;
+    client: {
+        parameters: Partial<Parameters<CreateProviderClient>[0]>;
+        return: Awaited<ReturnType<CreateProviderClient>>;
+    };
+};
+/**
+ * @description Creates a new provider.
+ * @link /api/admin/providers
+ */
+export function useCreateProvider(options: {
+    mutation?: UseMutationOptions<CreateProvider["response"], CreateProvider["error"], CreateProvider["request"], unknown>;
+    client?: CreateProvider["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<CreateProvider["data"], CreateProvider["error"], CreateProvider["request"]>({
+                method: "post",
+                url: `/api/admin/providers`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
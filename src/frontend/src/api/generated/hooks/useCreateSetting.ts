@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { CreateSettingMutationRequest, CreateSettingMutationResponse, CreateSetting400 } from "../types/CreateSetting";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type CreateSettingClient = typeof client<CreateSettingMutationResponse, CreateSetting400, CreateSettingMutationRequest>;
+type CreateSetting = {
+    data: CreateSettingMutationResponse;
+    error: CreateSetting400;
+    request: CreateSettingMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: CreateSettingMutationResponse;
+    client: {
+        parameters: Partial<Parameters<CreateSettingClient>[0]>;
+        return: Awaited<ReturnType<CreateSettingClient>>;
+    };
+};
+/**
+ * @description Creates a new setting (admin only).
+ * @link /api/settings/
+ */
+export function useCreateSetting(options: {
+    mutation?: UseMutationOptions<CreateSetting["response"], CreateSetting["error"], CreateSetting["request"], unknown>;
+    client?: CreateSetting["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<CreateSetting["data"], CreateSetting["error"], CreateSetting["request"]>({
+                method: "post",
+                url: `/api/settings/`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { CreateSseTicketMutationRequest, CreateSseTicketMutationResponse, CreateSseTicket400, CreateSseTicket401 } from "../types/CreateSseTicket";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type CreateSseTicketClient = typeof client<CreateSseTicketMutationResponse, CreateSseTicket400 | CreateSseTicket401, CreateSseTicketMutationRequest>;
+type CreateSseTicket = {
+    data: CreateSseTicketMutationResponse;
+    error: CreateSseTicket400 | CreateSseTicket401;
+    request: CreateSseTicketMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: CreateSseTicketMutationResponse;
+    client: {
+        parameters: Partial<Parameters<CreateSseTicketClient>[0]>;
+        return: Awaited<ReturnType<CreateSseTicketClient>>;
+    };
+};
+/**
+ * @description Issues a short-lived, one-time SSE ticket for EventSource authentication.
+ * @link /api/auth/sse-ticket
+ */
+export function useCreateSseTicket(options: {
+    mutation?: UseMutationOptions<CreateSseTicket["response"], CreateSseTicket["error"], CreateSseTicket["request"], unknown>;
+    client?: CreateSseTicket["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<CreateSseTicket["data"], CreateSseTicket["error"], CreateSseTicket["request"]>({
+                method: "post",
+                url: `/api/auth/sse-ticket`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { CreateUserMutationRequest, CreateUserMutationResponse, CreateUser400 } from "../types/CreateUser";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type CreateUserClient = typeof client<CreateUserMutationResponse, CreateUser400, CreateUserMutationRequest>;
+type CreateUser = {
+    data: CreateUserMutationResponse;
+    error: CreateUser400;
+    request: CreateUserMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: CreateUserMutationResponse;
+    client: {
+        parameters: Partial<Parameters<CreateUserClient>[0]>;
+        return: Awaited<ReturnType<CreateUserClient>>;
+    };
+};
+/**
+ * @description Creates a new admin user.
+ * @link /api/admin/users
+ */
+export function useCreateUser(options: {
+    mutation?: UseMutationOptions<CreateUser["response"], CreateUser["error"], CreateUser["request"], unknown>;
+    client?: CreateUser["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<CreateUser["data"], CreateUser["error"], CreateUser["request"]>({
+                method: "post",
+                url: `/api/admin/users`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { DeleteCategoryMutationResponse, DeleteCategoryPathParams, DeleteCategory400, DeleteCategory404 } from "../types/DeleteCategory";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type DeleteCategoryClient = typeof client<DeleteCategoryMutationResponse, DeleteCategory400 | DeleteCategory404, never>;
+type DeleteCategory = {
+    data: DeleteCategoryMutationResponse;
+    error: DeleteCategory400 | DeleteCategory404;
+    request: never;
+    pathParams: DeleteCategoryPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: DeleteCategoryMutationResponse;
+    client: {
+        parameters: Partial<Parameters<DeleteCategoryClient>[0]>;
+        return: Awaited<ReturnType<DeleteCategoryClient>>;
+    };
+};
+/**
+ * @description Deletes a category. Fails if products are associated.
+ * @link /api/admin/categories/:id
+ */
+export function useDeleteCategory(refId: MaybeRef<DeleteCategoryPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<DeleteCategory["response"], DeleteCategory["error"], void, unknown>;
+    client?: DeleteCategory["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const id = unref(refId);
+            const res = await client<DeleteCategory["data"], DeleteCategory["error"], DeleteCategory["request"]>({
+                method: "delete",
+                url: `/api/admin/categories/${id}`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
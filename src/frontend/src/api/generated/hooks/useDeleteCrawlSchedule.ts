@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { DeleteCrawlScheduleMutationResponse, DeleteCrawlSchedulePathParams, DeleteCrawlSchedule404 } from "../types/DeleteCrawlSchedule";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type DeleteCrawlScheduleClient = typeof client<DeleteCrawlScheduleMutationResponse, DeleteCrawlSchedule404, never>;
+type DeleteCrawlSchedule = {
+    data: DeleteCrawlScheduleMutationResponse;
+    error: DeleteCrawlSchedule404;
+    request: never;
+    pathParams: DeleteCrawlSchedulePathParams;
+    queryParams: never;
+    headerParams: never;
+    response: DeleteCrawlScheduleMutationResponse;
+    client: {
+        parameters: Partial<Parameters<DeleteCrawlScheduleClient>[0]>;
+        return: Awaited<ReturnType<DeleteCrawlScheduleClient>>;
+    };
+};
+/**
+ * @description Deletes a crawl schedule. Jobs it already queued are kept.
+ * @link /api/admin/schedules/:id
+ */
+export function useDeleteCrawlSchedule(refId: MaybeRef<DeleteCrawlSchedulePathParams["id"]>, options: {
+    mutation?: UseMutationOptions<DeleteCrawlSchedule["response"], DeleteCrawlSchedule["error"], void, unknown>;
+    client?: DeleteCrawlSchedule["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const id = unref(refId);
+            const res = await client<DeleteCrawlSchedule["data"], DeleteCrawlSchedule["error"], DeleteCrawlSchedule["request"]>({
+                method: "delete",
+                url: `/api/admin/schedules/${id}`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { DeleteJobMutationResponse, DeleteJobPathParams, DeleteJob400, DeleteJob404 } from "../types/DeleteJob";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type DeleteJobClient = typeof client<DeleteJobMutationResponse, DeleteJob400 | DeleteJob404, never>;
+type DeleteJob = {
+    data: DeleteJobMutationResponse;
+    error: DeleteJob400 | DeleteJob404;
+    request: never;
+    pathParams: DeleteJobPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: DeleteJobMutationResponse;
+    client: {
+        parameters: Partial<Parameters<DeleteJobClient>[0]>;
+        return: Awaited<ReturnType<DeleteJobClient>>;
+    };
+};
+/**
+ * @description Deletes a completed, failed, or canceled job.
+ * @link /api/jobs/:id
+ */
+export function useDeleteJob(refId: MaybeRef<DeleteJobPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<DeleteJob["response"], DeleteJob["error"], void, unknown>;
+    client?: DeleteJob["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const id = unref(refId);
+            const res = await client<DeleteJob["data"], DeleteJob["error"], DeleteJob["request"]>({
+                method: "delete",
+                url: `/api/jobs/${id}`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
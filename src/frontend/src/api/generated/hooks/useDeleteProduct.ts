@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { DeleteProductMutationResponse, DeleteProductPathParams, DeleteProduct404 } from "../types/DeleteProduct";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type DeleteProductClient = typeof client<DeleteProductMutationResponse, DeleteProduct404, never>;
+type DeleteProduct = {
+    data: DeleteProductMutationResponse;
+    error: DeleteProduct404;
+    request: never;
+    pathParams: DeleteProductPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: DeleteProductMutationResponse;
+    client: {
+        parameters: Partial<Parameters<DeleteProductClient>[0]>;
+        return: Awaited<ReturnType<DeleteProductClient>>;
+    };
+};
+/**
+ * @description Deletes a product and all its images.
+ * @link /api/admin/products/:id
+ */
+export function useDeleteProduct(refId: MaybeRef<DeleteProductPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<DeleteProduct["response"], DeleteProduct["error"], void, unknown>;
+    client?: DeleteProduct["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const id = unref(refId);
+            const res = await client<DeleteProduct["data"], DeleteProduct["error"], DeleteProduct["request"]>({
+                method: "delete",
+                url: `/api/admin/products/${id}`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { DeleteProductImageMutationResponse, DeleteProductImagePathParams, DeleteProductImage404 } from "../types/DeleteProductImage";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type DeleteProductImageClient = typeof client<DeleteProductImageMutationResponse, DeleteProductImage404, never>;
+type DeleteProductImage = {
+    data: DeleteProductImageMutationResponse;
+    error: DeleteProductImage404;
+    request: never;
+    pathParams: DeleteProductImagePathParams;
+    queryParams: never;
+    headerParams: never;
+    response: DeleteProductImageMutationResponse;
+    client: {
+        parameters: Partial<Parameters<DeleteProductImageClient>[0]>;
+        return: Awaited<ReturnType<DeleteProductImageClient>>;
+    };
+};
+/**
+ * @description Deletes a product image.
+ * @link /api/admin/products/:productId/images/:imageId
+ */
+export function useDeleteProductImage(refProductId: MaybeRef<DeleteProductImagePathParams["productId"]>, refImageId: MaybeRef<DeleteProductImagePathParams["imageId"]>, options: {
+    mutation?: UseMutationOptions<DeleteProductImage["response"], DeleteProductImage["error"], void, unknown>;
+    client?: DeleteProductImage["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const productId = unref(refProductId);
+            const imageId = unref(refImageId);
+            const res = await client<DeleteProductImage["data"], DeleteProductImage["error"], DeleteProductImage["request"]>({
+                method: "delete",
+                url: `/api/admin/products/${productId}/images/${imageId}`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { DeleteProviderMutationResponse, DeleteProviderPathParams, DeleteProvider404 } from "../types/DeleteProvider";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type DeleteProviderClient = typeof client<DeleteProviderMutationResponse, DeleteProvider404, never>;
+type DeleteProvider = {
+    data: DeleteProviderMutationResponse;
+    error: DeleteProvider404;
+    request: never;
+    pathParams: DeleteProviderPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: DeleteProviderMutationResponse;
+    client: {
+        parameters: Partial<Parameters<DeleteProviderClient>[0]>;
+        return: Awaited<ReturnType<DeleteProviderClient>>;
+    };
+};
+/**
+ * @description Deletes a provider and all its products.
+ * @link /api/admin/providers/:id
+ */
+export function useDeleteProvider(refId: MaybeRef<DeleteProviderPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<DeleteProvider["response"], DeleteProvider["error"], void, unknown>;
+    client?: DeleteProvider["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const id = unref(refId);
+            const res = await client<DeleteProvider["data"], DeleteProvider["error"], DeleteProvider["request"]>({
+                method: "delete",
+                url: `/api/admin/providers/${id}`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
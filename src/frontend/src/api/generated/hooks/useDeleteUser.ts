@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { DeleteUserMutationResponse, DeleteUserPathParams, DeleteUser400 } from "../types/DeleteUser";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type DeleteUserClient = typeof client<DeleteUserMutationResponse, DeleteUser400, never>;
+type DeleteUser = {
+    data: DeleteUserMutationResponse;
+    error: DeleteUser400;
+    request: never;
+    pathParams: DeleteUserPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: DeleteUserMutationResponse;
+    client: {
+        parameters: Partial<Parameters<DeleteUserClient>[0]>;
+        return: Awaited<ReturnType<DeleteUserClient>>;
+    };
+};
+/**
+ * @description Deletes an admin user. The current user cannot delete themselves.
+ * @link /api/admin/users/:id
+ */
+export function useDeleteUser(refId: MaybeRef<DeleteUserPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<DeleteUser["response"], DeleteUser["error"], void, unknown>;
+    client?: DeleteUser["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const id = unref(refId);
+            const res = await client<DeleteUser["data"], DeleteUser["error"], DeleteUser["request"]>({
+                method: "delete",
+                url: `/api/admin/users/${id}`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
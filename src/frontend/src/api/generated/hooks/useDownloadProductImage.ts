@@ -0,0 +1,45 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { DownloadProductImageMutationRequest, DownloadProductImageMutationResponse, DownloadProductImagePathParams, DownloadProductImage400, DownloadProductImage404 } from "../types/DownloadProductImage";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type DownloadProductImageClient = typeof client<DownloadProductImageMutationResponse, DownloadProductImage400 | DownloadProductImage404, DownloadProductImageMutationRequest>;
+type DownloadProductImage = {
+    data: DownloadProductImageMutationResponse;
+    error: DownloadProductImage400 | DownloadProductImage404;
+    request: DownloadProductImageMutationRequest;
+    pathParams: DownloadProductImagePathParams;
+    queryParams: never;
+    headerParams: never;
+    response: DownloadProductImageMutationResponse;
+    client: {
+        parameters: Partial<Parameters<DownloadProductImageClient>[0]>;
+        return: Awaited<ReturnType<DownloadProductImageClient>>;
+    };
+};
+/**
+ * @description Downloads an image from a URL and saves it locally with automatic resize, compression, and CLIP embedding generation.
+ * @link /api/admin/products/:productId/images/download
+ */
+export function useDownloadProductImage(refProductId: MaybeRef<DownloadProductImagePathParams["productId"]>, options: {
+    mutation?: UseMutationOptions<DownloadProductImage["response"], DownloadProductImage["error"], DownloadProductImage["request"], unknown>;
+    client?: DownloadProductImage["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const productId = unref(refProductId);
+            const res = await client<DownloadProductImage["data"], DownloadProductImage["error"], DownloadProductImage["request"]>({
+                method: "post",
+                url: `/api/admin/products/${productId}/images/download`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
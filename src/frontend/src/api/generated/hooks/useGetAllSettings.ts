@@ -0,0 +1,57 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import type { GetAllSettingsQueryResponse } from "../types/GetAllSettings";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+
+ type GetAllSettingsClient = typeof client<GetAllSettingsQueryResponse, Error, never>;
+type GetAllSettings = {
+    data: GetAllSettingsQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: GetAllSettingsQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetAllSettingsClient>[0]>;
+        return: Awaited<ReturnType<GetAllSettingsClient>>;
+    };
+};
+export const getAllSettingsQueryKey = () => [{ url: "/api/settings/" }] as const;
+export type GetAllSettingsQueryKey = ReturnType<typeof getAllSettingsQueryKey>;
+export function getAllSettingsQueryOptions(options: GetAllSettings["client"]["parameters"] = {}) {
+    const queryKey = getAllSettingsQueryKey();
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const res = await client<GetAllSettings["data"], GetAllSettings["error"]>({
+                method: "get",
+                url: `/api/settings/`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets all settings (admin only).
+ * @link /api/settings/
+ */
+export function useGetAllSettings<TData = GetAllSettings["response"], _TQueryData = GetAllSettings["response"], TQueryKey extends QueryKey = GetAllSettingsQueryKey>(options: {
+    query?: Partial<QueryObserverOptions<GetAllSettings["response"], GetAllSettings["error"], TData, TQueryKey>>;
+    client?: GetAllSettings["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetAllSettings["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getAllSettingsQueryKey();
+    const query = useQuery({
+        ...getAllSettingsQueryOptions(clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetAllSettings["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetCategoriesQueryResponse, GetCategoriesQueryParams } from "../types/GetCategories";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetCategoriesClient = typeof client<GetCategoriesQueryResponse, Error, never>;
+type GetCategories = {
+    data: GetCategoriesQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: GetCategoriesQueryParams;
+    headerParams: never;
+    response: GetCategoriesQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetCategoriesClient>[0]>;
+        return: Awaited<ReturnType<GetCategoriesClient>>;
+    };
+};
+export const getCategoriesQueryKey = (params?: MaybeRef<GetCategories["queryParams"]>) => [{ url: "/api/admin/categories" }, ...(params ? [params] : [])] as const;
+export type GetCategoriesQueryKey = ReturnType<typeof getCategoriesQueryKey>;
+export function getCategoriesQueryOptions(refParams?: MaybeRef<GetCategoriesQueryParams>, options: GetCategories["client"]["parameters"] = {}) {
+    const queryKey = getCategoriesQueryKey(refParams);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const params = unref(refParams);
+            const res = await client<GetCategories["data"], GetCategories["error"]>({
+                method: "get",
+                url: `/api/admin/categories`,
+                params,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets all categories.
+ * @link /api/admin/categories
+ */
+export function useGetCategories<TData = GetCategories["response"], _TQueryData = GetCategories["response"], TQueryKey extends QueryKey = GetCategoriesQueryKey>(refParams?: MaybeRef<GetCategoriesQueryParams>, options: {
+    query?: Partial<QueryObserverOptions<GetCategories["response"], GetCategories["error"], TData, TQueryKey>>;
+    client?: GetCategories["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetCategories["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getCategoriesQueryKey(refParams);
+    const query = useQuery({
+        ...getCategoriesQueryOptions(refParams, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetCategories["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetCategoryByIdQueryResponse, GetCategoryByIdPathParams, GetCategoryById404 } from "../types/GetCategoryById";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetCategoryByIdClient = typeof client<GetCategoryByIdQueryResponse, GetCategoryById404, never>;
+type GetCategoryById = {
+    data: GetCategoryByIdQueryResponse;
+    error: GetCategoryById404;
+    request: never;
+    pathParams: GetCategoryByIdPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: GetCategoryByIdQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetCategoryByIdClient>[0]>;
+        return: Awaited<ReturnType<GetCategoryByIdClient>>;
+    };
+};
+export const getCategoryByIdQueryKey = (id: MaybeRef<GetCategoryByIdPathParams["id"]>) => [{ url: "/api/admin/categories/:id", params: { id: id } }] as const;
+export type GetCategoryByIdQueryKey = ReturnType<typeof getCategoryByIdQueryKey>;
+export function getCategoryByIdQueryOptions(refId: MaybeRef<GetCategoryByIdPathParams["id"]>, options: GetCategoryById["client"]["parameters"] = {}) {
+    const queryKey = getCategoryByIdQueryKey(refId);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const id = unref(refId);
+            const res = await client<GetCategoryById["data"], GetCategoryById["error"]>({
+                method: "get",
+                url: `/api/admin/categories/${id}`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets a category by ID.
+ * @link /api/admin/categories/:id
+ */
+export function useGetCategoryById<TData = GetCategoryById["response"], _TQueryData = GetCategoryById["response"], TQueryKey extends QueryKey = GetCategoryByIdQueryKey>(refId: GetCategoryByIdPathParams["id"], options: {
+    query?: Partial<QueryObserverOptions<GetCategoryById["response"], GetCategoryById["error"], TData, TQueryKey>>;
+    client?: GetCategoryById["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetCategoryById["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getCategoryByIdQueryKey(refId);
+    const query = useQuery({
+        ...getCategoryByIdQueryOptions(refId, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetCategoryById["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetCrawlSchedulesQueryResponse, GetCrawlSchedulesQueryParams } from "../types/GetCrawlSchedules";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetCrawlSchedulesClient = typeof client<GetCrawlSchedulesQueryResponse, Error, never>;
+type GetCrawlSchedules = {
+    data: GetCrawlSchedulesQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: GetCrawlSchedulesQueryParams;
+    headerParams: never;
+    response: GetCrawlSchedulesQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetCrawlSchedulesClient>[0]>;
+        return: Awaited<ReturnType<GetCrawlSchedulesClient>>;
+    };
+};
+export const getCrawlSchedulesQueryKey = (params?: MaybeRef<GetCrawlSchedules["queryParams"]>) => [{ url: "/api/admin/schedules" }, ...(params ? [params] : [])] as const;
+export type GetCrawlSchedulesQueryKey = ReturnType<typeof getCrawlSchedulesQueryKey>;
+export function getCrawlSchedulesQueryOptions(refParams?: MaybeRef<GetCrawlSchedulesQueryParams>, options: GetCrawlSchedules["client"]["parameters"] = {}) {
+    const queryKey = getCrawlSchedulesQueryKey(refParams);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const params = unref(refParams);
+            const res = await client<GetCrawlSchedules["data"], GetCrawlSchedules["error"]>({
+                method: "get",
+                url: `/api/admin/schedules`,
+                params,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets recurring crawl schedules, optionally for one provider.
+ * @link /api/admin/schedules
+ */
+export function useGetCrawlSchedules<TData = GetCrawlSchedules["response"], _TQueryData = GetCrawlSchedules["response"], TQueryKey extends QueryKey = GetCrawlSchedulesQueryKey>(refParams?: MaybeRef<GetCrawlSchedulesQueryParams>, options: {
+    query?: Partial<QueryObserverOptions<GetCrawlSchedules["response"], GetCrawlSchedules["error"], TData, TQueryKey>>;
+    client?: GetCrawlSchedules["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetCrawlSchedules["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getCrawlSchedulesQueryKey(refParams);
+    const query = useQuery({
+        ...getCrawlSchedulesQueryOptions(refParams, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetCrawlSchedules["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import type { GetCurrentUserQueryResponse, GetCurrentUser401 } from "../types/GetCurrentUser";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+
+ type GetCurrentUserClient = typeof client<GetCurrentUserQueryResponse, GetCurrentUser401, never>;
+type GetCurrentUser = {
+    data: GetCurrentUserQueryResponse;
+    error: GetCurrentUser401;
+    request: never;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: GetCurrentUserQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetCurrentUserClient>[0]>;
+        return: Awaited<ReturnType<GetCurrentUserClient>>;
+    };
+};
+export const getCurrentUserQueryKey = () => [{ url: "/api/auth/me" }] as const;
+export type GetCurrentUserQueryKey = ReturnType<typeof getCurrentUserQueryKey>;
+export function getCurrentUserQueryOptions(options: GetCurrentUser["client"]["parameters"] = {}) {
+    const queryKey = getCurrentUserQueryKey();
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const res = await client<GetCurrentUser["data"], GetCurrentUser["error"]>({
+                method: "get",
+                url: `/api/auth/me`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets the current authenticated user's information.
+ * @link /api/auth/me
+ */
+export function useGetCurrentUser<TData = GetCurrentUser["response"], _TQueryData = GetCurrentUser["response"], TQueryKey extends QueryKey = GetCurrentUserQueryKey>(options: {
+    query?: Partial<QueryObserverOptions<GetCurrentUser["response"], GetCurrentUser["error"], TData, TQueryKey>>;
+    client?: GetCurrentUser["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetCurrentUser["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getCurrentUserQueryKey();
+    const query = useQuery({
+        ...getCurrentUserQueryOptions(clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetCurrentUser["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
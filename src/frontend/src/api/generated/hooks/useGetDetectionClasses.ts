@@ -0,0 +1,57 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import type { GetDetectionClassesQueryResponse } from "../types/GetDetectionClasses";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+
+ type GetDetectionClassesClient = typeof client<GetDetectionClassesQueryResponse, Error, never>;
+type GetDetectionClasses = {
+    data: GetDetectionClassesQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: GetDetectionClassesQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetDetectionClassesClient>[0]>;
+        return: Awaited<ReturnType<GetDetectionClassesClient>>;
+    };
+};
+export const getDetectionClassesQueryKey = () => [{ url: "/api/admin/categories/detection-classes" }] as const;
+export type GetDetectionClassesQueryKey = ReturnType<typeof getDetectionClassesQueryKey>;
+export function getDetectionClassesQueryOptions(options: GetDetectionClasses["client"]["parameters"] = {}) {
+    const queryKey = getDetectionClassesQueryKey();
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const res = await client<GetDetectionClasses["data"], GetDetectionClasses["error"]>({
+                method: "get",
+                url: `/api/admin/categories/detection-classes`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets the object detector's class names, indexed by COCO class ID.
+ * @link /api/admin/categories/detection-classes
+ */
+export function useGetDetectionClasses<TData = GetDetectionClasses["response"], _TQueryData = GetDetectionClasses["response"], TQueryKey extends QueryKey = GetDetectionClassesQueryKey>(options: {
+    query?: Partial<QueryObserverOptions<GetDetectionClasses["response"], GetDetectionClasses["error"], TData, TQueryKey>>;
+    client?: GetDetectionClasses["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetDetectionClasses["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getDetectionClassesQueryKey();
+    const query = useQuery({
+        ...getDetectionClassesQueryOptions(clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetDetectionClasses["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
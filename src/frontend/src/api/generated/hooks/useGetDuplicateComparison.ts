@@ -0,0 +1,60 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetDuplicateComparisonQueryResponse, GetDuplicateComparisonPathParams, GetDuplicateComparison404 } from "../types/GetDuplicateComparison";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetDuplicateComparisonClient = typeof client<GetDuplicateComparisonQueryResponse, GetDuplicateComparison404, never>;
+type GetDuplicateComparison = {
+    data: GetDuplicateComparisonQueryResponse;
+    error: GetDuplicateComparison404;
+    request: never;
+    pathParams: GetDuplicateComparisonPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: GetDuplicateComparisonQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetDuplicateComparisonClient>[0]>;
+        return: Awaited<ReturnType<GetDuplicateComparisonClient>>;
+    };
+};
+export const getDuplicateComparisonQueryKey = (id: MaybeRef<GetDuplicateComparisonPathParams["id"]>) => [{ url: "/api/import/:id/compare", params: { id: id } }] as const;
+export type GetDuplicateComparisonQueryKey = ReturnType<typeof getDuplicateComparisonQueryKey>;
+export function getDuplicateComparisonQueryOptions(refId: MaybeRef<GetDuplicateComparisonPathParams["id"]>, options: GetDuplicateComparison["client"]["parameters"] = {}) {
+    const queryKey = getDuplicateComparisonQueryKey(refId);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const id = unref(refId);
+            const res = await client<GetDuplicateComparison["data"], GetDuplicateComparison["error"]>({
+                method: "get",
+                url: `/api/import/${id}/compare`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets an extracted product next to the catalog product it matches on external ID.
+ * @link /api/import/:id/compare
+ */
+export function useGetDuplicateComparison<TData = GetDuplicateComparison["response"], _TQueryData = GetDuplicateComparison["response"], TQueryKey extends QueryKey = GetDuplicateComparisonQueryKey>(refId: GetDuplicateComparisonPathParams["id"], options: {
+    query?: Partial<QueryObserverOptions<GetDuplicateComparison["response"], GetDuplicateComparison["error"], TData, TQueryKey>>;
+    client?: GetDuplicateComparison["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetDuplicateComparison["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getDuplicateComparisonQueryKey(refId);
+    const query = useQuery({
+        ...getDuplicateComparisonQueryOptions(refId, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetDuplicateComparison["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetExtractedProductIdsQueryResponse, GetExtractedProductIdsQueryParams } from "../types/GetExtractedProductIds";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetExtractedProductIdsClient = typeof client<GetExtractedProductIdsQueryResponse, Error, never>;
+type GetExtractedProductIds = {
+    data: GetExtractedProductIdsQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: GetExtractedProductIdsQueryParams;
+    headerParams: never;
+    response: GetExtractedProductIdsQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetExtractedProductIdsClient>[0]>;
+        return: Awaited<ReturnType<GetExtractedProductIdsClient>>;
+    };
+};
+export const getExtractedProductIdsQueryKey = (params?: MaybeRef<GetExtractedProductIds["queryParams"]>) => [{ url: "/api/import/ids" }, ...(params ? [params] : [])] as const;
+export type GetExtractedProductIdsQueryKey = ReturnType<typeof getExtractedProductIdsQueryKey>;
+export function getExtractedProductIdsQueryOptions(refParams?: MaybeRef<GetExtractedProductIdsQueryParams>, options: GetExtractedProductIds["client"]["parameters"] = {}) {
+    const queryKey = getExtractedProductIdsQueryKey(refParams);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const params = unref(refParams);
+            const res = await client<GetExtractedProductIds["data"], GetExtractedProductIds["error"]>({
+                method: "get",
+                url: `/api/import/ids`,
+                params,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets the IDs of all extracted products matching the list filters, for bulk review across pages.
+ * @link /api/import/ids
+ */
+export function useGetExtractedProductIds<TData = GetExtractedProductIds["response"], _TQueryData = GetExtractedProductIds["response"], TQueryKey extends QueryKey = GetExtractedProductIdsQueryKey>(refParams?: MaybeRef<GetExtractedProductIdsQueryParams>, options: {
+    query?: Partial<QueryObserverOptions<GetExtractedProductIds["response"], GetExtractedProductIds["error"], TData, TQueryKey>>;
+    client?: GetExtractedProductIds["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetExtractedProductIds["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getExtractedProductIdsQueryKey(refParams);
+    const query = useQuery({
+        ...getExtractedProductIdsQueryOptions(refParams, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetExtractedProductIds["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import type { GetExtractedProductStatsQueryResponse } from "../types/GetExtractedProductStats";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+
+ type GetExtractedProductStatsClient = typeof client<GetExtractedProductStatsQueryResponse, Error, never>;
+type GetExtractedProductStats = {
+    data: GetExtractedProductStatsQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: GetExtractedProductStatsQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetExtractedProductStatsClient>[0]>;
+        return: Awaited<ReturnType<GetExtractedProductStatsClient>>;
+    };
+};
+export const getExtractedProductStatsQueryKey = () => [{ url: "/api/import/stats" }] as const;
+export type GetExtractedProductStatsQueryKey = ReturnType<typeof getExtractedProductStatsQueryKey>;
+export function getExtractedProductStatsQueryOptions(options: GetExtractedProductStats["client"]["parameters"] = {}) {
+    const queryKey = getExtractedProductStatsQueryKey();
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const res = await client<GetExtractedProductStats["data"], GetExtractedProductStats["error"]>({
+                method: "get",
+                url: `/api/import/stats`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets statistics about extracted products.
+ * @link /api/import/stats
+ */
+export function useGetExtractedProductStats<TData = GetExtractedProductStats["response"], _TQueryData = GetExtractedProductStats["response"], TQueryKey extends QueryKey = GetExtractedProductStatsQueryKey>(options: {
+    query?: Partial<QueryObserverOptions<GetExtractedProductStats["response"], GetExtractedProductStats["error"], TData, TQueryKey>>;
+    client?: GetExtractedProductStats["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetExtractedProductStats["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getExtractedProductStatsQueryKey();
+    const query = useQuery({
+        ...getExtractedProductStatsQueryOptions(clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetExtractedProductStats["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
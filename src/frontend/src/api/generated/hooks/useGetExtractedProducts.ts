@@ -0,0 +1,61 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetExtractedProductsQueryResponse, GetExtractedProductsQueryParams } from "../types/GetExtractedProducts";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetExtractedProductsClient = typeof client<GetExtractedProductsQueryResponse, Error, never>;
+type GetExtractedProducts = {
+    data: GetExtractedProductsQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: GetExtractedProductsQueryParams;
+    headerParams: never;
+    response: GetExtractedProductsQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetExtractedProductsClient>[0]>;
+        return: Awaited<ReturnType<GetExtractedProductsClient>>;
+    };
+};
+export const getExtractedProductsQueryKey = (params?: MaybeRef<GetExtractedProducts["queryParams"]>) => [{ url: "/api/import/" }, ...(params ? [params] : [])] as const;
+export type GetExtractedProductsQueryKey = ReturnType<typeof getExtractedProductsQueryKey>;
+export function getExtractedProductsQueryOptions(refParams?: MaybeRef<GetExtractedProductsQueryParams>, options: GetExtractedProducts["client"]["parameters"] = {}) {
+    const queryKey = getExtractedProductsQueryKey(refParams);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const params = unref(refParams);
+            const res = await client<GetExtractedProducts["data"], GetExtractedProducts["error"]>({
+                method: "get",
+                url: `/api/import/`,
+                params,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets a paginated list of extracted products for review.
+ * @link /api/import/
+ */
+export function useGetExtractedProducts<TData = GetExtractedProducts["response"], _TQueryData = GetExtractedProducts["response"], TQueryKey extends QueryKey = GetExtractedProductsQueryKey>(refParams?: MaybeRef<GetExtractedProductsQueryParams>, options: {
+    query?: Partial<QueryObserverOptions<GetExtractedProducts["response"], GetExtractedProducts["error"], TData, TQueryKey>>;
+    client?: GetExtractedProducts["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetExtractedProducts["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getExtractedProductsQueryKey(refParams);
+    const query = useQuery({
+        ...getExtractedProductsQueryOptions(refParams, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetExtractedProducts["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetJobByIdQueryResponse, GetJobByIdPathParams, GetJobById404 } from "../types/GetJobById";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetJobByIdClient = typeof client<GetJobByIdQueryResponse, GetJobById404, never>;
+type GetJobById = {
+    data: GetJobByIdQueryResponse;
+    error: GetJobById404;
+    request: never;
+    pathParams: GetJobByIdPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: GetJobByIdQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetJobByIdClient>[0]>;
+        return: Awaited<ReturnType<GetJobByIdClient>>;
+    };
+};
+export const getJobByIdQueryKey = (id: MaybeRef<GetJobByIdPathParams["id"]>) => [{ url: "/api/jobs/:id", params: { id: id } }] as const;
+export type GetJobByIdQueryKey = ReturnType<typeof getJobByIdQueryKey>;
+export function getJobByIdQueryOptions(refId: MaybeRef<GetJobByIdPathParams["id"]>, options: GetJobById["client"]["parameters"] = {}) {
+    const queryKey = getJobByIdQueryKey(refId);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const id = unref(refId);
+            const res = await client<GetJobById["data"], GetJobById["error"]>({
+                method: "get",
+                url: `/api/jobs/${id}`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets detailed information about a specific job.
+ * @link /api/jobs/:id
+ */
+export function useGetJobById<TData = GetJobById["response"], _TQueryData = GetJobById["response"], TQueryKey extends QueryKey = GetJobByIdQueryKey>(refId: GetJobByIdPathParams["id"], options: {
+    query?: Partial<QueryObserverOptions<GetJobById["response"], GetJobById["error"], TData, TQueryKey>>;
+    client?: GetJobById["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetJobById["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getJobByIdQueryKey(refId);
+    const query = useQuery({
+        ...getJobByIdQueryOptions(refId, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetJobById["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
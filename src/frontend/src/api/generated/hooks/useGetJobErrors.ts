@@ -0,0 +1,60 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetJobErrorsQueryResponse, GetJobErrorsPathParams, GetJobErrors404 } from "../types/GetJobErrors";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetJobErrorsClient = typeof client<GetJobErrorsQueryResponse, GetJobErrors404, never>;
+type GetJobErrors = {
+    data: GetJobErrorsQueryResponse;
+    error: GetJobErrors404;
+    request: never;
+    pathParams: GetJobErrorsPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: GetJobErrorsQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetJobErrorsClient>[0]>;
+        return: Awaited<ReturnType<GetJobErrorsClient>>;
+    };
+};
+export const getJobErrorsQueryKey = (id: MaybeRef<GetJobErrorsPathParams["id"]>) => [{ url: "/api/jobs/:id/errors", params: { id: id } }] as const;
+export type GetJobErrorsQueryKey = ReturnType<typeof getJobErrorsQueryKey>;
+export function getJobErrorsQueryOptions(refId: MaybeRef<GetJobErrorsPathParams["id"]>, options: GetJobErrors["client"]["parameters"] = {}) {
+    const queryKey = getJobErrorsQueryKey(refId);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const id = unref(refId);
+            const res = await client<GetJobErrors["data"], GetJobErrors["error"]>({
+                method: "get",
+                url: `/api/jobs/${id}/errors`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets a job's page errors grouped by message, most frequent first.
+ * @link /api/jobs/:id/errors
+ */
+export function useGetJobErrors<TData = GetJobErrors["response"], _TQueryData = GetJobErrors["response"], TQueryKey extends QueryKey = GetJobErrorsQueryKey>(refId: GetJobErrorsPathParams["id"], options: {
+    query?: Partial<QueryObserverOptions<GetJobErrors["response"], GetJobErrors["error"], TData, TQueryKey>>;
+    client?: GetJobErrors["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetJobErrors["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getJobErrorsQueryKey(refId);
+    const query = useQuery({
+        ...getJobErrorsQueryOptions(refId, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetJobErrors["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
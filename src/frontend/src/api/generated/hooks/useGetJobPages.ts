@@ -0,0 +1,62 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetJobPagesQueryResponse, GetJobPagesPathParams, GetJobPagesQueryParams, GetJobPages404 } from "../types/GetJobPages";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetJobPagesClient = typeof client<GetJobPagesQueryResponse, GetJobPages404, never>;
+type GetJobPages = {
+    data: GetJobPagesQueryResponse;
+    error: GetJobPages404;
+    request: never;
+    pathParams: GetJobPagesPathParams;
+    queryParams: GetJobPagesQueryParams;
+    headerParams: never;
+    response: GetJobPagesQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetJobPagesClient>[0]>;
+        return: Awaited<ReturnType<GetJobPagesClient>>;
+    };
+};
+export const getJobPagesQueryKey = (id: MaybeRef<GetJobPagesPathParams["id"]>, params?: MaybeRef<GetJobPages["queryParams"]>) => [{ url: "/api/jobs/:id/pages", params: { id: id } }, ...(params ? [params] : [])] as const;
+export type GetJobPagesQueryKey = ReturnType<typeof getJobPagesQueryKey>;
+export function getJobPagesQueryOptions(refId: MaybeRef<GetJobPagesPathParams["id"]>, refParams?: MaybeRef<GetJobPagesQueryParams>, options: GetJobPages["client"]["parameters"] = {}) {
+    const queryKey = getJobPagesQueryKey(refId, refParams);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const id = unref(refId);
+            const params = unref(refParams);
+            const res = await client<GetJobPages["data"], GetJobPages["error"]>({
+                method: "get",
+                url: `/api/jobs/${id}/pages`,
+                params,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets a job's pages in crawl order, with per-status counts.
+ * @link /api/jobs/:id/pages
+ */
+export function useGetJobPages<TData = GetJobPages["response"], _TQueryData = GetJobPages["response"], TQueryKey extends QueryKey = GetJobPagesQueryKey>(refId: GetJobPagesPathParams["id"], refParams?: MaybeRef<GetJobPagesQueryParams>, options: {
+    query?: Partial<QueryObserverOptions<GetJobPages["response"], GetJobPages["error"], TData, TQueryKey>>;
+    client?: GetJobPages["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetJobPages["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getJobPagesQueryKey(refId, refParams);
+    const query = useQuery({
+        ...getJobPagesQueryOptions(refId, refParams, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetJobPages["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import type { GetJobStatsQueryResponse } from "../types/GetJobStats";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+
+ type GetJobStatsClient = typeof client<GetJobStatsQueryResponse, Error, never>;
+type GetJobStats = {
+    data: GetJobStatsQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: GetJobStatsQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetJobStatsClient>[0]>;
+        return: Awaited<ReturnType<GetJobStatsClient>>;
+    };
+};
+export const getJobStatsQueryKey = () => [{ url: "/api/jobs/stats" }] as const;
+export type GetJobStatsQueryKey = ReturnType<typeof getJobStatsQueryKey>;
+export function getJobStatsQueryOptions(options: GetJobStats["client"]["parameters"] = {}) {
+    const queryKey = getJobStatsQueryKey();
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const res = await client<GetJobStats["data"], GetJobStats["error"]>({
+                method: "get",
+                url: `/api/jobs/stats`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets job statistics summary.
+ * @link /api/jobs/stats
+ */
+export function useGetJobStats<TData = GetJobStats["response"], _TQueryData = GetJobStats["response"], TQueryKey extends QueryKey = GetJobStatsQueryKey>(options: {
+    query?: Partial<QueryObserverOptions<GetJobStats["response"], GetJobStats["error"], TData, TQueryKey>>;
+    client?: GetJobStats["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetJobStats["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getJobStatsQueryKey();
+    const query = useQuery({
+        ...getJobStatsQueryOptions(clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetJobStats["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
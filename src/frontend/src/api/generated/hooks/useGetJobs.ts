@@ -0,0 +1,61 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetJobsQueryResponse, GetJobsQueryParams } from "../types/GetJobs";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetJobsClient = typeof client<GetJobsQueryResponse, Error, never>;
+type GetJobs = {
+    data: GetJobsQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: GetJobsQueryParams;
+    headerParams: never;
+    response: GetJobsQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetJobsClient>[0]>;
+        return: Awaited<ReturnType<GetJobsClient>>;
+    };
+};
+export const getJobsQueryKey = (params?: MaybeRef<GetJobs["queryParams"]>) => [{ url: "/api/jobs/" }, ...(params ? [params] : [])] as const;
+export type GetJobsQueryKey = ReturnType<typeof getJobsQueryKey>;
+export function getJobsQueryOptions(refParams?: MaybeRef<GetJobsQueryParams>, options: GetJobs["client"]["parameters"] = {}) {
+    const queryKey = getJobsQueryKey(refParams);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const params = unref(refParams);
+            const res = await client<GetJobs["data"], GetJobs["error"]>({
+                method: "get",
+                url: `/api/jobs/`,
+                params,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets a paginated list of crawl jobs.
+ * @link /api/jobs/
+ */
+export function useGetJobs<TData = GetJobs["response"], _TQueryData = GetJobs["response"], TQueryKey extends QueryKey = GetJobsQueryKey>(refParams?: MaybeRef<GetJobsQueryParams>, options: {
+    query?: Partial<QueryObserverOptions<GetJobs["response"], GetJobs["error"], TData, TQueryKey>>;
+    client?: GetJobs["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetJobs["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getJobsQueryKey(refParams);
+    const query = useQuery({
+        ...getJobsQueryOptions(refParams, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetJobs["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetProductByIdQueryResponse, GetProductByIdPathParams, GetProductById404 } from "../types/GetProductById";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetProductByIdClient = typeof client<GetProductByIdQueryResponse, GetProductById404, never>;
+type GetProductById = {
+    data: GetProductByIdQueryResponse;
+    error: GetProductById404;
+    request: never;
+    pathParams: GetProductByIdPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: GetProductByIdQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetProductByIdClient>[0]>;
+        return: Awaited<ReturnType<GetProductByIdClient>>;
+    };
+};
+export const getProductByIdQueryKey = (id: MaybeRef<GetProductByIdPathParams["id"]>) => [{ url: "/api/admin/products/:id", params: { id: id } }] as const;
+export type GetProductByIdQueryKey = ReturnType<typeof getProductByIdQueryKey>;
+export function getProductByIdQueryOptions(refId: MaybeRef<GetProductByIdPathParams["id"]>, options: GetProductById["client"]["parameters"] = {}) {
+    const queryKey = getProductByIdQueryKey(refId);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const id = unref(refId);
+            const res = await client<GetProductById["data"], GetProductById["error"]>({
+                method: "get",
+                url: `/api/admin/products/${id}`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets a product by ID.
+ * @link /api/admin/products/:id
+ */
+export function useGetProductById<TData = GetProductById["response"], _TQueryData = GetProductById["response"], TQueryKey extends QueryKey = GetProductByIdQueryKey>(refId: GetProductByIdPathParams["id"], options: {
+    query?: Partial<QueryObserverOptions<GetProductById["response"], GetProductById["error"], TData, TQueryKey>>;
+    client?: GetProductById["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetProductById["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getProductByIdQueryKey(refId);
+    const query = useQuery({
+        ...getProductByIdQueryOptions(refId, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetProductById["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
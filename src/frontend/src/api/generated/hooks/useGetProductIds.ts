@@ -0,0 +1,61 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetProductIdsQueryResponse, GetProductIdsQueryParams } from "../types/GetProductIds";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetProductIdsClient = typeof client<GetProductIdsQueryResponse, Error, never>;
+type GetProductIds = {
+    data: GetProductIdsQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: GetProductIdsQueryParams;
+    headerParams: never;
+    response: GetProductIdsQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetProductIdsClient>[0]>;
+        return: Awaited<ReturnType<GetProductIdsClient>>;
+    };
+};
+export const getProductIdsQueryKey = (params?: MaybeRef<GetProductIds["queryParams"]>) => [{ url: "/api/admin/products/ids" }, ...(params ? [params] : [])] as const;
+export type GetProductIdsQueryKey = ReturnType<typeof getProductIdsQueryKey>;
+export function getProductIdsQueryOptions(refParams?: MaybeRef<GetProductIdsQueryParams>, options: GetProductIds["client"]["parameters"] = {}) {
+    const queryKey = getProductIdsQueryKey(refParams);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const params = unref(refParams);
+            const res = await client<GetProductIds["data"], GetProductIds["error"]>({
+                method: "get",
+                url: `/api/admin/products/ids`,
+                params,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets the IDs of all products matching the list filters, for selecting across pages.
+ * @link /api/admin/products/ids
+ */
+export function useGetProductIds<TData = GetProductIds["response"], _TQueryData = GetProductIds["response"], TQueryKey extends QueryKey = GetProductIdsQueryKey>(refParams?: MaybeRef<GetProductIdsQueryParams>, options: {
+    query?: Partial<QueryObserverOptions<GetProductIds["response"], GetProductIds["error"], TData, TQueryKey>>;
+    client?: GetProductIds["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetProductIds["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getProductIdsQueryKey(refParams);
+    const query = useQuery({
+        ...getProductIdsQueryOptions(refParams, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetProductIds["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
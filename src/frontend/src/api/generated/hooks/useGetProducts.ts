@@ -0,0 +1,61 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetProductsQueryResponse, GetProductsQueryParams } from "../types/GetProducts";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetProductsClient = typeof client<GetProductsQueryResponse, Error, never>;
+type GetProducts = {
+    data: GetProductsQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: GetProductsQueryParams;
+    headerParams: never;
+    response: GetProductsQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetProductsClient>[0]>;
+        return: Awaited<ReturnType<GetProductsClient>>;
+    };
+};
+export const getProductsQueryKey = (params?: MaybeRef<GetProducts["queryParams"]>) => [{ url: "/api/admin/products" }, ...(params ? [params] : [])] as const;
+export type GetProductsQueryKey = ReturnType<typeof getProductsQueryKey>;
+export function getProductsQueryOptions(refParams?: MaybeRef<GetProductsQueryParams>, options: GetProducts["client"]["parameters"] = {}) {
+    const queryKey = getProductsQueryKey(refParams);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const params = unref(refParams);
+            const res = await client<GetProducts["data"], GetProducts["error"]>({
+                method: "get",
+                url: `/api/admin/products`,
+                params,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets products with pagination.
+ * @link /api/admin/products
+ */
+export function useGetProducts<TData = GetProducts["response"], _TQueryData = GetProducts["response"], TQueryKey extends QueryKey = GetProductsQueryKey>(refParams?: MaybeRef<GetProductsQueryParams>, options: {
+    query?: Partial<QueryObserverOptions<GetProducts["response"], GetProducts["error"], TData, TQueryKey>>;
+    client?: GetProducts["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetProducts["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getProductsQueryKey(refParams);
+    const query = useQuery({
+        ...getProductsQueryOptions(refParams, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetProducts["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
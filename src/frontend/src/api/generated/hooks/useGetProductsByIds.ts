@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { GetProductsByIdsMutationRequest, GetProductsByIdsMutationResponse, GetProductsByIds400 } from "../types/GetProductsByIds";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type GetProductsByIdsClient = typeof client<GetProductsByIdsMutationResponse, GetProductsByIds400, GetProductsByIdsMutationRequest>;
+type GetProductsByIds = {
+    data: GetProductsByIdsMutationResponse;
+    error: GetProductsByIds400;
+    request: GetProductsByIdsMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: GetProductsByIdsMutationResponse;
+    client: {
+        parameters: Partial<Parameters<GetProductsByIdsClient>[0]>;
+        return: Awaited<ReturnType<GetProductsByIdsClient>>;
+    };
+};
+/**
+ * @description Gets up to 500 products by ID.
+ * @link /api/admin/products/by-ids
+ */
+export function useGetProductsByIds(options: {
+    mutation?: UseMutationOptions<GetProductsByIds["response"], GetProductsByIds["error"], GetProductsByIds["request"], unknown>;
+    client?: GetProductsByIds["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<GetProductsByIds["data"], GetProductsByIds["error"], GetProductsByIds["request"]>({
+                method: "post",
+                url: `/api/admin/products/by-ids`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
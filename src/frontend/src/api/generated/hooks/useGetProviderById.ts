@@ -0,0 +1,60 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetProviderByIdQueryResponse, GetProviderByIdPathParams, GetProviderById404 } from "../types/GetProviderById";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetProviderByIdClient = typeof client<GetProviderByIdQueryResponse, GetProviderById404, never>;
+type GetProviderById = {
+    data: GetProviderByIdQueryResponse;
+    error: GetProviderById404;
+    request: never;
+    pathParams: GetProviderByIdPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: GetProviderByIdQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetProviderByIdClient>[0]>;
+        return: Awaited<ReturnType<GetProviderByIdClient>>;
+    };
+};
+export const getProviderByIdQueryKey = (id: MaybeRef<GetProviderByIdPathParams["id"]>) => [{ url: "/api/admin/providers/:id", params: { id: id } }] as const;
+export type GetProviderByIdQueryKey = ReturnType<typeof getProviderByIdQueryKey>;
+export function getProviderByIdQueryOptions(refId: MaybeRef<GetProviderByIdPathParams["id"]>, options: GetProviderById["client"]["parameters"] = {}) {
+    const queryKey = getProviderByIdQueryKey(refId);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const id = unref(refId);
+            const res = await client<GetProviderById["data"], GetProviderById["error"]>({
+                method: "get",
+                url: `/api/admin/providers/${id}`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets a provider by ID.
+ * @link /api/admin/providers/:id
+ */
+export function useGetProviderById<TData = GetProviderById["response"], _TQueryData = GetProviderById["response"], TQueryKey extends QueryKey = GetProviderByIdQueryKey>(refId: GetProviderByIdPathParams["id"], options: {
+    query?: Partial<QueryObserverOptions<GetProviderById["response"], GetProviderById["error"], TData, TQueryKey>>;
+    client?: GetProviderById["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetProviderById["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getProviderByIdQueryKey(refId);
+    const query = useQuery({
+        ...getProviderByIdQueryOptions(refId, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetProviderById["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
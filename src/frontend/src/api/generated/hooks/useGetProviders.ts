@@ -0,0 +1,57 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import type { GetProvidersQueryResponse } from "../types/GetProviders";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+
+ type GetProvidersClient = typeof client<GetProvidersQueryResponse, Error, never>;
+type GetProviders = {
+    data: GetProvidersQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: GetProvidersQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetProvidersClient>[0]>;
+        return: Awaited<ReturnType<GetProvidersClient>>;
+    };
+};
+export const getProvidersQueryKey = () => [{ url: "/api/admin/providers" }] as const;
+export type GetProvidersQueryKey = ReturnType<typeof getProvidersQueryKey>;
+export function getProvidersQueryOptions(options: GetProviders["client"]["parameters"] = {}) {
+    const queryKey = getProvidersQueryKey();
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const res = await client<GetProviders["data"], GetProviders["error"]>({
+                method: "get",
+                url: `/api/admin/providers`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets all providers.
+ * @link /api/admin/providers
+ */
+export function useGetProviders<TData = GetProviders["response"], _TQueryData = GetProviders["response"], TQueryKey extends QueryKey = GetProvidersQueryKey>(options: {
+    query?: Partial<QueryObserverOptions<GetProviders["response"], GetProviders["error"], TData, TQueryKey>>;
+    client?: GetProviders["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetProviders["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getProvidersQueryKey();
+    const query = useQuery({
+        ...getProvidersQueryOptions(clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetProviders["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetPublicCategoriesQueryResponse, GetPublicCategoriesQueryParams } from "../types/GetPublicCategories";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetPublicCategoriesClient = typeof client<GetPublicCategoriesQueryResponse, Error, never>;
+type GetPublicCategories = {
+    data: GetPublicCategoriesQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: GetPublicCategoriesQueryParams;
+    headerParams: never;
+    response: GetPublicCategoriesQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetPublicCategoriesClient>[0]>;
+        return: Awaited<ReturnType<GetPublicCategoriesClient>>;
+    };
+};
+export const getPublicCategoriesQueryKey = (params?: MaybeRef<GetPublicCategories["queryParams"]>) => [{ url: "/api/categories/" }, ...(params ? [params] : [])] as const;
+export type GetPublicCategoriesQueryKey = ReturnType<typeof getPublicCategoriesQueryKey>;
+export function getPublicCategoriesQueryOptions(refParams?: MaybeRef<GetPublicCategoriesQueryParams>, options: GetPublicCategories["client"]["parameters"] = {}) {
+    const queryKey = getPublicCategoriesQueryKey(refParams);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const params = unref(refParams);
+            const res = await client<GetPublicCategories["data"], GetPublicCategories["error"]>({
+                method: "get",
+                url: `/api/categories/`,
+                params,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets all categories. Optionally filter by detection enabled status.
+ * @link /api/categories/
+ */
+export function useGetPublicCategories<TData = GetPublicCategories["response"], _TQueryData = GetPublicCategories["response"], TQueryKey extends QueryKey = GetPublicCategoriesQueryKey>(refParams?: MaybeRef<GetPublicCategoriesQueryParams>, options: {
+    query?: Partial<QueryObserverOptions<GetPublicCategories["response"], GetPublicCategories["error"], TData, TQueryKey>>;
+    client?: GetPublicCategories["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetPublicCategories["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getPublicCategoriesQueryKey(refParams);
+    const query = useQuery({
+        ...getPublicCategoriesQueryOptions(refParams, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetPublicCategories["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetPublicSettingQueryResponse, GetPublicSettingPathParams, GetPublicSetting404 } from "../types/GetPublicSetting";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetPublicSettingClient = typeof client<GetPublicSettingQueryResponse, GetPublicSetting404, never>;
+type GetPublicSetting = {
+    data: GetPublicSettingQueryResponse;
+    error: GetPublicSetting404;
+    request: never;
+    pathParams: GetPublicSettingPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: GetPublicSettingQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetPublicSettingClient>[0]>;
+        return: Awaited<ReturnType<GetPublicSettingClient>>;
+    };
+};
+export const getPublicSettingQueryKey = (key: MaybeRef<GetPublicSettingPathParams["key"]>) => [{ url: "/api/settings/public/:key", params: { key: key } }] as const;
+export type GetPublicSettingQueryKey = ReturnType<typeof getPublicSettingQueryKey>;
+export function getPublicSettingQueryOptions(refKey: MaybeRef<GetPublicSettingPathParams["key"]>, options: GetPublicSetting["client"]["parameters"] = {}) {
+    const queryKey = getPublicSettingQueryKey(refKey);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const key = unref(refKey);
+            const res = await client<GetPublicSetting["data"], GetPublicSetting["error"]>({
+                method: "get",
+                url: `/api/settings/public/${key}`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets a specific public setting by key.
+ * @link /api/settings/public/:key
+ */
+export function useGetPublicSetting<TData = GetPublicSetting["response"], _TQueryData = GetPublicSetting["response"], TQueryKey extends QueryKey = GetPublicSettingQueryKey>(refKey: GetPublicSettingPathParams["key"], options: {
+    query?: Partial<QueryObserverOptions<GetPublicSetting["response"], GetPublicSetting["error"], TData, TQueryKey>>;
+    client?: GetPublicSetting["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetPublicSetting["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getPublicSettingQueryKey(refKey);
+    const query = useQuery({
+        ...getPublicSettingQueryOptions(refKey, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetPublicSetting["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
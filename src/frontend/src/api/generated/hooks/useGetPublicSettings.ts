@@ -0,0 +1,57 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import type { GetPublicSettingsQueryResponse } from "../types/GetPublicSettings";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+
+ type GetPublicSettingsClient = typeof client<GetPublicSettingsQueryResponse, Error, never>;
+type GetPublicSettings = {
+    data: GetPublicSettingsQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: GetPublicSettingsQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetPublicSettingsClient>[0]>;
+        return: Awaited<ReturnType<GetPublicSettingsClient>>;
+    };
+};
+export const getPublicSettingsQueryKey = () => [{ url: "/api/settings/public" }] as const;
+export type GetPublicSettingsQueryKey = ReturnType<typeof getPublicSettingsQueryKey>;
+export function getPublicSettingsQueryOptions(options: GetPublicSettings["client"]["parameters"] = {}) {
+    const queryKey = getPublicSettingsQueryKey();
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const res = await client<GetPublicSettings["data"], GetPublicSettings["error"]>({
+                method: "get",
+                url: `/api/settings/public`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets all public settings for the frontend.
+ * @link /api/settings/public
+ */
+export function useGetPublicSettings<TData = GetPublicSettings["response"], _TQueryData = GetPublicSettings["response"], TQueryKey extends QueryKey = GetPublicSettingsQueryKey>(options: {
+    query?: Partial<QueryObserverOptions<GetPublicSettings["response"], GetPublicSettings["error"], TData, TQueryKey>>;
+    client?: GetPublicSettings["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetPublicSettings["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getPublicSettingsQueryKey();
+    const query = useQuery({
+        ...getPublicSettingsQueryOptions(clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetPublicSettings["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
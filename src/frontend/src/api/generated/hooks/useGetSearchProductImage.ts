@@ -0,0 +1,62 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetSearchProductImageQueryResponse, GetSearchProductImagePathParams, GetSearchProductImageQueryParams, GetSearchProductImage404 } from "../types/GetSearchProductImage";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetSearchProductImageClient = typeof client<GetSearchProductImageQueryResponse, GetSearchProductImage404, never>;
+type GetSearchProductImage = {
+    data: GetSearchProductImageQueryResponse;
+    error: GetSearchProductImage404;
+    request: never;
+    pathParams: GetSearchProductImagePathParams;
+    queryParams: GetSearchProductImageQueryParams;
+    headerParams: never;
+    response: GetSearchProductImageQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetSearchProductImageClient>[0]>;
+        return: Awaited<ReturnType<GetSearchProductImageClient>>;
+    };
+};
+export const getSearchProductImageQueryKey = (productId: MaybeRef<GetSearchProductImagePathParams["productId"]>, params?: MaybeRef<GetSearchProductImage["queryParams"]>) => [{ url: "/api/search/products/:productId/image", params: { productId: productId } }, ...(params ? [params] : [])] as const;
+export type GetSearchProductImageQueryKey = ReturnType<typeof getSearchProductImageQueryKey>;
+export function getSearchProductImageQueryOptions(refProductId: MaybeRef<GetSearchProductImagePathParams["productId"]>, refParams?: MaybeRef<GetSearchProductImageQueryParams>, options: GetSearchProductImage["client"]["parameters"] = {}) {
+    const queryKey = getSearchProductImageQueryKey(refProductId, refParams);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const productId = unref(refProductId);
+            const params = unref(refParams);
+            const res = await client<GetSearchProductImage["data"], GetSearchProductImage["error"]>({
+                method: "get",
+                url: `/api/search/products/${productId}/image`,
+                params,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Get a product image through the API, so a result can be searched again without CORS on the provider's CDN. Pass the result's imageUrl to pick that image; otherwise the primary image is returned.
+ * @link /api/search/products/:productId/image
+ */
+export function useGetSearchProductImage<TData = GetSearchProductImage["response"], _TQueryData = GetSearchProductImage["response"], TQueryKey extends QueryKey = GetSearchProductImageQueryKey>(refProductId: GetSearchProductImagePathParams["productId"], refParams?: MaybeRef<GetSearchProductImageQueryParams>, options: {
+    query?: Partial<QueryObserverOptions<GetSearchProductImage["response"], GetSearchProductImage["error"], TData, TQueryKey>>;
+    client?: GetSearchProductImage["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetSearchProductImage["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getSearchProductImageQueryKey(refProductId, refParams);
+    const query = useQuery({
+        ...getSearchProductImageQueryOptions(refProductId, refParams, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetSearchProductImage["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
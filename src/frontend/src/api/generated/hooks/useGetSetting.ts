@@ -0,0 +1,60 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetSettingQueryResponse, GetSettingPathParams, GetSetting404 } from "../types/GetSetting";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetSettingClient = typeof client<GetSettingQueryResponse, GetSetting404, never>;
+type GetSetting = {
+    data: GetSettingQueryResponse;
+    error: GetSetting404;
+    request: never;
+    pathParams: GetSettingPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: GetSettingQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetSettingClient>[0]>;
+        return: Awaited<ReturnType<GetSettingClient>>;
+    };
+};
+export const getSettingQueryKey = (key: MaybeRef<GetSettingPathParams["key"]>) => [{ url: "/api/settings/:key", params: { key: key } }] as const;
+export type GetSettingQueryKey = ReturnType<typeof getSettingQueryKey>;
+export function getSettingQueryOptions(refKey: MaybeRef<GetSettingPathParams["key"]>, options: GetSetting["client"]["parameters"] = {}) {
+    const queryKey = getSettingQueryKey(refKey);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const key = unref(refKey);
+            const res = await client<GetSetting["data"], GetSetting["error"]>({
+                method: "get",
+                url: `/api/settings/${key}`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets a specific setting by key (admin only).
+ * @link /api/settings/:key
+ */
+export function useGetSetting<TData = GetSetting["response"], _TQueryData = GetSetting["response"], TQueryKey extends QueryKey = GetSettingQueryKey>(refKey: GetSettingPathParams["key"], options: {
+    query?: Partial<QueryObserverOptions<GetSetting["response"], GetSetting["error"], TData, TQueryKey>>;
+    client?: GetSetting["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetSetting["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getSettingQueryKey(refKey);
+    const query = useQuery({
+        ...getSettingQueryOptions(refKey, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetSetting["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import type { GetStatsQueryResponse } from "../types/GetStats";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+
+ type GetStatsClient = typeof client<GetStatsQueryResponse, Error, never>;
+type GetStats = {
+    data: GetStatsQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: GetStatsQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetStatsClient>[0]>;
+        return: Awaited<ReturnType<GetStatsClient>>;
+    };
+};
+export const getStatsQueryKey = () => [{ url: "/api/admin/stats" }] as const;
+export type GetStatsQueryKey = ReturnType<typeof getStatsQueryKey>;
+export function getStatsQueryOptions(options: GetStats["client"]["parameters"] = {}) {
+    const queryKey = getStatsQueryKey();
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const res = await client<GetStats["data"], GetStats["error"]>({
+                method: "get",
+                url: `/api/admin/stats`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets dashboard statistics.
+ * @link /api/admin/stats
+ */
+export function useGetStats<TData = GetStats["response"], _TQueryData = GetStats["response"], TQueryKey extends QueryKey = GetStatsQueryKey>(options: {
+    query?: Partial<QueryObserverOptions<GetStats["response"], GetStats["error"], TData, TQueryKey>>;
+    client?: GetStats["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetStats["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getStatsQueryKey();
+    const query = useQuery({
+        ...getStatsQueryOptions(clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetStats["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { GetStatsTimeSeriesQueryResponse, GetStatsTimeSeriesQueryParams, GetStatsTimeSeries400 } from "../types/GetStatsTimeSeries";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type GetStatsTimeSeriesClient = typeof client<GetStatsTimeSeriesQueryResponse, GetStatsTimeSeries400, never>;
+type GetStatsTimeSeries = {
+    data: GetStatsTimeSeriesQueryResponse;
+    error: GetStatsTimeSeries400;
+    request: never;
+    pathParams: never;
+    queryParams: GetStatsTimeSeriesQueryParams;
+    headerParams: never;
+    response: GetStatsTimeSeriesQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetStatsTimeSeriesClient>[0]>;
+        return: Awaited<ReturnType<GetStatsTimeSeriesClient>>;
+    };
+};
+export const getStatsTimeSeriesQueryKey = (params?: MaybeRef<GetStatsTimeSeries["queryParams"]>) => [{ url: "/api/admin/stats/timeseries" }, ...(params ? [params] : [])] as const;
+export type GetStatsTimeSeriesQueryKey = ReturnType<typeof getStatsTimeSeriesQueryKey>;
+export function getStatsTimeSeriesQueryOptions(refParams?: MaybeRef<GetStatsTimeSeriesQueryParams>, options: GetStatsTimeSeries["client"]["parameters"] = {}) {
+    const queryKey = getStatsTimeSeriesQueryKey(refParams);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const params = unref(refParams);
+            const res = await client<GetStatsTimeSeries["data"], GetStatsTimeSeries["error"]>({
+                method: "get",
+                url: `/api/admin/stats/timeseries`,
+                params,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets products added and images vectorized per day, and crawl pages fetched per hour.
+ * @link /api/admin/stats/timeseries
+ */
+export function useGetStatsTimeSeries<TData = GetStatsTimeSeries["response"], _TQueryData = GetStatsTimeSeries["response"], TQueryKey extends QueryKey = GetStatsTimeSeriesQueryKey>(refParams?: MaybeRef<GetStatsTimeSeriesQueryParams>, options: {
+    query?: Partial<QueryObserverOptions<GetStatsTimeSeries["response"], GetStatsTimeSeries["error"], TData, TQueryKey>>;
+    client?: GetStatsTimeSeries["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetStatsTimeSeries["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getStatsTimeSeriesQueryKey(refParams);
+    const query = useQuery({
+        ...getStatsTimeSeriesQueryOptions(refParams, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetStatsTimeSeries["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
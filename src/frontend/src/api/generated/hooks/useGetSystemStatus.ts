@@ -0,0 +1,57 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import type { GetSystemStatusQueryResponse } from "../types/GetSystemStatus";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+
+ type GetSystemStatusClient = typeof client<GetSystemStatusQueryResponse, Error, never>;
+type GetSystemStatus = {
+    data: GetSystemStatusQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: GetSystemStatusQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetSystemStatusClient>[0]>;
+        return: Awaited<ReturnType<GetSystemStatusClient>>;
+    };
+};
+export const getSystemStatusQueryKey = () => [{ url: "/api/admin/system-status" }] as const;
+export type GetSystemStatusQueryKey = ReturnType<typeof getSystemStatusQueryKey>;
+export function getSystemStatusQueryOptions(options: GetSystemStatus["client"]["parameters"] = {}) {
+    const queryKey = getSystemStatusQueryKey();
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const res = await client<GetSystemStatus["data"], GetSystemStatus["error"]>({
+                method: "get",
+                url: `/api/admin/system-status`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets AI model, database, worker, search latency and storage status.
+ * @link /api/admin/system-status
+ */
+export function useGetSystemStatus<TData = GetSystemStatus["response"], _TQueryData = GetSystemStatus["response"], TQueryKey extends QueryKey = GetSystemStatusQueryKey>(options: {
+    query?: Partial<QueryObserverOptions<GetSystemStatus["response"], GetSystemStatus["error"], TData, TQueryKey>>;
+    client?: GetSystemStatus["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetSystemStatus["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getSystemStatusQueryKey();
+    const query = useQuery({
+        ...getSystemStatusQueryOptions(clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetSystemStatus["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import type { GetUsersQueryResponse } from "../types/GetUsers";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+
+ type GetUsersClient = typeof client<GetUsersQueryResponse, Error, never>;
+type GetUsers = {
+    data: GetUsersQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: GetUsersQueryResponse;
+    client: {
+        parameters: Partial<Parameters<GetUsersClient>[0]>;
+        return: Awaited<ReturnType<GetUsersClient>>;
+    };
+};
+export const getUsersQueryKey = () => [{ url: "/api/admin/users" }] as const;
+export type GetUsersQueryKey = ReturnType<typeof getUsersQueryKey>;
+export function getUsersQueryOptions(options: GetUsers["client"]["parameters"] = {}) {
+    const queryKey = getUsersQueryKey();
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const res = await client<GetUsers["data"], GetUsers["error"]>({
+                method: "get",
+                url: `/api/admin/users`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Gets all admin users.
+ * @link /api/admin/users
+ */
+export function useGetUsers<TData = GetUsers["response"], _TQueryData = GetUsers["response"], TQueryKey extends QueryKey = GetUsersQueryKey>(options: {
+    query?: Partial<QueryObserverOptions<GetUsers["response"], GetUsers["error"], TData, TQueryKey>>;
+    client?: GetUsers["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, GetUsers["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? getUsersQueryKey();
+    const query = useQuery({
+        ...getUsersQueryOptions(clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, GetUsers["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,56 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import type { HealthCheckQueryResponse } from "../types/HealthCheck";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+
+ type HealthCheckClient = typeof client<HealthCheckQueryResponse, Error, never>;
+type HealthCheck = {
+    data: HealthCheckQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: HealthCheckQueryResponse;
+    client: {
+        parameters: Partial<Parameters<HealthCheckClient>[0]>;
+        return: Awaited<ReturnType<HealthCheckClient>>;
+    };
+};
+export const healthCheckQueryKey = () => [{ url: "/health" }] as const;
+export type HealthCheckQueryKey = ReturnType<typeof healthCheckQueryKey>;
+export function healthCheckQueryOptions(options: HealthCheck["client"]["parameters"] = {}) {
+    const queryKey = healthCheckQueryKey();
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const res = await client<HealthCheck["data"], HealthCheck["error"]>({
+                method: "get",
+                url: `/health`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @link /health
+ */
+export function useHealthCheck<TData = HealthCheck["response"], _TQueryData = HealthCheck["response"], TQueryKey extends QueryKey = HealthCheckQueryKey>(options: {
+    query?: Partial<QueryObserverOptions<HealthCheck["response"], HealthCheck["error"], TData, TQueryKey>>;
+    client?: HealthCheck["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, HealthCheck["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? healthCheckQueryKey();
+    const query = useQuery({
+        ...healthCheckQueryOptions(clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, HealthCheck["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { ImageSearchMutationResponse } from "../types/ImageSearch";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type ImageSearchClient = typeof client<ImageSearchMutationResponse, Error, FormData>;
+type ImageSearch = {
+    data: ImageSearchMutationResponse;
+    error: Error;
+    request: FormData;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: ImageSearchMutationResponse;
+    client: {
+        parameters: Partial<Parameters<ImageSearchClient>[0]>;
+        return: Awaited<ReturnType<ImageSearchClient>>;
+    };
+};
+/**
+ * @description Upload image for visual search. Server performs detection and embedding.
+ * @link /api/search/image
+ */
+export function useImageSearch(options: {
+    mutation?: UseMutationOptions<ImageSearch["response"], ImageSearch["error"], ImageSearch["request"], unknown>;
+    client?: ImageSearch["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const formData = data;
+            const res = await client<ImageSearch["data"], ImageSearch["error"], ImageSearch["request"]>({
+                method: "post",
+                url: `/api/search/image`,
+                data: formData,
+                headers: { "Content-Type": "multipart/form-data", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { ImportExtractedProductAsNewMutationRequest, ImportExtractedProductAsNewMutationResponse, ImportExtractedProductAsNewPathParams, ImportExtractedProductAsNew400, ImportExtractedProductAsNew404 } from "../types/ImportExtractedProductAsNew";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type ImportExtractedProductAsNewClient = typeof client<ImportExtractedProductAsNewMutationResponse, ImportExtractedProductAsNew400 | ImportExtractedProductAsNew404, ImportExtractedProductAsNewMutationRequest>;
+type ImportExtractedProductAsNew = {
+    data: ImportExtractedProductAsNewMutationResponse;
+    error: ImportExtractedProductAsNew400 | ImportExtractedProductAsNew404;
+    request: ImportExtractedProductAsNewMutationRequest;
+    pathParams: ImportExtractedProductAsNewPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: ImportExtractedProductAsNewMutationResponse;
+    client: {
+        parameters: Partial<Parameters<ImportExtractedProductAsNewClient>[0]>;
+        return: Awaited<ReturnType<ImportExtractedProductAsNewClient>>;
+    };
+};
+/**
+ * @description Imports an extracted product as a new catalog product even if it matches an existing one.
+ * @link /api/import/:id/import-as-new
+ */
+export function useImportExtractedProductAsNew(refId: MaybeRef<ImportExtractedProductAsNewPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<ImportExtractedProductAsNew["response"], ImportExtractedProductAsNew["error"], ImportExtractedProductAsNew["request"], unknown>;
+    client?: ImportExtractedProductAsNew["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const id = unref(refId);
+            const res = await client<ImportExtractedProductAsNew["data"], ImportExtractedProductAsNew["error"], ImportExtractedProductAsNew["request"]>({
+                method: "post",
+                url: `/api/import/${id}/import-as-new`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { ImportProductsMutationRequest, ImportProductsMutationResponse, ImportProducts400 } from "../types/ImportProducts";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type ImportProductsClient = typeof client<ImportProductsMutationResponse, ImportProducts400, ImportProductsMutationRequest>;
+type ImportProducts = {
+    data: ImportProductsMutationResponse;
+    error: ImportProducts400;
+    request: ImportProductsMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: ImportProductsMutationResponse;
+    client: {
+        parameters: Partial<Parameters<ImportProductsClient>[0]>;
+        return: Awaited<ReturnType<ImportProductsClient>>;
+    };
+};
+/**
+ * @description Validates and upserts up to 200 catalog rows for a provider, matching existing products by external ID. Set dryRun to only validate.
+ * @link /api/admin/products/import
+ */
+export function useImportProducts(options: {
+    mutation?: UseMutationOptions<ImportProducts["response"], ImportProducts["error"], ImportProducts["request"], unknown>;
+    client?: ImportProducts["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<ImportProducts["data"], ImportProducts["error"], ImportProducts["request"]>({
+                method: "post",
+                url: `/api/admin/products/import`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { InvalidateCacheMutationResponse } from "../types/InvalidateCache";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type InvalidateCacheClient = typeof client<InvalidateCacheMutationResponse, Error, never>;
+type InvalidateCache = {
+    data: InvalidateCacheMutationResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: InvalidateCacheMutationResponse;
+    client: {
+        parameters: Partial<Parameters<InvalidateCacheClient>[0]>;
+        return: Awaited<ReturnType<InvalidateCacheClient>>;
+    };
+};
+/**
+ * @description Invalidates the settings cache and notifies all clients (admin only).
+ * @link /api/settings/invalidate-cache
+ */
+export function useInvalidateCache(options: {
+    mutation?: UseMutationOptions<InvalidateCache["response"], InvalidateCache["error"], void, unknown>;
+    client?: InvalidateCache["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const res = await client<InvalidateCache["data"], InvalidateCache["error"], InvalidateCache["request"]>({
+                method: "post",
+                url: `/api/settings/invalidate-cache`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
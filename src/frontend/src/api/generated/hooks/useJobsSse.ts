@@ -0,0 +1,61 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { JobsSseQueryResponse, JobsSseQueryParams } from "../types/JobsSse";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type JobsSseClient = typeof client<JobsSseQueryResponse, Error, never>;
+type JobsSse = {
+    data: JobsSseQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: JobsSseQueryParams;
+    headerParams: never;
+    response: JobsSseQueryResponse;
+    client: {
+        parameters: Partial<Parameters<JobsSseClient>[0]>;
+        return: Awaited<ReturnType<JobsSseClient>>;
+    };
+};
+export const jobsSseQueryKey = (params: MaybeRef<JobsSse["queryParams"]>) => [{ url: "/api/jobs/sse" }, ...(params ? [params] : [])] as const;
+export type JobsSseQueryKey = ReturnType<typeof jobsSseQueryKey>;
+export function jobsSseQueryOptions(refParams: MaybeRef<JobsSseQueryParams>, options: JobsSse["client"]["parameters"] = {}) {
+    const queryKey = jobsSseQueryKey(refParams);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const params = unref(refParams);
+            const res = await client<JobsSse["data"], JobsSse["error"]>({
+                method: "get",
+                url: `/api/jobs/sse`,
+                params,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Server-Sent Events endpoint for real-time jobs updates. Requires a short-lived SSE ticket.
+ * @link /api/jobs/sse
+ */
+export function useJobsSse<TData = JobsSse["response"], _TQueryData = JobsSse["response"], TQueryKey extends QueryKey = JobsSseQueryKey>(refParams: MaybeRef<JobsSseQueryParams>, options: {
+    query?: Partial<QueryObserverOptions<JobsSse["response"], JobsSse["error"], TData, TQueryKey>>;
+    client?: JobsSse["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, JobsSse["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? jobsSseQueryKey(refParams);
+    const query = useQuery({
+        ...jobsSseQueryOptions(refParams, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, JobsSse["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
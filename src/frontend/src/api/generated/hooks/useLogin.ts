@@ -0,0 +1,42 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import type { LoginMutationRequest, LoginMutationResponse, Login400, Login401 } from "../types/Login";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+
+ type LoginClient = typeof client<LoginMutationResponse, Login400 | Login401, LoginMutationRequest>;
+type Login = {
+    data: LoginMutationResponse;
+    error: Login400 | Login401;
+    request: LoginMutationRequest;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: LoginMutationResponse;
+    client: {
+        parameters: Partial<Parameters<LoginClient>[0]>;
+        return: Awaited<ReturnType<LoginClient>>;
+    };
+};
+/**
+ * @description Authenticates an admin user and returns a JWT token.
+ * @link /api/auth/login
+ */
+export function useLogin(options: {
+    mutation?: UseMutationOptions<Login["response"], Login["error"], Login["request"], unknown>;
+    client?: Login["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const res = await client<Login["data"], Login["error"], Login["request"]>({
+                method: "post",
+                url: `/api/auth/login`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
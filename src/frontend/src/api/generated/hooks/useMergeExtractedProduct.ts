@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { MergeExtractedProductMutationResponse, MergeExtractedProductPathParams, MergeExtractedProduct400, MergeExtractedProduct404 } from "../types/MergeExtractedProduct";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type MergeExtractedProductClient = typeof client<MergeExtractedProductMutationResponse, MergeExtractedProduct400 | MergeExtractedProduct404, never>;
+type MergeExtractedProduct = {
+    data: MergeExtractedProductMutationResponse;
+    error: MergeExtractedProduct400 | MergeExtractedProduct404;
+    request: never;
+    pathParams: MergeExtractedProductPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: MergeExtractedProductMutationResponse;
+    client: {
+        parameters: Partial<Parameters<MergeExtractedProductClient>[0]>;
+        return: Awaited<ReturnType<MergeExtractedProductClient>>;
+    };
+};
+/**
+ * @description Updates the matching catalog product's price and adds its missing images from an extracted product.
+ * @link /api/import/:id/merge
+ */
+export function useMergeExtractedProduct(refId: MaybeRef<MergeExtractedProductPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<MergeExtractedProduct["response"], MergeExtractedProduct["error"], void, unknown>;
+    client?: MergeExtractedProduct["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const id = unref(refId);
+            const res = await client<MergeExtractedProduct["data"], MergeExtractedProduct["error"], MergeExtractedProduct["request"]>({
+                method: "post",
+                url: `/api/import/${id}/merge`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
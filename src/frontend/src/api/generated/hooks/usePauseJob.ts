@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { PauseJobMutationResponse, PauseJobPathParams, PauseJob400, PauseJob404 } from "../types/PauseJob";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type PauseJobClient = typeof client<PauseJobMutationResponse, PauseJob400 | PauseJob404, never>;
+type PauseJob = {
+    data: PauseJobMutationResponse;
+    error: PauseJob400 | PauseJob404;
+    request: never;
+    pathParams: PauseJobPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: PauseJobMutationResponse;
+    client: {
+        parameters: Partial<Parameters<PauseJobClient>[0]>;
+        return: Awaited<ReturnType<PauseJobClient>>;
+    };
+};
+/**
+ * @description Pauses a queued or running job. Can be resumed later.
+ * @link /api/jobs/:id/pause
+ */
+export function usePauseJob(refId: MaybeRef<PauseJobPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<PauseJob["response"], PauseJob["error"], void, unknown>;
+    client?: PauseJob["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const id = unref(refId);
+            const res = await client<PauseJob["data"], PauseJob["error"], PauseJob["request"]>({
+                method: "post",
+                url: `/api/jobs/${id}/pause`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { RejectExtractedProductMutationResponse, RejectExtractedProductPathParams, RejectExtractedProduct400, RejectExtractedProduct404 } from "../types/RejectExtractedProduct";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type RejectExtractedProductClient = typeof client<RejectExtractedProductMutationResponse, RejectExtractedProduct400 | RejectExtractedProduct404, never>;
+type RejectExtractedProduct = {
+    data: RejectExtractedProductMutationResponse;
+    error: RejectExtractedProduct400 | RejectExtractedProduct404;
+    request: never;
+    pathParams: RejectExtractedProductPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: RejectExtractedProductMutationResponse;
+    client: {
+        parameters: Partial<Parameters<RejectExtractedProductClient>[0]>;
+        return: Awaited<ReturnType<RejectExtractedProductClient>>;
+    };
+};
+/**
+ * @description Rejects a pending or duplicate extracted product.
+ * @link /api/import/:id/reject
+ */
+export function useRejectExtractedProduct(refId: MaybeRef<RejectExtractedProductPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<RejectExtractedProduct["response"], RejectExtractedProduct["error"], void, unknown>;
+    client?: RejectExtractedProduct["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const id = unref(refId);
+            const res = await client<RejectExtractedProduct["data"], RejectExtractedProduct["error"], RejectExtractedProduct["request"]>({
+                method: "post",
+                url: `/api/import/${id}/reject`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { ResetExtractedProductMutationResponse, ResetExtractedProductPathParams, ResetExtractedProduct404 } from "../types/ResetExtractedProduct";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type ResetExtractedProductClient = typeof client<ResetExtractedProductMutationResponse, ResetExtractedProduct404, never>;
+type ResetExtractedProduct = {
+    data: ResetExtractedProductMutationResponse;
+    error: ResetExtractedProduct404;
+    request: never;
+    pathParams: ResetExtractedProductPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: ResetExtractedProductMutationResponse;
+    client: {
+        parameters: Partial<Parameters<ResetExtractedProductClient>[0]>;
+        return: Awaited<ReturnType<ResetExtractedProductClient>>;
+    };
+};
+/**
+ * @description Resets an extracted product back to pending status.
+ * @link /api/import/:id/reset
+ */
+export function useResetExtractedProduct(refId: MaybeRef<ResetExtractedProductPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<ResetExtractedProduct["response"], ResetExtractedProduct["error"], void, unknown>;
+    client?: ResetExtractedProduct["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const id = unref(refId);
+            const res = await client<ResetExtractedProduct["data"], ResetExtractedProduct["error"], ResetExtractedProduct["request"]>({
+                method: "post",
+                url: `/api/import/${id}/reset`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
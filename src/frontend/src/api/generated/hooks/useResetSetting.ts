@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { ResetSettingMutationResponse, ResetSettingPathParams, ResetSetting400, ResetSetting404 } from "../types/ResetSetting";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type ResetSettingClient = typeof client<ResetSettingMutationResponse, ResetSetting400 | ResetSetting404, never>;
+type ResetSetting = {
+    data: ResetSettingMutationResponse;
+    error: ResetSetting400 | ResetSetting404;
+    request: never;
+    pathParams: ResetSettingPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: ResetSettingMutationResponse;
+    client: {
+        parameters: Partial<Parameters<ResetSettingClient>[0]>;
+        return: Awaited<ReturnType<ResetSettingClient>>;
+    };
+};
+/**
+ * @description Restores a built-in setting to its default value (admin only).
+ * @link /api/settings/:key/reset
+ */
+export function useResetSetting(refKey: MaybeRef<ResetSettingPathParams["key"]>, options: {
+    mutation?: UseMutationOptions<ResetSetting["response"], ResetSetting["error"], void, unknown>;
+    client?: ResetSetting["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const key = unref(refKey);
+            const res = await client<ResetSetting["data"], ResetSetting["error"], ResetSetting["request"]>({
+                method: "post",
+                url: `/api/settings/${key}/reset`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { ResumeJobMutationResponse, ResumeJobPathParams, ResumeJob400, ResumeJob404 } from "../types/ResumeJob";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type ResumeJobClient = typeof client<ResumeJobMutationResponse, ResumeJob400 | ResumeJob404, never>;
+type ResumeJob = {
+    data: ResumeJobMutationResponse;
+    error: ResumeJob400 | ResumeJob404;
+    request: never;
+    pathParams: ResumeJobPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: ResumeJobMutationResponse;
+    client: {
+        parameters: Partial<Parameters<ResumeJobClient>[0]>;
+        return: Awaited<ReturnType<ResumeJobClient>>;
+    };
+};
+/**
+ * @description Resumes a paused job.
+ * @link /api/jobs/:id/resume
+ */
+export function useResumeJob(refId: MaybeRef<ResumeJobPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<ResumeJob["response"], ResumeJob["error"], void, unknown>;
+    client?: ResumeJob["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const id = unref(refId);
+            const res = await client<ResumeJob["data"], ResumeJob["error"], ResumeJob["request"]>({
+                method: "post",
+                url: `/api/jobs/${id}/resume`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
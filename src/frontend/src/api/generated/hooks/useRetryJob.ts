@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { RetryJobMutationResponse, RetryJobPathParams, RetryJob400, RetryJob404 } from "../types/RetryJob";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type RetryJobClient = typeof client<RetryJobMutationResponse, RetryJob400 | RetryJob404, never>;
+type RetryJob = {
+    data: RetryJobMutationResponse;
+    error: RetryJob400 | RetryJob404;
+    request: never;
+    pathParams: RetryJobPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: RetryJobMutationResponse;
+    client: {
+        parameters: Partial<Parameters<RetryJobClient>[0]>;
+        return: Awaited<ReturnType<RetryJobClient>>;
+    };
+};
+/**
+ * @description Creates a new job based on a failed or canceled job.
+ * @link /api/jobs/:id/retry
+ */
+export function useRetryJob(refId: MaybeRef<RetryJobPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<RetryJob["response"], RetryJob["error"], void, unknown>;
+    client?: RetryJob["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const id = unref(refId);
+            const res = await client<RetryJob["data"], RetryJob["error"], RetryJob["request"]>({
+                method: "post",
+                url: `/api/jobs/${id}/retry`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import type { SettingsSseQueryResponse } from "../types/SettingsSse";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+
+ type SettingsSseClient = typeof client<SettingsSseQueryResponse, Error, never>;
+type SettingsSse = {
+    data: SettingsSseQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: never;
+    headerParams: never;
+    response: SettingsSseQueryResponse;
+    client: {
+        parameters: Partial<Parameters<SettingsSseClient>[0]>;
+        return: Awaited<ReturnType<SettingsSseClient>>;
+    };
+};
+export const settingsSseQueryKey = () => [{ url: "/api/settings/sse" }] as const;
+export type SettingsSseQueryKey = ReturnType<typeof settingsSseQueryKey>;
+export function settingsSseQueryOptions(options: SettingsSse["client"]["parameters"] = {}) {
+    const queryKey = settingsSseQueryKey();
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const res = await client<SettingsSse["data"], SettingsSse["error"]>({
+                method: "get",
+                url: `/api/settings/sse`,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Server-Sent Events endpoint for real-time settings change notifications.
+ * @link /api/settings/sse
+ */
+export function useSettingsSse<TData = SettingsSse["response"], _TQueryData = SettingsSse["response"], TQueryKey extends QueryKey = SettingsSseQueryKey>(options: {
+    query?: Partial<QueryObserverOptions<SettingsSse["response"], SettingsSse["error"], TData, TQueryKey>>;
+    client?: SettingsSse["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, SettingsSse["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? settingsSseQueryKey();
+    const query = useQuery({
+        ...settingsSseQueryOptions(clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, SettingsSse["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
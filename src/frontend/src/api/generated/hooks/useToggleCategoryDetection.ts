@@ -0,0 +1,45 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { ToggleCategoryDetectionMutationRequest, ToggleCategoryDetectionMutationResponse, ToggleCategoryDetectionPathParams, ToggleCategoryDetection404 } from "../types/ToggleCategoryDetection";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type ToggleCategoryDetectionClient = typeof client<ToggleCategoryDetectionMutationResponse, ToggleCategoryDetection404, ToggleCategoryDetectionMutationRequest>;
+type ToggleCategoryDetection = {
+    data: ToggleCategoryDetectionMutationResponse;
+    error: ToggleCategoryDetection404;
+    request: ToggleCategoryDetectionMutationRequest;
+    pathParams: ToggleCategoryDetectionPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: ToggleCategoryDetectionMutationResponse;
+    client: {
+        parameters: Partial<Parameters<ToggleCategoryDetectionClient>[0]>;
+        return: Awaited<ReturnType<ToggleCategoryDetectionClient>>;
+    };
+};
+/**
+ * @description Toggles detection enabled for a category.
+ * @link /api/admin/categories/:id/detection
+ */
+export function useToggleCategoryDetection(refId: MaybeRef<ToggleCategoryDetectionPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<ToggleCategoryDetection["response"], ToggleCategoryDetection["error"], ToggleCategoryDetection["request"], unknown>;
+    client?: ToggleCategoryDetection["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const id = unref(refId);
+            const res = await client<ToggleCategoryDetection["data"], ToggleCategoryDetection["error"], ToggleCategoryDetection["request"]>({
+                method: "patch",
+                url: `/api/admin/categories/${id}/detection`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { UpdateCategoryMutationRequest, UpdateCategoryMutationResponse, UpdateCategoryPathParams, UpdateCategory400, UpdateCategory404 } from "../types/UpdateCategory";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type UpdateCategoryClient = typeof client<UpdateCategoryMutationResponse, UpdateCategory400 | UpdateCategory404, UpdateCategoryMutationRequest>;
+type UpdateCategory = {
+    data: UpdateCategoryMutationResponse;
+    error: UpdateCategory400 | UpdateCategory404;
+    request: UpdateCategoryMutationRequest;
+    pathParams: UpdateCategoryPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: UpdateCategoryMutationResponse;
+    client: {
+        parameters: Partial<Parameters<UpdateCategoryClient>[0]>;
+        return: Awaited<ReturnType<UpdateCategoryClient>>;
+    };
+};
+/**
+ * @description Updates a category.
+ * @link /api/admin/categories/:id
+ */
+export function useUpdateCategory(refId: MaybeRef<UpdateCategoryPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<UpdateCategory["response"], UpdateCategory["error"], UpdateCategory["request"], unknown>;
+    client?: UpdateCategory["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const id = unref(refId);
+            const res = await client<UpdateCategory["data"], UpdateCategory["error"], UpdateCategory["request"]>({
+                method: "put",
+                url: `/api/admin/categories/${id}`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { UpdateCrawlScheduleMutationRequest, UpdateCrawlScheduleMutationResponse, UpdateCrawlSchedulePathParams, UpdateCrawlSchedule400, UpdateCrawlSchedule404 } from "../types/UpdateCrawlSchedule";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type UpdateCrawlScheduleClient = typeof client<UpdateCrawlScheduleMutationResponse, UpdateCrawlSchedule400 | UpdateCrawlSchedule404, UpdateCrawlScheduleMutationRequest>;
+type UpdateCrawlSchedule = {
+    data: UpdateCrawlScheduleMutationResponse;
+    error: UpdateCrawlSchedule400 | UpdateCrawlSchedule404;
+    request: UpdateCrawlScheduleMutationRequest;
+    pathParams: UpdateCrawlSchedulePathParams;
+    queryParams: never;
+    headerParams: never;
+    response: UpdateCrawlScheduleMutationResponse;
+    client: {
+        parameters: Partial<Parameters<UpdateCrawlScheduleClient>[0]>;
+        return: Awaited<ReturnType<UpdateCrawlScheduleClient>>;
+    };
+};
+/**
+ * @description Updates a crawl schedule. Setting IsEnabled to false pauses it.
+ * @link /api/admin/schedules/:id
+ */
+export function useUpdateCrawlSchedule(refId: MaybeRef<UpdateCrawlSchedulePathParams["id"]>, options: {
+    mutation?: UseMutationOptions<UpdateCrawlSchedule["response"], UpdateCrawlSchedule["error"], UpdateCrawlSchedule["request"], unknown>;
+    client?: UpdateCrawlSchedule["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const id = unref(refId);
+            const res = await client<UpdateCrawlSchedule["data"], UpdateCrawlSchedule["error"], UpdateCrawlSchedule["request"]>({
+                method: "put",
+                url: `/api/admin/schedules/${id}`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
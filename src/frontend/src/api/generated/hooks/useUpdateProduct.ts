@@ -0,0 +1,45 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { UpdateProductMutationRequest, UpdateProductMutationResponse, UpdateProductPathParams, UpdateProduct400, UpdateProduct404 } from "../types/UpdateProduct";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type UpdateProductClient = typeof client<UpdateProductMutationResponse, UpdateProduct400 | UpdateProduct404, UpdateProductMutationRequest>;
+type UpdateProduct = {
+    data: UpdateProductMutationResponse;
+    error: UpdateProduct400 | UpdateProduct404;
+    request: UpdateProductMutationRequest;
+    pathParams: UpdateProductPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: UpdateProductMutationResponse;
+    client: {
+        parameters: Partial<Parameters<UpdateProductClient>[0]>;
+        return: Awaited<ReturnType<UpdateProductClient>>;
+    };
+};
+/**
+ * @description Updates a product.
+ * @link /api/admin/products/:id
+ */
+export function useUpdateProduct(refId: MaybeRef<UpdateProductPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<UpdateProduct["response"], UpdateProduct["error"], UpdateProduct["request"], unknown>;
+    client?: UpdateProduct["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const id = unref(refId);
+            const res = await client<UpdateProduct["data"], UpdateProduct["error"], UpdateProduct["request"]>({
+                method: "put",
+                url: `/api/admin/products/${id}`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
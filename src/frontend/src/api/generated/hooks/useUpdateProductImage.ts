@@ -0,0 +1,46 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { UpdateProductImageMutationRequest, UpdateProductImageMutationResponse, UpdateProductImagePathParams, UpdateProductImage404 } from "../types/UpdateProductImage";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type UpdateProductImageClient = typeof client<UpdateProductImageMutationResponse, UpdateProductImage404, UpdateProductImageMutationRequest>;
+type UpdateProductImage = {
+    data: UpdateProductImageMutationResponse;
+    error: UpdateProductImage404;
+    request: UpdateProductImageMutationRequest;
+    pathParams: UpdateProductImagePathParams;
+    queryParams: never;
+    headerParams: never;
+    response: UpdateProductImageMutationResponse;
+    client: {
+        parameters: Partial<Parameters<UpdateProductImageClient>[0]>;
+        return: Awaited<ReturnType<UpdateProductImageClient>>;
+    };
+};
+/**
+ * @description Updates a product image. Triggers re-vectorization if URL changes.
+ * @link /api/admin/products/:productId/images/:imageId
+ */
+export function useUpdateProductImage(refProductId: MaybeRef<UpdateProductImagePathParams["productId"]>, refImageId: MaybeRef<UpdateProductImagePathParams["imageId"]>, options: {
+    mutation?: UseMutationOptions<UpdateProductImage["response"], UpdateProductImage["error"], UpdateProductImage["request"], unknown>;
+    client?: UpdateProductImage["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const productId = unref(refProductId);
+            const imageId = unref(refImageId);
+            const res = await client<UpdateProductImage["data"], UpdateProductImage["error"], UpdateProductImage["request"]>({
+                method: "put",
+                url: `/api/admin/products/${productId}/images/${imageId}`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { UpdateProviderMutationRequest, UpdateProviderMutationResponse, UpdateProviderPathParams, UpdateProvider400, UpdateProvider404 } from "../types/UpdateProvider";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type UpdateProviderClient = typeof client<UpdateProviderMutationResponse, UpdateProvider400 | UpdateProvider404, UpdateProviderMutationRequest>;
+type UpdateProvider = {
+    data: UpdateProviderMutationResponse;
+    error: UpdateProvider400 | UpdateProvider404;
+    request: UpdateProviderMutationRequest;
+    pathParams: UpdateProviderPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: UpdateProviderMutationResponse;
+    client: {
+        parameters: Partial<Parameters<UpdateProviderClient>[0]>;
+        return: Awaited<ReturnType<UpdateProviderClient>>;
+    };
+};
+/**
+ * @description Updates a provider.
+ * @link /api/admin/providers/:id
+ */
+export function useUpdateProvider(refId: MaybeRef<UpdateProviderPathParams["id"]>, options: {
+    mutation?: UseMutationOptions<UpdateProvider["response"], UpdateProvider["error"], UpdateProvider["request"], unknown>;
+    client?: UpdateProvider["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const id = unref(refId);
+            const res = await client<UpdateProvider["data"], UpdateProvider["error"], UpdateProvider["request"]>({
+                method: "put",
+                url: `/api/admin/providers/${id}`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
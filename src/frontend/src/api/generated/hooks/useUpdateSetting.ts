@@ -0,0 +1,45 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { UpdateSettingMutationRequest, UpdateSettingMutationResponse, UpdateSettingPathParams, UpdateSetting400, UpdateSetting404 } from "../types/UpdateSetting";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type UpdateSettingClient = typeof client<UpdateSettingMutationResponse, UpdateSetting400 | UpdateSetting404, UpdateSettingMutationRequest>;
+type UpdateSetting = {
+    data: UpdateSettingMutationResponse;
+    error: UpdateSetting400 | UpdateSetting404;
+    request: UpdateSettingMutationRequest;
+    pathParams: UpdateSettingPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: UpdateSettingMutationResponse;
+    client: {
+        parameters: Partial<Parameters<UpdateSettingClient>[0]>;
+        return: Awaited<ReturnType<UpdateSettingClient>>;
+    };
+};
+/**
+ * @description Updates a setting value after validating it against the setting's type and range (admin only).
+ * @link /api/settings/:key
+ */
+export function useUpdateSetting(refKey: MaybeRef<UpdateSettingPathParams["key"]>, options: {
+    mutation?: UseMutationOptions<UpdateSetting["response"], UpdateSetting["error"], UpdateSetting["request"], unknown>;
+    client?: UpdateSetting["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const key = unref(refKey);
+            const res = await client<UpdateSetting["data"], UpdateSetting["error"], UpdateSetting["request"]>({
+                method: "put",
+                url: `/api/settings/${key}`,
+                data,
+                headers: { "Content-Type": "application/*+json", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { UploadProductImageMutationResponse, UploadProductImagePathParams, UploadProductImage400, UploadProductImage404 } from "../types/UploadProductImage";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type UploadProductImageClient = typeof client<UploadProductImageMutationResponse, UploadProductImage400 | UploadProductImage404, FormData>;
+type UploadProductImage = {
+    data: UploadProductImageMutationResponse;
+    error: UploadProductImage400 | UploadProductImage404;
+    request: FormData;
+    pathParams: UploadProductImagePathParams;
+    queryParams: never;
+    headerParams: never;
+    response: UploadProductImageMutationResponse;
+    client: {
+        parameters: Partial<Parameters<UploadProductImageClient>[0]>;
+        return: Awaited<ReturnType<UploadProductImageClient>>;
+    };
+};
+/**
+ * @description Uploads an image file to a product with automatic resize, compression, and CLIP embedding generation.
+ * @link /api/admin/products/:productId/images/upload
+ */
+export function useUploadProductImage(refProductId: MaybeRef<UploadProductImagePathParams["productId"]>, options: {
+    mutation?: UseMutationOptions<UploadProductImage["response"], UploadProductImage["error"], UploadProductImage["request"], unknown>;
+    client?: UploadProductImage["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async (data) => {
+            const productId = unref(refProductId);
+            const formData = data;
+            const res = await client<UploadProductImage["data"], UploadProductImage["error"], UploadProductImage["request"]>({
+                method: "post",
+                url: `/api/admin/products/${productId}/images/upload`,
+                data: formData,
+                headers: { "Content-Type": "multipart/form-data", ...clientOptions.headers },
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import client from "@/api/client";
+import { useQuery, queryOptions } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { VectorizationSseQueryResponse, VectorizationSseQueryParams } from "../types/VectorizationSse";
+import type { QueryObserverOptions, UseQueryOptions, UseQueryReturnType, QueryKey } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type VectorizationSseClient = typeof client<VectorizationSseQueryResponse, Error, never>;
+type VectorizationSse = {
+    data: VectorizationSseQueryResponse;
+    error: Error;
+    request: never;
+    pathParams: never;
+    queryParams: VectorizationSseQueryParams;
+    headerParams: never;
+    response: VectorizationSseQueryResponse;
+    client: {
+        parameters: Partial<Parameters<VectorizationSseClient>[0]>;
+        return: Awaited<ReturnType<VectorizationSseClient>>;
+    };
+};
+export const vectorizationSseQueryKey = (params: MaybeRef<VectorizationSse["queryParams"]>) => [{ url: "/api/admin/vectorize-all/sse" }, ...(params ? [params] : [])] as const;
+export type VectorizationSseQueryKey = ReturnType<typeof vectorizationSseQueryKey>;
+export function vectorizationSseQueryOptions(refParams: MaybeRef<VectorizationSseQueryParams>, options: VectorizationSse["client"]["parameters"] = {}) {
+    const queryKey = vectorizationSseQueryKey(refParams);
+    return queryOptions({
+        queryKey,
+        queryFn: async () => {
+            const params = unref(refParams);
+            const res = await client<VectorizationSse["data"], VectorizationSse["error"]>({
+                method: "get",
+                url: `/api/admin/vectorize-all/sse`,
+                params,
+                ...options
+            });
+            return res.data;
+        },
+    });
+}
+/**
+ * @description Server-Sent Events endpoint for vectorization run progress. Requires a short-lived SSE ticket.
+ * @link /api/admin/vectorize-all/sse
+ */
+export function useVectorizationSse<TData = VectorizationSse["response"], _TQueryData = VectorizationSse["response"], TQueryKey extends QueryKey = VectorizationSseQueryKey>(refParams: MaybeRef<VectorizationSseQueryParams>, options: {
+    query?: Partial<QueryObserverOptions<VectorizationSse["response"], VectorizationSse["error"], TData, TQueryKey>>;
+    client?: VectorizationSse["client"]["parameters"];
+} = {}): UseQueryReturnType<TData, VectorizationSse["error"]> & {
+    queryKey: TQueryKey;
+} {
+    const { query: queryOptions, client: clientOptions = {} } = options ?? {};
+    const queryKey = queryOptions?.queryKey ?? vectorizationSseQueryKey(refParams);
+    const query = useQuery({
+        ...vectorizationSseQueryOptions(refParams, clientOptions) as unknown as UseQueryOptions,
+        queryKey,
+        ...queryOptions as unknown as Omit<UseQueryOptions, "queryKey">
+    }) as UseQueryReturnType<TData, VectorizationSse["error"]> & {
+        queryKey: TQueryKey;
+    };
+    query.queryKey = queryKey as TQueryKey;
+    return query;
+}
\ No newline at end of file
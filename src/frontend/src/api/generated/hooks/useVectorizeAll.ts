@@ -0,0 +1,44 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { VectorizeAllMutationResponse, VectorizeAllQueryParams, VectorizeAll400 } from "../types/VectorizeAll";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type VectorizeAllClient = typeof client<VectorizeAllMutationResponse, VectorizeAll400, never>;
+type VectorizeAll = {
+    data: VectorizeAllMutationResponse;
+    error: VectorizeAll400;
+    request: never;
+    pathParams: never;
+    queryParams: VectorizeAllQueryParams;
+    headerParams: never;
+    response: VectorizeAllMutationResponse;
+    client: {
+        parameters: Partial<Parameters<VectorizeAllClient>[0]>;
+        return: Awaited<ReturnType<VectorizeAllClient>>;
+    };
+};
+/**
+ * @description Starts a background run that generates CLIP embeddings for all product images without one, or for every image when forced.
+ * @link /api/admin/vectorize-all
+ */
+export function useVectorizeAll(refParams?: MaybeRef<VectorizeAllQueryParams>, options: {
+    mutation?: UseMutationOptions<VectorizeAll["response"], VectorizeAll["error"], void, unknown>;
+    client?: VectorizeAll["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const params = unref(refParams);
+            const res = await client<VectorizeAll["data"], VectorizeAll["error"], VectorizeAll["request"]>({
+                method: "post",
+                url: `/api/admin/vectorize-all`,
+                params,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
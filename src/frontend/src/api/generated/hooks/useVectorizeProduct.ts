@@ -0,0 +1,43 @@
+import client from "@/api/client";
+import { useMutation } from "@tanstack/vue-query";
+import { unref } from "vue";
+import type { VectorizeProductMutationResponse, VectorizeProductPathParams, VectorizeProduct400, VectorizeProduct404 } from "../types/VectorizeProduct";
+import type { UseMutationOptions } from "@tanstack/vue-query";
+import type { MaybeRef } from "vue";
+
+ type VectorizeProductClient = typeof client<VectorizeProductMutationResponse, VectorizeProduct400 | VectorizeProduct404, never>;
+type VectorizeProduct = {
+    data: VectorizeProductMutationResponse;
+    error: VectorizeProduct400 | VectorizeProduct404;
+    request: never;
+    pathParams: VectorizeProductPathParams;
+    queryParams: never;
+    headerParams: never;
+    response: VectorizeProductMutationResponse;
+    client: {
+        parameters: Partial<Parameters<VectorizeProductClient>[0]>;
+        return: Awaited<ReturnType<VectorizeProductClient>>;
+    };
+};
+/**
+ * @description Regenerates CLIP embeddings for all images of a product.
+ * @link /api/admin/products/:productId/vectorize
+ */
+export function useVectorizeProduct(refProductId: MaybeRef<VectorizeProductPathParams["productId"]>, options: {
+    mutation?: UseMutationOptions<VectorizeProduct["response"], VectorizeProduct["error"], void, unknown>;
+    client?: VectorizeProduct["client"]["parameters"];
+} = {}) {
+    const { mutation: mutationOptions, client: clientOptions = {} } = options ?? {};
+    return useMutation({
+        mutationFn: async () => {
+            const productId = unref(refProductId);
+            const res = await client<VectorizeProduct["data"], VectorizeProduct["error"], VectorizeProduct["request"]>({
+                method: "post",
+                url: `/api/admin/products/${productId}/vectorize`,
+                ...clientOptions
+            });
+            return res.data;
+        },
+        ...mutationOptions
+    });
+}
\ No newline at end of file
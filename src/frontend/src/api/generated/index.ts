@@ -0,0 +1,2 @@
+export * from "./types/index";
+export * from "./hooks/index";
\ No newline at end of file
@@ -0,0 +1,32 @@
+import type { AdminProductImageDto } from "./AdminProductImageDto";
+import type { AddImageRequest } from "./AddImageRequest";
+
+ export type AddProductImagePathParams = {
+    /**
+     * @type integer, int32
+    */
+    productId: number;
+};
+/**
+ * @description Created
+*/
+export type AddProductImage201 = AdminProductImageDto;
+/**
+ * @description Bad Request
+*/
+export type AddProductImage400 = any;
+/**
+ * @description Not Found
+*/
+export type AddProductImage404 = any;
+export type AddProductImageMutationRequest = AddImageRequest;
+/**
+ * @description Created
+*/
+export type AddProductImageMutationResponse = AdminProductImageDto;
+export type AddProductImageMutation = {
+    Response: AddProductImageMutationResponse;
+    Request: AddProductImageMutationRequest;
+    PathParams: AddProductImagePathParams;
+    Errors: AddProductImage400 | AddProductImage404;
+};
\ No newline at end of file
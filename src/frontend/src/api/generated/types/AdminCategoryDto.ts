@@ -0,0 +1,26 @@
+export type AdminCategoryDto = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+    /**
+     * @type string
+    */
+    name: string;
+    /**
+     * @type integer, int32
+    */
+    cocoClassId: number;
+    /**
+     * @type boolean
+    */
+    detectionEnabled: boolean;
+    /**
+     * @type integer, int32
+    */
+    productCount: number;
+    /**
+     * @type string, date-time
+    */
+    createdAt: string;
+};
\ No newline at end of file
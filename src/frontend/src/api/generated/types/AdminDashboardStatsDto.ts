@@ -0,0 +1,22 @@
+export type AdminDashboardStatsDto = {
+    /**
+     * @type integer, int32
+    */
+    products: number;
+    /**
+     * @type integer, int32
+    */
+    providers: number;
+    /**
+     * @type integer, int32
+    */
+    images: number;
+    /**
+     * @type integer, int32
+    */
+    vectorizedImages: number;
+    /**
+     * @type number, double
+    */
+    vectorizationProgress: number;
+};
\ No newline at end of file
@@ -0,0 +1,56 @@
+import type { AdminProductImageDto } from "./AdminProductImageDto";
+
+ export type AdminProductDto = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+    /**
+     * @type integer, int32
+    */
+    providerId: number;
+    /**
+     * @type string
+    */
+    providerName: string;
+    /**
+     * @type string
+    */
+    externalId?: string | null;
+    /**
+     * @type string
+    */
+    name: string;
+    /**
+     * @type string
+    */
+    description?: string | null;
+    /**
+     * @type number, double
+    */
+    price: number;
+    /**
+     * @type string
+    */
+    currency?: string | null;
+    /**
+     * @type integer, int32
+    */
+    categoryId?: number | null;
+    /**
+     * @type string
+    */
+    categoryName?: string | null;
+    /**
+     * @type string
+    */
+    productUrl?: string | null;
+    /**
+     * @type string, date-time
+    */
+    createdAt: string;
+    /**
+     * @type array
+    */
+    images: AdminProductImageDto[];
+};
\ No newline at end of file
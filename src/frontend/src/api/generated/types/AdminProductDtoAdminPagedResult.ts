@@ -0,0 +1,24 @@
+import type { AdminProductDto } from "./AdminProductDto";
+
+ export type AdminProductDtoAdminPagedResult = {
+    /**
+     * @type array
+    */
+    items: AdminProductDto[];
+    /**
+     * @type integer, int32
+    */
+    totalCount: number;
+    /**
+     * @type integer, int32
+    */
+    page: number;
+    /**
+     * @type integer, int32
+    */
+    pageSize: number;
+    /**
+     * @type integer, int32
+    */
+    totalPages: number;
+};
\ No newline at end of file
@@ -0,0 +1,30 @@
+export type AdminProductImageDto = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+    /**
+     * @type string
+    */
+    imageUrl: string;
+    /**
+     * @type string
+    */
+    localPath?: string | null;
+    /**
+     * @type boolean
+    */
+    isLocalFile: boolean;
+    /**
+     * @type boolean
+    */
+    isPrimary: boolean;
+    /**
+     * @type boolean
+    */
+    hasEmbedding: boolean;
+    /**
+     * @type string, date-time
+    */
+    createdAt: string;
+};
\ No newline at end of file
@@ -0,0 +1,30 @@
+export type AdminProviderDto = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+    /**
+     * @type string
+    */
+    name: string;
+    /**
+     * @type string
+    */
+    logoUrl?: string | null;
+    /**
+     * @type string
+    */
+    websiteUrl?: string | null;
+    /**
+     * @type integer, int32
+    */
+    productCount: number;
+    /**
+     * @type string
+    */
+    crawlerType?: string | null;
+    /**
+     * @type string
+    */
+    crawlerConfigJson?: string | null;
+};
\ No newline at end of file
@@ -0,0 +1,43 @@
+import type { DatabaseStatusDto } from "./DatabaseStatusDto";
+import type { WorkerStatusDto } from "./WorkerStatusDto";
+import type { SearchLatencyDto } from "./SearchLatencyDto";
+import type { StorageUsageDto } from "./StorageUsageDto";
+
+ export type AdminSystemStatusDto = {
+    /**
+     * @type boolean
+    */
+    clipModelLoaded: boolean;
+    /**
+     * @type boolean
+    */
+    yoloModelLoaded: boolean;
+    /**
+     * @type boolean
+    */
+    vectorizationAvailable: boolean;
+    /**
+     * @type boolean
+    */
+    objectDetectionAvailable: boolean;
+    /**
+     * @type object
+    */
+    database: DatabaseStatusDto;
+    /**
+     * @type object
+    */
+    worker: WorkerStatusDto;
+    /**
+     * @type object
+    */
+    searchLatency: SearchLatencyDto;
+    /**
+     * @type object
+    */
+    storage: StorageUsageDto;
+    /**
+     * @type string, date-time
+    */
+    checkedAt: string;
+};
\ No newline at end of file
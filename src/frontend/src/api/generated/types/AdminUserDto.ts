@@ -0,0 +1,22 @@
+export type AdminUserDto = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+    /**
+     * @type string
+    */
+    username: string;
+    /**
+     * @type string, date-time
+    */
+    createdAt: string;
+    /**
+     * @type string, date-time
+    */
+    lastLoginAt?: string | null;
+    /**
+     * @type boolean
+    */
+    mustChangePassword: boolean;
+};
\ No newline at end of file
@@ -0,0 +1,32 @@
+import type { ApproveResult } from "./ApproveResult";
+import type { ApproveRequest } from "./ApproveRequest";
+
+ export type ApproveExtractedProductPathParams = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type ApproveExtractedProduct200 = ApproveResult;
+/**
+ * @description Bad Request
+*/
+export type ApproveExtractedProduct400 = any;
+/**
+ * @description Not Found
+*/
+export type ApproveExtractedProduct404 = any;
+export type ApproveExtractedProductMutationRequest = ApproveRequest;
+/**
+ * @description OK
+*/
+export type ApproveExtractedProductMutationResponse = ApproveResult;
+export type ApproveExtractedProductMutation = {
+    Response: ApproveExtractedProductMutationResponse;
+    Request: ApproveExtractedProductMutationRequest;
+    PathParams: ApproveExtractedProductPathParams;
+    Errors: ApproveExtractedProduct400 | ApproveExtractedProduct404;
+};
\ No newline at end of file
@@ -0,0 +1,26 @@
+export type ApproveRequest = {
+    /**
+     * @type integer, int32
+    */
+    categoryId?: number | null;
+    /**
+     * @type string
+    */
+    name?: string | null;
+    /**
+     * @type string
+    */
+    description?: string | null;
+    /**
+     * @type number, double
+    */
+    price?: number | null;
+    /**
+     * @type string
+    */
+    currency?: string | null;
+    /**
+     * @type array
+    */
+    imageUrls?: string[] | null;
+};
\ No newline at end of file
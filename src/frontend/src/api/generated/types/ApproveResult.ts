@@ -0,0 +1,22 @@
+export type ApproveResult = {
+    /**
+     * @type boolean
+    */
+    success: boolean;
+    /**
+     * @type boolean
+    */
+    isDuplicate: boolean;
+    /**
+     * @type integer, int32
+    */
+    productId?: number | null;
+    /**
+     * @type integer, int32
+    */
+    existingProductId?: number | null;
+    /**
+     * @type string
+    */
+    message?: string | null;
+};
\ No newline at end of file
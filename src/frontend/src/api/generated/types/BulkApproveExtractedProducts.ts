@@ -0,0 +1,21 @@
+import type { BulkImportResult } from "./BulkImportResult";
+import type { BulkApproveRequest } from "./BulkApproveRequest";
+
+ /**
+ * @description OK
+*/
+export type BulkApproveExtractedProducts200 = BulkImportResult;
+/**
+ * @description Bad Request
+*/
+export type BulkApproveExtractedProducts400 = any;
+export type BulkApproveExtractedProductsMutationRequest = BulkApproveRequest;
+/**
+ * @description OK
+*/
+export type BulkApproveExtractedProductsMutationResponse = BulkImportResult;
+export type BulkApproveExtractedProductsMutation = {
+    Response: BulkApproveExtractedProductsMutationResponse;
+    Request: BulkApproveExtractedProductsMutationRequest;
+    Errors: BulkApproveExtractedProducts400;
+};
\ No newline at end of file
@@ -0,0 +1,10 @@
+export type BulkApproveRequest = {
+    /**
+     * @type array
+    */
+    ids: number[];
+    /**
+     * @type integer, int32
+    */
+    categoryId?: number | null;
+};
\ No newline at end of file
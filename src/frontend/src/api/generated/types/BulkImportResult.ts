@@ -0,0 +1,18 @@
+export type BulkImportResult = {
+    /**
+     * @type integer, int32
+    */
+    successCount: number;
+    /**
+     * @type integer, int32
+    */
+    duplicateCount: number;
+    /**
+     * @type integer, int32
+    */
+    failedCount: number;
+    /**
+     * @type array
+    */
+    importedProductIds: number[];
+};
\ No newline at end of file
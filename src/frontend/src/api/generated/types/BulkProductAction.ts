@@ -0,0 +1,29 @@
+import type { BulkProductActionResultDto } from "./BulkProductActionResultDto";
+import type { BulkProductActionRequest } from "./BulkProductActionRequest";
+
+ export const bulkProductAction = {
+    "Delete": 0,
+    "SetCategory": 1,
+    "SetProvider": 2,
+    "Vectorize": 3
+} as const;
+export type BulkProductAction = (typeof bulkProductAction)[keyof typeof bulkProductAction];
+
+ /**
+ * @description OK
+*/
+export type BulkProductAction200 = BulkProductActionResultDto;
+/**
+ * @description Bad Request
+*/
+export type BulkProductAction400 = any;
+export type BulkProductActionMutationRequest = BulkProductActionRequest;
+/**
+ * @description OK
+*/
+export type BulkProductActionMutationResponse = BulkProductActionResultDto;
+export type BulkProductActionMutation = {
+    Response: BulkProductActionMutationResponse;
+    Request: BulkProductActionMutationRequest;
+    Errors: BulkProductAction400;
+};
\ No newline at end of file
@@ -0,0 +1,20 @@
+import type { BulkProductAction } from "./BulkProductAction";
+
+ export type BulkProductActionRequest = {
+    /**
+     * @type integer, int32
+    */
+    action: BulkProductAction;
+    /**
+     * @type array
+    */
+    ids: number[];
+    /**
+     * @type integer, int32
+    */
+    categoryId?: number | null;
+    /**
+     * @type integer, int32
+    */
+    providerId?: number | null;
+};
\ No newline at end of file
@@ -0,0 +1,21 @@
+import type { BulkProductAction } from "./BulkProductAction";
+import type { BulkProductItemResultDto } from "./BulkProductItemResultDto";
+
+ export type BulkProductActionResultDto = {
+    /**
+     * @type integer, int32
+    */
+    action: BulkProductAction;
+    /**
+     * @type integer, int32
+    */
+    succeeded: number;
+    /**
+     * @type integer, int32
+    */
+    failed: number;
+    /**
+     * @type array
+    */
+    results: BulkProductItemResultDto[];
+};
\ No newline at end of file
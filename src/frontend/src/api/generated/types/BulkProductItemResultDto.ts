@@ -0,0 +1,18 @@
+export type BulkProductItemResultDto = {
+    /**
+     * @type integer, int32
+    */
+    productId: number;
+    /**
+     * @type string
+    */
+    name?: string | null;
+    /**
+     * @type boolean
+    */
+    succeeded: boolean;
+    /**
+     * @type string
+    */
+    error?: string | null;
+};
\ No newline at end of file
@@ -0,0 +1,21 @@
+import type { BulkRejectResult } from "./BulkRejectResult";
+import type { BulkRejectRequest } from "./BulkRejectRequest";
+
+ /**
+ * @description OK
+*/
+export type BulkRejectExtractedProducts200 = BulkRejectResult;
+/**
+ * @description Bad Request
+*/
+export type BulkRejectExtractedProducts400 = any;
+export type BulkRejectExtractedProductsMutationRequest = BulkRejectRequest;
+/**
+ * @description OK
+*/
+export type BulkRejectExtractedProductsMutationResponse = BulkRejectResult;
+export type BulkRejectExtractedProductsMutation = {
+    Response: BulkRejectExtractedProductsMutationResponse;
+    Request: BulkRejectExtractedProductsMutationRequest;
+    Errors: BulkRejectExtractedProducts400;
+};
\ No newline at end of file
@@ -0,0 +1,6 @@
+export type BulkRejectResult = {
+    /**
+     * @type integer, int32
+    */
+    rejectedCount: number;
+};
\ No newline at end of file
@@ -0,0 +1,29 @@
+import type { CrawlJobDto } from "./CrawlJobDto";
+
+ export type CancelJobPathParams = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type CancelJob200 = CrawlJobDto;
+/**
+ * @description Bad Request
+*/
+export type CancelJob400 = any;
+/**
+ * @description Not Found
+*/
+export type CancelJob404 = any;
+/**
+ * @description OK
+*/
+export type CancelJobMutationResponse = CrawlJobDto;
+export type CancelJobMutation = {
+    Response: CancelJobMutationResponse;
+    PathParams: CancelJobPathParams;
+    Errors: CancelJob400 | CancelJob404;
+};
\ No newline at end of file
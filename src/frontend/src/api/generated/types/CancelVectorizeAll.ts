@@ -0,0 +1,18 @@
+import type { VectorizationRunDto } from "./VectorizationRunDto";
+
+ /**
+ * @description OK
+*/
+export type CancelVectorizeAll200 = VectorizationRunDto;
+/**
+ * @description Bad Request
+*/
+export type CancelVectorizeAll400 = any;
+/**
+ * @description OK
+*/
+export type CancelVectorizeAllMutationResponse = VectorizationRunDto;
+export type CancelVectorizeAllMutation = {
+    Response: CancelVectorizeAllMutationResponse;
+    Errors: CancelVectorizeAll400;
+};
\ No newline at end of file
@@ -0,0 +1,16 @@
+import type { CatalogImportRowRequest } from "./CatalogImportRowRequest";
+
+ export type CatalogImportRequest = {
+    /**
+     * @type integer, int32
+    */
+    providerId: number;
+    /**
+     * @type boolean
+    */
+    dryRun: boolean;
+    /**
+     * @type array
+    */
+    rows: CatalogImportRowRequest[];
+};
\ No newline at end of file
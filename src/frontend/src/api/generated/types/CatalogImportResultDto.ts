@@ -0,0 +1,28 @@
+import type { CatalogImportRowResultDto } from "./CatalogImportRowResultDto";
+
+ export type CatalogImportResultDto = {
+    /**
+     * @type boolean
+    */
+    dryRun: boolean;
+    /**
+     * @type integer, int32
+    */
+    created: number;
+    /**
+     * @type integer, int32
+    */
+    updated: number;
+    /**
+     * @type integer, int32
+    */
+    invalid: number;
+    /**
+     * @type integer, int32
+    */
+    imagesAdded: number;
+    /**
+     * @type array
+    */
+    rows: CatalogImportRowResultDto[];
+};
\ No newline at end of file
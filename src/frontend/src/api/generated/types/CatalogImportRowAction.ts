@@ -0,0 +1,6 @@
+export const catalogImportRowAction = {
+    "Create": 0,
+    "Update": 1,
+    "Invalid": 2
+} as const;
+export type CatalogImportRowAction = (typeof catalogImportRowAction)[keyof typeof catalogImportRowAction];
\ No newline at end of file
@@ -0,0 +1,38 @@
+export type CatalogImportRowRequest = {
+    /**
+     * @type integer, int32
+    */
+    rowNumber: number;
+    /**
+     * @type string
+    */
+    externalId?: string | null;
+    /**
+     * @type string
+    */
+    name?: string | null;
+    /**
+     * @type string
+    */
+    description?: string | null;
+    /**
+     * @type number, double
+    */
+    price?: number | null;
+    /**
+     * @type string
+    */
+    currency?: string | null;
+    /**
+     * @type integer, int32
+    */
+    categoryId?: number | null;
+    /**
+     * @type string
+    */
+    productUrl?: string | null;
+    /**
+     * @type array
+    */
+    imageUrls?: string[] | null;
+};
\ No newline at end of file
@@ -0,0 +1,20 @@
+import type { CatalogImportRowAction } from "./CatalogImportRowAction";
+
+ export type CatalogImportRowResultDto = {
+    /**
+     * @type integer, int32
+    */
+    rowNumber: number;
+    /**
+     * @type integer, int32
+    */
+    action: CatalogImportRowAction;
+    /**
+     * @type integer, int32
+    */
+    productId?: number | null;
+    /**
+     * @type array
+    */
+    errors: string[];
+};
\ No newline at end of file
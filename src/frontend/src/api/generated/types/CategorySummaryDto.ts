@@ -0,0 +1,18 @@
+export type CategorySummaryDto = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+    /**
+     * @type string
+    */
+    name: string;
+    /**
+     * @type integer, int32
+    */
+    cocoClassId: number;
+    /**
+     * @type boolean
+    */
+    detectionEnabled: boolean;
+};
\ No newline at end of file
@@ -0,0 +1,25 @@
+import type { ChangePasswordResponse } from "./ChangePasswordResponse";
+import type { ChangePasswordRequest } from "./ChangePasswordRequest";
+
+ /**
+ * @description OK
+*/
+export type ChangePassword200 = ChangePasswordResponse;
+/**
+ * @description Bad Request
+*/
+export type ChangePassword400 = any;
+/**
+ * @description Unauthorized
+*/
+export type ChangePassword401 = any;
+export type ChangePasswordMutationRequest = ChangePasswordRequest;
+/**
+ * @description OK
+*/
+export type ChangePasswordMutationResponse = ChangePasswordResponse;
+export type ChangePasswordMutation = {
+    Response: ChangePasswordMutationResponse;
+    Request: ChangePasswordMutationRequest;
+    Errors: ChangePassword400 | ChangePassword401;
+};
\ No newline at end of file
@@ -0,0 +1,14 @@
+export type ChangePasswordRequest = {
+    /**
+     * @type string
+    */
+    username: string;
+    /**
+     * @type string
+    */
+    currentPassword: string;
+    /**
+     * @type string
+    */
+    newPassword: string;
+};
\ No newline at end of file
@@ -0,0 +1,14 @@
+export type ChangePasswordResponse = {
+    /**
+     * @type boolean
+    */
+    success: boolean;
+    /**
+     * @type string
+    */
+    token?: string | null;
+    /**
+     * @type string, date-time
+    */
+    expiresAt?: string | null;
+};
\ No newline at end of file
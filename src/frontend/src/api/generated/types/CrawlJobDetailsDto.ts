@@ -0,0 +1,13 @@
+import type { CrawlJobDto } from "./CrawlJobDto";
+import type { CrawlPageDto } from "./CrawlPageDto";
+
+ export type CrawlJobDetailsDto = {
+    /**
+     * @type object
+    */
+    job: CrawlJobDto;
+    /**
+     * @type array
+    */
+    pages: CrawlPageDto[];
+};
\ No newline at end of file
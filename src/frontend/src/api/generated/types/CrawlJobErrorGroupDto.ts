@@ -0,0 +1,26 @@
+export type CrawlJobErrorGroupDto = {
+    /**
+     * @type string
+    */
+    message: string;
+    /**
+     * @type integer, int32
+    */
+    count: number;
+    /**
+     * @type array
+    */
+    httpStatusCodes: number[];
+    /**
+     * @type array
+    */
+    sampleUrls: string[];
+    /**
+     * @type string, date-time
+    */
+    firstSeenAtUtc: string;
+    /**
+     * @type string, date-time
+    */
+    lastSeenAtUtc: string;
+};
\ No newline at end of file
@@ -0,0 +1,52 @@
+import type { CrawlJobStatus } from "./CrawlJobStatus";
+
+ export type CrawlJobListItemDto = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+    /**
+     * @type integer, int32
+    */
+    providerId: number;
+    /**
+     * @type string
+    */
+    providerName: string;
+    /**
+     * @type integer, int32
+    */
+    status: CrawlJobStatus;
+    /**
+     * @type string, date-time
+    */
+    createdAtUtc: string;
+    /**
+     * @type string, date-time
+    */
+    startedAtUtc?: string | null;
+    /**
+     * @type string, date-time
+    */
+    finishedAtUtc?: string | null;
+    /**
+     * @type integer, int32
+    */
+    pagesTotal: number;
+    /**
+     * @type integer, int32
+    */
+    pagesProcessed: number;
+    /**
+     * @type integer, int32
+    */
+    productsExtracted: number;
+    /**
+     * @type integer, int32
+    */
+    errorsCount: number;
+    /**
+     * @type string
+    */
+    lastError?: string | null;
+};
\ No newline at end of file
@@ -0,0 +1,25 @@
+import type { CrawlPageDto } from "./CrawlPageDto";
+import type { CrawlPageStatusCounts } from "./CrawlPageStatusCounts";
+
+ export type CrawlJobPagesResponse = {
+    /**
+     * @type array
+    */
+    pages: CrawlPageDto[];
+    /**
+     * @type integer, int32
+    */
+    totalCount: number;
+    /**
+     * @type integer, int32
+    */
+    page: number;
+    /**
+     * @type integer, int32
+    */
+    pageSize: number;
+    /**
+     * @type object
+    */
+    statusCounts: CrawlPageStatusCounts;
+};
\ No newline at end of file
@@ -0,0 +1,9 @@
+export const crawlJobStatus = {
+    "Queued": 0,
+    "Running": 1,
+    "Succeeded": 2,
+    "Failed": 3,
+    "Canceled": 4,
+    "Paused": 5
+} as const;
+export type CrawlJobStatus = (typeof crawlJobStatus)[keyof typeof crawlJobStatus];
\ No newline at end of file
@@ -0,0 +1,52 @@
+import type { CrawlPageStatus } from "./CrawlPageStatus";
+
+ export type CrawlPageDto = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+    /**
+     * @type integer, int64
+    */
+    jobId: number;
+    /**
+     * @type string
+    */
+    url: string;
+    /**
+     * @type integer, int32
+    */
+    status: CrawlPageStatus;
+    /**
+     * @type integer, int32
+    */
+    httpStatusCode?: number | null;
+    /**
+     * @type string
+    */
+    title?: string | null;
+    /**
+     * @type string
+    */
+    contentType?: string | null;
+    /**
+     * @type string
+    */
+    error?: string | null;
+    /**
+     * @type string, date-time
+    */
+    startedAtUtc?: string | null;
+    /**
+     * @type string, date-time
+    */
+    finishedAtUtc?: string | null;
+    /**
+     * @type integer, int32
+    */
+    durationMs?: number | null;
+    /**
+     * @type integer, int32
+    */
+    productsExtracted: number;
+};
\ No newline at end of file
@@ -0,0 +1,8 @@
+export const crawlPageStatus = {
+    "Queued": 0,
+    "Processing": 1,
+    "Succeeded": 2,
+    "Skipped": 3,
+    "Failed": 4
+} as const;
+export type CrawlPageStatus = (typeof crawlPageStatus)[keyof typeof crawlPageStatus];
\ No newline at end of file
@@ -0,0 +1,26 @@
+export type CrawlPageStatusCounts = {
+    /**
+     * @type integer, int32
+    */
+    queued: number;
+    /**
+     * @type integer, int32
+    */
+    processing: number;
+    /**
+     * @type integer, int32
+    */
+    succeeded: number;
+    /**
+     * @type integer, int32
+    */
+    skipped: number;
+    /**
+     * @type integer, int32
+    */
+    failed: number;
+    /**
+     * @type integer, int32
+    */
+    succeededWithoutProducts: number;
+};
\ No newline at end of file
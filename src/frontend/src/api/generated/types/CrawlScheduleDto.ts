@@ -0,0 +1,78 @@
+import type { CrawlScheduleFrequency } from "./CrawlScheduleFrequency";
+import type { DayOfWeek } from "./DayOfWeek";
+import type { CrawlJobStatus } from "./CrawlJobStatus";
+
+ export type CrawlScheduleDto = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+    /**
+     * @type integer, int32
+    */
+    providerId: number;
+    /**
+     * @type string
+    */
+    providerName: string;
+    /**
+     * @type integer, int32
+    */
+    frequency: CrawlScheduleFrequency;
+    /**
+     * @type string
+    */
+    timeOfDay?: string | null;
+    /**
+     * @type integer | undefined, int32
+    */
+    dayOfWeek?: DayOfWeek;
+    /**
+     * @type string
+    */
+    cronExpression?: string | null;
+    /**
+     * @type string
+    */
+    timeZoneId: string;
+    /**
+     * @type string
+    */
+    startUrl?: string | null;
+    /**
+     * @type string
+    */
+    sitemapUrl?: string | null;
+    /**
+     * @type integer, int32
+    */
+    maxPages?: number | null;
+    /**
+     * @type boolean
+    */
+    isEnabled: boolean;
+    /**
+     * @type string, date-time
+    */
+    nextRunAt?: string | null;
+    /**
+     * @type string, date-time
+    */
+    lastRunAt?: string | null;
+    /**
+     * @type integer, int64
+    */
+    lastJobId?: number | null;
+    /**
+     * @type integer | undefined, int32
+    */
+    lastJobStatus?: CrawlJobStatus;
+    /**
+     * @type string
+    */
+    lastSkipReason?: string | null;
+    /**
+     * @type string, date-time
+    */
+    createdAt: string;
+};
\ No newline at end of file
@@ -0,0 +1,6 @@
+export const crawlScheduleFrequency = {
+    "Daily": 0,
+    "Weekly": 1,
+    "Cron": 2
+} as const;
+export type CrawlScheduleFrequency = (typeof crawlScheduleFrequency)[keyof typeof crawlScheduleFrequency];
\ No newline at end of file
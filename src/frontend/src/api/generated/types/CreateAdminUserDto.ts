@@ -0,0 +1,15 @@
+export type CreateAdminUserDto = {
+    /**
+     * @type string
+    */
+    username: string;
+    /**
+     * @type string
+    */
+    password: string;
+    /**
+     * @default true
+     * @type boolean
+    */
+    mustChangePassword: boolean;
+};
\ No newline at end of file
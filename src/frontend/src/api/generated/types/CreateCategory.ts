@@ -0,0 +1,21 @@
+import type { AdminCategoryDto } from "./AdminCategoryDto";
+import type { CreateCategoryRequest } from "./CreateCategoryRequest";
+
+ /**
+ * @description Created
+*/
+export type CreateCategory201 = AdminCategoryDto;
+/**
+ * @description Bad Request
+*/
+export type CreateCategory400 = any;
+export type CreateCategoryMutationRequest = CreateCategoryRequest;
+/**
+ * @description Created
+*/
+export type CreateCategoryMutationResponse = AdminCategoryDto;
+export type CreateCategoryMutation = {
+    Response: CreateCategoryMutationResponse;
+    Request: CreateCategoryMutationRequest;
+    Errors: CreateCategory400;
+};
\ No newline at end of file
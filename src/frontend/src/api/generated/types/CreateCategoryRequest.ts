@@ -0,0 +1,18 @@
+export type CreateCategoryRequest = {
+    /**
+     * @type string
+    */
+    name: string;
+    /**
+     * @type string
+    */
+    description?: string | null;
+    /**
+     * @type integer, int32
+    */
+    cocoClassId: number;
+    /**
+     * @type boolean
+    */
+    detectionEnabled: boolean;
+};
\ No newline at end of file
@@ -0,0 +1,18 @@
+export type CreateCrawlJobRequest = {
+    /**
+     * @type integer, int32
+    */
+    providerId: number;
+    /**
+     * @type string
+    */
+    startUrl?: string | null;
+    /**
+     * @type string
+    */
+    sitemapUrl?: string | null;
+    /**
+     * @type integer, int32
+    */
+    maxPages?: number | null;
+};
\ No newline at end of file
@@ -0,0 +1,21 @@
+import type { CrawlScheduleDto } from "./CrawlScheduleDto";
+import type { CreateCrawlScheduleRequest } from "./CreateCrawlScheduleRequest";
+
+ /**
+ * @description Created
+*/
+export type CreateCrawlSchedule201 = CrawlScheduleDto;
+/**
+ * @description Bad Request
+*/
+export type CreateCrawlSchedule400 = any;
+export type CreateCrawlScheduleMutationRequest = CreateCrawlScheduleRequest;
+/**
+ * @description Created
+*/
+export type CreateCrawlScheduleMutationResponse = CrawlScheduleDto;
+export type CreateCrawlScheduleMutation = {
+    Response: CreateCrawlScheduleMutationResponse;
+    Request: CreateCrawlScheduleMutationRequest;
+    Errors: CreateCrawlSchedule400;
+};
\ No newline at end of file
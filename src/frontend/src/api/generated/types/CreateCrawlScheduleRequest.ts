@@ -0,0 +1,45 @@
+import type { CrawlScheduleFrequency } from "./CrawlScheduleFrequency";
+import type { DayOfWeek } from "./DayOfWeek";
+
+ export type CreateCrawlScheduleRequest = {
+    /**
+     * @type integer, int32
+    */
+    providerId: number;
+    /**
+     * @type integer, int32
+    */
+    frequency: CrawlScheduleFrequency;
+    /**
+     * @type string
+    */
+    timeOfDay?: string | null;
+    /**
+     * @type integer | undefined, int32
+    */
+    dayOfWeek?: DayOfWeek;
+    /**
+     * @type string
+    */
+    cronExpression?: string | null;
+    /**
+     * @type string
+    */
+    timeZoneId: string;
+    /**
+     * @type string, uri
+    */
+    startUrl?: string | null;
+    /**
+     * @type string, uri
+    */
+    sitemapUrl?: string | null;
+    /**
+     * @type integer, int32
+    */
+    maxPages?: number | null;
+    /**
+     * @type boolean
+    */
+    isEnabled: boolean;
+};
\ No newline at end of file
@@ -0,0 +1,21 @@
+import type { CrawlJobDto } from "./CrawlJobDto";
+import type { CreateCrawlJobRequest } from "./CreateCrawlJobRequest";
+
+ /**
+ * @description Created
+*/
+export type CreateJob201 = CrawlJobDto;
+/**
+ * @description Bad Request
+*/
+export type CreateJob400 = any;
+export type CreateJobMutationRequest = CreateCrawlJobRequest;
+/**
+ * @description Created
+*/
+export type CreateJobMutationResponse = CrawlJobDto;
+export type CreateJobMutation = {
+    Response: CreateJobMutationResponse;
+    Request: CreateJobMutationRequest;
+    Errors: CreateJob400;
+};
\ No newline at end of file
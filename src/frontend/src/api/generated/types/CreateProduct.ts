@@ -0,0 +1,21 @@
+import type { ProductIdResponse } from "./ProductIdResponse";
+import type { CreateProductRequestAdmin } from "./CreateProductRequestAdmin";
+
+ /**
+ * @description Created
+*/
+export type CreateProduct201 = ProductIdResponse;
+/**
+ * @description Bad Request
+*/
+export type CreateProduct400 = any;
+export type CreateProductMutationRequest = CreateProductRequestAdmin;
+/**
+ * @description Created
+*/
+export type CreateProductMutationResponse = ProductIdResponse;
+export type CreateProductMutation = {
+    Response: CreateProductMutationResponse;
+    Request: CreateProductMutationRequest;
+    Errors: CreateProduct400;
+};
\ No newline at end of file
@@ -0,0 +1,34 @@
+export type CreateProductRequestAdmin = {
+    /**
+     * @type integer, int32
+    */
+    providerId: number;
+    /**
+     * @type string
+    */
+    externalId?: string | null;
+    /**
+     * @type string
+    */
+    name: string;
+    /**
+     * @type string
+    */
+    description?: string | null;
+    /**
+     * @type number, double
+    */
+    price: number;
+    /**
+     * @type string
+    */
+    currency?: string | null;
+    /**
+     * @type integer, int32
+    */
+    categoryId?: number | null;
+    /**
+     * @type string
+    */
+    productUrl?: string | null;
+};
\ No newline at end of file
@@ -0,0 +1,21 @@
+import type { AdminProviderDto } from "./AdminProviderDto";
+import type { CreateProviderRequest } from "./CreateProviderRequest";
+
+ /**
+ * @description Created
+*/
+export type CreateProvider201 = AdminProviderDto;
+/**
+ * @description Bad Request
+*/
+export type CreateProvider400 = any;
+export type CreateProviderMutationRequest = CreateProviderRequest;
+/**
+ * @description Created
+*/
+export type CreateProviderMutationResponse = AdminProviderDto;
+export type CreateProviderMutation = {
+    Response: CreateProviderMutationResponse;
+    Request: CreateProviderMutationRequest;
+    Errors: CreateProvider400;
+};
\ No newline at end of file
@@ -0,0 +1,22 @@
+export type CreateProviderRequest = {
+    /**
+     * @type string
+    */
+    name: string;
+    /**
+     * @type string, uri
+    */
+    websiteUrl?: string | null;
+    /**
+     * @type string, uri
+    */
+    logoUrl?: string | null;
+    /**
+     * @type string
+    */
+    crawlerType?: string | null;
+    /**
+     * @type string
+    */
+    crawlerConfigJson?: string | null;
+};
\ No newline at end of file
@@ -0,0 +1,21 @@
+import type { SettingDto } from "./SettingDto";
+import type { CreateSettingRequest } from "./CreateSettingRequest";
+
+ /**
+ * @description Created
+*/
+export type CreateSetting201 = SettingDto;
+/**
+ * @description Bad Request
+*/
+export type CreateSetting400 = any;
+export type CreateSettingMutationRequest = CreateSettingRequest;
+/**
+ * @description Created
+*/
+export type CreateSettingMutationResponse = SettingDto;
+export type CreateSettingMutation = {
+    Response: CreateSettingMutationResponse;
+    Request: CreateSettingMutationRequest;
+    Errors: CreateSetting400;
+};
\ No newline at end of file
@@ -0,0 +1,22 @@
+export type CreateSettingRequest = {
+    /**
+     * @type string
+    */
+    key: string;
+    /**
+     * @type string
+    */
+    value: string;
+    /**
+     * @type string
+    */
+    type?: string | null;
+    /**
+     * @type string
+    */
+    category: string;
+    /**
+     * @type string
+    */
+    description?: string | null;
+};
\ No newline at end of file
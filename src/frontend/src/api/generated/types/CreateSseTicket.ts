@@ -0,0 +1,25 @@
+import type { CreateSseTicketResponse } from "./CreateSseTicketResponse";
+import type { CreateSseTicketRequest } from "./CreateSseTicketRequest";
+
+ /**
+ * @description OK
+*/
+export type CreateSseTicket200 = CreateSseTicketResponse;
+/**
+ * @description Bad Request
+*/
+export type CreateSseTicket400 = any;
+/**
+ * @description Unauthorized
+*/
+export type CreateSseTicket401 = any;
+export type CreateSseTicketMutationRequest = CreateSseTicketRequest;
+/**
+ * @description OK
+*/
+export type CreateSseTicketMutationResponse = CreateSseTicketResponse;
+export type CreateSseTicketMutation = {
+    Response: CreateSseTicketMutationResponse;
+    Request: CreateSseTicketMutationRequest;
+    Errors: CreateSseTicket400 | CreateSseTicket401;
+};
\ No newline at end of file
@@ -0,0 +1,6 @@
+export type CreateSseTicketRequest = {
+    /**
+     * @type string
+    */
+    purpose: string;
+};
\ No newline at end of file
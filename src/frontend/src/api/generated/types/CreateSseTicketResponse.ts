@@ -0,0 +1,10 @@
+export type CreateSseTicketResponse = {
+    /**
+     * @type string
+    */
+    ticket: string;
+    /**
+     * @type string, date-time
+    */
+    expiresAt: string;
+};
\ No newline at end of file
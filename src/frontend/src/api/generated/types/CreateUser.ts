@@ -0,0 +1,21 @@
+import type { AdminUserDto } from "./AdminUserDto";
+import type { CreateAdminUserDto } from "./CreateAdminUserDto";
+
+ /**
+ * @description Created
+*/
+export type CreateUser201 = AdminUserDto;
+/**
+ * @description Bad Request
+*/
+export type CreateUser400 = any;
+export type CreateUserMutationRequest = CreateAdminUserDto;
+/**
+ * @description Created
+*/
+export type CreateUserMutationResponse = AdminUserDto;
+export type CreateUserMutation = {
+    Response: CreateUserMutationResponse;
+    Request: CreateUserMutationRequest;
+    Errors: CreateUser400;
+};
\ No newline at end of file
@@ -0,0 +1,10 @@
+export type CurrentUserResponse = {
+    /**
+     * @type string
+    */
+    username: string;
+    /**
+     * @type boolean
+    */
+    mustChangePassword: boolean;
+};
\ No newline at end of file
@@ -0,0 +1,24 @@
+import type { TimeSeriesPointDto } from "./TimeSeriesPointDto";
+
+ export type DashboardTimeSeriesDto = {
+    /**
+     * @type string, date-time
+    */
+    from: string;
+    /**
+     * @type string, date-time
+    */
+    to: string;
+    /**
+     * @type array
+    */
+    productsAdded: TimeSeriesPointDto[];
+    /**
+     * @type array
+    */
+    imagesVectorized: TimeSeriesPointDto[];
+    /**
+     * @type array
+    */
+    crawlPagesFetched: TimeSeriesPointDto[];
+};
\ No newline at end of file
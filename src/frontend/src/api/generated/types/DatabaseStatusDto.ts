@@ -0,0 +1,14 @@
+export type DatabaseStatusDto = {
+    /**
+     * @type boolean
+    */
+    connected: boolean;
+    /**
+     * @type integer, int64
+    */
+    latencyMs?: number | null;
+    /**
+     * @type string
+    */
+    error?: string | null;
+};
\ No newline at end of file
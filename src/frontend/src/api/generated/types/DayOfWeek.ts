@@ -0,0 +1,10 @@
+export const dayOfWeek = {
+    "Sunday": 0,
+    "Monday": 1,
+    "Tuesday": 2,
+    "Wednesday": 3,
+    "Thursday": 4,
+    "Friday": 5,
+    "Saturday": 6
+} as const;
+export type DayOfWeek = (typeof dayOfWeek)[keyof typeof dayOfWeek];
\ No newline at end of file
@@ -0,0 +1,24 @@
+export type DeleteCategoryPathParams = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+};
+/**
+ * @description No Content
+*/
+export type DeleteCategory204 = any;
+/**
+ * @description Bad Request
+*/
+export type DeleteCategory400 = any;
+/**
+ * @description Not Found
+*/
+export type DeleteCategory404 = any;
+export type DeleteCategoryMutationResponse = any;
+export type DeleteCategoryMutation = {
+    Response: DeleteCategoryMutationResponse;
+    PathParams: DeleteCategoryPathParams;
+    Errors: DeleteCategory400 | DeleteCategory404;
+};
\ No newline at end of file
@@ -0,0 +1,20 @@
+export type DeleteCrawlSchedulePathParams = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+};
+/**
+ * @description No Content
+*/
+export type DeleteCrawlSchedule204 = any;
+/**
+ * @description Not Found
+*/
+export type DeleteCrawlSchedule404 = any;
+export type DeleteCrawlScheduleMutationResponse = any;
+export type DeleteCrawlScheduleMutation = {
+    Response: DeleteCrawlScheduleMutationResponse;
+    PathParams: DeleteCrawlSchedulePathParams;
+    Errors: DeleteCrawlSchedule404;
+};
\ No newline at end of file
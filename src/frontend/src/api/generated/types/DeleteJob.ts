@@ -0,0 +1,24 @@
+export type DeleteJobPathParams = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+};
+/**
+ * @description No Content
+*/
+export type DeleteJob204 = any;
+/**
+ * @description Bad Request
+*/
+export type DeleteJob400 = any;
+/**
+ * @description Not Found
+*/
+export type DeleteJob404 = any;
+export type DeleteJobMutationResponse = any;
+export type DeleteJobMutation = {
+    Response: DeleteJobMutationResponse;
+    PathParams: DeleteJobPathParams;
+    Errors: DeleteJob400 | DeleteJob404;
+};
\ No newline at end of file
@@ -0,0 +1,20 @@
+export type DeleteProductPathParams = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+};
+/**
+ * @description No Content
+*/
+export type DeleteProduct204 = any;
+/**
+ * @description Not Found
+*/
+export type DeleteProduct404 = any;
+export type DeleteProductMutationResponse = any;
+export type DeleteProductMutation = {
+    Response: DeleteProductMutationResponse;
+    PathParams: DeleteProductPathParams;
+    Errors: DeleteProduct404;
+};
\ No newline at end of file
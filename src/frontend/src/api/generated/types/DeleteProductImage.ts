@@ -0,0 +1,24 @@
+export type DeleteProductImagePathParams = {
+    /**
+     * @type integer, int32
+    */
+    productId: number;
+    /**
+     * @type integer, int32
+    */
+    imageId: number;
+};
+/**
+ * @description No Content
+*/
+export type DeleteProductImage204 = any;
+/**
+ * @description Not Found
+*/
+export type DeleteProductImage404 = any;
+export type DeleteProductImageMutationResponse = any;
+export type DeleteProductImageMutation = {
+    Response: DeleteProductImageMutationResponse;
+    PathParams: DeleteProductImagePathParams;
+    Errors: DeleteProductImage404;
+};
\ No newline at end of file
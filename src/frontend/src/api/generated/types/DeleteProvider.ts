@@ -0,0 +1,20 @@
+export type DeleteProviderPathParams = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+};
+/**
+ * @description No Content
+*/
+export type DeleteProvider204 = any;
+/**
+ * @description Not Found
+*/
+export type DeleteProvider404 = any;
+export type DeleteProviderMutationResponse = any;
+export type DeleteProviderMutation = {
+    Response: DeleteProviderMutationResponse;
+    PathParams: DeleteProviderPathParams;
+    Errors: DeleteProvider404;
+};
\ No newline at end of file
@@ -0,0 +1,20 @@
+export type DeleteUserPathParams = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+};
+/**
+ * @description No Content
+*/
+export type DeleteUser204 = any;
+/**
+ * @description Bad Request
+*/
+export type DeleteUser400 = any;
+export type DeleteUserMutationResponse = any;
+export type DeleteUserMutation = {
+    Response: DeleteUserMutationResponse;
+    PathParams: DeleteUserPathParams;
+    Errors: DeleteUser400;
+};
\ No newline at end of file
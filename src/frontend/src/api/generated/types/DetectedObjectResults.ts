@@ -0,0 +1,16 @@
+import type { ProductResult } from "./ProductResult";
+
+ export type DetectedObjectResults = {
+    /**
+     * @type string
+    */
+    className: string;
+    /**
+     * @type array
+    */
+    boundingBox?: number[] | null;
+    /**
+     * @type array
+    */
+    results: ProductResult[];
+};
\ No newline at end of file
@@ -0,0 +1,10 @@
+export type DownloadImageRequest = {
+    /**
+     * @type string
+    */
+    imageUrl: string;
+    /**
+     * @type boolean
+    */
+    isPrimary: boolean;
+};
\ No newline at end of file
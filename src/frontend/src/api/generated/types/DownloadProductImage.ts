@@ -0,0 +1,32 @@
+import type { AdminProductImageDto } from "./AdminProductImageDto";
+import type { DownloadImageRequest } from "./DownloadImageRequest";
+
+ export type DownloadProductImagePathParams = {
+    /**
+     * @type integer, int32
+    */
+    productId: number;
+};
+/**
+ * @description Created
+*/
+export type DownloadProductImage201 = AdminProductImageDto;
+/**
+ * @description Bad Request
+*/
+export type DownloadProductImage400 = any;
+/**
+ * @description Not Found
+*/
+export type DownloadProductImage404 = any;
+export type DownloadProductImageMutationRequest = DownloadImageRequest;
+/**
+ * @description Created
+*/
+export type DownloadProductImageMutationResponse = AdminProductImageDto;
+export type DownloadProductImageMutation = {
+    Response: DownloadProductImageMutationResponse;
+    Request: DownloadProductImageMutationRequest;
+    PathParams: DownloadProductImagePathParams;
+    Errors: DownloadProductImage400 | DownloadProductImage404;
+};
\ No newline at end of file
@@ -0,0 +1,18 @@
+import type { ExtractedProductDto } from "./ExtractedProductDto";
+import type { MatchedProductDto } from "./MatchedProductDto";
+import type { DuplicateMatchField } from "./DuplicateMatchField";
+
+ export type DuplicateComparisonDto = {
+    /**
+     * @type object
+    */
+    extracted: ExtractedProductDto;
+    /**
+     * @type object | undefined
+    */
+    existing?: MatchedProductDto;
+    /**
+     * @type integer | undefined, int32
+    */
+    matchedOn?: DuplicateMatchField;
+};
\ No newline at end of file
@@ -0,0 +1,4 @@
+export const duplicateMatchField = {
+    "ExternalId": 0
+} as const;
+export type DuplicateMatchField = (typeof duplicateMatchField)[keyof typeof duplicateMatchField];
\ No newline at end of file
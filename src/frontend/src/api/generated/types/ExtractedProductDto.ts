@@ -0,0 +1,64 @@
+import type { ExtractedProductStatus } from "./ExtractedProductStatus";
+
+ export type ExtractedProductDto = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+    /**
+     * @type integer, int64
+    */
+    crawlJobId: number;
+    /**
+     * @type integer, int32
+    */
+    providerId: number;
+    /**
+     * @type string
+    */
+    providerName?: string | null;
+    /**
+     * @type string
+    */
+    externalId?: string | null;
+    /**
+     * @type string
+    */
+    name?: string | null;
+    /**
+     * @type string
+    */
+    description?: string | null;
+    /**
+     * @type number, double
+    */
+    price?: number | null;
+    /**
+     * @type string
+    */
+    currency?: string | null;
+    /**
+     * @type string
+    */
+    productUrl?: string | null;
+    /**
+     * @type array
+    */
+    imageUrls: string[];
+    /**
+     * @type integer, int32
+    */
+    status: ExtractedProductStatus;
+    /**
+     * @type integer, int32
+    */
+    importedProductId?: number | null;
+    /**
+     * @type string, date-time
+    */
+    reviewedAt?: string | null;
+    /**
+     * @type string, date-time
+    */
+    createdAt: string;
+};
\ No newline at end of file
@@ -0,0 +1,7 @@
+export const extractedProductStatus = {
+    "Pending": 0,
+    "Approved": 1,
+    "Rejected": 2,
+    "Duplicate": 3
+} as const;
+export type ExtractedProductStatus = (typeof extractedProductStatus)[keyof typeof extractedProductStatus];
\ No newline at end of file
@@ -0,0 +1,24 @@
+import type { ExtractedProductDto } from "./ExtractedProductDto";
+
+ export type ExtractedProductsPagedResult = {
+    /**
+     * @type array
+    */
+    items: ExtractedProductDto[];
+    /**
+     * @type integer, int32
+    */
+    totalCount: number;
+    /**
+     * @type integer, int32
+    */
+    page: number;
+    /**
+     * @type integer, int32
+    */
+    pageSize: number;
+    /**
+     * @type integer, int32
+    */
+    totalPages: number;
+};
\ No newline at end of file
@@ -0,0 +1,22 @@
+export type ExtractedProductsStatsDto = {
+    /**
+     * @type integer, int32
+    */
+    totalCount: number;
+    /**
+     * @type integer, int32
+    */
+    pendingCount: number;
+    /**
+     * @type integer, int32
+    */
+    approvedCount: number;
+    /**
+     * @type integer, int32
+    */
+    rejectedCount: number;
+    /**
+     * @type integer, int32
+    */
+    duplicateCount: number;
+};
\ No newline at end of file
@@ -0,0 +1,13 @@
+import type { SettingDto } from "./SettingDto";
+
+ /**
+ * @description OK
+*/
+export type GetAllSettings200 = SettingDto[];
+/**
+ * @description OK
+*/
+export type GetAllSettingsQueryResponse = SettingDto[];
+export type GetAllSettingsQuery = {
+    Response: GetAllSettingsQueryResponse;
+};
\ No newline at end of file
@@ -0,0 +1,20 @@
+import type { AdminCategoryDto } from "./AdminCategoryDto";
+
+ export type GetCategoriesQueryParams = {
+    /**
+     * @type boolean | undefined
+    */
+    detectionEnabled?: boolean;
+};
+/**
+ * @description OK
+*/
+export type GetCategories200 = AdminCategoryDto[];
+/**
+ * @description OK
+*/
+export type GetCategoriesQueryResponse = AdminCategoryDto[];
+export type GetCategoriesQuery = {
+    Response: GetCategoriesQueryResponse;
+    QueryParams: GetCategoriesQueryParams;
+};
\ No newline at end of file
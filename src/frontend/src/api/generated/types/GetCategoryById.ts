@@ -0,0 +1,25 @@
+import type { AdminCategoryDto } from "./AdminCategoryDto";
+
+ export type GetCategoryByIdPathParams = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type GetCategoryById200 = AdminCategoryDto;
+/**
+ * @description Not Found
+*/
+export type GetCategoryById404 = any;
+/**
+ * @description OK
+*/
+export type GetCategoryByIdQueryResponse = AdminCategoryDto;
+export type GetCategoryByIdQuery = {
+    Response: GetCategoryByIdQueryResponse;
+    PathParams: GetCategoryByIdPathParams;
+    Errors: GetCategoryById404;
+};
\ No newline at end of file
@@ -0,0 +1,20 @@
+import type { CrawlScheduleDto } from "./CrawlScheduleDto";
+
+ export type GetCrawlSchedulesQueryParams = {
+    /**
+     * @type integer | undefined, int32
+    */
+    providerId?: number;
+};
+/**
+ * @description OK
+*/
+export type GetCrawlSchedules200 = CrawlScheduleDto[];
+/**
+ * @description OK
+*/
+export type GetCrawlSchedulesQueryResponse = CrawlScheduleDto[];
+export type GetCrawlSchedulesQuery = {
+    Response: GetCrawlSchedulesQueryResponse;
+    QueryParams: GetCrawlSchedulesQueryParams;
+};
\ No newline at end of file
@@ -0,0 +1,18 @@
+import type { CurrentUserResponse } from "./CurrentUserResponse";
+
+ /**
+ * @description OK
+*/
+export type GetCurrentUser200 = CurrentUserResponse;
+/**
+ * @description Unauthorized
+*/
+export type GetCurrentUser401 = any;
+/**
+ * @description OK
+*/
+export type GetCurrentUserQueryResponse = CurrentUserResponse;
+export type GetCurrentUserQuery = {
+    Response: GetCurrentUserQueryResponse;
+    Errors: GetCurrentUser401;
+};
\ No newline at end of file
@@ -0,0 +1,11 @@
+/**
+ * @description OK
+*/
+export type GetDetectionClasses200 = string[];
+/**
+ * @description OK
+*/
+export type GetDetectionClassesQueryResponse = string[];
+export type GetDetectionClassesQuery = {
+    Response: GetDetectionClassesQueryResponse;
+};
\ No newline at end of file
@@ -0,0 +1,25 @@
+import type { DuplicateComparisonDto } from "./DuplicateComparisonDto";
+
+ export type GetDuplicateComparisonPathParams = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type GetDuplicateComparison200 = DuplicateComparisonDto;
+/**
+ * @description Not Found
+*/
+export type GetDuplicateComparison404 = any;
+/**
+ * @description OK
+*/
+export type GetDuplicateComparisonQueryResponse = DuplicateComparisonDto;
+export type GetDuplicateComparisonQuery = {
+    Response: GetDuplicateComparisonQueryResponse;
+    PathParams: GetDuplicateComparisonPathParams;
+    Errors: GetDuplicateComparison404;
+};
\ No newline at end of file
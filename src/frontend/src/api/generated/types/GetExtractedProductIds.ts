@@ -0,0 +1,52 @@
+import type { ExtractedProductStatus } from "./ExtractedProductStatus";
+
+ export type GetExtractedProductIdsQueryParams = {
+    /**
+     * @type integer | undefined, int32
+    */
+    status?: ExtractedProductStatus;
+    /**
+     * @type integer | undefined, int32
+    */
+    providerId?: number;
+    /**
+     * @type integer | undefined, int64
+    */
+    jobId?: number;
+    /**
+     * @type string | undefined
+    */
+    search?: string;
+    /**
+     * @type string | undefined, date-time
+    */
+    createdFrom?: string;
+    /**
+     * @type string | undefined, date-time
+    */
+    createdTo?: string;
+    /**
+     * @type boolean | undefined
+    */
+    hasPrice?: boolean;
+    /**
+     * @type integer | undefined, int32
+    */
+    minImages?: number;
+    /**
+     * @type integer | undefined, int32
+    */
+    maxImages?: number;
+};
+/**
+ * @description OK
+*/
+export type GetExtractedProductIds200 = number[];
+/**
+ * @description OK
+*/
+export type GetExtractedProductIdsQueryResponse = number[];
+export type GetExtractedProductIdsQuery = {
+    Response: GetExtractedProductIdsQueryResponse;
+    QueryParams: GetExtractedProductIdsQueryParams;
+};
\ No newline at end of file
@@ -0,0 +1,13 @@
+import type { ExtractedProductsStatsDto } from "./ExtractedProductsStatsDto";
+
+ /**
+ * @description OK
+*/
+export type GetExtractedProductStats200 = ExtractedProductsStatsDto;
+/**
+ * @description OK
+*/
+export type GetExtractedProductStatsQueryResponse = ExtractedProductsStatsDto;
+export type GetExtractedProductStatsQuery = {
+    Response: GetExtractedProductStatsQueryResponse;
+};
\ No newline at end of file
@@ -0,0 +1,63 @@
+import type { ExtractedProductStatus } from "./ExtractedProductStatus";
+import type { ExtractedProductsPagedResult } from "./ExtractedProductsPagedResult";
+
+ export type GetExtractedProductsQueryParams = {
+    /**
+     * @default 1
+     * @type integer | undefined, int32
+    */
+    page?: number;
+    /**
+     * @default 20
+     * @type integer | undefined, int32
+    */
+    pageSize?: number;
+    /**
+     * @type integer | undefined, int32
+    */
+    status?: ExtractedProductStatus;
+    /**
+     * @type integer | undefined, int32
+    */
+    providerId?: number;
+    /**
+     * @type integer | undefined, int64
+    */
+    jobId?: number;
+    /**
+     * @type string | undefined
+    */
+    search?: string;
+    /**
+     * @type string | undefined, date-time
+    */
+    createdFrom?: string;
+    /**
+     * @type string | undefined, date-time
+    */
+    createdTo?: string;
+    /**
+     * @type boolean | undefined
+    */
+    hasPrice?: boolean;
+    /**
+     * @type integer | undefined, int32
+    */
+    minImages?: number;
+    /**
+     * @type integer | undefined, int32
+    */
+    maxImages?: number;
+};
+/**
+ * @description OK
+*/
+export type GetExtractedProducts200 = ExtractedProductsPagedResult;
+/**
+ * @description OK
+*/
+export type GetExtractedProductsQueryResponse = ExtractedProductsPagedResult;
+export type GetExtractedProductsQuery = {
+    Response: GetExtractedProductsQueryResponse;
+    QueryParams: GetExtractedProductsQueryParams;
+};
\ No newline at end of file
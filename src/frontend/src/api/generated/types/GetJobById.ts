@@ -0,0 +1,25 @@
+import type { CrawlJobDetailsDto } from "./CrawlJobDetailsDto";
+
+ export type GetJobByIdPathParams = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type GetJobById200 = CrawlJobDetailsDto;
+/**
+ * @description Not Found
+*/
+export type GetJobById404 = any;
+/**
+ * @description OK
+*/
+export type GetJobByIdQueryResponse = CrawlJobDetailsDto;
+export type GetJobByIdQuery = {
+    Response: GetJobByIdQueryResponse;
+    PathParams: GetJobByIdPathParams;
+    Errors: GetJobById404;
+};
\ No newline at end of file
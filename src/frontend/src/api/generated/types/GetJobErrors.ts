@@ -0,0 +1,25 @@
+import type { CrawlJobErrorGroupDto } from "./CrawlJobErrorGroupDto";
+
+ export type GetJobErrorsPathParams = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type GetJobErrors200 = CrawlJobErrorGroupDto[];
+/**
+ * @description Not Found
+*/
+export type GetJobErrors404 = any;
+/**
+ * @description OK
+*/
+export type GetJobErrorsQueryResponse = CrawlJobErrorGroupDto[];
+export type GetJobErrorsQuery = {
+    Response: GetJobErrorsQueryResponse;
+    PathParams: GetJobErrorsPathParams;
+    Errors: GetJobErrors404;
+};
\ No newline at end of file
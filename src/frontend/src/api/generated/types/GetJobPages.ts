@@ -0,0 +1,47 @@
+import type { CrawlPageStatus } from "./CrawlPageStatus";
+import type { CrawlJobPagesResponse } from "./CrawlJobPagesResponse";
+
+ export type GetJobPagesPathParams = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+};
+export type GetJobPagesQueryParams = {
+    /**
+     * @default 1
+     * @type integer | undefined, int32
+    */
+    page?: number;
+    /**
+     * @default 50
+     * @type integer | undefined, int32
+    */
+    pageSize?: number;
+    /**
+     * @type integer | undefined, int32
+    */
+    status?: CrawlPageStatus;
+    /**
+     * @type boolean | undefined
+    */
+    hasProducts?: boolean;
+};
+/**
+ * @description OK
+*/
+export type GetJobPages200 = CrawlJobPagesResponse;
+/**
+ * @description Not Found
+*/
+export type GetJobPages404 = any;
+/**
+ * @description OK
+*/
+export type GetJobPagesQueryResponse = CrawlJobPagesResponse;
+export type GetJobPagesQuery = {
+    Response: GetJobPagesQueryResponse;
+    PathParams: GetJobPagesPathParams;
+    QueryParams: GetJobPagesQueryParams;
+    Errors: GetJobPages404;
+};
\ No newline at end of file
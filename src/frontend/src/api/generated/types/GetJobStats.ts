@@ -0,0 +1,13 @@
+import type { JobStatsResponse } from "./JobStatsResponse";
+
+ /**
+ * @description OK
+*/
+export type GetJobStats200 = JobStatsResponse;
+/**
+ * @description OK
+*/
+export type GetJobStatsQueryResponse = JobStatsResponse;
+export type GetJobStatsQuery = {
+    Response: GetJobStatsQueryResponse;
+};
\ No newline at end of file
@@ -0,0 +1,35 @@
+import type { CrawlJobStatus } from "./CrawlJobStatus";
+import type { JobsListResponse } from "./JobsListResponse";
+
+ export type GetJobsQueryParams = {
+    /**
+     * @default 1
+     * @type integer | undefined, int32
+    */
+    page?: number;
+    /**
+     * @default 20
+     * @type integer | undefined, int32
+    */
+    pageSize?: number;
+    /**
+     * @type integer | undefined, int32
+    */
+    status?: CrawlJobStatus;
+    /**
+     * @type integer | undefined, int32
+    */
+    providerId?: number;
+};
+/**
+ * @description OK
+*/
+export type GetJobs200 = JobsListResponse;
+/**
+ * @description OK
+*/
+export type GetJobsQueryResponse = JobsListResponse;
+export type GetJobsQuery = {
+    Response: GetJobsQueryResponse;
+    QueryParams: GetJobsQueryParams;
+};
\ No newline at end of file
@@ -0,0 +1,25 @@
+import type { AdminProductDto } from "./AdminProductDto";
+
+ export type GetProductByIdPathParams = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type GetProductById200 = AdminProductDto;
+/**
+ * @description Not Found
+*/
+export type GetProductById404 = any;
+/**
+ * @description OK
+*/
+export type GetProductByIdQueryResponse = AdminProductDto;
+export type GetProductByIdQuery = {
+    Response: GetProductByIdQueryResponse;
+    PathParams: GetProductByIdPathParams;
+    Errors: GetProductById404;
+};
\ No newline at end of file
@@ -0,0 +1,30 @@
+export type GetProductIdsQueryParams = {
+    /**
+     * @type integer | undefined, int32
+    */
+    providerId?: number;
+    /**
+     * @type integer | undefined, int32
+    */
+    categoryId?: number;
+    /**
+     * @type string | undefined
+    */
+    search?: string;
+    /**
+     * @type boolean | undefined
+    */
+    vectorized?: boolean;
+};
+/**
+ * @description OK
+*/
+export type GetProductIds200 = number[];
+/**
+ * @description OK
+*/
+export type GetProductIdsQueryResponse = number[];
+export type GetProductIdsQuery = {
+    Response: GetProductIdsQueryResponse;
+    QueryParams: GetProductIdsQueryParams;
+};
\ No newline at end of file
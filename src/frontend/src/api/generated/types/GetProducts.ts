@@ -0,0 +1,42 @@
+import type { AdminProductDtoAdminPagedResult } from "./AdminProductDtoAdminPagedResult";
+
+ export type GetProductsQueryParams = {
+    /**
+     * @default 1
+     * @type integer | undefined, int32
+    */
+    page?: number;
+    /**
+     * @default 20
+     * @type integer | undefined, int32
+    */
+    pageSize?: number;
+    /**
+     * @type integer | undefined, int32
+    */
+    providerId?: number;
+    /**
+     * @type integer | undefined, int32
+    */
+    categoryId?: number;
+    /**
+     * @type string | undefined
+    */
+    search?: string;
+    /**
+     * @type boolean | undefined
+    */
+    vectorized?: boolean;
+};
+/**
+ * @description OK
+*/
+export type GetProducts200 = AdminProductDtoAdminPagedResult;
+/**
+ * @description OK
+*/
+export type GetProductsQueryResponse = AdminProductDtoAdminPagedResult;
+export type GetProductsQuery = {
+    Response: GetProductsQueryResponse;
+    QueryParams: GetProductsQueryParams;
+};
\ No newline at end of file
@@ -0,0 +1,21 @@
+import type { AdminProductDto } from "./AdminProductDto";
+import type { ProductIdsRequest } from "./ProductIdsRequest";
+
+ /**
+ * @description OK
+*/
+export type GetProductsByIds200 = AdminProductDto[];
+/**
+ * @description Bad Request
+*/
+export type GetProductsByIds400 = any;
+export type GetProductsByIdsMutationRequest = ProductIdsRequest;
+/**
+ * @description OK
+*/
+export type GetProductsByIdsMutationResponse = AdminProductDto[];
+export type GetProductsByIdsMutation = {
+    Response: GetProductsByIdsMutationResponse;
+    Request: GetProductsByIdsMutationRequest;
+    Errors: GetProductsByIds400;
+};
\ No newline at end of file
@@ -0,0 +1,25 @@
+import type { AdminProviderDto } from "./AdminProviderDto";
+
+ export type GetProviderByIdPathParams = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type GetProviderById200 = AdminProviderDto;
+/**
+ * @description Not Found
+*/
+export type GetProviderById404 = any;
+/**
+ * @description OK
+*/
+export type GetProviderByIdQueryResponse = AdminProviderDto;
+export type GetProviderByIdQuery = {
+    Response: GetProviderByIdQueryResponse;
+    PathParams: GetProviderByIdPathParams;
+    Errors: GetProviderById404;
+};
\ No newline at end of file
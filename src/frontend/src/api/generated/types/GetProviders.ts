@@ -0,0 +1,13 @@
+import type { AdminProviderDto } from "./AdminProviderDto";
+
+ /**
+ * @description OK
+*/
+export type GetProviders200 = AdminProviderDto[];
+/**
+ * @description OK
+*/
+export type GetProvidersQueryResponse = AdminProviderDto[];
+export type GetProvidersQuery = {
+    Response: GetProvidersQueryResponse;
+};
\ No newline at end of file
@@ -0,0 +1,20 @@
+import type { CategorySummaryDto } from "./CategorySummaryDto";
+
+ export type GetPublicCategoriesQueryParams = {
+    /**
+     * @type boolean | undefined
+    */
+    detectionEnabled?: boolean;
+};
+/**
+ * @description OK
+*/
+export type GetPublicCategories200 = CategorySummaryDto[];
+/**
+ * @description OK
+*/
+export type GetPublicCategoriesQueryResponse = CategorySummaryDto[];
+export type GetPublicCategoriesQuery = {
+    Response: GetPublicCategoriesQueryResponse;
+    QueryParams: GetPublicCategoriesQueryParams;
+};
\ No newline at end of file
@@ -0,0 +1,25 @@
+import type { SettingDto } from "./SettingDto";
+
+ export type GetPublicSettingPathParams = {
+    /**
+     * @type string
+    */
+    key: string;
+};
+/**
+ * @description OK
+*/
+export type GetPublicSetting200 = SettingDto;
+/**
+ * @description Not Found
+*/
+export type GetPublicSetting404 = any;
+/**
+ * @description OK
+*/
+export type GetPublicSettingQueryResponse = SettingDto;
+export type GetPublicSettingQuery = {
+    Response: GetPublicSettingQueryResponse;
+    PathParams: GetPublicSettingPathParams;
+    Errors: GetPublicSetting404;
+};
\ No newline at end of file
@@ -0,0 +1,13 @@
+import type { SettingDto } from "./SettingDto";
+
+ /**
+ * @description OK
+*/
+export type GetPublicSettings200 = SettingDto[];
+/**
+ * @description OK
+*/
+export type GetPublicSettingsQueryResponse = SettingDto[];
+export type GetPublicSettingsQuery = {
+    Response: GetPublicSettingsQueryResponse;
+};
\ No newline at end of file
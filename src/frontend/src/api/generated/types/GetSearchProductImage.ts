@@ -0,0 +1,27 @@
+export type GetSearchProductImagePathParams = {
+    /**
+     * @type integer, int32
+    */
+    productId: number;
+};
+export type GetSearchProductImageQueryParams = {
+    /**
+     * @type string | undefined
+    */
+    imageUrl?: string;
+};
+/**
+ * @description OK
+*/
+export type GetSearchProductImage200 = any;
+/**
+ * @description Not Found
+*/
+export type GetSearchProductImage404 = any;
+export type GetSearchProductImageQueryResponse = any;
+export type GetSearchProductImageQuery = {
+    Response: GetSearchProductImageQueryResponse;
+    PathParams: GetSearchProductImagePathParams;
+    QueryParams: GetSearchProductImageQueryParams;
+    Errors: GetSearchProductImage404;
+};
\ No newline at end of file
@@ -0,0 +1,25 @@
+import type { SettingDto } from "./SettingDto";
+
+ export type GetSettingPathParams = {
+    /**
+     * @type string
+    */
+    key: string;
+};
+/**
+ * @description OK
+*/
+export type GetSetting200 = SettingDto;
+/**
+ * @description Not Found
+*/
+export type GetSetting404 = any;
+/**
+ * @description OK
+*/
+export type GetSettingQueryResponse = SettingDto;
+export type GetSettingQuery = {
+    Response: GetSettingQueryResponse;
+    PathParams: GetSettingPathParams;
+    Errors: GetSetting404;
+};
\ No newline at end of file
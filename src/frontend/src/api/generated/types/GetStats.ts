@@ -0,0 +1,13 @@
+import type { AdminDashboardStatsDto } from "./AdminDashboardStatsDto";
+
+ /**
+ * @description OK
+*/
+export type GetStats200 = AdminDashboardStatsDto;
+/**
+ * @description OK
+*/
+export type GetStatsQueryResponse = AdminDashboardStatsDto;
+export type GetStatsQuery = {
+    Response: GetStatsQueryResponse;
+};
\ No newline at end of file
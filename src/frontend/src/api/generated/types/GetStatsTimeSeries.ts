@@ -0,0 +1,29 @@
+import type { DashboardTimeSeriesDto } from "./DashboardTimeSeriesDto";
+
+ export type GetStatsTimeSeriesQueryParams = {
+    /**
+     * @type string | undefined, date-time
+    */
+    from?: string;
+    /**
+     * @type string | undefined, date-time
+    */
+    to?: string;
+};
+/**
+ * @description OK
+*/
+export type GetStatsTimeSeries200 = DashboardTimeSeriesDto;
+/**
+ * @description Bad Request
+*/
+export type GetStatsTimeSeries400 = any;
+/**
+ * @description OK
+*/
+export type GetStatsTimeSeriesQueryResponse = DashboardTimeSeriesDto;
+export type GetStatsTimeSeriesQuery = {
+    Response: GetStatsTimeSeriesQueryResponse;
+    QueryParams: GetStatsTimeSeriesQueryParams;
+    Errors: GetStatsTimeSeries400;
+};
\ No newline at end of file
@@ -0,0 +1,13 @@
+import type { AdminSystemStatusDto } from "./AdminSystemStatusDto";
+
+ /**
+ * @description OK
+*/
+export type GetSystemStatus200 = AdminSystemStatusDto;
+/**
+ * @description OK
+*/
+export type GetSystemStatusQueryResponse = AdminSystemStatusDto;
+export type GetSystemStatusQuery = {
+    Response: GetSystemStatusQueryResponse;
+};
\ No newline at end of file
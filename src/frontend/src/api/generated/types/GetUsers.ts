@@ -0,0 +1,13 @@
+import type { AdminUserDto } from "./AdminUserDto";
+
+ /**
+ * @description OK
+*/
+export type GetUsers200 = AdminUserDto[];
+/**
+ * @description OK
+*/
+export type GetUsersQueryResponse = AdminUserDto[];
+export type GetUsersQuery = {
+    Response: GetUsersQueryResponse;
+};
\ No newline at end of file
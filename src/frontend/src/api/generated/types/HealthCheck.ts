@@ -0,0 +1,13 @@
+import type { HealthCheckResponse } from "./HealthCheckResponse";
+
+ /**
+ * @description OK
+*/
+export type HealthCheck200 = HealthCheckResponse;
+/**
+ * @description OK
+*/
+export type HealthCheckQueryResponse = HealthCheckResponse;
+export type HealthCheckQuery = {
+    Response: HealthCheckQueryResponse;
+};
\ No newline at end of file
@@ -0,0 +1,10 @@
+export type HealthCheckModels = {
+    /**
+     * @type boolean
+    */
+    clipLoaded: boolean;
+    /**
+     * @type boolean
+    */
+    yoloLoaded: boolean;
+};
\ No newline at end of file
@@ -0,0 +1,16 @@
+import type { HealthCheckModels } from "./HealthCheckModels";
+
+ export type HealthCheckResponse = {
+    /**
+     * @type string
+    */
+    status: string;
+    /**
+     * @type string, date-time
+    */
+    timestamp: string;
+    /**
+     * @type object
+    */
+    models: HealthCheckModels;
+};
\ No newline at end of file
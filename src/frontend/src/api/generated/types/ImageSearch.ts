@@ -0,0 +1,15 @@
+import type { ImageSearchResponse } from "./ImageSearchResponse";
+
+ /**
+ * @description OK
+*/
+export type ImageSearch200 = ImageSearchResponse;
+export type ImageSearchMutationRequest = Blob;
+/**
+ * @description OK
+*/
+export type ImageSearchMutationResponse = ImageSearchResponse;
+export type ImageSearchMutation = {
+    Response: ImageSearchMutationResponse;
+    Request: ImageSearchMutationRequest;
+};
\ No newline at end of file
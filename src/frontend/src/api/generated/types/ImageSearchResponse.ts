@@ -0,0 +1,33 @@
+import type { DetectedObjectResults } from "./DetectedObjectResults";
+import type { ProductResult } from "./ProductResult";
+
+ export type ImageSearchResponse = {
+    /**
+     * @type array
+    */
+    detectedObjects: DetectedObjectResults[];
+    /**
+     * @type array
+    */
+    results: ProductResult[];
+    /**
+     * @type integer, int32
+    */
+    processingTimeMs: number;
+    /**
+     * @type integer, int32
+    */
+    embeddingTimeMs: number;
+    /**
+     * @type boolean
+    */
+    usedObjectDetection: boolean;
+    /**
+     * @type boolean
+    */
+    clipModelLoaded: boolean;
+    /**
+     * @type boolean
+    */
+    yoloModelLoaded: boolean;
+};
\ No newline at end of file
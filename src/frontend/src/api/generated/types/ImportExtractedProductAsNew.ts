@@ -0,0 +1,32 @@
+import type { ApproveResult } from "./ApproveResult";
+import type { ApproveRequest } from "./ApproveRequest";
+
+ export type ImportExtractedProductAsNewPathParams = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type ImportExtractedProductAsNew200 = ApproveResult;
+/**
+ * @description Bad Request
+*/
+export type ImportExtractedProductAsNew400 = any;
+/**
+ * @description Not Found
+*/
+export type ImportExtractedProductAsNew404 = any;
+export type ImportExtractedProductAsNewMutationRequest = ApproveRequest;
+/**
+ * @description OK
+*/
+export type ImportExtractedProductAsNewMutationResponse = ApproveResult;
+export type ImportExtractedProductAsNewMutation = {
+    Response: ImportExtractedProductAsNewMutationResponse;
+    Request: ImportExtractedProductAsNewMutationRequest;
+    PathParams: ImportExtractedProductAsNewPathParams;
+    Errors: ImportExtractedProductAsNew400 | ImportExtractedProductAsNew404;
+};
\ No newline at end of file
@@ -0,0 +1,21 @@
+import type { CatalogImportResultDto } from "./CatalogImportResultDto";
+import type { CatalogImportRequest } from "./CatalogImportRequest";
+
+ /**
+ * @description OK
+*/
+export type ImportProducts200 = CatalogImportResultDto;
+/**
+ * @description Bad Request
+*/
+export type ImportProducts400 = any;
+export type ImportProductsMutationRequest = CatalogImportRequest;
+/**
+ * @description OK
+*/
+export type ImportProductsMutationResponse = CatalogImportResultDto;
+export type ImportProductsMutation = {
+    Response: ImportProductsMutationResponse;
+    Request: ImportProductsMutationRequest;
+    Errors: ImportProducts400;
+};
\ No newline at end of file
@@ -0,0 +1,8 @@
+/**
+ * @description OK
+*/
+export type InvalidateCache200 = any;
+export type InvalidateCacheMutationResponse = any;
+export type InvalidateCacheMutation = {
+    Response: InvalidateCacheMutationResponse;
+};
\ No newline at end of file
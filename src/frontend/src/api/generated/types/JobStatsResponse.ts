@@ -0,0 +1,30 @@
+export type JobStatsResponse = {
+    /**
+     * @type integer, int32
+    */
+    totalJobs: number;
+    /**
+     * @type integer, int32
+    */
+    queuedJobs: number;
+    /**
+     * @type integer, int32
+    */
+    runningJobs: number;
+    /**
+     * @type integer, int32
+    */
+    succeededJobs: number;
+    /**
+     * @type integer, int32
+    */
+    failedJobs: number;
+    /**
+     * @type integer, int32
+    */
+    canceledJobs: number;
+    /**
+     * @type integer, int32
+    */
+    pausedJobs: number;
+};
\ No newline at end of file
@@ -0,0 +1,20 @@
+import type { CrawlJobListItemDto } from "./CrawlJobListItemDto";
+
+ export type JobsListResponse = {
+    /**
+     * @type array
+    */
+    jobs: CrawlJobListItemDto[];
+    /**
+     * @type integer, int32
+    */
+    totalCount: number;
+    /**
+     * @type integer, int32
+    */
+    page: number;
+    /**
+     * @type integer, int32
+    */
+    pageSize: number;
+};
\ No newline at end of file
@@ -0,0 +1,35 @@
+import type { CrawlJobStatus } from "./CrawlJobStatus";
+
+ export type JobsSseQueryParams = {
+    /**
+     * @type string
+    */
+    ticket: string;
+    /**
+     * @default 1
+     * @type integer | undefined, int32
+    */
+    page?: number;
+    /**
+     * @default 20
+     * @type integer | undefined, int32
+    */
+    pageSize?: number;
+    /**
+     * @type integer | undefined, int32
+    */
+    status?: CrawlJobStatus;
+    /**
+     * @type integer | undefined, int32
+    */
+    providerId?: number;
+};
+/**
+ * @description OK
+*/
+export type JobsSse200 = any;
+export type JobsSseQueryResponse = any;
+export type JobsSseQuery = {
+    Response: JobsSseQueryResponse;
+    QueryParams: JobsSseQueryParams;
+};
\ No newline at end of file
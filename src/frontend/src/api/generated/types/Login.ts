@@ -0,0 +1,25 @@
+import type { LoginResponse } from "./LoginResponse";
+import type { LoginRequest } from "./LoginRequest";
+
+ /**
+ * @description OK
+*/
+export type Login200 = LoginResponse;
+/**
+ * @description Bad Request
+*/
+export type Login400 = any;
+/**
+ * @description Unauthorized
+*/
+export type Login401 = any;
+export type LoginMutationRequest = LoginRequest;
+/**
+ * @description OK
+*/
+export type LoginMutationResponse = LoginResponse;
+export type LoginMutation = {
+    Response: LoginMutationResponse;
+    Request: LoginMutationRequest;
+    Errors: Login400 | Login401;
+};
\ No newline at end of file
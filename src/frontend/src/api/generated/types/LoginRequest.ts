@@ -0,0 +1,10 @@
+export type LoginRequest = {
+    /**
+     * @type string
+    */
+    username: string;
+    /**
+     * @type string
+    */
+    password: string;
+};
\ No newline at end of file
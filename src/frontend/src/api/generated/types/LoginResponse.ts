@@ -0,0 +1,18 @@
+export type LoginResponse = {
+    /**
+     * @type string
+    */
+    token: string;
+    /**
+     * @type string
+    */
+    username: string;
+    /**
+     * @type boolean
+    */
+    mustChangePassword: boolean;
+    /**
+     * @type string, date-time
+    */
+    expiresAt: string;
+};
\ No newline at end of file
@@ -0,0 +1,42 @@
+export type MatchedProductDto = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+    /**
+     * @type string
+    */
+    externalId?: string | null;
+    /**
+     * @type string
+    */
+    name: string;
+    /**
+     * @type string
+    */
+    description?: string | null;
+    /**
+     * @type number, double
+    */
+    price: number;
+    /**
+     * @type string
+    */
+    currency: string;
+    /**
+     * @type string
+    */
+    productUrl?: string | null;
+    /**
+     * @type string
+    */
+    categoryName?: string | null;
+    /**
+     * @type array
+    */
+    imageUrls: string[];
+    /**
+     * @type string, date-time
+    */
+    createdAt: string;
+};
\ No newline at end of file
@@ -0,0 +1,29 @@
+import type { ApproveResult } from "./ApproveResult";
+
+ export type MergeExtractedProductPathParams = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type MergeExtractedProduct200 = ApproveResult;
+/**
+ * @description Bad Request
+*/
+export type MergeExtractedProduct400 = any;
+/**
+ * @description Not Found
+*/
+export type MergeExtractedProduct404 = any;
+/**
+ * @description OK
+*/
+export type MergeExtractedProductMutationResponse = ApproveResult;
+export type MergeExtractedProductMutation = {
+    Response: MergeExtractedProductMutationResponse;
+    PathParams: MergeExtractedProductPathParams;
+    Errors: MergeExtractedProduct400 | MergeExtractedProduct404;
+};
\ No newline at end of file
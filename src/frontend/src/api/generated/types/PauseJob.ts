@@ -0,0 +1,29 @@
+import type { CrawlJobDto } from "./CrawlJobDto";
+
+ export type PauseJobPathParams = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type PauseJob200 = CrawlJobDto;
+/**
+ * @description Bad Request
+*/
+export type PauseJob400 = any;
+/**
+ * @description Not Found
+*/
+export type PauseJob404 = any;
+/**
+ * @description OK
+*/
+export type PauseJobMutationResponse = CrawlJobDto;
+export type PauseJobMutation = {
+    Response: PauseJobMutationResponse;
+    PathParams: PauseJobPathParams;
+    Errors: PauseJob400 | PauseJob404;
+};
\ No newline at end of file
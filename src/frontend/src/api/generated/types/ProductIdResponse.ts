@@ -0,0 +1,6 @@
+export type ProductIdResponse = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+};
\ No newline at end of file
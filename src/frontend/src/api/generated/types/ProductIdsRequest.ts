@@ -0,0 +1,6 @@
+export type ProductIdsRequest = {
+    /**
+     * @type array
+    */
+    ids: number[];
+};
\ No newline at end of file
@@ -0,0 +1,34 @@
+export type ProductResult = {
+    /**
+     * @type integer, int32
+    */
+    productId: number;
+    /**
+     * @type string
+    */
+    name: string;
+    /**
+     * @type number, float
+    */
+    price: number;
+    /**
+     * @type string
+    */
+    imageUrl: string;
+    /**
+     * @type string
+    */
+    providerName: string;
+    /**
+     * @type number, float
+    */
+    similarity: number;
+    /**
+     * @type string
+    */
+    category?: string | null;
+    /**
+     * @type string
+    */
+    productUrl?: string | null;
+};
\ No newline at end of file
@@ -0,0 +1,14 @@
+export type ProductVectorizationResultDto = {
+    /**
+     * @type integer, int32
+    */
+    productId: number;
+    /**
+     * @type integer, int32
+    */
+    totalImages: number;
+    /**
+     * @type integer, int32
+    */
+    vectorizedImages: number;
+};
\ No newline at end of file
@@ -0,0 +1,24 @@
+export type RejectExtractedProductPathParams = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type RejectExtractedProduct200 = any;
+/**
+ * @description Bad Request
+*/
+export type RejectExtractedProduct400 = any;
+/**
+ * @description Not Found
+*/
+export type RejectExtractedProduct404 = any;
+export type RejectExtractedProductMutationResponse = any;
+export type RejectExtractedProductMutation = {
+    Response: RejectExtractedProductMutationResponse;
+    PathParams: RejectExtractedProductPathParams;
+    Errors: RejectExtractedProduct400 | RejectExtractedProduct404;
+};
\ No newline at end of file
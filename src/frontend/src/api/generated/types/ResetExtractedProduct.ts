@@ -0,0 +1,20 @@
+export type ResetExtractedProductPathParams = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type ResetExtractedProduct200 = any;
+/**
+ * @description Not Found
+*/
+export type ResetExtractedProduct404 = any;
+export type ResetExtractedProductMutationResponse = any;
+export type ResetExtractedProductMutation = {
+    Response: ResetExtractedProductMutationResponse;
+    PathParams: ResetExtractedProductPathParams;
+    Errors: ResetExtractedProduct404;
+};
\ No newline at end of file
@@ -0,0 +1,29 @@
+import type { SettingDto } from "./SettingDto";
+
+ export type ResetSettingPathParams = {
+    /**
+     * @type string
+    */
+    key: string;
+};
+/**
+ * @description OK
+*/
+export type ResetSetting200 = SettingDto;
+/**
+ * @description Bad Request
+*/
+export type ResetSetting400 = any;
+/**
+ * @description Not Found
+*/
+export type ResetSetting404 = any;
+/**
+ * @description OK
+*/
+export type ResetSettingMutationResponse = SettingDto;
+export type ResetSettingMutation = {
+    Response: ResetSettingMutationResponse;
+    PathParams: ResetSettingPathParams;
+    Errors: ResetSetting400 | ResetSetting404;
+};
\ No newline at end of file
@@ -0,0 +1,29 @@
+import type { CrawlJobDto } from "./CrawlJobDto";
+
+ export type ResumeJobPathParams = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type ResumeJob200 = CrawlJobDto;
+/**
+ * @description Bad Request
+*/
+export type ResumeJob400 = any;
+/**
+ * @description Not Found
+*/
+export type ResumeJob404 = any;
+/**
+ * @description OK
+*/
+export type ResumeJobMutationResponse = CrawlJobDto;
+export type ResumeJobMutation = {
+    Response: ResumeJobMutationResponse;
+    PathParams: ResumeJobPathParams;
+    Errors: ResumeJob400 | ResumeJob404;
+};
\ No newline at end of file
@@ -0,0 +1,29 @@
+import type { CrawlJobDto } from "./CrawlJobDto";
+
+ export type RetryJobPathParams = {
+    /**
+     * @type integer, int64
+    */
+    id: number;
+};
+/**
+ * @description Created
+*/
+export type RetryJob201 = CrawlJobDto;
+/**
+ * @description Bad Request
+*/
+export type RetryJob400 = any;
+/**
+ * @description Not Found
+*/
+export type RetryJob404 = any;
+/**
+ * @description Created
+*/
+export type RetryJobMutationResponse = CrawlJobDto;
+export type RetryJobMutation = {
+    Response: RetryJobMutationResponse;
+    PathParams: RetryJobPathParams;
+    Errors: RetryJob400 | RetryJob404;
+};
\ No newline at end of file
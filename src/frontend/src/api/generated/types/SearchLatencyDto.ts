@@ -0,0 +1,26 @@
+export type SearchLatencyDto = {
+    /**
+     * @type integer, int32
+    */
+    sampleCount: number;
+    /**
+     * @type number, double
+    */
+    averageEmbeddingMs?: number | null;
+    /**
+     * @type integer, int64
+    */
+    p95EmbeddingMs?: number | null;
+    /**
+     * @type number, double
+    */
+    averageTotalMs?: number | null;
+    /**
+     * @type integer, int64
+    */
+    p95TotalMs?: number | null;
+    /**
+     * @type string, date-time
+    */
+    lastSearchAt?: string | null;
+};
\ No newline at end of file
@@ -0,0 +1,42 @@
+export type SettingDto = {
+    /**
+     * @type string
+    */
+    key: string;
+    /**
+     * @type string
+    */
+    value: string;
+    /**
+     * @type string
+    */
+    type: string;
+    /**
+     * @type string
+    */
+    category: string;
+    /**
+     * @type string
+    */
+    description?: string | null;
+    /**
+     * @type string, date-time
+    */
+    updatedAt?: string | null;
+    /**
+     * @type string
+    */
+    defaultValue?: string | null;
+    /**
+     * @type number, double
+    */
+    min?: number | null;
+    /**
+     * @type number, double
+    */
+    max?: number | null;
+    /**
+     * @type boolean | undefined
+    */
+    allowEmpty?: boolean;
+};
\ No newline at end of file
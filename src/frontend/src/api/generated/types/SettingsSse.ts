@@ -0,0 +1,8 @@
+/**
+ * @description OK
+*/
+export type SettingsSse200 = any;
+export type SettingsSseQueryResponse = any;
+export type SettingsSseQuery = {
+    Response: SettingsSseQueryResponse;
+};
\ No newline at end of file
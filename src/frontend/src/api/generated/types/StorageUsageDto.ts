@@ -0,0 +1,22 @@
+export type StorageUsageDto = {
+    /**
+     * @type integer, int64
+    */
+    usedBytes: number;
+    /**
+     * @type integer, int32
+    */
+    fileCount: number;
+    /**
+     * @type integer, int64
+    */
+    freeBytes?: number | null;
+    /**
+     * @type integer, int64
+    */
+    totalBytes?: number | null;
+    /**
+     * @type string, date-time
+    */
+    measuredAt: string;
+};
\ No newline at end of file
@@ -0,0 +1,10 @@
+export type TimeSeriesPointDto = {
+    /**
+     * @type string, date-time
+    */
+    timestamp: string;
+    /**
+     * @type integer, int32
+    */
+    count: number;
+};
\ No newline at end of file
@@ -0,0 +1,28 @@
+import type { AdminCategoryDto } from "./AdminCategoryDto";
+import type { ToggleDetectionRequest } from "./ToggleDetectionRequest";
+
+ export type ToggleCategoryDetectionPathParams = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type ToggleCategoryDetection200 = AdminCategoryDto;
+/**
+ * @description Not Found
+*/
+export type ToggleCategoryDetection404 = any;
+export type ToggleCategoryDetectionMutationRequest = ToggleDetectionRequest;
+/**
+ * @description OK
+*/
+export type ToggleCategoryDetectionMutationResponse = AdminCategoryDto;
+export type ToggleCategoryDetectionMutation = {
+    Response: ToggleCategoryDetectionMutationResponse;
+    Request: ToggleCategoryDetectionMutationRequest;
+    PathParams: ToggleCategoryDetectionPathParams;
+    Errors: ToggleCategoryDetection404;
+};
\ No newline at end of file
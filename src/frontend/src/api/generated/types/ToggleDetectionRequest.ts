@@ -0,0 +1,6 @@
+export type ToggleDetectionRequest = {
+    /**
+     * @type boolean
+    */
+    detectionEnabled: boolean;
+};
\ No newline at end of file
@@ -0,0 +1,32 @@
+import type { AdminCategoryDto } from "./AdminCategoryDto";
+import type { UpdateCategoryRequest } from "./UpdateCategoryRequest";
+
+ export type UpdateCategoryPathParams = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type UpdateCategory200 = AdminCategoryDto;
+/**
+ * @description Bad Request
+*/
+export type UpdateCategory400 = any;
+/**
+ * @description Not Found
+*/
+export type UpdateCategory404 = any;
+export type UpdateCategoryMutationRequest = UpdateCategoryRequest;
+/**
+ * @description OK
+*/
+export type UpdateCategoryMutationResponse = AdminCategoryDto;
+export type UpdateCategoryMutation = {
+    Response: UpdateCategoryMutationResponse;
+    Request: UpdateCategoryMutationRequest;
+    PathParams: UpdateCategoryPathParams;
+    Errors: UpdateCategory400 | UpdateCategory404;
+};
\ No newline at end of file
@@ -0,0 +1,32 @@
+import type { CrawlScheduleDto } from "./CrawlScheduleDto";
+import type { UpdateCrawlScheduleRequest } from "./UpdateCrawlScheduleRequest";
+
+ export type UpdateCrawlSchedulePathParams = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type UpdateCrawlSchedule200 = CrawlScheduleDto;
+/**
+ * @description Bad Request
+*/
+export type UpdateCrawlSchedule400 = any;
+/**
+ * @description Not Found
+*/
+export type UpdateCrawlSchedule404 = any;
+export type UpdateCrawlScheduleMutationRequest = UpdateCrawlScheduleRequest;
+/**
+ * @description OK
+*/
+export type UpdateCrawlScheduleMutationResponse = CrawlScheduleDto;
+export type UpdateCrawlScheduleMutation = {
+    Response: UpdateCrawlScheduleMutationResponse;
+    Request: UpdateCrawlScheduleMutationRequest;
+    PathParams: UpdateCrawlSchedulePathParams;
+    Errors: UpdateCrawlSchedule400 | UpdateCrawlSchedule404;
+};
\ No newline at end of file
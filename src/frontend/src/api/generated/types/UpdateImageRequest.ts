@@ -0,0 +1,10 @@
+export type UpdateImageRequest = {
+    /**
+     * @type string
+    */
+    imageUrl?: string | null;
+    /**
+     * @type boolean
+    */
+    isPrimary?: boolean | null;
+};
\ No newline at end of file
@@ -0,0 +1,32 @@
+import type { ProductIdResponse } from "./ProductIdResponse";
+import type { UpdateProductRequestAdmin } from "./UpdateProductRequestAdmin";
+
+ export type UpdateProductPathParams = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type UpdateProduct200 = ProductIdResponse;
+/**
+ * @description Bad Request
+*/
+export type UpdateProduct400 = any;
+/**
+ * @description Not Found
+*/
+export type UpdateProduct404 = any;
+export type UpdateProductMutationRequest = UpdateProductRequestAdmin;
+/**
+ * @description OK
+*/
+export type UpdateProductMutationResponse = ProductIdResponse;
+export type UpdateProductMutation = {
+    Response: UpdateProductMutationResponse;
+    Request: UpdateProductMutationRequest;
+    PathParams: UpdateProductPathParams;
+    Errors: UpdateProduct400 | UpdateProduct404;
+};
\ No newline at end of file
@@ -0,0 +1,32 @@
+import type { AdminProductImageDto } from "./AdminProductImageDto";
+import type { UpdateImageRequest } from "./UpdateImageRequest";
+
+ export type UpdateProductImagePathParams = {
+    /**
+     * @type integer, int32
+    */
+    productId: number;
+    /**
+     * @type integer, int32
+    */
+    imageId: number;
+};
+/**
+ * @description OK
+*/
+export type UpdateProductImage200 = AdminProductImageDto;
+/**
+ * @description Not Found
+*/
+export type UpdateProductImage404 = any;
+export type UpdateProductImageMutationRequest = UpdateImageRequest;
+/**
+ * @description OK
+*/
+export type UpdateProductImageMutationResponse = AdminProductImageDto;
+export type UpdateProductImageMutation = {
+    Response: UpdateProductImageMutationResponse;
+    Request: UpdateProductImageMutationRequest;
+    PathParams: UpdateProductImagePathParams;
+    Errors: UpdateProductImage404;
+};
\ No newline at end of file
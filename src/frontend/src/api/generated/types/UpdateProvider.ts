@@ -0,0 +1,32 @@
+import type { AdminProviderDto } from "./AdminProviderDto";
+import type { UpdateProviderRequest } from "./UpdateProviderRequest";
+
+ export type UpdateProviderPathParams = {
+    /**
+     * @type integer, int32
+    */
+    id: number;
+};
+/**
+ * @description OK
+*/
+export type UpdateProvider200 = AdminProviderDto;
+/**
+ * @description Bad Request
+*/
+export type UpdateProvider400 = any;
+/**
+ * @description Not Found
+*/
+export type UpdateProvider404 = any;
+export type UpdateProviderMutationRequest = UpdateProviderRequest;
+/**
+ * @description OK
+*/
+export type UpdateProviderMutationResponse = AdminProviderDto;
+export type UpdateProviderMutation = {
+    Response: UpdateProviderMutationResponse;
+    Request: UpdateProviderMutationRequest;
+    PathParams: UpdateProviderPathParams;
+    Errors: UpdateProvider400 | UpdateProvider404;
+};
\ No newline at end of file
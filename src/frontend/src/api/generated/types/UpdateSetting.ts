@@ -0,0 +1,32 @@
+import type { SettingDto } from "./SettingDto";
+import type { UpdateSettingRequest } from "./UpdateSettingRequest";
+
+ export type UpdateSettingPathParams = {
+    /**
+     * @type string
+    */
+    key: string;
+};
+/**
+ * @description OK
+*/
+export type UpdateSetting200 = SettingDto;
+/**
+ * @description Bad Request
+*/
+export type UpdateSetting400 = any;
+/**
+ * @description Not Found
+*/
+export type UpdateSetting404 = any;
+export type UpdateSettingMutationRequest = UpdateSettingRequest;
+/**
+ * @description OK
+*/
+export type UpdateSettingMutationResponse = SettingDto;
+export type UpdateSettingMutation = {
+    Response: UpdateSettingMutationResponse;
+    Request: UpdateSettingMutationRequest;
+    PathParams: UpdateSettingPathParams;
+    Errors: UpdateSetting400 | UpdateSetting404;
+};
\ No newline at end of file
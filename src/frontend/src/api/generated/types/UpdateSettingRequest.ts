@@ -0,0 +1,6 @@
+export type UpdateSettingRequest = {
+    /**
+     * @type string
+    */
+    value: string;
+};
\ No newline at end of file
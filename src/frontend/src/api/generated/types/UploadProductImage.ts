@@ -0,0 +1,40 @@
+import type { AdminProductImageDto } from "./AdminProductImageDto";
+
+ export type UploadProductImagePathParams = {
+    /**
+     * @type integer, int32
+    */
+    productId: number;
+};
+/**
+ * @description Created
+*/
+export type UploadProductImage201 = AdminProductImageDto;
+/**
+ * @description Bad Request
+*/
+export type UploadProductImage400 = any;
+/**
+ * @description Not Found
+*/
+export type UploadProductImage404 = any;
+export type UploadProductImageMutationRequest = {
+    /**
+     * @type string, binary
+    */
+    file: Blob;
+    /**
+     * @type boolean
+    */
+    isPrimary: boolean;
+};
+/**
+ * @description Created
+*/
+export type UploadProductImageMutationResponse = AdminProductImageDto;
+export type UploadProductImageMutation = {
+    Response: UploadProductImageMutationResponse;
+    Request: UploadProductImageMutationRequest;
+    PathParams: UploadProductImagePathParams;
+    Errors: UploadProductImage400 | UploadProductImage404;
+};
\ No newline at end of file
@@ -0,0 +1,22 @@
+export type VectorizationFailureDto = {
+    /**
+     * @type integer, int32
+    */
+    imageId: number;
+    /**
+     * @type integer, int32
+    */
+    productId?: number | null;
+    /**
+     * @type string
+    */
+    imageUrl?: string | null;
+    /**
+     * @type string
+    */
+    reason: string;
+    /**
+     * @type string, date-time
+    */
+    failedAt: string;
+};
\ No newline at end of file
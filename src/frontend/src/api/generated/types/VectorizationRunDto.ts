@@ -0,0 +1,53 @@
+import type { VectorizationRunStatus } from "./VectorizationRunStatus";
+import type { VectorizationFailureDto } from "./VectorizationFailureDto";
+
+ export type VectorizationRunDto = {
+    /**
+     * @type integer, int32
+    */
+    status: VectorizationRunStatus;
+    /**
+     * @type boolean
+    */
+    force: boolean;
+    /**
+     * @type integer, int32
+    */
+    totalImages: number;
+    /**
+     * @type integer, int32
+    */
+    processedImages: number;
+    /**
+     * @type integer, int32
+    */
+    succeededImages: number;
+    /**
+     * @type integer, int32
+    */
+    failedImages: number;
+    /**
+     * @type string, date-time
+    */
+    startedAt: string;
+    /**
+     * @type string, date-time
+    */
+    finishedAt?: string | null;
+    /**
+     * @type number, double
+    */
+    estimatedSecondsRemaining?: number | null;
+    /**
+     * @type boolean
+    */
+    cancelRequested: boolean;
+    /**
+     * @type string
+    */
+    error?: string | null;
+    /**
+     * @type array
+    */
+    failures: VectorizationFailureDto[];
+};
\ No newline at end of file
@@ -0,0 +1,7 @@
+export const vectorizationRunStatus = {
+    "Running": 0,
+    "Completed": 1,
+    "Canceled": 2,
+    "Failed": 3
+} as const;
+export type VectorizationRunStatus = (typeof vectorizationRunStatus)[keyof typeof vectorizationRunStatus];
\ No newline at end of file
@@ -0,0 +1,15 @@
+export type VectorizationSseQueryParams = {
+    /**
+     * @type string
+    */
+    ticket: string;
+};
+/**
+ * @description OK
+*/
+export type VectorizationSse200 = any;
+export type VectorizationSseQueryResponse = any;
+export type VectorizationSseQuery = {
+    Response: VectorizationSseQueryResponse;
+    QueryParams: VectorizationSseQueryParams;
+};
\ No newline at end of file
@@ -0,0 +1,26 @@
+import type { VectorizationRunDto } from "./VectorizationRunDto";
+
+ export type VectorizeAllQueryParams = {
+    /**
+     * @default false
+     * @type boolean | undefined
+    */
+    force?: boolean;
+};
+/**
+ * @description OK
+*/
+export type VectorizeAll200 = VectorizationRunDto;
+/**
+ * @description Bad Request
+*/
+export type VectorizeAll400 = any;
+/**
+ * @description OK
+*/
+export type VectorizeAllMutationResponse = VectorizationRunDto;
+export type VectorizeAllMutation = {
+    Response: VectorizeAllMutationResponse;
+    QueryParams: VectorizeAllQueryParams;
+    Errors: VectorizeAll400;
+};
\ No newline at end of file
@@ -0,0 +1,29 @@
+import type { ProductVectorizationResultDto } from "./ProductVectorizationResultDto";
+
+ export type VectorizeProductPathParams = {
+    /**
+     * @type integer, int32
+    */
+    productId: number;
+};
+/**
+ * @description OK
+*/
+export type VectorizeProduct200 = ProductVectorizationResultDto;
+/**
+ * @description Bad Request
+*/
+export type VectorizeProduct400 = any;
+/**
+ * @description Not Found
+*/
+export type VectorizeProduct404 = any;
+/**
+ * @description OK
+*/
+export type VectorizeProductMutationResponse = ProductVectorizationResultDto;
+export type VectorizeProductMutation = {
+    Response: VectorizeProductMutationResponse;
+    PathParams: VectorizeProductPathParams;
+    Errors: VectorizeProduct400 | VectorizeProduct404;
+};
\ No newline at end of file
@@ -0,0 +1,7 @@
+export const workerState = {
+    "Idle": 0,
+    "Active": 1,
+    "Stalled": 2,
+    "Unknown": 3
+} as const;
+export type WorkerState = (typeof workerState)[keyof typeof workerState];
\ No newline at end of file
@@ -0,0 +1,24 @@
+import type { WorkerState } from "./WorkerState";
+
+ export type WorkerStatusDto = {
+    /**
+     * @type integer, int32
+    */
+    state: WorkerState;
+    /**
+     * @type integer, int32
+    */
+    runningJobs: number;
+    /**
+     * @type integer, int32
+    */
+    queuedJobs: number;
+    /**
+     * @type string, date-time
+    */
+    oldestQueuedAt?: string | null;
+    /**
+     * @type string, date-time
+    */
+    lastJobStartedAt?: string | null;
+};
\ No newline at end of file
@@ -0,0 +1,166 @@
+export * from "./AddImageRequest";
+export * from "./AddProductImage";
+export * from "./AdminCategoryDto";
+export * from "./AdminDashboardStatsDto";
+export * from "./AdminProductDto";
+export * from "./AdminProductDtoAdminPagedResult";
+export * from "./AdminProductImageDto";
+export * from "./AdminProviderDto";
+export * from "./AdminSystemStatusDto";
+export * from "./AdminUserDto";
+export * from "./ApproveExtractedProduct";
+export * from "./ApproveRequest";
+export * from "./ApproveResult";
+export * from "./BulkApproveExtractedProducts";
+export * from "./BulkApproveRequest";
+export * from "./BulkImportResult";
+export * from "./BulkProductAction";
+export * from "./BulkProductActionRequest";
+export * from "./BulkProductActionResultDto";
+export * from "./BulkProductItemResultDto";
+export * from "./BulkRejectExtractedProducts";
+export * from "./BulkRejectRequest";
+export * from "./BulkRejectResult";
+export * from "./CancelJob";
+export * from "./CancelVectorizeAll";
+export * from "./CatalogImportRequest";
+export * from "./CatalogImportResultDto";
+export * from "./CatalogImportRowAction";
+export * from "./CatalogImportRowRequest";
+export * from "./CatalogImportRowResultDto";
+export * from "./CategorySummaryDto";
+export * from "./ChangePassword";
+export * from "./ChangePasswordRequest";
+export * from "./ChangePasswordResponse";
+export * from "./CrawlJobDetailsDto";
+export * from "./CrawlJobDto";
+export * from "./CrawlJobErrorGroupDto";
+export * from "./CrawlJobListItemDto";
+export * from "./CrawlJobPagesResponse";
+export * from "./CrawlJobStatus";
+export * from "./CrawlPageDto";
+export * from "./CrawlPageStatus";
+export * from "./CrawlPageStatusCounts";
+export * from "./CrawlScheduleDto";
+export * from "./CrawlScheduleFrequency";
+export * from "./CreateAdminUserDto";
+export * from "./CreateCategory";
+export * from "./CreateCategoryRequest";
+export * from "./CreateCrawlJobRequest";
+export * from "./CreateCrawlSchedule";
+export * from "./CreateCrawlScheduleRequest";
+export * from "./CreateJob";
+export * from "./CreateProduct";
+export * from "./CreateProductRequestAdmin";
+export * from "./CreateProvider";
+export * from "./CreateProviderRequest";
+export * from "./CreateSetting";
+export * from "./CreateSettingRequest";
+export * from "./CreateSseTicket";
+export * from "./CreateSseTicketRequest";
+export * from "./CreateSseTicketResponse";
+export * from "./CreateUser";
+export * from "./CurrentUserResponse";
+export * from "./DashboardTimeSeriesDto";
+export * from "./DatabaseStatusDto";
+export * from "./DayOfWeek";
+export * from "./DeleteCategory";
+export * from "./DeleteCrawlSchedule";
+export * from "./DeleteJob";
+export * from "./DeleteProduct";
+export * from "./DeleteProductImage";
+export * from "./DeleteProvider";
+export * from "./DeleteUser";
+export * from "./DetectedObjectResults";
+export * from "./DownloadImageRequest";
+export * from "./DownloadProductImage";
+export * from "./DuplicateComparisonDto";
+export * from "./DuplicateMatchField";
+export * from "./ExtractedProductDto";
+export * from "./ExtractedProductStatus";
+export * from "./ExtractedProductsPagedResult";
+export * from "./ExtractedProductsStatsDto";
+export * from "./GetAllSettings";
+export * from "./GetCategories";
+export * from "./GetCategoryById";
+export * from "./GetCrawlSchedules";
+export * from "./GetCurrentUser";
+export * from "./GetDetectionClasses";
+export * from "./GetDuplicateComparison";
+export * from "./GetExtractedProductIds";
+export * from "./GetExtractedProductStats";
+export * from "./GetExtractedProducts";
+export * from "./GetJobById";
+export * from "./GetJobErrors";
+export * from "./GetJobPages";
+export * from "./GetJobStats";
+export * from "./GetJobs";
+export * from "./GetProductById";
+export * from "./GetProductIds";
+export * from "./GetProducts";
+export * from "./GetProductsByIds";
+export * from "./GetProviderById";
+export * from "./GetProviders";
+export * from "./GetPublicCategories";
+export * from "./GetPublicSetting";
+export * from "./GetPublicSettings";
+export * from "./GetSearchProductImage";
+export * from "./GetSetting";
+export * from "./GetStats";
+export * from "./GetStatsTimeSeries";
+export * from "./GetSystemStatus";
+export * from "./GetUsers";
+export * from "./HealthCheck";
+export * from "./HealthCheckModels";
+export * from "./HealthCheckResponse";
+export * from "./ImageSearch";
+export * from "./ImageSearchResponse";
+export * from "./ImportExtractedProductAsNew";
+export * from "./ImportProducts";
+export * from "./InvalidateCache";
+export * from "./JobStatsResponse";
+export * from "./JobsListResponse";
+export * from "./JobsSse";
+export * from "./Login";
+export * from "./LoginRequest";
+export * from "./LoginResponse";
+export * from "./MatchedProductDto";
+export * from "./MergeExtractedProduct";
+export * from "./PauseJob";
+export * from "./ProductIdResponse";
+export * from "./ProductIdsRequest";
+export * from "./ProductResult";
+export * from "./ProductVectorizationResultDto";
+export * from "./RejectExtractedProduct";
+export * from "./ResetExtractedProduct";
+export * from "./ResetSetting";
+export * from "./ResumeJob";
+export * from "./RetryJob";
+export * from "./SearchLatencyDto";
+export * from "./SettingDto";
+export * from "./SettingsSse";
+export * from "./StorageUsageDto";
+export * from "./TimeSeriesPointDto";
+export * from "./ToggleCategoryDetection";
+export * from "./ToggleDetectionRequest";
+export * from "./UpdateCategory";
+export * from "./UpdateCategoryRequest";
+export * from "./UpdateCrawlSchedule";
+export * from "./UpdateCrawlScheduleRequest";
+export * from "./UpdateImageRequest";
+export * from "./UpdateProduct";
+export * from "./UpdateProductImage";
+export * from "./UpdateProductRequestAdmin";
+export * from "./UpdateProvider";
+export * from "./UpdateProviderRequest";
+export * from "./UpdateSetting";
+export * from "./UpdateSettingRequest";
+export * from "./UploadProductImage";
+export * from "./VectorizationFailureDto";
+export * from "./VectorizationRunDto";
+export * from "./VectorizationRunStatus";
+export * from "./VectorizationSse";
+export * from "./VectorizeAll";
+export * from "./VectorizeProduct";
+export * from "./WorkerState";
+export * from "./WorkerStatusDto";
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { computed } from 'vue'
+import { ApiError } from '@/api/client'
+import { useGetSystemStatus, type AdminSystemStatusDto, type WorkerState } from '@/api/generated'
+import { formatBytes } from '@/utils/format'
+
+// Shared by the admin layout banner and the system page, so both poll through one query
+export const SYSTEM_STATUS_REFRESH_MS = 15_000
+
+// Below this share of free space on the uploads volume, storage is reported as degraded
+const LOW_DISK_RATIO = 0.1
+
+export type SubsystemState = 'up' | 'degraded' | 'down' | 'unknown'
+
+export interface Subsystem {
+  key: string
+  label: string
+  state: SubsystemState
+  detail: string
+}
+
+export const WORKER_STATE_LABELS: Record<WorkerState, string> = {
+  0: 'Idle',
+  1: 'Active',
+  2: 'Stalled',
+  3: 'Unknown',
+}
+
+export function useSystemHealth() {
+  const statusQuery = useGetSystemStatus({
+    query: { refetchInterval: SYSTEM_STATUS_REFRESH_MS, retry: false },
+  })
+
+  const status = computed(() => statusQuery.data.value ?? null)
+
+  // The API is probed through the status endpoint: in production the proxy answers /health
+  // itself, so that path says nothing about the API behind it
+  const subsystems = computed<Subsystem[]>(() => {
+    // Checked before the data, which is kept from the last success when a refetch fails
+    const api: Subsystem = statusQuery.isError.value
+      ? apiErrorState(statusQuery.error.value)
+      : status.value
+        ? { key: 'api', label: 'API', state: 'up', detail: 'Responding' }
+        : { key: 'api', label: 'API', state: 'unknown', detail: 'Checking...' }
+
+    if (!status.value) return [api]
+    return [api, ...describeStatus(status.value)]
+  })
+
+  const downSubsystems = computed(() => subsystems.value.filter((s) => s.state === 'down'))
+
+  async function refresh() {
+    await statusQuery.refetch()
+  }
+
+  return {
+    statusQuery,
+    status,
+    subsystems,
+    downSubsystems,
+    refresh,
+  }
+}
+
+/**
+ * An error the API itself returned (e.g. an expired session) still means it is up;
+ * network failures, timeouts and gateway errors mean it is not reachable.
+ */
+function apiErrorState(error: unknown): Subsystem {
+  if (error instanceof ApiError && error.status < 500) {
+    return { key: 'api', label: 'API', state: 'up', detail: `Responding (${error.status})` }
+  }
+  const detail = error instanceof ApiError ? `Failing (${error.status})` : 'The API is not responding'
+  return { key: 'api', label: 'API', state: 'down', detail }
+}
+
+function describeStatus(status: AdminSystemStatusDto): Subsystem[] {
+  const { database, worker, storage } = status
+
+  const disk: Subsystem = { key: 'storage', label: 'Image Storage', state: 'up', detail: '' }
+  if (storage.freeBytes == null || storage.totalBytes == null) {
+    disk.state = 'unknown'
+    disk.detail = 'Free space could not be read'
+  } else {
+    disk.state = storage.freeBytes / storage.totalBytes < LOW_DISK_RATIO ? 'degraded' : 'up'
+    disk.detail = `${formatBytes(storage.freeBytes)} free of ${formatBytes(storage.totalBytes)}`
+  }
+
+  return [
+    {
+      key: 'database',
+      label: 'Database',
+      state: database.connected ? 'up' : 'down',
+      detail: database.connected ? `Connected (${database.latencyMs ?? '?'} ms)` : (database.error ?? 'Unreachable'),
+    },
+    {
+      key: 'clip',
+      label: 'CLIP Model',
+      state: status.clipModelLoaded ? 'up' : 'down',
+      detail: status.clipModelLoaded ? 'Loaded' : 'Not loaded, searches use fallback embeddings',
+    },
+    {
+      key: 'yolo',
+      label: 'YOLO Model',
+      state: status.yoloModelLoaded ? 'up' : 'down',
+      detail: status.yoloModelLoaded ? 'Loaded' : 'Not loaded, object detection is off',
+    },
+    {
+      key: 'worker',
+      label: 'Crawler Worker',
+      state: worker.state === 2 ? 'down' : worker.state === 3 ? 'unknown' : 'up',
+      detail: WORKER_STATE_LABELS[worker.state],
+    },
+    disk,
+  ]
+}
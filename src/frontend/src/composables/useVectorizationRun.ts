@@ -0,0 +1,121 @@
+import { computed, onMounted, onUnmounted, ref, unref, type MaybeRef } from 'vue'
+import { useQueryClient } from '@tanstack/vue-query'
+import {
+  useVectorizeAll,
+  useCancelVectorizeAll,
+  useCreateSseTicket,
+  getProductsQueryKey,
+  getStatsQueryKey,
+  type VectorizationRunDto,
+} from '@/api/generated'
+
+const SSE_RECONNECT_MS = 5000
+
+interface VectorizationSsePayload {
+  run: VectorizationRunDto | null
+  timestampUtc: string
+}
+
+/**
+ * Follows the server-side "vectorize all" run over SSE while the calling component is mounted.
+ */
+export function useVectorizationRun(force: MaybeRef<boolean>) {
+  const queryClient = useQueryClient()
+
+  const run = ref<VectorizationRunDto | null>(null)
+  const isRunning = computed(() => run.value?.status === 0)
+
+  // SSE
+  let sseConnection: EventSource | null = null
+  let sseReconnectTimeout: ReturnType<typeof setTimeout> | null = null
+  let sseConnecting = false
+  let sseStopped = false
+
+  const startMutation = useVectorizeAll(computed(() => ({ force: unref(force) })))
+  const cancelMutation = useCancelVectorizeAll()
+  const sseTicketMutation = useCreateSseTicket()
+
+  onMounted(async () => {
+    await connect()
+  })
+
+  onUnmounted(() => {
+    sseStopped = true
+    disconnect()
+  })
+
+  function applyRun(next: VectorizationRunDto | null) {
+    const wasRunning = isRunning.value
+    run.value = next
+    // Embeddings changed, so refresh product badges and dashboard counters once the run stops
+    if (wasRunning && !isRunning.value) {
+      queryClient.invalidateQueries({ queryKey: getProductsQueryKey() })
+      queryClient.invalidateQueries({ queryKey: getStatsQueryKey() })
+    }
+  }
+
+  async function connect() {
+    if (sseStopped || sseConnection || sseConnecting) return
+    sseConnecting = true
+    try {
+      const { ticket } = await sseTicketMutation.mutateAsync({ purpose: 'vectorization' })
+      const es = new EventSource(`/api/admin/vectorize-all/sse?${new URLSearchParams({ ticket })}`)
+
+      es.addEventListener('vectorization-progress', (event) => {
+        try {
+          const payload = JSON.parse((event as MessageEvent).data) as VectorizationSsePayload
+          applyRun(payload.run)
+        } catch {
+          // ignore parse errors
+        }
+      })
+
+      es.addEventListener('error', () => {
+        es.close()
+        if (sseConnection === es) {
+          sseConnection = null
+        }
+        if (!sseStopped) {
+          if (sseReconnectTimeout) clearTimeout(sseReconnectTimeout)
+          sseReconnectTimeout = setTimeout(() => {
+            connect()
+          }, SSE_RECONNECT_MS)
+        }
+      })
+
+      sseConnection = es
+    } catch (e) {
+      console.error('Failed to connect vectorization SSE:', e)
+    } finally {
+      sseConnecting = false
+    }
+  }
+
+  function disconnect() {
+    if (sseReconnectTimeout) {
+      clearTimeout(sseReconnectTimeout)
+      sseReconnectTimeout = null
+    }
+    if (sseConnection) {
+      sseConnection.close()
+      sseConnection = null
+    }
+  }
+
+  async function start() {
+    applyRun(await startMutation.mutateAsync())
+  }
+
+  async function cancel() {
+    applyRun(await cancelMutation.mutateAsync())
+  }
+
+  return {
+    run,
+    isRunning,
+    isStarting: startMutation.isPending,
+    isCanceling: computed(() => cancelMutation.isPending.value || !!run.value?.cancelRequested),
+    start,
+    cancel,
+  }
+}
@@ -1,28 +1,83 @@
 import Dexie, { type Table } from 'dexie'
-import type { ProductResult } from '@/api/client'
+import type { DetectedObjectResults, ProductResult } from '@/api/generated'
+
+// One search in a "more like this" chain, e.g. photo -> sofa A -> sofa B
+export interface SearchTrailStep {
+  historyId: number
+  label: string
+  thumbnail: string
+}
 
 export interface SearchHistoryItem {
   id?: number
   thumbnail: string // Data URL
   query: string
   resultsCount: number
-  results?: ProductResult[] // Top results
+  results?: ProductResult[] // All results (older records keep only the top 5)
+  detectedObjects?: DetectedObjectResults[]
+  imageBlob?: Blob // Resized image that was sent to the server
+  processingTimeMs?: number
+  embeddingTimeMs?: number
+  trail?: SearchTrailStep[] // Searches that led to this one, oldest first
   timestamp: number // Unix timestamp
 }
 
 export interface FavoriteProduct {
   id?: number
   productId: number
+  collectionId: number
   name: string
   price: number
   imageUrl: string
   providerName: string
+  note?: string
   addedAt: Date
 }
 
+export interface FavoriteCollection {
+  id?: number
+  name: string
+  createdAt: Date
+}
+
+// Portable format used by collection export/import
+export interface CollectionExport {
+  name: string
+  exportedAt: string
+  items: {
+    productId: number
+    name: string
+    price: number
+    imageUrl: string
+    providerName: string
+    note?: string
+    addedAt: string
+  }[]
+}
+
+export const DEFAULT_COLLECTION_NAME = 'Favorites'
+
 // Type alias for view compatibility
 export type FavoriteItem = FavoriteProduct
 
+// Image search made while offline, submitted once connectivity returns
+export interface QueuedSearch {
+  id?: number
+  imageBlob: Blob // Already cropped and resized
+  thumbnail: string // Data URL
+  query: string
+  trail?: SearchTrailStep[]
+  createdAt: Date
+}
+
+// Client-measured latency of one search, kept separately from history so clearing history keeps the metrics
+export interface SearchTiming {
+  id?: number
+  processingTimeMs: number
+  embeddingTimeMs?: number
+  timestamp: number // Unix timestamp
+}
+
 export interface RecentlyViewedProduct {
   id?: number
   productId: number
@@ -36,7 +91,10 @@ export interface RecentlyViewedProduct {
 export class VisualSearchDatabase extends Dexie {
   searchHistory!: Table<SearchHistoryItem>
   favorites!: Table<FavoriteProduct>
+  collections!: Table<FavoriteCollection>
+  queuedSearches!: Table<QueuedSearch>
   recentlyViewed!: Table<RecentlyViewedProduct>
+  searchTimings!: Table<SearchTiming>
 
   constructor() {
     super('VisualSearchDB')
@@ -46,27 +104,71 @@ export class VisualSearchDatabase extends Dexie {
       favorites: '++id, productId, addedAt',
       recentlyViewed: '++id, productId, viewedAt',
     })
+
+    // v2: favorites are grouped into named collections
+    this.version(2)
+      .stores({
+        favorites: '++id, productId, collectionId, addedAt',
+        collections: '++id, name, createdAt',
+      })
+      .upgrade(async (tx) => {
+        const collectionId = await tx.table('collections').add({
+          name: DEFAULT_COLLECTION_NAME,
+          createdAt: new Date(),
+        })
+        await tx
+          .table('favorites')
+          .toCollection()
+          .modify((favorite: FavoriteProduct) => {
+            favorite.collectionId = collectionId as number
+          })
+      })
+
+    // v3: searches queued while offline
+    this.version(3).stores({
+      queuedSearches: '++id, createdAt',
+    })
+
+    // v4: search latency for the admin dashboard
+    this.version(4).stores({
+      searchTimings: '++id, timestamp',
+    })
   }
 }
 
 export const db = new VisualSearchDatabase()
 
+// Searches beyond this many are deleted, and only the newest keep the image so they can be re-cropped
+const SEARCH_HISTORY_LIMIT = 200
+const SEARCH_HISTORY_IMAGE_LIMIT = 20
+
 // Helper functions
 export async function addSearchHistory(
-  thumbnail: string,
-  query: string,
-  resultsCount: number,
-  results?: ProductResult[]
+  entry: Omit<SearchHistoryItem, 'id' | 'timestamp'>
 ): Promise<number> {
-  return db.searchHistory.add({
-    thumbnail,
-    query,
-    resultsCount,
-    results: results?.slice(0, 5), // Store top 5 results
-    timestamp: Date.now(),
+  return db.transaction('rw', db.searchHistory, async () => {
+    const id = await db.searchHistory.add({
+      ...entry,
+      timestamp: Date.now(),
+    })
+
+    const newestFirst = () => db.searchHistory.orderBy('timestamp').reverse()
+    await newestFirst().offset(SEARCH_HISTORY_LIMIT).delete()
+    await newestFirst()
+      .offset(SEARCH_HISTORY_IMAGE_LIMIT)
+      .filter((item) => item.imageBlob !== undefined)
+      .modify((item) => {
+        delete item.imageBlob
+      })
+
+    return id
   })
 }
 
+export async function getSearchHistoryItem(id: number): Promise<SearchHistoryItem | undefined> {
+  return db.searchHistory.get(id)
+}
+
 export async function getSearchHistory(limit = 50): Promise<SearchHistoryItem[]> {
   return db.searchHistory.orderBy('timestamp').reverse().limit(limit).toArray()
 }
@@ -79,7 +181,10 @@ export async function clearSearchHistory(): Promise<void> {
   await db.searchHistory.clear()
 }
 
-export async function addFavorite(product: Omit<FavoriteProduct, 'id' | 'addedAt'>): Promise<number> {
+export async function addFavorite(
+  product: Omit<FavoriteProduct, 'id' | 'addedAt' | 'collectionId'>,
+  collectionId?: number
+): Promise<number> {
   // Check if already favorited
   const existing = await db.favorites.where('productId').equals(product.productId).first()
   if (existing) {
@@ -88,6 +193,7 @@ export async function addFavorite(product: Omit<FavoriteProduct, 'id' | 'addedAt
 
   return db.favorites.add({
     ...product,
+    collectionId: collectionId ?? (await getDefaultCollectionId()),
     addedAt: new Date(),
   })
 }
@@ -108,8 +214,130 @@ export async function getFavorites(): Promise<FavoriteProduct[]> {
 export async function clearFavorites(): Promise<void> {
   await db.favorites.clear()
 }
+
+export async function moveFavorite(id: number, collectionId: number): Promise<void> {
+  await db.favorites.update(id, { collectionId })
+}
+
+export async function updateFavoriteNote(id: number, note: string): Promise<void> {
+  await db.favorites.update(id, { note: note.trim() || undefined })
+}
+
+export async function getCollections(): Promise<FavoriteCollection[]> {
+  return db.collections.orderBy('createdAt').toArray()
+}
+
+export async function createCollection(name: string): Promise<number> {
+  return db.collections.add({ name: name.trim(), createdAt: new Date() })
+}
+
+export async function renameCollection(id: number, name: string): Promise<void> {
+  await db.collections.update(id, { name: name.trim() })
+}
+
+export async function deleteCollection(id: number): Promise<void> {
+  await db.transaction('rw', db.collections, db.favorites, async () => {
+    await db.favorites.where('collectionId').equals(id).delete()
+    await db.collections.delete(id)
+  })
+}
+
+/**
+ * Get the collection new favorites go into, creating it if needed.
+ */
+export async function getDefaultCollectionId(): Promise<number> {
+  const first = await db.collections.orderBy('createdAt').first()
+  if (first) {
+    return first.id!
+  }
+  return createCollection(DEFAULT_COLLECTION_NAME)
+}
+
+export async function exportCollection(id: number): Promise<CollectionExport> {
+  const collection = await db.collections.get(id)
+  if (!collection) {
+    throw new Error('Collection not found')
+  }
+
+  const items = await db.favorites.where('collectionId').equals(id).sortBy('addedAt')
+  return {
+    name: collection.name,
+    exportedAt: new Date().toISOString(),
+    items: items.map((item) => ({
+      productId: item.productId,
+      name: item.name,
+      price: item.price,
+      imageUrl: item.imageUrl,
+      providerName: item.providerName,
+      note: item.note,
+      addedAt: new Date(item.addedAt).toISOString(),
+    })),
+  }
+}
+
+export function collectionToCsv(data: CollectionExport): string {
+  const header = ['productId', 'name', 'price', 'providerName', 'imageUrl', 'note', 'addedAt']
+  const rows = data.items.map((item) =>
+    [item.productId, item.name, item.price, item.providerName, item.imageUrl, item.note ?? '', item.addedAt]
+      .map((value) => csvEscape(String(value)))
+      .join(',')
+  )
+  return [header.join(','), ...rows].join('\r\n')
+}
+
+function csvEscape(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Import a collection from its JSON export as a new collection.
+ * Products that are already favorited elsewhere are moved into it.
+ */
+export async function importCollection(json: string): Promise<number> {
+  let data: CollectionExport
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+
+  if (typeof data?.name !== 'string' || !Array.isArray(data.items)) {
+    throw new Error('File is not a collection export')
+  }
+
+  return db.transaction('rw', db.collections, db.favorites, async () => {
+    const collectionId = await createCollection(data.name || 'Imported')
+
+    for (const item of data.items) {
+      if (typeof item.productId !== 'number') continue
+
+      const fields = {
+        collectionId,
+        name: String(item.name ?? ''),
+        price: Number(item.price) || 0,
+        imageUrl: String(item.imageUrl ?? ''),
+        providerName: String(item.providerName ?? ''),
+        note: item.note ? String(item.note) : undefined,
+      }
+      const existing = await db.favorites.where('productId').equals(item.productId).first()
+      if (existing) {
+        await db.favorites.update(existing.id!, fields)
+      } else {
+        await db.favorites.add({
+          ...fields,
+          productId: item.productId,
+          addedAt: item.addedAt ? new Date(item.addedAt) : new Date(),
+        })
+      }
+    }
+
+    return collectionId
+  })
+}
+
 export async function addRecentlyViewed(
-  product: Omit<RecentlyViewedProduct, 'id' | 'viewedAt'>
+  product: Omit<RecentlyViewedProduct, 'id' | 'viewedAt'>,
+  limit = 50
 ): Promise<number> {
   // Remove existing entry if present
   await db.recentlyViewed.where('productId').equals(product.productId).delete()
@@ -120,10 +348,10 @@ export async function addRecentlyViewed(
     viewedAt: new Date(),
   })
 
-  // Keep only last 50 items
+  // Keep only the last `limit` items
   const count = await db.recentlyViewed.count()
-  if (count > 50) {
-    const oldest = await db.recentlyViewed.orderBy('viewedAt').limit(count - 50).toArray()
+  if (count > limit) {
+    const oldest = await db.recentlyViewed.orderBy('viewedAt').limit(count - limit).toArray()
     await db.recentlyViewed.bulkDelete(oldest.map((item) => item.id!))
   }
 
@@ -133,3 +361,43 @@ export async function addRecentlyViewed(
 export async function getRecentlyViewed(limit = 20): Promise<RecentlyViewedProduct[]> {
   return db.recentlyViewed.orderBy('viewedAt').reverse().limit(limit).toArray()
 }
+
+export async function removeRecentlyViewed(productId: number): Promise<void> {
+  await db.recentlyViewed.where('productId').equals(productId).delete()
+}
+
+export async function clearRecentlyViewed(): Promise<void> {
+  await db.recentlyViewed.clear()
+}
+
+export async function queueSearch(search: Omit<QueuedSearch, 'id' | 'createdAt'>): Promise<number> {
+  return db.queuedSearches.add({
+    ...search,
+    createdAt: new Date(),
+  })
+}
+
+export async function getQueuedSearches(): Promise<QueuedSearch[]> {
+  return db.queuedSearches.orderBy('createdAt').toArray()
+}
+
+export async function countQueuedSearches(): Promise<number> {
+  return db.queuedSearches.count()
+}
+
+export async function deleteQueuedSearch(id: number): Promise<void> {
+  await db.queuedSearches.delete(id)
+}
+
+// The dashboard can chart at most 90 days, so older timings are never read
+const SEARCH_TIMING_RETENTION_MS = 90 * 24 * 60 * 60 * 1000
+
+export async function recordSearchTiming(timing: Omit<SearchTiming, 'id' | 'timestamp'>): Promise<void> {
+  const now = Date.now()
+  await db.searchTimings.add({ ...timing, timestamp: now })
+  await db.searchTimings.where('timestamp').below(now - SEARCH_TIMING_RETENTION_MS).delete()
+}
+
+export async function getSearchTimings(from: number, to: number): Promise<SearchTiming[]> {
+  return db.searchTimings.where('timestamp').between(from, to, true, false).toArray()
+}
@@ -3,6 +3,7 @@ import { createPinia } from 'pinia'
 import { VueQueryPlugin } from '@tanstack/vue-query'
 import App from './App.vue'
 import router from './router'
+import { registerServiceWorker } from './pwa'
 import './styles/main.scss'
 
 const app = createApp(App)
@@ -23,3 +24,5 @@ app.use(VueQueryPlugin, {
 app.use(router)
 
 app.mount('#app')
+
+registerServiceWorker()
@@ -0,0 +1,40 @@
+import { registerSW } from 'virtual:pwa-register'
+
+// Must match the runtime caching rule for images in vite.config.ts
+export const IMAGE_CACHE_NAME = 'product-images'
+
+/**
+ * Register the service worker generated by vite-plugin-pwa.
+ * New versions activate on the next page load.
+ */
+export function registerServiceWorker() {
+  if (!('serviceWorker' in navigator)) return
+
+  registerSW({
+    immediate: true,
+    onRegisterError(error) {
+      console.error('Service worker registration failed:', error)
+    },
+  })
+}
+
+/**
+ * Put images into the service worker's image cache so they render offline,
+ * skipping any that are already cached.
+ */
+export async function warmImageCache(urls: string[]): Promise<void> {
+  if (!('caches' in window) || urls.length === 0) return
+
+  const cache = await caches.open(IMAGE_CACHE_NAME)
+  for (const url of urls) {
+    if (await cache.match(url)) continue
+
+    try {
+      // Product images live on provider CDNs, so this yields opaque responses
+      const request = new Request(url, { mode: 'no-cors' })
+      await cache.put(request, await fetch(request))
+    } catch {
+      // Ignore images that can't be fetched; they'll be cached when next displayed
+    }
+  }
+}
@@ -1,5 +1,6 @@
-import { createRouter, createWebHistory, type RouteRecordRaw } from 'vue-router'
+import { createRouter, createWebHistory, type RouteLocationNormalized, type RouteRecordRaw } from 'vue-router'
 import { useAuthStore } from '@/stores/auth'
+import { useSettingsStore } from '@/stores/settings'
 
 const routes: RouteRecordRaw[] = [
   {
@@ -9,7 +10,7 @@ const routes: RouteRecordRaw[] = [
     meta: { title: 'Home' },
   },
   {
-    path: '/search',
+    path: '/search/:historyId?',
     name: 'search',
     component: () => import('@/views/SearchView.vue'),
     meta: { title: 'Search' },
@@ -20,6 +21,12 @@ const routes: RouteRecordRaw[] = [
     component: () => import('@/views/HistoryView.vue'),
     meta: { title: 'History' },
   },
+  {
+    path: '/recent',
+    name: 'recent',
+    component: () => import('@/views/RecentlyViewedView.vue'),
+    meta: { title: 'Recently Viewed' },
+  },
   {
     path: '/favorites',
     name: 'favorites',
@@ -68,18 +75,48 @@ const routes: RouteRecordRaw[] = [
     component: () => import('@/views/admin/AdminJobsView.vue'),
     meta: { title: 'Crawl Jobs', requiresAuth: true },
   },
+  {
+    path: '/admin/jobs/:id',
+    name: 'admin-job-detail',
+    component: () => import('@/views/admin/AdminJobDetailView.vue'),
+    meta: { title: 'Crawl Job', requiresAuth: true },
+  },
   {
     path: '/admin/import',
     name: 'admin-import',
     component: () => import('@/views/admin/AdminImportView.vue'),
     meta: { title: 'Product Import', requiresAuth: true },
   },
+  {
+    path: '/admin/categories',
+    name: 'admin-categories',
+    component: () => import('@/views/admin/AdminCategoriesView.vue'),
+    meta: { title: 'Categories', requiresAuth: true },
+  },
+  {
+    path: '/admin/system',
+    name: 'admin-system',
+    component: () => import('@/views/admin/AdminSystemView.vue'),
+    meta: { title: 'System Health', requiresAuth: true },
+  },
+  {
+    path: '/admin/users',
+    name: 'admin-users',
+    component: () => import('@/views/admin/AdminUsersView.vue'),
+    meta: { title: 'Admin Users', requiresAuth: true },
+  },
   {
     path: '/admin/products/new',
     name: 'admin-product-new',
     component: () => import('@/views/admin/AdminProductFormView.vue'),
     meta: { title: 'New Product', requiresAuth: true },
   },
+  {
+    path: '/admin/products/import',
+    name: 'admin-product-import',
+    component: () => import('@/views/admin/AdminProductImportView.vue'),
+    meta: { title: 'Import Catalog', requiresAuth: true },
+  },
   {
     path: '/admin/products/:id/edit',
     name: 'admin-product-edit',
@@ -105,12 +142,18 @@ const router = createRouter({
   },
 })
 
+/**
+ * Titles the page after the route and the configured site name. Also called when the site name changes.
+ */
+export function updateDocumentTitle(route: RouteLocationNormalized = router.currentRoute.value) {
+  const siteName = useSettingsStore().siteName
+  document.title = route.meta.title ? `${route.meta.title} | ${siteName}` : siteName
+}
+
 router.beforeEach((to, _from, next) => {
   const authStore = useAuthStore()
 
-  // Update document title
-  const siteName = 'Visual Search'
-  document.title = to.meta.title ? `${to.meta.title} | ${siteName}` : siteName
+  updateDocumentTitle(to)
 
   // Check authentication for protected routes
   if (to.meta.requiresAuth && !authStore.isAuthenticated) {
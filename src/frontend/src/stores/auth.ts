@@ -1,13 +1,8 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { apiClient } from '@/api/client'
-
-interface LoginResponse {
-  token: string
-  username: string
-  mustChangePassword: boolean
-  expiresAt: string
-}
+import type { ChangePasswordResponse, LoginResponse } from '@/api/generated'
+import router from '@/router'
 
 interface LoginResult {
   success: boolean
@@ -15,15 +10,25 @@ interface LoginResult {
   error?: string
 }
 
+// How long before the JWT expires to warn the user
+const SESSION_WARNING_MS = 5 * 60 * 1000
+// setTimeout overflows above ~24.8 days
+const MAX_TIMER_MS = 2 ** 31 - 1
+
 export const useAuthStore = defineStore('auth', () => {
   const token = ref<string | null>(localStorage.getItem('auth_token'))
   const username = ref<string | null>(localStorage.getItem('auth_username'))
   const mustChangePassword = ref(localStorage.getItem('auth_must_change') === 'true')
+  const expiresAt = ref<string | null>(localStorage.getItem('auth_expires_at'))
+  const isExpiringSoon = ref(false)
   const isLoading = ref(false)
   const error = ref<string | null>(null)
 
   const isAuthenticated = computed(() => !!token.value)
 
+  let warningTimer: ReturnType<typeof setTimeout> | null = null
+  let expiryTimer: ReturnType<typeof setTimeout> | null = null
+
   async function login(usernameInput: string, password: string): Promise<LoginResult> {
     isLoading.value = true
     error.value = null
@@ -42,6 +47,7 @@ export const useAuthStore = defineStore('auth', () => {
       localStorage.setItem('auth_token', response.token)
       localStorage.setItem('auth_username', response.username)
       localStorage.setItem('auth_must_change', String(response.mustChangePassword))
+      setExpiresAt(response.expiresAt)
 
       return { success: true, mustChangePassword: response.mustChangePassword }
     } catch (err) {
@@ -58,7 +64,7 @@ export const useAuthStore = defineStore('auth', () => {
     error.value = null
 
     try {
-      const response = await apiClient<{ success: boolean; token?: string; expiresAt?: string }>({
+      const response = await apiClient<ChangePasswordResponse>({
         url: '/api/auth/change-password',
         method: 'POST',
         data: { username: usernameInput, currentPassword, newPassword },
@@ -70,6 +76,7 @@ export const useAuthStore = defineStore('auth', () => {
         mustChangePassword.value = false
         localStorage.setItem('auth_token', response.token)
         localStorage.setItem('auth_must_change', 'false')
+        setExpiresAt(response.expiresAt ?? null)
       }
 
       return true
@@ -89,8 +96,64 @@ export const useAuthStore = defineStore('auth', () => {
     localStorage.removeItem('auth_token')
     localStorage.removeItem('auth_username')
     localStorage.removeItem('auth_must_change')
+    setExpiresAt(null)
+  }
+
+  /**
+   * Called when the API rejects our token. Clears the session and, on a
+   * protected page, sends the user to login so they can come back afterwards.
+   */
+  function handleUnauthorized() {
+    logout()
+
+    const current = router.currentRoute.value
+    if (current.meta.requiresAuth) {
+      router.push({ name: 'admin-login', query: { redirect: current.fullPath } })
+    }
   }
 
+  function setExpiresAt(value: string | null) {
+    expiresAt.value = value
+    if (value) {
+      localStorage.setItem('auth_expires_at', value)
+    } else {
+      localStorage.removeItem('auth_expires_at')
+    }
+    scheduleSessionTimers()
+  }
+
+  /**
+   * Warn shortly before the token expires, and end the session once it has.
+   */
+  function scheduleSessionTimers() {
+    if (warningTimer) clearTimeout(warningTimer)
+    if (expiryTimer) clearTimeout(expiryTimer)
+    warningTimer = null
+    expiryTimer = null
+    isExpiringSoon.value = false
+
+    if (!token.value || !expiresAt.value) return
+
+    const remainingMs = new Date(expiresAt.value).getTime() - Date.now()
+    if (Number.isNaN(remainingMs)) return
+    if (remainingMs <= 0) {
+      handleUnauthorized()
+      return
+    }
+    if (remainingMs > MAX_TIMER_MS) return
+
+    if (remainingMs <= SESSION_WARNING_MS) {
+      isExpiringSoon.value = true
+    } else {
+      warningTimer = setTimeout(() => {
+        isExpiringSoon.value = true
+      }, remainingMs - SESSION_WARNING_MS)
+    }
+    expiryTimer = setTimeout(handleUnauthorized, remainingMs)
+  }
+
+  scheduleSessionTimers()
+
   function getAuthHeader(): Record<string, string> {
     if (token.value) {
       return { Authorization: `Bearer ${token.value}` }
@@ -102,12 +165,15 @@ export const useAuthStore = defineStore('auth', () => {
     token,
     username,
     mustChangePassword,
+    expiresAt,
+    isExpiringSoon,
     isLoading,
     error,
     isAuthenticated,
     login,
     changePassword,
     logout,
+    handleUnauthorized,
     getAuthHeader,
   }
 })
@@ -0,0 +1,168 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { TimeoutError, uploadImage } from '@/api/client'
+import type { ImageSearchResponse } from '@/api/generated'
+import {
+  addSearchHistory,
+  getFavorites,
+  getSearchHistory,
+  queueSearch as addQueuedSearch,
+  getQueuedSearches,
+  countQueuedSearches,
+  deleteQueuedSearch,
+  recordSearchTiming,
+  type QueuedSearch,
+} from '@/db'
+import { warmImageCache } from '@/pwa'
+import router from '@/router'
+
+export const useOfflineStore = defineStore('offline', () => {
+  // State
+  const isOnline = ref(navigator.onLine)
+  const queuedCount = ref(0)
+  const isProcessing = ref(false)
+  const listening = ref(false)
+
+  /**
+   * Start tracking connectivity and submit queued searches whenever we come back online.
+   */
+  async function start() {
+    if (listening.value) return
+    listening.value = true
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+
+    queuedCount.value = await countQueuedSearches()
+    if (isOnline.value) {
+      await processQueue()
+      await warmCachedImages()
+    }
+  }
+
+  function stop() {
+    window.removeEventListener('online', handleOnline)
+    window.removeEventListener('offline', handleOffline)
+    listening.value = false
+  }
+
+  function handleOnline() {
+    isOnline.value = true
+    processQueue()
+  }
+
+  function handleOffline() {
+    isOnline.value = false
+  }
+
+  /**
+   * Store a search to run later. Asks for notification permission so we can
+   * tell the user when its results arrive.
+   */
+  async function queueSearch(search: Omit<QueuedSearch, 'id' | 'createdAt'>): Promise<void> {
+    await addQueuedSearch(search)
+    queuedCount.value++
+
+    if ('Notification' in window && Notification.permission === 'default') {
+      await Notification.requestPermission()
+    }
+  }
+
+  /**
+   * Submit queued searches in order; each one lands in search history.
+   * Stops at the first network failure and retries on the next 'online' event.
+   */
+  async function processQueue() {
+    if (isProcessing.value || !navigator.onLine) return
+    isProcessing.value = true
+
+    try {
+      for (const queued of await getQueuedSearches()) {
+        let response: ImageSearchResponse
+        try {
+          response = await uploadImage(queued.imageBlob)
+        } catch (err) {
+          // A network error or timeout means we went offline again; retry on the next 'online'
+          if (err instanceof TypeError || err instanceof TimeoutError) break
+          console.error('Queued search failed:', err)
+          await removeFromQueue(queued.id!)
+          continue
+        }
+
+        await recordSearchTiming({
+          processingTimeMs: response.processingTimeMs,
+          embeddingTimeMs: response.embeddingTimeMs,
+        })
+        const historyId = await addSearchHistory({
+          thumbnail: queued.thumbnail,
+          query: queued.query,
+          resultsCount: response.results.length,
+          results: response.results,
+          detectedObjects: response.detectedObjects ?? [],
+          imageBlob: queued.imageBlob,
+          processingTimeMs: response.processingTimeMs,
+          embeddingTimeMs: response.embeddingTimeMs,
+          trail: queued.trail,
+        })
+        await removeFromQueue(queued.id!)
+        notifyResults(historyId, response.results.length)
+      }
+    } finally {
+      isProcessing.value = false
+    }
+  }
+
+  async function removeFromQueue(id: number) {
+    await deleteQueuedSearch(id)
+    queuedCount.value = Math.max(0, queuedCount.value - 1)
+  }
+
+  function notifyResults(historyId: number, resultsCount: number) {
+    if (!('Notification' in window) || Notification.permission !== 'granted') return
+
+    const notification = new Notification('Search results ready', {
+      body: `Your queued search found ${resultsCount} results.`,
+      icon: '/favicon.svg',
+      tag: `queued-search-${historyId}`,
+    })
+    notification.onclick = () => {
+      window.focus()
+      router.push({ name: 'search', params: { historyId: String(historyId) } })
+      notification.close()
+    }
+  }
+
+  /**
+   * Pre-fetch product images from favorites and recent history so they render offline.
+   */
+  async function warmCachedImages() {
+    const [favorites, history] = await Promise.all([
+      getFavorites(),
+      getSearchHistory(20),
+    ])
+
+    const urls = new Set<string>()
+    for (const favorite of favorites) {
+      urls.add(favorite.imageUrl)
+    }
+    for (const item of history) {
+      for (const result of item.results?.slice(0, 12) ?? []) {
+        urls.add(result.imageUrl)
+      }
+    }
+
+    await warmImageCache([...urls])
+  }
+
+  return {
+    // State
+    isOnline,
+    queuedCount,
+    isProcessing,
+    // Actions
+    start,
+    stop,
+    queueSearch,
+    processQueue,
+  }
+})
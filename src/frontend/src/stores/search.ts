@@ -1,7 +1,53 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import { uploadImage, type ImageSearchResponse, type ProductResult } from '@/api/client'
-import { addSearchHistory } from '@/db'
+import { fetchProductImage, isAbortError, uploadImage } from '@/api/client'
+import type { DetectedObjectResults, ImageSearchResponse, ProductResult } from '@/api/generated'
+import { addSearchHistory, getSearchHistoryItem, recordSearchTiming, type SearchTrailStep } from '@/db'
+import { useOfflineStore } from '@/stores/offline'
+
+/**
+ * Region of the uploaded image to search, as fractions (0-1) of its width/height.
+ */
+export interface CropRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type ResultSort = 'similarity-desc' | 'similarity-asc' | 'price-asc' | 'price-desc'
+
+/**
+ * Client-side filters applied to the current results.
+ * Price bounds of null mean "no limit"; minSimilarity is a 0-1 fraction.
+ */
+export interface ResultFilters {
+  providers: string[]
+  minPrice: number | null
+  maxPrice: number | null
+  minSimilarity: number
+  sort: ResultSort
+}
+
+export function defaultResultFilters(): ResultFilters {
+  return {
+    providers: [],
+    minPrice: null,
+    maxPrice: null,
+    minSimilarity: 0,
+    sort: 'similarity-desc',
+  }
+}
+
+/**
+ * Where a search came from: its breadcrumb label and the searches that led to it.
+ */
+export interface SearchOrigin {
+  label?: string
+  trail?: SearchTrailStep[]
+}
+
+const PHOTO_SEARCH_LABEL = 'Image Search'
 
 /**
  * Centralized search state store.
@@ -11,6 +57,9 @@ import { addSearchHistory } from '@/db'
 export const useSearchStore = defineStore('search', () => {
   // State
   const results = ref<ProductResult[]>([])
+  const detectedObjects = ref<DetectedObjectResults[]>([])
+  const selectedObjectIndex = ref<number | null>(null)
+  const queryImageSize = ref<{ width: number; height: number } | null>(null)
   const processingTimeMs = ref<number | null>(null)
   const embeddingTimeMs = ref<number | null>(null)
   const isSearching = ref(false)
@@ -18,71 +67,281 @@ export const useSearchStore = defineStore('search', () => {
   const error = ref<string | null>(null)
   const previewUrl = ref<string | null>(null)
   const uploadedFile = ref<File | null>(null)
+  const cropRegion = ref<CropRegion | null>(null)
+  const filters = ref<ResultFilters>(defaultResultFilters())
+  const historyId = ref<number | null>(null)
+  const searchedAt = ref<number | null>(null)
+  const trail = ref<SearchTrailStep[]>([])
+  const isQueued = ref(false)
+
+  // Lets a new search cancel the one still in flight
+  let activeSearch: AbortController | null = null
 
   // Computed
   const hasResults = computed(() => results.value.length > 0)
   const resultCount = computed(() => results.value.length)
+  const hasDetections = computed(() => detectedObjects.value.some((o) => !!o.boundingBox))
+  const selectedObject = computed(() =>
+    selectedObjectIndex.value !== null ? detectedObjects.value[selectedObjectIndex.value] ?? null : null
+  )
+  // Results for the selected detected object, or the flat list for "all objects"
+  const visibleResults = computed(() => selectedObject.value?.results ?? results.value)
+
+  const providerOptions = computed(() =>
+    Array.from(new Set(results.value.map((r) => r.providerName))).sort()
+  )
+  const priceBounds = computed(() => {
+    const prices = results.value.map((r) => r.price)
+    return prices.length > 0
+      ? { min: Math.floor(Math.min(...prices)), max: Math.ceil(Math.max(...prices)) }
+      : { min: 0, max: 0 }
+  })
+  const hasActiveFilters = computed(() => {
+    const f = filters.value
+    return f.providers.length > 0 || f.minPrice !== null || f.maxPrice !== null || f.minSimilarity > 0
+  })
+  const filteredResults = computed(() => {
+    const f = filters.value
+    const filtered = visibleResults.value.filter(
+      (r) =>
+        (f.providers.length === 0 || f.providers.includes(r.providerName)) &&
+        (f.minPrice === null || r.price >= f.minPrice) &&
+        (f.maxPrice === null || r.price <= f.maxPrice) &&
+        r.similarity >= f.minSimilarity
+    )
+    return sortResults(filtered, f.sort)
+  })
+
+  // Origin of the current search, used to repeat it without breaking the trail
+  const currentOrigin = computed<SearchOrigin>(() => ({
+    label: trail.value.at(-1)?.label,
+    trail: trail.value.slice(0, -1),
+  }))
 
   /**
    * Perform visual search with an image file.
-   * Handles resizing, upload, and state management.
+   * Handles cropping, resizing, upload, and state management.
+   * When `crop` is given only that region of the image is searched.
+   * `origin` links the search into a "more like this" trail.
    */
-  async function searchWithImage(file: File): Promise<ImageSearchResponse | null> {
+  async function searchWithImage(
+    file: File,
+    crop: CropRegion | null = null,
+    origin: SearchOrigin = {}
+  ): Promise<ImageSearchResponse | null> {
+    const label = origin.label ?? PHOTO_SEARCH_LABEL
+    const parentTrail = origin.trail ?? []
+
+    activeSearch?.abort()
+    const controller = new AbortController()
+    activeSearch = controller
+
     // Clear previous state
     error.value = null
     isSearching.value = true
     hasSearched.value = false
-    uploadedFile.value = file
+    detectedObjects.value = []
+    selectedObjectIndex.value = null
+    cropRegion.value = crop
+    historyId.value = null
+    isQueued.value = false
 
-    // Create preview URL
-    if (previewUrl.value) {
-      URL.revokeObjectURL(previewUrl.value)
+    // Create preview URL (re-cropping the same file keeps the existing one)
+    if (file !== uploadedFile.value || !previewUrl.value) {
+      if (previewUrl.value) {
+        URL.revokeObjectURL(previewUrl.value)
+      }
+      previewUrl.value = URL.createObjectURL(file)
     }
-    previewUrl.value = URL.createObjectURL(file)
+    uploadedFile.value = file
 
     try {
-      // Resize image for faster upload (max 800px)
-      const resizedBlob = await resizeImage(file, 800)
+      // Crop and resize image for faster upload (max 800px)
+      const resizedBlob = await resizeImage(file, 800, crop)
+      queryImageSize.value = await getImageSize(resizedBlob)
+
+      // Offline: queue the search and let the offline store submit it later
+      if (!navigator.onLine) {
+        await useOfflineStore().queueSearch({
+          imageBlob: resizedBlob,
+          thumbnail: await createThumbnailDataUrl(resizedBlob, 100),
+          query: label,
+          trail: parentTrail,
+        })
+        isQueued.value = true
+        return null
+      }
 
       // Upload and search
-      const response = await uploadImage(resizedBlob)
+      const response = await uploadImage(resizedBlob, controller.signal)
 
       // Update state with results
       results.value = response.results
+      detectedObjects.value = response.detectedObjects ?? []
       processingTimeMs.value = response.processingTimeMs
       embeddingTimeMs.value = response.embeddingTimeMs ?? null
       hasSearched.value = true
+      await recordSearchTiming({
+        processingTimeMs: response.processingTimeMs,
+        embeddingTimeMs: response.embeddingTimeMs,
+      })
 
-      // Save to history
-      const thumbnailDataUrl = await createThumbnailDataUrl(file, 100)
-      await addSearchHistory(
-        thumbnailDataUrl,
-        'Image Search',
-        response.results.length,
-        response.results
-      )
+      // Save to history, keeping enough to rebuild the session later
+      const thumbnailDataUrl = await createThumbnailDataUrl(resizedBlob, 100)
+      const savedHistoryId = await addSearchHistory({
+        thumbnail: thumbnailDataUrl,
+        query: label,
+        resultsCount: response.results.length,
+        results: response.results,
+        detectedObjects: response.detectedObjects ?? [],
+        imageBlob: resizedBlob,
+        processingTimeMs: response.processingTimeMs,
+        embeddingTimeMs: response.embeddingTimeMs,
+        trail: parentTrail,
+      })
+      // A newer search started while we were saving; it owns the session now
+      if (controller.signal.aborted) return response
+
+      historyId.value = savedHistoryId
+      searchedAt.value = Date.now()
+      trail.value = [
+        ...parentTrail,
+        { historyId: savedHistoryId, label, thumbnail: thumbnailDataUrl },
+      ]
 
       return response
     } catch (err) {
+      // Superseded by a newer search, which now owns the state
+      if (isAbortError(err)) return null
       error.value = err instanceof Error ? err.message : 'Search failed'
       hasSearched.value = true
       return null
     } finally {
-      isSearching.value = false
+      if (activeSearch === controller) {
+        activeSearch = null
+        isSearching.value = false
+      }
     }
   }
 
+  /**
+   * Perform visual search using a product's image as the query.
+   * The image is loaded through the API, since provider CDNs don't allow cross-origin fetches.
+   */
+  async function searchWithProductImage(
+    productId: number,
+    imageUrl: string,
+    origin: SearchOrigin = {}
+  ): Promise<ImageSearchResponse | null> {
+    let file: File
+    try {
+      const blob = await fetchProductImage(productId, imageUrl)
+      file = new File([blob], 'product.jpg', { type: blob.type || 'image/jpeg' })
+    } catch {
+      clearSearch()
+      error.value = 'Could not load the product image'
+      hasSearched.value = true
+      return null
+    }
+
+    return searchWithImage(file, null, origin)
+  }
+
+  /**
+   * "More like this": search with a product's image, continuing from `parentTrail`.
+   * Pass an empty trail to start a new chain.
+   */
+  async function findSimilar(
+    product: Pick<ProductResult, 'productId' | 'name' | 'imageUrl'>,
+    parentTrail: SearchTrailStep[] = trail.value
+  ): Promise<ImageSearchResponse | null> {
+    return searchWithProductImage(product.productId, product.imageUrl, {
+      label: product.name,
+      trail: [...parentTrail],
+    })
+  }
+
+  /**
+   * Show results for one detected object, or all objects when index is null.
+   */
+  function selectObject(index: number | null) {
+    selectedObjectIndex.value = index
+  }
+
+  /**
+   * Rebuild a past search session from history without contacting the server.
+   * Returns false when the history entry does not exist.
+   */
+  async function loadFromHistory(id: number): Promise<boolean> {
+    const item = await getSearchHistoryItem(id)
+    if (!item) {
+      return false
+    }
+
+    clearSearch()
+    historyId.value = id
+    searchedAt.value = item.timestamp
+    results.value = item.results ?? []
+    detectedObjects.value = item.detectedObjects ?? []
+    processingTimeMs.value = item.processingTimeMs ?? null
+    embeddingTimeMs.value = item.embeddingTimeMs ?? null
+    hasSearched.value = true
+    trail.value = [
+      ...(item.trail ?? []),
+      { historyId: id, label: item.query, thumbnail: item.thumbnail },
+    ]
+
+    // Older records only have the thumbnail; those can be viewed but not re-run
+    if (item.imageBlob) {
+      uploadedFile.value = new File([item.imageBlob], 'image.jpg', { type: item.imageBlob.type })
+      previewUrl.value = URL.createObjectURL(item.imageBlob)
+      queryImageSize.value = await getImageSize(item.imageBlob)
+    } else {
+      previewUrl.value = item.thumbnail
+    }
+
+    return true
+  }
+
+  /**
+   * Run the current session's image again against the current catalog.
+   */
+  async function rerunSearch(): Promise<ImageSearchResponse | null> {
+    if (!uploadedFile.value) {
+      return null
+    }
+    return searchWithImage(uploadedFile.value, cropRegion.value, currentOrigin.value)
+  }
+
+  function setFilters(partial: Partial<ResultFilters>) {
+    filters.value = { ...filters.value, ...partial }
+  }
+
+  function resetFilters() {
+    filters.value = defaultResultFilters()
+  }
+
   /**
    * Clear all search state and reset to initial.
    */
   function clearSearch() {
+    activeSearch?.abort()
+    activeSearch = null
     results.value = []
+    detectedObjects.value = []
+    selectedObjectIndex.value = null
+    queryImageSize.value = null
     processingTimeMs.value = null
     embeddingTimeMs.value = null
     isSearching.value = false
     hasSearched.value = false
     error.value = null
     uploadedFile.value = null
+    cropRegion.value = null
+    historyId.value = null
+    searchedAt.value = null
+    trail.value = []
+    isQueued.value = false
 
     if (previewUrl.value) {
       URL.revokeObjectURL(previewUrl.value)
@@ -99,11 +358,15 @@ export const useSearchStore = defineStore('search', () => {
       previewUrl.value = null
     }
     uploadedFile.value = null
+    cropRegion.value = null
   }
 
   return {
     // State
     results,
+    detectedObjects,
+    selectedObjectIndex,
+    queryImageSize,
     processingTimeMs,
     embeddingTimeMs,
     isSearching,
@@ -111,23 +374,58 @@ export const useSearchStore = defineStore('search', () => {
     error,
     previewUrl,
     uploadedFile,
+    cropRegion,
+    filters,
+    historyId,
+    searchedAt,
+    trail,
+    isQueued,
     // Computed
     hasResults,
     resultCount,
+    hasDetections,
+    selectedObject,
+    visibleResults,
+    providerOptions,
+    priceBounds,
+    hasActiveFilters,
+    filteredResults,
+    currentOrigin,
     // Actions
     searchWithImage,
+    searchWithProductImage,
+    findSimilar,
+    selectObject,
+    loadFromHistory,
+    rerunSearch,
+    setFilters,
+    resetFilters,
     clearSearch,
     clearPreview,
   }
 })
 
-// Helper: Resize image to max dimension
-async function resizeImage(file: File, maxSize: number): Promise<Blob> {
+// Helper: Sort a copy of the results
+function sortResults(items: ProductResult[], sort: ResultSort): ProductResult[] {
+  const [field, direction] = sort.split('-') as ['similarity' | 'price', 'asc' | 'desc']
+  const sign = direction === 'asc' ? 1 : -1
+  return [...items].sort((a, b) => (a[field] - b[field]) * sign)
+}
+
+// Helper: Resize image (or a cropped region of it) to max dimension
+async function resizeImage(file: Blob, maxSize: number, crop: CropRegion | null = null): Promise<Blob> {
   return new Promise((resolve, reject) => {
     const img = new Image()
+    const objectUrl = URL.createObjectURL(file)
     img.onload = () => {
+      URL.revokeObjectURL(objectUrl)
       const canvas = document.createElement('canvas')
-      let { width, height } = img
+      const sx = crop ? crop.x * img.width : 0
+      const sy = crop ? crop.y * img.height : 0
+      const sw = crop ? crop.width * img.width : img.width
+      const sh = crop ? crop.height * img.height : img.height
+      let width = sw
+      let height = sh
 
       if (width > maxSize || height > maxSize) {
         if (width > height) {
@@ -141,7 +439,7 @@ async function resizeImage(file: File, maxSize: number): Promise<Blob> {
 
       canvas.width = width
       canvas.height = height
-      canvas.getContext('2d')?.drawImage(img, 0, 0, width, height)
+      canvas.getContext('2d')?.drawImage(img, sx, sy, sw, sh, 0, 0, width, height)
 
       canvas.toBlob(
         (blob) => {
@@ -155,13 +453,24 @@ async function resizeImage(file: File, maxSize: number): Promise<Blob> {
         0.85
       )
     }
-    img.onerror = () => reject(new Error('Failed to load image'))
-    img.src = URL.createObjectURL(file)
+    img.onerror = () => {
+      URL.revokeObjectURL(objectUrl)
+      reject(new Error('Failed to load image'))
+    }
+    img.src = objectUrl
   })
 }
 
+// Helper: Read pixel dimensions of an image blob
+async function getImageSize(blob: Blob): Promise<{ width: number; height: number }> {
+  const bitmap = await createImageBitmap(blob)
+  const size = { width: bitmap.width, height: bitmap.height }
+  bitmap.close()
+  return size
+}
+
 // Helper: Create thumbnail data URL for history storage
-async function createThumbnailDataUrl(file: File, maxSize: number): Promise<string> {
+async function createThumbnailDataUrl(file: Blob, maxSize: number): Promise<string> {
   const blob = await resizeImage(file, maxSize)
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
@@ -1,16 +1,10 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { apiClient } from '@/api/client'
+import type { SettingDto } from '@/api/generated'
 import { useAuthStore } from '@/stores/auth'
 
-export interface Setting {
-  key: string
-  value: string
-  type: string
-  category: string
-  description?: string
-  updatedAt?: string
-}
+export type Setting = SettingDto
 
 export const useSettingsStore = defineStore('settings', () => {
   const settings = ref<Map<string, Setting>>(new Map())
@@ -24,8 +18,17 @@ export const useSettingsStore = defineStore('settings', () => {
     () => getSetting('ui.welcomeMessage', 'Discover furniture through visual search.')
   )
   const primaryColor = computed(() => getSetting('ui.primaryColor', '#8B7355'))
+  // Empty shows the site name in the header instead of a logo
+  const logoUrl = computed(() => getSetting('ui.logoUrl').trim())
+  const fontFamily = computed(() => getSetting('ui.fontFamily', 'Inter'))
+  const darkModeDefault = computed(() => getSetting('ui.darkModeDefault', 'false') === 'true')
   const showSimilarityScore = computed(() => getSetting('ui.showSimilarityScore', 'true') === 'true')
+  const showProviderFilter = computed(() => getSetting('ui.showProviderFilter', 'true') === 'true')
   const maxResults = computed(() => parseInt(getSetting('search.maxResults', '20'), 10))
+  // 0 turns recently viewed tracking off
+  const recentlyViewedLimit = computed(
+    () => Math.max(0, parseInt(getSetting('ui.recentlyViewedLimit', '50'), 10) || 0)
+  )
 
   function getSetting(key: string, defaultValue = ''): string {
     return settings.value.get(key)?.value ?? defaultValue
@@ -117,8 +120,13 @@ export const useSettingsStore = defineStore('settings', () => {
     siteName,
     welcomeMessage,
     primaryColor,
+    logoUrl,
+    fontFamily,
+    darkModeDefault,
     showSimilarityScore,
+    showProviderFilter,
     maxResults,
+    recentlyViewedLimit,
     getSetting,
     updateSetting,
     fetchPublicSettings,
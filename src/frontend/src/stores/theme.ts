@@ -0,0 +1,63 @@
+import { defineStore } from 'pinia'
+import { ref, computed, watch, type WatchStopHandle } from 'vue'
+import { useSettingsStore } from '@/stores/settings'
+import { updateDocumentTitle } from '@/router'
+import { applyTheme, type ThemeMode, type ThemeSettings } from '@/utils/theme'
+
+const PREFERENCE_STORAGE_KEY = 'theme_preference'
+
+function loadPreference(): ThemeMode | null {
+  const stored = localStorage.getItem(PREFERENCE_STORAGE_KEY)
+  return stored === 'light' || stored === 'dark' ? stored : null
+}
+
+export const useThemeStore = defineStore('theme', () => {
+  const settingsStore = useSettingsStore()
+
+  // The visitor's own choice; null follows the ui.darkModeDefault setting
+  const preference = ref<ThemeMode | null>(loadPreference())
+  let stopHandles: WatchStopHandle[] = []
+
+  const mode = computed<ThemeMode>(
+    () => preference.value ?? (settingsStore.darkModeDefault ? 'dark' : 'light')
+  )
+  const isDark = computed(() => mode.value === 'dark')
+
+  const theme = computed<ThemeSettings>(() => ({
+    primaryColor: settingsStore.primaryColor,
+    fontFamily: settingsStore.fontFamily,
+    mode: mode.value,
+  }))
+
+  /**
+   * Keep the document in step with the UI settings, including changes pushed over SSE.
+   */
+  function start() {
+    if (stopHandles.length > 0) return
+
+    stopHandles = [
+      watch(theme, applyTheme, { immediate: true }),
+      watch(() => settingsStore.siteName, () => updateDocumentTitle()),
+    ]
+  }
+
+  function stop() {
+    stopHandles.forEach((stopHandle) => stopHandle())
+    stopHandles = []
+  }
+
+  function toggleDarkMode() {
+    preference.value = isDark.value ? 'light' : 'dark'
+    localStorage.setItem(PREFERENCE_STORAGE_KEY, preference.value)
+  }
+
+  return {
+    preference,
+    mode,
+    isDark,
+    theme,
+    start,
+    stop,
+    toggleDarkMode,
+  }
+})
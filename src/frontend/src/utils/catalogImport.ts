@@ -0,0 +1,191 @@
+import type { AdminCategoryDto, CatalogImportRowRequest } from '@/api/generated'
+import { parseCsv } from '@/utils/csv'
+import { IMAGE_URL_SEPARATOR } from '@/utils/productExport'
+
+export type ImportField = 'externalId' | 'name' | 'description' | 'price' | 'currency' | 'category' | 'productUrl'
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; hint?: string }[] = [
+  { key: 'name', label: 'Name', hint: 'Required for new products' },
+  { key: 'price', label: 'Price', hint: 'Required for new products' },
+  { key: 'externalId', label: 'External ID', hint: 'Matches existing products of the provider' },
+  { key: 'currency', label: 'Currency', hint: 'Defaults to EUR' },
+  { key: 'category', label: 'Category', hint: 'Category ID or name' },
+  { key: 'productUrl', label: 'Product URL' },
+  { key: 'description', label: 'Description' },
+]
+
+export type SourceRecord = Record<string, unknown>
+
+export interface SourceTable {
+  columns: string[]
+  records: SourceRecord[]
+  // Row number of the first record as the user sees it in the file
+  firstRowNumber: number
+}
+
+export interface ColumnMapping {
+  fields: Record<ImportField, string | null>
+  imageColumns: string[]
+}
+
+export interface ConvertedRow {
+  row: CatalogImportRowRequest
+  errors: string[]
+}
+
+// Normalized header names recognized for each field, most specific first
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  externalId: ['externalid', 'sku', 'articlenumber', 'articleno', 'productid', 'reference', 'ref'],
+  name: ['name', 'productname', 'title'],
+  description: ['description', 'desc', 'details'],
+  price: ['price', 'amount', 'cost'],
+  currency: ['currency', 'currencycode'],
+  category: ['categoryid', 'categoryname', 'category'],
+  productUrl: ['producturl', 'url', 'link', 'productlink'],
+}
+const IMAGE_COLUMN_PATTERN = /^(images?|img|photos?|pictures?)(urls?)?\d*$/
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Reads an uploaded CSV or JSON catalog. JSON must be an array of objects, like the product export.
+ */
+export async function readSourceFile(file: File): Promise<SourceTable> {
+  const text = await file.text()
+
+  if (file.name.toLowerCase().endsWith('.json') || file.type === 'application/json') {
+    const data: unknown = JSON.parse(text)
+    if (!Array.isArray(data) || !data.every((r) => r !== null && typeof r === 'object' && !Array.isArray(r))) {
+      throw new Error('JSON files must contain an array of product objects')
+    }
+    const records = data as SourceRecord[]
+    const columns = Array.from(new Set(records.flatMap((r) => Object.keys(r))))
+    return { columns, records, firstRowNumber: 1 }
+  }
+
+  const { headers, rows } = parseCsv(text)
+  if (headers.length === 0) {
+    throw new Error('The file has no header row')
+  }
+  const records = rows.map((cells) => Object.fromEntries(headers.map((h, i) => [h, cells[i] ?? ''])))
+  // Line 1 is the header
+  return { columns: headers, records, firstRowNumber: 2 }
+}
+
+export function guessMapping(columns: string[]): ColumnMapping {
+  const byNormalized = new Map(columns.map((c) => [normalizeHeader(c), c]))
+  const fields = Object.fromEntries(
+    (Object.keys(FIELD_ALIASES) as ImportField[]).map((field) => {
+      const alias = FIELD_ALIASES[field].find((a) => byNormalized.has(a))
+      return [field, alias ? byNormalized.get(alias)! : null]
+    })
+  ) as Record<ImportField, string | null>
+
+  const mapped = new Set(Object.values(fields))
+  const imageColumns = columns.filter((c) => !mapped.has(c) && IMAGE_COLUMN_PATTERN.test(normalizeHeader(c)))
+  return { fields, imageColumns }
+}
+
+function toText(value: unknown): string | null {
+  if (value == null) return null
+  const text = String(value).trim()
+  return text === '' ? null : text
+}
+
+// Accepts "1234.5", "1,234.50", "1.234,50" and "12,50", with or without a currency symbol
+function parsePrice(value: unknown): number | null | undefined {
+  if (typeof value === 'number') return value
+  const text = toText(value)
+  if (text === null) return undefined
+
+  let cleaned = text.replace(/[^\d.,-]/g, '')
+  const lastComma = cleaned.lastIndexOf(',')
+  const lastDot = cleaned.lastIndexOf('.')
+  if (lastComma > lastDot) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.')
+  } else {
+    cleaned = cleaned.replace(/,/g, '')
+  }
+
+  const price = Number(cleaned)
+  return cleaned === '' || Number.isNaN(price) ? null : price
+}
+
+function splitImageUrls(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(splitImageUrls)
+  const text = toText(value)
+  if (text === null) return []
+  return text
+    .split(new RegExp(`[${IMAGE_URL_SEPARATOR}\\r\\n]`))
+    .map((u) => u.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Turns source records into import rows using the column mapping. Problems the server can't
+ * see (unparseable prices, unknown category names, external IDs repeated across batches) are
+ * reported as row errors here.
+ * Empty cells are sent as null so updates keep the product's current value.
+ */
+export function convertRecords(
+  table: SourceTable,
+  mapping: ColumnMapping,
+  categories: AdminCategoryDto[]
+): ConvertedRow[] {
+  const categoriesByName = new Map(categories.map((c) => [c.name.toLowerCase(), c.id]))
+  const categoryIds = new Set(categories.map((c) => c.id))
+  // The server only sees one batch at a time, so duplicates across the file are caught here
+  const seenExternalIds = new Set<string>()
+
+  return table.records.map((record, index) => {
+    const errors: string[] = []
+    const cell = (field: ImportField) => {
+      const column = mapping.fields[field]
+      return column ? record[column] : undefined
+    }
+
+    const externalId = toText(cell('externalId'))
+    if (externalId !== null) {
+      if (seenExternalIds.has(externalId)) {
+        errors.push(`External ID "${externalId}" appears more than once in the file.`)
+      }
+      seenExternalIds.add(externalId)
+    }
+
+    const price = parsePrice(cell('price'))
+    if (price === null) {
+      errors.push(`Price "${toText(cell('price'))}" is not a number.`)
+    }
+
+    let categoryId: number | null = null
+    const category = toText(cell('category'))
+    if (category !== null) {
+      const asId = Number(category)
+      const match = Number.isInteger(asId) && categoryIds.has(asId) ? asId : categoriesByName.get(category.toLowerCase())
+      if (match === undefined) {
+        errors.push(`Unknown category "${category}".`)
+      } else {
+        categoryId = match
+      }
+    }
+
+    const imageUrls = Array.from(new Set(mapping.imageColumns.flatMap((c) => splitImageUrls(record[c]))))
+
+    return {
+      row: {
+        rowNumber: table.firstRowNumber + index,
+        externalId,
+        name: toText(cell('name')),
+        description: toText(cell('description')),
+        price: price ?? null,
+        currency: toText(cell('currency'))?.toUpperCase() ?? null,
+        categoryId,
+        productUrl: toText(cell('productUrl')),
+        imageUrls: imageUrls.length > 0 ? imageUrls : null,
+      },
+      errors,
+    }
+  })
+}
@@ -0,0 +1,49 @@
+import type { CrawlScheduleDto, CrawlScheduleFrequency, DayOfWeek } from '@/api/generated'
+
+export const FREQUENCY_LABELS: Record<CrawlScheduleFrequency, string> = {
+  0: 'Daily',
+  1: 'Weekly',
+  2: 'Cron',
+}
+
+// Same numbering as .NET's DayOfWeek
+export const DAY_OF_WEEK_LABELS: Record<DayOfWeek, string> = {
+  0: 'Sunday',
+  1: 'Monday',
+  2: 'Tuesday',
+  3: 'Wednesday',
+  4: 'Thursday',
+  5: 'Friday',
+  6: 'Saturday',
+}
+
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+/**
+ * Describes when a schedule runs, e.g. "Mondays at 06:30 (Europe/Madrid)".
+ */
+export function describeSchedule(schedule: CrawlScheduleDto): string {
+  let when: string
+  if (schedule.frequency === 0) {
+    when = `Daily at ${schedule.timeOfDay}`
+  } else if (schedule.frequency === 1 && schedule.dayOfWeek != null) {
+    when = `${DAY_OF_WEEK_LABELS[schedule.dayOfWeek]}s at ${schedule.timeOfDay}`
+  } else {
+    when = `Cron: ${schedule.cronExpression}`
+  }
+  return `${when} (${schedule.timeZoneId})`
+}
+
+/**
+ * Formats a future time relative to now, e.g. "in 3h 20m" or "in 2 days".
+ */
+export function formatTimeUntil(dateStr: string, now = Date.now()): string {
+  const minutes = Math.round((new Date(dateStr).getTime() - now) / 60000)
+  if (minutes <= 0) return 'due now'
+  if (minutes < 60) return `in ${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 48) return `in ${hours}h ${minutes % 60}m`
+  return `in ${Math.round(hours / 24)} days`
+}
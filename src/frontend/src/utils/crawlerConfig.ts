@@ -0,0 +1,329 @@
+import { validateSelector, type SelectorConfig } from '@/utils/selectorTester'
+
+export const CRAWLER_TYPES = [
+  { value: 'generic', label: 'Generic (HTML/XPath)' },
+  { value: 'json-ld', label: 'JSON-LD Structured Data' },
+  { value: 'sitemap', label: 'Sitemap' },
+  { value: 'api', label: 'API' },
+  { value: 'zarahome', label: 'Zara Home (Playwright)' },
+] as const
+
+export type CrawlerType = (typeof CRAWLER_TYPES)[number]['value']
+
+// Mirrors CrawlerConfig on the server: JSON keys are camelCase, customSettings values are strings
+export type CrawlerConfigObject = Record<string, unknown>
+
+// Default crawler configs per type
+export const CRAWLER_CONFIG_TEMPLATES: Record<CrawlerType, CrawlerConfigObject> = {
+  generic: {
+    requestDelayMs: 1000,
+    maxConcurrency: 2,
+    respectRobotsTxt: true,
+    userAgent: 'VisualSearchBot/1.0',
+    productContainerSelector: "//div[contains(@class, 'product-card')]",
+    productNameSelector: ".//*[contains(@class, 'product-title')]",
+    productPriceSelector: ".//*[contains(@class, 'product-price')]",
+    productImageSelector: ".//*[contains(@class, 'product-image')]//img",
+  },
+  'json-ld': {
+    requestDelayMs: 1000,
+    maxConcurrency: 2,
+    respectRobotsTxt: true,
+  },
+  sitemap: {
+    requestDelayMs: 1000,
+    maxConcurrency: 2,
+    respectRobotsTxt: true,
+  },
+  api: {
+    requestDelayMs: 500,
+    maxConcurrency: 5,
+    customSettings: {
+      apiEndpoint: '',
+      apiKey: '',
+    },
+  },
+  zarahome: {
+    requestDelayMs: 2000,
+    maxConcurrency: 1,
+    customSettings: {
+      SitemapUrl: 'https://www.zarahome.com/8/info/sitemaps/sitemap-products-zh-es-0.xml.gz',
+      MaxPages: '100',
+    },
+  },
+}
+
+export type ConfigFieldKind = 'text' | 'url' | 'selector' | 'integer' | 'boolean' | 'patterns'
+
+export interface ConfigField {
+  key: string
+  label: string
+  kind: ConfigFieldKind
+  hint?: string
+  placeholder?: string
+  min?: number
+  max?: number
+  // Stored in customSettings, where the server expects every value as a string
+  custom?: boolean
+}
+
+export interface ConfigSection {
+  title: string
+  fields: ConfigField[]
+}
+
+// Upper bounds that keep a misconfigured provider from hammering a site or stalling a job
+export const MAX_REQUEST_DELAY_MS = 60_000
+export const MAX_CONCURRENCY = 10
+
+const REQUEST_SECTION: ConfigSection = {
+  title: 'Requests',
+  fields: [
+    {
+      key: 'requestDelayMs',
+      label: 'Request Delay (ms)',
+      kind: 'integer',
+      min: 0,
+      max: MAX_REQUEST_DELAY_MS,
+      hint: 'Wait between page requests. Defaults to 1000.',
+    },
+    {
+      key: 'maxConcurrency',
+      label: 'Max Concurrency',
+      kind: 'integer',
+      min: 1,
+      max: MAX_CONCURRENCY,
+      hint: `Parallel requests, at most ${MAX_CONCURRENCY}. Defaults to 2.`,
+    },
+    { key: 'respectRobotsTxt', label: 'Respect robots.txt', kind: 'boolean' },
+    { key: 'userAgent', label: 'User Agent', kind: 'text', placeholder: 'VisualSearchBot/1.0' },
+  ],
+}
+
+const URL_FILTER_SECTION: ConfigSection = {
+  title: 'URL Filters',
+  fields: [
+    {
+      key: 'includePatterns',
+      label: 'Include Patterns',
+      kind: 'patterns',
+      placeholder: '/products/',
+      hint: 'One regular expression per line. Empty crawls every URL.',
+    },
+    {
+      key: 'excludePatterns',
+      label: 'Exclude Patterns',
+      kind: 'patterns',
+      placeholder: '\\?sort=',
+      hint: 'One regular expression per line.',
+    },
+  ],
+}
+
+// XPath 1.0, the only selector syntax the worker's HTML parser evaluates
+export const SELECTOR_FIELDS: ConfigField[] = [
+  {
+    key: 'productContainerSelector',
+    label: 'Product Container',
+    kind: 'selector',
+    placeholder: "//div[contains(@class, 'product-card')]",
+  },
+  {
+    key: 'productNameSelector',
+    label: 'Name',
+    kind: 'selector',
+    placeholder: ".//*[contains(@class, 'product-title')]",
+  },
+  {
+    key: 'productPriceSelector',
+    label: 'Price',
+    kind: 'selector',
+    placeholder: ".//*[contains(@class, 'product-price')]",
+  },
+  {
+    key: 'productImageSelector',
+    label: 'Images',
+    kind: 'selector',
+    placeholder: ".//*[contains(@class, 'product-image')]//img",
+  },
+  {
+    key: 'productLinkSelector',
+    label: 'Link',
+    kind: 'selector',
+    placeholder: ".//a[contains(@class, 'product-link')]",
+  },
+  { key: 'productDescriptionSelector', label: 'Description', kind: 'selector' },
+  { key: 'paginationSelector', label: 'Pagination', kind: 'selector', placeholder: "//a[@rel='next']" },
+]
+
+export const CRAWLER_CONFIG_SCHEMAS: Record<CrawlerType, ConfigSection[]> = {
+  generic: [
+    REQUEST_SECTION,
+    {
+      title: 'Selectors',
+      fields: SELECTOR_FIELDS.map((field) =>
+        field.key === 'productContainerSelector'
+          ? {
+              ...field,
+              hint: 'Name, price, image and link selectors run inside each container; start them with .// to stay in it.',
+            }
+          : field
+      ),
+    },
+    URL_FILTER_SECTION,
+  ],
+  'json-ld': [REQUEST_SECTION, URL_FILTER_SECTION],
+  sitemap: [REQUEST_SECTION, URL_FILTER_SECTION],
+  api: [
+    REQUEST_SECTION,
+    {
+      title: 'API',
+      fields: [
+        { key: 'apiEndpoint', label: 'Endpoint', kind: 'url', custom: true, placeholder: 'https://api.example.com/products' },
+        { key: 'apiKey', label: 'API Key', kind: 'text', custom: true },
+      ],
+    },
+  ],
+  zarahome: [
+    REQUEST_SECTION,
+    {
+      title: 'Zara Home',
+      fields: [
+        { key: 'SitemapUrl', label: 'Sitemap URL', kind: 'url', custom: true },
+        { key: 'MaxPages', label: 'Max Pages', kind: 'integer', custom: true, min: 1 },
+      ],
+    },
+  ],
+}
+
+export function isCrawlerType(value: string): value is CrawlerType {
+  return CRAWLER_TYPES.some((type) => type.value === value)
+}
+
+/**
+ * Parses a provider's crawler config JSON. Throws when it isn't a JSON object.
+ * Empty input gives an empty config.
+ */
+export function parseCrawlerConfig(json: string): CrawlerConfigObject {
+  if (json.trim() === '') return {}
+  const value: unknown = JSON.parse(json)
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Crawler config must be a JSON object.')
+  }
+  return value as CrawlerConfigObject
+}
+
+export function serializeCrawlerConfig(config: CrawlerConfigObject): string {
+  return Object.keys(config).length === 0 ? '' : JSON.stringify(config, null, 2)
+}
+
+function customSettings(config: CrawlerConfigObject): Record<string, unknown> {
+  const settings = config.customSettings
+  return settings !== null && typeof settings === 'object' && !Array.isArray(settings)
+    ? (settings as Record<string, unknown>)
+    : {}
+}
+
+export function getFieldValue(config: CrawlerConfigObject, field: ConfigField): unknown {
+  return field.custom ? customSettings(config)[field.key] : config[field.key]
+}
+
+/**
+ * Returns a copy of the config with the field set. Empty values remove the key so the
+ * server default applies; custom settings are stored as strings.
+ */
+export function setFieldValue(config: CrawlerConfigObject, field: ConfigField, value: unknown): CrawlerConfigObject {
+  const isEmpty = value === '' || value === null || value === undefined || (Array.isArray(value) && value.length === 0)
+
+  if (field.custom) {
+    const settings = { ...customSettings(config) }
+    if (isEmpty) {
+      delete settings[field.key]
+    } else {
+      settings[field.key] = String(value)
+    }
+    const next: CrawlerConfigObject = { ...config, customSettings: settings }
+    if (Object.keys(settings).length === 0) delete next.customSettings
+    return next
+  }
+
+  const next = { ...config }
+  if (isEmpty) {
+    delete next[field.key]
+  } else {
+    next[field.key] = value
+  }
+  return next
+}
+
+function validateField(field: ConfigField, value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null
+
+  switch (field.kind) {
+    case 'integer': {
+      const number = typeof value === 'string' ? Number(value) : value
+      if (typeof number !== 'number' || !Number.isInteger(number)) return 'Must be a whole number.'
+      if (field.min !== undefined && number < field.min) return `Must be at least ${field.min}.`
+      if (field.max !== undefined && number > field.max) return `Must be at most ${field.max}.`
+      return null
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'Must be true or false.'
+    case 'url':
+      try {
+        new URL(String(value))
+        return null
+      } catch {
+        return 'Must be an absolute URL.'
+      }
+    case 'selector':
+      return typeof value === 'string' ? validateSelector(value) : 'Must be a selector string.'
+    case 'patterns': {
+      if (!Array.isArray(value) || !value.every((p) => typeof p === 'string')) return 'Must be a list of patterns.'
+      for (const pattern of value) {
+        try {
+          new RegExp(pattern)
+        } catch {
+          return `"${pattern}" is not a valid regular expression.`
+        }
+      }
+      return null
+    }
+    default:
+      return typeof value === 'string' ? null : 'Must be text.'
+  }
+}
+
+/**
+ * Validates a config against the schema of its crawler type. Returns error messages by field key.
+ * Keys the schema doesn't know are left alone.
+ */
+export function validateCrawlerConfig(crawlerType: string, config: CrawlerConfigObject): Record<string, string> {
+  const errors: Record<string, string> = {}
+  if (!isCrawlerType(crawlerType)) return errors
+
+  for (const section of CRAWLER_CONFIG_SCHEMAS[crawlerType]) {
+    for (const field of section.fields) {
+      const error = validateField(field, getFieldValue(config, field))
+      if (error) errors[field.key] = error
+    }
+  }
+
+  // The worker skips containers it can't read a name from
+  if (crawlerType === 'generic' && config.productContainerSelector && !config.productNameSelector) {
+    errors.productNameSelector ??= 'Required when a product container is set.'
+  }
+
+  return errors
+}
+
+export function toSelectorConfig(config: CrawlerConfigObject): SelectorConfig {
+  const text = (key: keyof SelectorConfig) => (typeof config[key] === 'string' ? (config[key] as string) : undefined)
+  return {
+    productContainerSelector: text('productContainerSelector'),
+    productNameSelector: text('productNameSelector'),
+    productPriceSelector: text('productPriceSelector'),
+    productImageSelector: text('productImageSelector'),
+    productLinkSelector: text('productLinkSelector'),
+  }
+}
@@ -0,0 +1,69 @@
+export interface CsvTable {
+  headers: string[]
+  rows: string[][]
+}
+
+/**
+ * Parses CSV text with a header row. Handles quoted cells (including embedded
+ * newlines and doubled quotes), CRLF line endings and a leading BOM. The
+ * delimiter is detected from the header line: spreadsheet exports in many
+ * locales use ';' instead of ','.
+ */
+export function parseCsv(text: string): CsvTable {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const delimiter = detectDelimiter(input)
+
+  const records: string[][] = []
+  let record: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"' && cell === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      record.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      record.push(cell)
+      records.push(record)
+      record = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || record.length > 0) {
+    record.push(cell)
+    records.push(record)
+  }
+
+  // Blank lines carry no data
+  const nonEmpty = records.filter((r) => r.some((c) => c.trim() !== ''))
+  const [headers = [], ...rows] = nonEmpty
+  return { headers: headers.map((h) => h.trim()), rows }
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  const count = (char: string) => firstLine.split(char).length - 1
+  return count(';') > count(',') ? ';' : ','
+}
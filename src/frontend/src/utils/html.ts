@@ -0,0 +1,11 @@
+/**
+ * Escape text for interpolation into an HTML string, e.g. a ConfirmModal message.
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
@@ -0,0 +1,107 @@
+import type { ExtractedProductStatus, GetExtractedProductIdsQueryParams } from '@/api/generated'
+
+export type PriceFilter = '' | 'with' | 'without'
+export type ImageCountFilter = '' | 'none' | 'single' | 'some' | 'multiple'
+
+export const PRICE_FILTER_LABELS: Record<PriceFilter, string> = {
+  '': 'Any Price',
+  with: 'Has Price',
+  without: 'Missing Price',
+}
+
+export const IMAGE_COUNT_FILTER_LABELS: Record<ImageCountFilter, string> = {
+  '': 'Any Images',
+  none: 'No Images',
+  single: 'Exactly 1',
+  some: '1 or More',
+  multiple: '2 or More',
+}
+
+const IMAGE_COUNT_RANGES: Record<ImageCountFilter, { minImages?: number; maxImages?: number }> = {
+  '': {},
+  none: { maxImages: 0 },
+  single: { minImages: 1, maxImages: 1 },
+  some: { minImages: 1 },
+  multiple: { minImages: 2 },
+}
+
+export interface ImportFilters {
+  status: ExtractedProductStatus | ''
+  providerId: number | ''
+  jobId: number | null
+  search: string
+  // Local calendar days as yyyy-mm-dd, '' for an open end
+  createdFrom: string
+  createdTo: string
+  price: PriceFilter
+  images: ImageCountFilter
+}
+
+export interface ImportFilterPreset {
+  name: string
+  filters: ImportFilters
+}
+
+export function emptyImportFilters(): ImportFilters {
+  return {
+    status: '',
+    providerId: '',
+    jobId: null,
+    search: '',
+    createdFrom: '',
+    createdTo: '',
+    price: '',
+    images: '',
+  }
+}
+
+function startOfLocalDay(date: string, offsetDays = 0): string {
+  const day = new Date(`${date}T00:00:00`)
+  day.setDate(day.getDate() + offsetDays)
+  return day.toISOString()
+}
+
+/**
+ * Maps the queue filters to API query params. The date range covers whole local days, so the
+ * end date is sent as the start of the following day.
+ */
+export function toImportQueryParams(filters: ImportFilters): GetExtractedProductIdsQueryParams {
+  return {
+    status: filters.status === '' ? undefined : filters.status,
+    providerId: filters.providerId === '' ? undefined : filters.providerId,
+    jobId: filters.jobId ?? undefined,
+    search: filters.search.trim() || undefined,
+    createdFrom: filters.createdFrom ? startOfLocalDay(filters.createdFrom) : undefined,
+    createdTo: filters.createdTo ? startOfLocalDay(filters.createdTo, 1) : undefined,
+    hasPrice: filters.price === '' ? undefined : filters.price === 'with',
+    ...IMAGE_COUNT_RANGES[filters.images],
+  }
+}
+
+export function isSameImportFilters(a: ImportFilters, b: ImportFilters): boolean {
+  return JSON.stringify(toImportQueryParams(a)) === JSON.stringify(toImportQueryParams(b))
+}
+
+const PRESETS_STORAGE_KEY = 'import_filter_presets'
+
+/**
+ * Reads saved presets from local storage. Entries from older versions get the filters they lack.
+ */
+export function loadImportFilterPresets(): ImportFilterPreset[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) ?? '[]')
+    if (!Array.isArray(stored)) return []
+    return stored
+      .filter(
+        (preset): preset is ImportFilterPreset =>
+          typeof preset?.name === 'string' && preset.filters !== null && typeof preset.filters === 'object'
+      )
+      .map((preset) => ({ name: preset.name, filters: { ...emptyImportFilters(), ...preset.filters } }))
+  } catch {
+    return []
+  }
+}
+
+export function saveImportFilterPresets(presets: ImportFilterPreset[]): void {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets))
+}
@@ -0,0 +1,94 @@
+import type { AdminProductDto } from '@/api/generated'
+
+export type ExportFormat = 'csv' | 'json'
+
+// Multiple image URLs share one CSV cell
+export const IMAGE_URL_SEPARATOR = '|'
+
+interface ExportedProduct {
+  id: number
+  externalId: string | null
+  name: string
+  description: string | null
+  price: number
+  currency: string | null
+  providerId: number
+  providerName: string
+  categoryId: number | null
+  categoryName: string | null
+  productUrl: string | null
+  imageUrls: string[]
+  createdAt: string
+}
+
+function toExported(product: AdminProductDto): ExportedProduct {
+  return {
+    id: product.id,
+    externalId: product.externalId ?? null,
+    name: product.name,
+    description: product.description ?? null,
+    price: product.price,
+    currency: product.currency ?? null,
+    providerId: product.providerId,
+    providerName: product.providerName,
+    categoryId: product.categoryId ?? null,
+    categoryName: product.categoryName ?? null,
+    productUrl: product.productUrl ?? null,
+    imageUrls: product.images.map((i) => i.imageUrl),
+    createdAt: product.createdAt,
+  }
+}
+
+function csvCell(value: string | number | null): string {
+  if (value == null) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function productsToCsv(products: AdminProductDto[]): string {
+  const rows = products.map(toExported)
+  const headers: (keyof ExportedProduct)[] = [
+    'id',
+    'externalId',
+    'name',
+    'description',
+    'price',
+    'currency',
+    'providerId',
+    'providerName',
+    'categoryId',
+    'categoryName',
+    'productUrl',
+    'imageUrls',
+    'createdAt',
+  ]
+  const lines = rows.map((row) =>
+    headers
+      .map((h) => {
+        const value = row[h]
+        return csvCell(Array.isArray(value) ? value.join(IMAGE_URL_SEPARATOR) : value)
+      })
+      .join(',')
+  )
+  return [headers.join(','), ...lines].join('\r\n')
+}
+
+export function productsToJson(products: AdminProductDto[]): string {
+  return JSON.stringify(products.map(toExported), null, 2)
+}
+
+/**
+ * Serializes products and hands the file to the browser as a download.
+ */
+export function downloadProducts(products: AdminProductDto[], format: ExportFormat, filenameBase = 'products') {
+  const content = format === 'csv' ? productsToCsv(products) : productsToJson(products)
+  const type = format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json'
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const stamp = new Date().toISOString().slice(0, 10)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${filenameBase}-${stamp}.${format}`
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,150 @@
+/**
+ * Runs a generic crawler's product selectors against sample HTML in the browser, following the
+ * worker's extraction rules so selectors can be debugged without a full crawl.
+ * The worker evaluates selectors with HtmlAgilityPack, which only understands XPath 1.0, so they
+ * are evaluated here with document.evaluate and CSS selectors are rejected.
+ */
+
+export interface SelectorConfig {
+  productContainerSelector?: string
+  productNameSelector?: string
+  productPriceSelector?: string
+  productImageSelector?: string
+  productLinkSelector?: string
+}
+
+export interface TestedProduct {
+  name: string
+  priceText: string | null
+  price: number | null
+  productUrl: string | null
+  imageUrls: string[]
+}
+
+export interface SelectorTestResult {
+  containerCount: number
+  products: TestedProduct[]
+  // Containers skipped because the name selector matched nothing
+  skippedCount: number
+}
+
+/**
+ * Returns why a selector can't be evaluated, or null when it's valid.
+ */
+export function validateSelector(selector: string): string | null {
+  const trimmed = selector.trim()
+  if (trimmed === '') return null
+
+  try {
+    document.createExpression(trimmed)
+    return null
+  } catch {
+    return "Not a valid XPath expression. The crawler doesn't support CSS selectors."
+  }
+}
+
+function selectAll(context: Node, selector: string): Element[] {
+  const doc = context.ownerDocument ?? (context as Document)
+  const result = doc.evaluate(selector, context, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null)
+  const elements: Element[] = []
+  for (let i = 0; i < result.snapshotLength; i++) {
+    const node = result.snapshotItem(i)
+    if (node instanceof Element) elements.push(node)
+  }
+  return elements
+}
+
+function selectText(container: Element, selector: string | undefined): string | null {
+  if (!selector?.trim()) return null
+  const text = selectAll(container, selector.trim())[0]?.textContent?.trim()
+  return text || null
+}
+
+function resolveUrl(href: string | null, baseUrl: string | undefined): string | null {
+  if (!href?.trim() || /^(javascript:|mailto:|#)/i.test(href)) return null
+  try {
+    const url = baseUrl ? new URL(href, baseUrl) : new URL(href)
+    url.search = ''
+    url.hash = ''
+    return url.toString()
+  } catch {
+    // Relative URLs without a base are shown as written
+    return baseUrl ? null : href
+  }
+}
+
+// Same rules as the worker: strips currency symbols, then tells 1.234,56 from 1,234.56
+export function parsePrice(text: string | null): number | null {
+  if (!text) return null
+
+  let cleaned = text.replace(/[€$£¥₹R\s]/g, '')
+  if (cleaned.includes(',') && cleaned.includes('.')) {
+    cleaned =
+      cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.')
+        ? cleaned.replace(/\./g, '').replace(',', '.')
+        : cleaned.replace(/,/g, '')
+  } else if (cleaned.includes(',')) {
+    const parts = cleaned.split(',')
+    cleaned = parts.length === 2 && parts[1]!.length === 2 ? cleaned.replace(',', '.') : cleaned.replace(/,/g, '')
+  }
+
+  const price = Number(cleaned)
+  return cleaned === '' || Number.isNaN(price) ? null : price
+}
+
+/**
+ * Extracts products from sample HTML. Relative URLs are resolved against baseUrl when given.
+ * Throws when a selector is invalid.
+ */
+export function testSelectors(html: string, config: SelectorConfig, baseUrl?: string): SelectorTestResult {
+  const containerSelector = config.productContainerSelector?.trim()
+  if (!containerSelector) {
+    throw new Error('Set a product container selector to test.')
+  }
+
+  for (const selector of [
+    containerSelector,
+    config.productNameSelector,
+    config.productPriceSelector,
+    config.productImageSelector,
+    config.productLinkSelector,
+  ]) {
+    const error = selector ? validateSelector(selector) : null
+    if (error) throw new Error(`${selector}: ${error}`)
+  }
+
+  // DOMParser documents are inert: scripts don't run and images don't load
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const containers = selectAll(doc, containerSelector)
+  const products: TestedProduct[] = []
+
+  for (const container of containers) {
+    const name = selectText(container, config.productNameSelector)
+    if (!name) continue
+
+    const priceText = selectText(container, config.productPriceSelector)
+    const linkSelector = config.productLinkSelector?.trim()
+    const link = linkSelector ? selectAll(container, linkSelector)[0] : undefined
+    const imageSelector = config.productImageSelector?.trim()
+    const imageUrls = imageSelector
+      ? selectAll(container, imageSelector)
+          .map((img) =>
+            resolveUrl(
+              img.getAttribute('src') ?? img.getAttribute('data-src') ?? img.getAttribute('data-lazy-src'),
+              baseUrl
+            )
+          )
+          .filter((url): url is string => url !== null)
+      : []
+
+    products.push({
+      name,
+      priceText,
+      price: parsePrice(priceText),
+      productUrl: link ? resolveUrl(link.getAttribute('href'), baseUrl) : null,
+      imageUrls,
+    })
+  }
+
+  return { containerCount: containers.length, products, skippedCount: containers.length - products.length }
+}
@@ -0,0 +1,174 @@
+import type { SettingDto } from '@/api/generated'
+
+// Lowercased names of the server's SettingType enum
+export type SettingType = 'string' | 'integer' | 'boolean' | 'decimal'
+
+export const SETTING_TYPES: SettingType[] = ['string', 'integer', 'boolean', 'decimal']
+
+const CATEGORY_LABELS: Record<string, string> = {
+  ui: 'UI',
+  search: 'Search',
+}
+
+export function categoryLabel(category: string): string {
+  return CATEGORY_LABELS[category] ?? category.charAt(0).toUpperCase() + category.slice(1)
+}
+
+/**
+ * Derives a label from the last segment of a setting key, e.g. "ui.recentlyViewedLimit" -> "Recently Viewed Limit".
+ */
+export function settingLabel(key: string): string {
+  const name = key.slice(key.lastIndexOf('.') + 1)
+  const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+export function isSettingType(value: unknown): value is SettingType {
+  return typeof value === 'string' && (SETTING_TYPES as string[]).includes(value)
+}
+
+export function isColorValue(value: string): boolean {
+  return /^#[0-9a-f]{6}$/i.test(value)
+}
+
+/**
+ * Mirrors the server's validation: the value must parse as the setting's type and lie within
+ * its range, if it has one. Returns why the value is invalid, or null.
+ */
+export function validateSettingValue(
+  setting: Pick<SettingDto, 'type' | 'min' | 'max' | 'allowEmpty'>,
+  value: string
+): string | null {
+  if (value.trim() === '') return setting.allowEmpty ? null : 'Value is required'
+
+  let number: number
+  switch (setting.type) {
+    case 'boolean':
+      return value === 'true' || value === 'false' ? null : 'Value must be true or false'
+    case 'integer':
+      if (!/^[-+]?\d+$/.test(value.trim())) return 'Value must be a whole number'
+      number = Number(value)
+      break
+    case 'decimal':
+      if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(value.trim())) return 'Value must be a number'
+      number = Number(value)
+      break
+    default:
+      return null
+  }
+
+  if (setting.min != null && number < setting.min) return `Value must be at least ${setting.min}`
+  if (setting.max != null && number > setting.max) return `Value must be at most ${setting.max}`
+  return null
+}
+
+export interface ExportedSetting {
+  key: string
+  value: string
+  type: SettingType
+  category: string
+  description?: string | null
+}
+
+export interface SettingsExportFile {
+  version: 1
+  exportedAt: string
+  settings: ExportedSetting[]
+}
+
+export function toSettingsExport(settings: SettingDto[]): SettingsExportFile {
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    settings: settings.map((s) => ({
+      key: s.key,
+      value: s.value,
+      type: isSettingType(s.type) ? s.type : 'string',
+      category: s.category,
+      description: s.description ?? null,
+    })),
+  }
+}
+
+export function downloadSettings(settings: SettingDto[]) {
+  const content = JSON.stringify(toSettingsExport(settings), null, 2)
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }))
+  const stamp = new Date().toISOString().slice(0, 10)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `settings-${stamp}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Reads a settings export. Throws with a message naming the first malformed entry.
+ */
+export function parseSettingsExport(json: string): ExportedSetting[] {
+  let file: unknown
+  try {
+    file = JSON.parse(json)
+  } catch {
+    throw new Error('The file is not valid JSON.')
+  }
+
+  const entries = (file as Partial<SettingsExportFile> | null)?.settings
+  if (!Array.isArray(entries)) {
+    throw new Error('The file has no "settings" list. Use a file exported from this page.')
+  }
+
+  return entries.map((entry: Partial<ExportedSetting> | null, index) => {
+    if (typeof entry?.key !== 'string' || !entry.key.trim() || typeof entry.value !== 'string') {
+      throw new Error(`Setting ${index + 1} needs a key and a string value.`)
+    }
+    return {
+      key: entry.key.trim(),
+      value: entry.value,
+      type: isSettingType(entry.type) ? entry.type : 'string',
+      category: typeof entry.category === 'string' && entry.category ? entry.category : 'general',
+      description: typeof entry.description === 'string' ? entry.description : null,
+    }
+  })
+}
+
+export interface SettingChange {
+  key: string
+  // Null when the setting doesn't exist yet and will be created
+  from: string | null
+  to: string
+  error: string | null
+  // Present for settings that will be created
+  created?: ExportedSetting
+}
+
+/**
+ * Lists the settings an import would change or create. Settings with the same value are left out.
+ */
+export function diffImportedSettings(current: SettingDto[], imported: ExportedSetting[]): SettingChange[] {
+  const byKey = new Map(current.map((s) => [s.key, s]))
+  const changes: SettingChange[] = []
+
+  for (const entry of imported) {
+    const existing = byKey.get(entry.key)
+    if (existing) {
+      if (existing.value === entry.value) continue
+      changes.push({
+        key: entry.key,
+        from: existing.value,
+        to: entry.value,
+        error: validateSettingValue(existing, entry.value),
+      })
+    } else {
+      changes.push({
+        key: entry.key,
+        from: null,
+        to: entry.value,
+        error: validateSettingValue({ type: entry.type }, entry.value),
+        created: entry,
+      })
+    }
+  }
+
+  return changes
+}
@@ -0,0 +1,25 @@
+import {
+  crawlJobStatus,
+  crawlPageStatus,
+  extractedProductStatus,
+  vectorizationRunStatus,
+} from '@/api/generated'
+
+type EnumObject = Record<string, number>
+type EnumLabels<T extends EnumObject> = Record<T[keyof T], Extract<keyof T, string>>
+
+export type CrawlJobStatusLabel = keyof typeof crawlJobStatus
+export type CrawlPageStatusLabel = keyof typeof crawlPageStatus
+export type ExtractedProductStatusLabel = keyof typeof extractedProductStatus
+
+/**
+ * Inverts a generated enum object, so each value maps to its member name on the server.
+ */
+function enumLabels<T extends EnumObject>(values: T): EnumLabels<T> {
+  return Object.fromEntries(Object.entries(values).map(([name, value]) => [value, name])) as EnumLabels<T>
+}
+
+export const CRAWL_JOB_STATUS_LABELS = enumLabels(crawlJobStatus)
+export const CRAWL_PAGE_STATUS_LABELS = enumLabels(crawlPageStatus)
+export const EXTRACTED_PRODUCT_STATUS_LABELS = enumLabels(extractedProductStatus)
+export const VECTORIZATION_RUN_STATUS_LABELS = enumLabels(vectorizationRunStatus)
@@ -0,0 +1,95 @@
+import { isColorValue } from '@/utils/settings'
+
+export type ThemeMode = 'light' | 'dark'
+
+// The UI settings that drive the theme
+export interface ThemeSettings {
+  primaryColor: string
+  fontFamily: string
+  mode: ThemeMode
+}
+
+// Appended to the configured font so text still renders when it isn't installed
+const FONT_FALLBACK = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif"
+
+// Matches --color-surface in the dark palette, so tints sit on it the way they sit on white in light mode
+const DARK_SURFACE = '#26231F'
+
+type Rgb = [number, number, number]
+
+function toRgb(color: string): Rgb {
+  const value = parseInt(color.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+function toHex(rgb: Rgb): string {
+  return `#${rgb.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`.toUpperCase()
+}
+
+/**
+ * Blends two #rrggbb colors; weight is the share of `other` in the result.
+ */
+function mix(color: string, other: string, weight: number): string {
+  const a = toRgb(color)
+  const b = toRgb(other)
+  return toHex([0, 1, 2].map((i) => a[i]! * (1 - weight) + b[i]! * weight) as Rgb)
+}
+
+/**
+ * Quotes a single family name; a value with commas is taken as a full font stack.
+ */
+function fontStack(fontFamily: string): string | null {
+  const font = fontFamily.trim()
+  if (!font) return null
+  if (font.includes(',')) return font
+  return `"${font.replace(/["\\]/g, '')}", ${FONT_FALLBACK}`
+}
+
+/**
+ * Maps theme settings to CSS custom properties. Invalid values are left out, so the
+ * stylesheet defaults stay in effect for them.
+ */
+export function themeVariables(theme: ThemeSettings): Record<string, string> {
+  const variables: Record<string, string> = {}
+
+  if (isColorValue(theme.primaryColor)) {
+    const primary = theme.primaryColor.toUpperCase()
+    const dark = theme.mode === 'dark'
+    variables['--color-primary'] = primary
+    variables['--color-primary-hover'] = mix(primary, dark ? '#FFFFFF' : '#000000', 0.15)
+    variables['--color-primary-light'] = dark ? mix(primary, DARK_SURFACE, 0.8) : mix(primary, '#FFFFFF', 0.88)
+  }
+
+  const font = fontStack(theme.fontFamily)
+  if (font) {
+    variables['--font-body'] = font
+    variables['--font-display'] = font
+  }
+
+  return variables
+}
+
+let appliedVariables: string[] = []
+
+/**
+ * Applies the theme to the document root and the browser's theme color.
+ * Variables from a previous call that no longer apply are removed.
+ */
+export function applyTheme(theme: ThemeSettings) {
+  const root = document.documentElement
+  const variables = themeVariables(theme)
+
+  for (const name of appliedVariables) {
+    if (!(name in variables)) root.style.removeProperty(name)
+  }
+  for (const [name, value] of Object.entries(variables)) {
+    root.style.setProperty(name, value)
+  }
+  appliedVariables = Object.keys(variables)
+  root.dataset.theme = theme.mode
+
+  const primary = variables['--color-primary']
+  if (primary) {
+    document.querySelector('meta[name="theme-color"]')?.setAttribute('content', primary)
+  }
+}
@@ -1,8 +1,64 @@
 import { fileURLToPath, URL } from 'node:url';
 import { defineConfig } from 'vite';
 import vue from '@vitejs/plugin-vue';
+import { VitePWA } from 'vite-plugin-pwa';
 export default defineConfig({
-    plugins: [vue()],
+    plugins: [
+        vue(),
+        VitePWA({
+            registerType: 'autoUpdate',
+            injectRegister: false,
+            includeAssets: ['favicon.svg'],
+            manifest: {
+                name: 'Visual Search',
+                short_name: 'Visual Search',
+                description: 'Discover products through visual search. Upload an image to find similar items.',
+                theme_color: '#A69076',
+                background_color: '#FAF9F7',
+                display: 'standalone',
+                start_url: '/',
+                icons: [
+                    {
+                        src: '/favicon.svg',
+                        sizes: 'any',
+                        type: 'image/svg+xml',
+                        purpose: 'any',
+                    },
+                ],
+            },
+            workbox: {
+                navigateFallback: '/index.html',
+                navigateFallbackDenylist: [/^\/api/, /^\/swagger/],
+                runtimeCaching: [
+                    {
+                        // Product images, including cross-origin provider CDNs (opaque responses)
+                        urlPattern: ({ request }) => request.destination === 'image',
+                        handler: 'CacheFirst',
+                        options: {
+                            cacheName: 'product-images',
+                            expiration: {
+                                maxEntries: 500,
+                                maxAgeSeconds: 60 * 60 * 24 * 30, // 30 days
+                            },
+                            cacheableResponse: {
+                                statuses: [0, 200],
+                            },
+                        },
+                    },
+                    {
+                        urlPattern: /^https:\/\/fonts\.(googleapis|gstatic)\.com\/.*/,
+                        handler: 'StaleWhileRevalidate',
+                        options: {
+                            cacheName: 'google-fonts',
+                            cacheableResponse: {
+                                statuses: [0, 200],
+                            },
+                        },
+                    },
+                ],
+            },
+        }),
+    ],
     resolve: {
         alias: {
             '@': fileURLToPath(new URL('./src', import.meta.url)),
@@ -19,6 +75,10 @@ export default defineConfig({
                 target: 'http://localhost:5000',
                 changeOrigin: true,
             },
+            '/health': {
+                target: 'http://localhost:5000',
+                changeOrigin: true,
+            },
         },
     },
     build: {
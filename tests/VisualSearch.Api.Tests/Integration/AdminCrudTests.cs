@@ -1,12 +1,16 @@
 using System.Net;
 using System.Net.Http.Json;
+using VisualSearch.Api.Application.Services;
 using VisualSearch.Api.Contracts.DTOs;
+using VisualSearch.Api.Data.Entities;
+using VisualSearch.Api.Endpoints;
 using VisualSearch.Api.Tests.Fixtures;
+using VisualSearch.Contracts.Crawling;
 
 namespace VisualSearch.Api.Tests.Integration;
 
 /// <summary>
-/// Integration tests for admin CRUD operations (providers, products, categories).
+/// Integration tests for admin CRUD operations (providers, products, categories, users).
 /// Tests the main flows for managing entities through the admin API.
 /// </summary>
 [Collection(nameof(PostgresCollection))]
@@ -195,6 +199,22 @@ public sealed class AdminCrudTests : IntegrationTestBase
         categories.Should().Contain(c => c.Name == "List Test Category");
     }
 
+    [Fact]
+    public async Task GetDetectionClasses_ReturnsClassNamesIndexedByCocoId()
+    {
+        // Act
+        var response = await AuthenticatedGetAsync("/api/admin/categories/detection-classes");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var classes = await response.Content.ReadFromJsonAsync<List<string>>();
+        classes.Should().NotBeNull();
+        classes.Should().HaveCount(80);
+        classes![0].Should().Be("person");
+        classes[56].Should().Be("chair");
+    }
+
     #endregion
 
     #region Product CRUD Tests
@@ -419,6 +439,297 @@ public sealed class AdminCrudTests : IntegrationTestBase
         getResponse.StatusCode.Should().Be(HttpStatusCode.NotFound);
     }
 
+    [Fact]
+    public async Task BulkProductAction_SetCategory_ReportsPerProductResults()
+    {
+        // Arrange - Create provider, category and two products
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Bulk Category Provider",
+            WebsiteUrl = "https://bulkcategory.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        var categoryResponse = await AuthenticatedPostAsync("/api/admin/categories", new
+        {
+            Name = "Bulk Target Category",
+            CocoClassId = 50008
+        });
+        var category = await categoryResponse.Content.ReadFromJsonAsync<AdminCategoryDto>();
+
+        var productIds = new List<int>();
+        for (var i = 1; i <= 2; i++)
+        {
+            var createResponse = await AuthenticatedPostAsync("/api/admin/products", new
+            {
+                Name = $"Bulk Product {i}",
+                ProviderId = provider!.Id,
+                Price = 10.0m * i
+            });
+            var created = await createResponse.Content.ReadFromJsonAsync<IdResponse>();
+            productIds.Add(created!.Id);
+        }
+
+        // Act - Include an ID that does not exist
+        var response = await AuthenticatedPostAsync("/api/admin/products/bulk", new
+        {
+            Action = BulkProductAction.SetCategory,
+            Ids = productIds.Append(999999).ToArray(),
+            CategoryId = category!.Id
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var result = await response.Content.ReadFromJsonAsync<BulkProductActionResultDto>();
+        result.Should().NotBeNull();
+        result!.Succeeded.Should().Be(2);
+        result.Failed.Should().Be(1);
+        result.Results.Should().ContainSingle(r => r.ProductId == 999999 && !r.Succeeded);
+
+        var getResponse = await AuthenticatedGetAsync($"/api/admin/products/{productIds[0]}");
+        var product = await getResponse.Content.ReadFromJsonAsync<AdminProductDto>();
+        product!.CategoryId.Should().Be(category.Id);
+    }
+
+    [Fact]
+    public async Task BulkProductAction_WithoutIds_ReturnsBadRequest()
+    {
+        // Act
+        var response = await AuthenticatedPostAsync("/api/admin/products/bulk", new
+        {
+            Action = BulkProductAction.Delete,
+            Ids = Array.Empty<int>()
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task GetProductIds_WithSearch_ReturnsAllMatchingIds()
+    {
+        // Arrange
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Product Ids Provider",
+            WebsiteUrl = "https://productids.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        var createResponse = await AuthenticatedPostAsync("/api/admin/products", new
+        {
+            Name = "Selectable Unicorn Lamp",
+            ProviderId = provider!.Id,
+            Price = 30.0m
+        });
+        var created = await createResponse.Content.ReadFromJsonAsync<IdResponse>();
+
+        // Act
+        var response = await AuthenticatedGetAsync("/api/admin/products/ids?search=unicorn%20lamp");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var ids = await response.Content.ReadFromJsonAsync<List<int>>();
+        ids.Should().Equal(created!.Id);
+    }
+
+    [Fact]
+    public async Task GetProductIds_WithVectorizedFilter_ExcludesProductsWithoutEmbeddings()
+    {
+        // Arrange
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Vectorized Filter Provider",
+            WebsiteUrl = "https://vectorizedfilter.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        var createResponse = await AuthenticatedPostAsync("/api/admin/products", new
+        {
+            Name = "Imageless Side Table",
+            ProviderId = provider!.Id,
+            Price = 45.0m
+        });
+        var created = await createResponse.Content.ReadFromJsonAsync<IdResponse>();
+
+        // Act
+        var vectorizedResponse = await AuthenticatedGetAsync(
+            $"/api/admin/products/ids?providerId={provider.Id}&vectorized=true");
+        var notVectorizedResponse = await AuthenticatedGetAsync(
+            $"/api/admin/products/ids?providerId={provider.Id}&vectorized=false");
+
+        // Assert
+        var vectorizedIds = await vectorizedResponse.Content.ReadFromJsonAsync<List<int>>();
+        vectorizedIds.Should().BeEmpty();
+
+        var notVectorizedIds = await notVectorizedResponse.Content.ReadFromJsonAsync<List<int>>();
+        notVectorizedIds.Should().Equal(created!.Id);
+    }
+
+    [Fact]
+    public async Task ImportProducts_DryRun_ReportsRowErrorsWithoutSaving()
+    {
+        // Arrange
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Dry Run Import Provider",
+            WebsiteUrl = "https://dryrunimport.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        // Act
+        var response = await AuthenticatedPostAsync("/api/admin/products/import", new
+        {
+            ProviderId = provider!.Id,
+            DryRun = true,
+            Rows = new object[]
+            {
+                new { RowNumber = 2, ExternalId = "DRY-1", Name = "Dry Run Chair", Price = 49.0m },
+                new { RowNumber = 3, ExternalId = "DRY-2", Price = -1.0m, ImageUrls = new[] { "not-a-url" } }
+            }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var result = await response.Content.ReadFromJsonAsync<CatalogImportResultDto>();
+        result!.Created.Should().Be(1);
+        result.Invalid.Should().Be(1);
+        result.Rows[1].Errors.Should().HaveCount(3);
+
+        var idsResponse = await AuthenticatedGetAsync($"/api/admin/products/ids?providerId={provider.Id}");
+        var ids = await idsResponse.Content.ReadFromJsonAsync<List<int>>();
+        ids.Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task ImportProducts_WithExistingExternalId_UpdatesProduct()
+    {
+        // Arrange
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Upsert Import Provider",
+            WebsiteUrl = "https://upsertimport.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        var createResponse = await AuthenticatedPostAsync("/api/admin/products", new
+        {
+            Name = "Original Name",
+            ProviderId = provider!.Id,
+            ExternalId = "UPSERT-1",
+            Price = 10.0m
+        });
+        var created = await createResponse.Content.ReadFromJsonAsync<IdResponse>();
+
+        // Act
+        var response = await AuthenticatedPostAsync("/api/admin/products/import", new
+        {
+            ProviderId = provider.Id,
+            DryRun = false,
+            Rows = new object[]
+            {
+                new { RowNumber = 2, ExternalId = "UPSERT-1", Price = 15.0m },
+                new { RowNumber = 3, ExternalId = "UPSERT-2", Name = "Imported Sofa", Price = 300.0m }
+            }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var result = await response.Content.ReadFromJsonAsync<CatalogImportResultDto>();
+        result!.Updated.Should().Be(1);
+        result.Created.Should().Be(1);
+        result.Rows[0].ProductId.Should().Be(created!.Id);
+        result.Rows[1].ProductId.Should().NotBeNull();
+
+        var getResponse = await AuthenticatedGetAsync($"/api/admin/products/{created.Id}");
+        var product = await getResponse.Content.ReadFromJsonAsync<AdminProductDto>();
+        product!.Name.Should().Be("Original Name");
+        product.Price.Should().Be(15.0m);
+    }
+
+    [Fact]
+    public async Task GetSearchProductImage_WhenProductHasNoImages_ReturnsNotFound()
+    {
+        // Arrange
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Image Proxy Provider",
+            WebsiteUrl = "https://imageproxy.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        var createResponse = await AuthenticatedPostAsync("/api/admin/products", new
+        {
+            Name = "Product Without Images",
+            ProviderId = provider!.Id
+        });
+        var created = await createResponse.Content.ReadFromJsonAsync<IdResponse>();
+
+        // Act - the search endpoints are public, and a URL not stored for the product is never fetched
+        var response = await Client!.GetAsync(
+            $"/api/search/products/{created!.Id}/image?imageUrl={Uri.EscapeDataString("https://example.com/other.jpg")}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    #endregion
+
+    #region User Management Tests
+
+    [Fact]
+    public async Task CreateUser_WithoutForcedPasswordChange_ReturnsCreatedUser()
+    {
+        // Act
+        var response = await AuthenticatedPostAsync("/api/admin/users", new
+        {
+            Username = "colleague",
+            Password = "initial-password",
+            MustChangePassword = false
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Created);
+
+        var user = await response.Content.ReadFromJsonAsync<AdminUserDto>();
+        user.Should().NotBeNull();
+        user!.Username.Should().Be("colleague");
+        user.MustChangePassword.Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task CreateUser_WithShortPassword_ReturnsBadRequest()
+    {
+        // Act
+        var response = await AuthenticatedPostAsync("/api/admin/users", new
+        {
+            Username = "short-password-user",
+            Password = "short"
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task DeleteUser_WhenCurrentUser_ReturnsBadRequest()
+    {
+        // Arrange - Find the authenticated test admin
+        var listResponse = await AuthenticatedGetAsync("/api/admin/users");
+        var users = await listResponse.Content.ReadFromJsonAsync<List<AdminUserDto>>();
+        var currentUser = users!.Single(u => u.Username == "testadmin");
+
+        // Act
+        var response = await AuthenticatedDeleteAsync($"/api/admin/users/{currentUser.Id}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
     #endregion
 
     #region Stats & System Tests
@@ -438,6 +749,35 @@ public sealed class AdminCrudTests : IntegrationTestBase
         stats.Providers.Should().BeGreaterOrEqualTo(0);
     }
 
+    [Fact]
+    public async Task GetStatsTimeSeries_ReturnsZeroFilledBuckets()
+    {
+        // Act
+        var response = await AuthenticatedGetAsync(
+            "/api/admin/stats/timeseries?from=2020-01-01T00:00:00Z&to=2020-01-08T00:00:00Z");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var series = await response.Content.ReadFromJsonAsync<DashboardTimeSeriesDto>();
+        series.Should().NotBeNull();
+        series!.ProductsAdded.Should().HaveCount(7);
+        series.ImagesVectorized.Should().HaveCount(7);
+        series.CrawlPagesFetched.Should().HaveCount(7 * 24);
+        series.ProductsAdded.Should().OnlyContain(p => p.Count == 0);
+    }
+
+    [Fact]
+    public async Task GetStatsTimeSeries_WithRangeOverLimit_ReturnsBadRequest()
+    {
+        // Act
+        var response = await AuthenticatedGetAsync(
+            "/api/admin/stats/timeseries?from=2020-01-01T00:00:00Z&to=2020-12-31T00:00:00Z");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
     [Fact]
     public async Task GetSystemStatus_ReturnsModelStatus()
     {
@@ -451,6 +791,559 @@ public sealed class AdminCrudTests : IntegrationTestBase
         status.Should().NotBeNull();
     }
 
+    [Fact]
+    public async Task GetSystemStatus_ReportsDatabaseAndWorkerHealth()
+    {
+        // Act
+        var response = await AuthenticatedGetAsync("/api/admin/system-status");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var status = await response.Content.ReadFromJsonAsync<AdminSystemStatusDto>();
+        status.Should().NotBeNull();
+        status!.Database.Connected.Should().BeTrue();
+        status.Database.Error.Should().BeNull();
+        status.Worker.State.Should().NotBe(WorkerState.Unknown);
+        status.SearchLatency.SampleCount.Should().BeGreaterOrEqualTo(0);
+    }
+
+    [Fact]
+    public async Task CancelVectorizeAll_WhenNoRunInProgress_ReturnsBadRequest()
+    {
+        // Act
+        var response = await AuthenticatedPostAsync("/api/admin/vectorize-all/cancel", new { });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task VectorizationSse_WithInvalidTicket_ReturnsUnauthorized()
+    {
+        // Act
+        var response = await Client!.GetAsync("/api/admin/vectorize-all/sse?ticket=invalid");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Unauthorized);
+    }
+
+    #endregion
+
+    #region Crawl Job Tests
+
+    [Fact]
+    public async Task GetJobPages_ForNewJob_ReturnsEmptyPageLog()
+    {
+        // Arrange
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Job Pages Provider",
+            WebsiteUrl = "https://jobpages.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        var jobResponse = await AuthenticatedPostAsync("/api/jobs", new { ProviderId = provider!.Id });
+        var job = await jobResponse.Content.ReadFromJsonAsync<CrawlJobDto>();
+
+        // Act
+        var response = await AuthenticatedGetAsync($"/api/jobs/{job!.Id}/pages?status=4");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var pages = await response.Content.ReadFromJsonAsync<CrawlJobPagesResponse>();
+        pages!.Pages.Should().BeEmpty();
+        pages.TotalCount.Should().Be(0);
+        pages.StatusCounts.Failed.Should().Be(0);
+    }
+
+    [Fact]
+    public async Task GetJobErrors_WithNonExistentJob_ReturnsNotFound()
+    {
+        // Act
+        var response = await AuthenticatedGetAsync("/api/jobs/99999/errors");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    #endregion
+
+    #region Product Import Tests
+
+    [Fact]
+    public async Task CompareDuplicate_ThenMerge_UpdatesExistingProductPrice()
+    {
+        // Arrange
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Duplicate Review Provider",
+            WebsiteUrl = "https://duplicatereview.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        var createResponse = await AuthenticatedPostAsync("/api/admin/products", new
+        {
+            Name = "Oak Table",
+            ProviderId = provider!.Id,
+            ExternalId = "DUP-1",
+            Price = 200.0m
+        });
+        var existing = await createResponse.Content.ReadFromJsonAsync<IdResponse>();
+
+        var jobResponse = await AuthenticatedPostAsync("/api/jobs", new { ProviderId = provider.Id });
+        var job = await jobResponse.Content.ReadFromJsonAsync<CrawlJobDto>();
+
+        long extractedId;
+        using (var db = GetDbContext())
+        {
+            var page = new CrawlPage { CrawlJobId = job!.Id, Url = "https://duplicatereview.com/oak-table" };
+            db.CrawlPages.Add(page);
+            await db.SaveChangesAsync();
+
+            var extracted = new CrawlExtractedProduct
+            {
+                CrawlJobId = job.Id,
+                CrawlPageId = page.Id,
+                ProviderId = provider.Id,
+                ExternalId = "DUP-1",
+                Name = "Oak Table",
+                Price = 179.0m,
+                Currency = "EUR",
+                ProductUrl = page.Url
+            };
+            db.CrawlExtractedProducts.Add(extracted);
+            await db.SaveChangesAsync();
+            extractedId = extracted.Id;
+        }
+
+        var approveResponse = await AuthenticatedPostAsync($"/api/import/{extractedId}/approve", new { });
+        var approve = await approveResponse.Content.ReadFromJsonAsync<ApproveResult>();
+        approve!.IsDuplicate.Should().BeTrue();
+
+        // Act
+        var compareResponse = await AuthenticatedGetAsync($"/api/import/{extractedId}/compare");
+        var mergeResponse = await AuthenticatedPostAsync($"/api/import/{extractedId}/merge", new { });
+
+        // Assert
+        compareResponse.StatusCode.Should().Be(HttpStatusCode.OK);
+        var comparison = await compareResponse.Content.ReadFromJsonAsync<DuplicateComparisonDto>();
+        comparison!.Existing!.Id.Should().Be(existing!.Id);
+        comparison.Existing.Price.Should().Be(200.0m);
+        comparison.MatchedOn.Should().Be(DuplicateMatchField.ExternalId);
+
+        mergeResponse.StatusCode.Should().Be(HttpStatusCode.OK);
+        var merge = await mergeResponse.Content.ReadFromJsonAsync<ApproveResult>();
+        merge!.ProductId.Should().Be(existing.Id);
+
+        var getResponse = await AuthenticatedGetAsync($"/api/admin/products/{existing.Id}");
+        var product = await getResponse.Content.ReadFromJsonAsync<AdminProductDto>();
+        product!.Price.Should().Be(179.0m);
+    }
+
+    [Fact]
+    public async Task ApproveExtractedProducts_FromSameListingPage_AreNotDuplicatesOfEachOther()
+    {
+        // Arrange - without a link selector the worker gives every product the listing page's URL
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Listing Page Provider",
+            WebsiteUrl = "https://listingpage.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        var jobResponse = await AuthenticatedPostAsync("/api/jobs", new { ProviderId = provider!.Id });
+        var job = await jobResponse.Content.ReadFromJsonAsync<CrawlJobDto>();
+
+        long firstId, secondId;
+        using (var db = GetDbContext())
+        {
+            var page = new CrawlPage { CrawlJobId = job!.Id, Url = "https://listingpage.com/chairs" };
+            db.CrawlPages.Add(page);
+            await db.SaveChangesAsync();
+
+            var first = new CrawlExtractedProduct
+            {
+                CrawlJobId = job.Id,
+                CrawlPageId = page.Id,
+                ProviderId = provider.Id,
+                Name = "Rattan Chair",
+                ProductUrl = page.Url
+            };
+            var second = new CrawlExtractedProduct
+            {
+                CrawlJobId = job.Id,
+                CrawlPageId = page.Id,
+                ProviderId = provider.Id,
+                Name = "Velvet Chair",
+                ProductUrl = page.Url
+            };
+            db.CrawlExtractedProducts.AddRange(first, second);
+            await db.SaveChangesAsync();
+            firstId = first.Id;
+            secondId = second.Id;
+        }
+
+        await AuthenticatedPostAsync($"/api/import/{firstId}/approve", new { });
+
+        // Act
+        var response = await AuthenticatedPostAsync($"/api/import/{secondId}/approve", new { });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var approve = await response.Content.ReadFromJsonAsync<ApproveResult>();
+        approve!.IsDuplicate.Should().BeFalse();
+        approve.Success.Should().BeTrue();
+    }
+
+    [Fact]
+    public async Task MergeExtractedProduct_WithNonExistentId_ReturnsNotFound()
+    {
+        // Act
+        var response = await AuthenticatedPostAsync("/api/import/99999/merge", new { });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    [Fact]
+    public async Task ApproveExtractedProduct_WithEdits_ImportsCorrectedValuesAndKeptImages()
+    {
+        // Arrange
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Review Edit Provider",
+            WebsiteUrl = "https://reviewedit.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        var jobResponse = await AuthenticatedPostAsync("/api/jobs", new { ProviderId = provider!.Id });
+        var job = await jobResponse.Content.ReadFromJsonAsync<CrawlJobDto>();
+
+        long extractedId;
+        using (var db = GetDbContext())
+        {
+            var page = new CrawlPage { CrawlJobId = job!.Id, Url = "https://reviewedit.com/lamp" };
+            db.CrawlPages.Add(page);
+            await db.SaveChangesAsync();
+
+            var extracted = new CrawlExtractedProduct
+            {
+                CrawlJobId = job.Id,
+                CrawlPageId = page.Id,
+                ProviderId = provider.Id,
+                ExternalId = "EDIT-1",
+                Name = "LAMP  - Buy now!",
+                Price = 4990m,
+                Currency = "EUR",
+                ProductUrl = page.Url,
+                ImageUrlsJson = "[\"https://reviewedit.com/logo.png\",\"https://reviewedit.com/lamp-1.jpg\",\"https://reviewedit.com/lamp-2.jpg\"]"
+            };
+            db.CrawlExtractedProducts.Add(extracted);
+            await db.SaveChangesAsync();
+            extractedId = extracted.Id;
+        }
+
+        // Act
+        var response = await AuthenticatedPostAsync($"/api/import/{extractedId}/approve", new
+        {
+            Name = "Brass Table Lamp",
+            Price = 49.90m,
+            Currency = "eur",
+            ImageUrls = new[] { "https://reviewedit.com/lamp-2.jpg", "https://reviewedit.com/lamp-1.jpg" }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var approve = await response.Content.ReadFromJsonAsync<ApproveResult>();
+        approve!.Success.Should().BeTrue();
+
+        var getResponse = await AuthenticatedGetAsync($"/api/admin/products/{approve.ProductId}");
+        var product = await getResponse.Content.ReadFromJsonAsync<AdminProductDto>();
+        product!.Name.Should().Be("Brass Table Lamp");
+        product.Price.Should().Be(49.90m);
+        product.Currency.Should().Be("EUR");
+        product.Images.Select(i => i.ImageUrl).Should().BeEquivalentTo(
+            ["https://reviewedit.com/lamp-2.jpg", "https://reviewedit.com/lamp-1.jpg"]);
+        product.Images.Single(i => i.IsPrimary).ImageUrl.Should().Be("https://reviewedit.com/lamp-2.jpg");
+    }
+
+    [Fact]
+    public async Task ApproveExtractedProduct_WithInvalidCurrency_ReturnsBadRequest()
+    {
+        // Arrange
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Invalid Edit Provider",
+            WebsiteUrl = "https://invalidedit.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        var jobResponse = await AuthenticatedPostAsync("/api/jobs", new { ProviderId = provider!.Id });
+        var job = await jobResponse.Content.ReadFromJsonAsync<CrawlJobDto>();
+
+        long extractedId;
+        using (var db = GetDbContext())
+        {
+            var page = new CrawlPage { CrawlJobId = job!.Id, Url = "https://invalidedit.com/chair" };
+            db.CrawlPages.Add(page);
+            await db.SaveChangesAsync();
+
+            var extracted = new CrawlExtractedProduct
+            {
+                CrawlJobId = job.Id,
+                CrawlPageId = page.Id,
+                ProviderId = provider.Id,
+                Name = "Chair",
+                ProductUrl = page.Url
+            };
+            db.CrawlExtractedProducts.Add(extracted);
+            await db.SaveChangesAsync();
+            extractedId = extracted.Id;
+        }
+
+        // Act
+        var response = await AuthenticatedPostAsync($"/api/import/{extractedId}/approve", new { Currency = "EURO" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+        using var verifyDb = GetDbContext();
+        var unchanged = await verifyDb.CrawlExtractedProducts.FindAsync(extractedId);
+        unchanged!.Status.Should().Be(ExtractedProductStatus.Pending);
+        unchanged.Currency.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task GetExtractedProductIds_WithPriceAndImageFilters_ReturnsMatchingIds()
+    {
+        // Arrange
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Queue Filter Provider",
+            WebsiteUrl = "https://queuefilter.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        var jobResponse = await AuthenticatedPostAsync("/api/jobs", new { ProviderId = provider!.Id });
+        var job = await jobResponse.Content.ReadFromJsonAsync<CrawlJobDto>();
+
+        CrawlExtractedProduct noImages, oneImage, twoImages, noPrice;
+        using (var db = GetDbContext())
+        {
+            var page = new CrawlPage { CrawlJobId = job!.Id, Url = "https://queuefilter.com/sofas" };
+            db.CrawlPages.Add(page);
+            await db.SaveChangesAsync();
+
+            CrawlExtractedProduct Extracted(string name, decimal? price, string? imageUrlsJson) => new()
+            {
+                CrawlJobId = job.Id,
+                CrawlPageId = page.Id,
+                ProviderId = provider.Id,
+                Name = name,
+                Price = price,
+                ImageUrlsJson = imageUrlsJson
+            };
+
+            noImages = Extracted("Sofa A", 100m, null);
+            oneImage = Extracted("Sofa B", 200m, "[\"https://queuefilter.com/b.jpg\"]");
+            twoImages = Extracted("Sofa C", 300m, "[\"https://queuefilter.com/c1.jpg\",\"https://queuefilter.com/c2.jpg\"]");
+            noPrice = Extracted("Sofa D", null, "[\"https://queuefilter.com/d.jpg\"]");
+            db.CrawlExtractedProducts.AddRange(noImages, oneImage, twoImages, noPrice);
+            await db.SaveChangesAsync();
+        }
+
+        // Act
+        var withPriceAndImages = await AuthenticatedGetAsync(
+            $"/api/import/ids?jobId={job.Id}&hasPrice=true&minImages=1");
+        var singleImage = await AuthenticatedGetAsync(
+            $"/api/import/ids?jobId={job.Id}&minImages=1&maxImages=1");
+        var withoutImages = await AuthenticatedGetAsync($"/api/import/ids?jobId={job.Id}&maxImages=0");
+        var futureOnly = await AuthenticatedGetAsync(
+            $"/api/import/ids?jobId={job.Id}&createdFrom={DateTime.UtcNow.AddDays(1):O}");
+
+        // Assert
+        (await withPriceAndImages.Content.ReadFromJsonAsync<List<long>>())
+            .Should().BeEquivalentTo([oneImage.Id, twoImages.Id]);
+        (await singleImage.Content.ReadFromJsonAsync<List<long>>())
+            .Should().BeEquivalentTo([oneImage.Id, noPrice.Id]);
+        (await withoutImages.Content.ReadFromJsonAsync<List<long>>())
+            .Should().BeEquivalentTo([noImages.Id]);
+        (await futureOnly.Content.ReadFromJsonAsync<List<long>>()).Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task BulkApproveExtractedProducts_WithTooManyIds_ReturnsBadRequest()
+    {
+        // Arrange
+        var ids = Enumerable.Range(1, 501).Select(i => (long)i).ToArray();
+
+        // Act
+        var response = await AuthenticatedPostAsync("/api/import/bulk-approve", new { Ids = ids });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    #endregion
+
+    #region Crawl Schedule Tests
+
+    [Fact]
+    public async Task CreateSchedule_Weekly_ReturnsNextRunOnThatDay()
+    {
+        // Arrange
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Weekly Schedule Provider",
+            WebsiteUrl = "https://weeklyschedule.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        // Act
+        var response = await AuthenticatedPostAsync("/api/admin/schedules", new
+        {
+            ProviderId = provider!.Id,
+            Frequency = CrawlScheduleFrequency.Weekly,
+            TimeOfDay = "06:30",
+            DayOfWeek = DayOfWeek.Monday,
+            TimeZoneId = "UTC",
+            MaxPages = 500
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Created);
+
+        var schedule = await response.Content.ReadFromJsonAsync<CrawlScheduleDto>();
+        schedule!.IsEnabled.Should().BeTrue();
+        schedule.TimeOfDay.Should().Be("06:30");
+        schedule.NextRunAt.Should().NotBeNull();
+        schedule.NextRunAt!.Value.Should().BeAfter(DateTime.UtcNow);
+        schedule.NextRunAt.Value.DayOfWeek.Should().Be(DayOfWeek.Monday);
+        schedule.NextRunAt.Value.TimeOfDay.Should().Be(new TimeSpan(6, 30, 0));
+    }
+
+    [Fact]
+    public async Task CreateSchedule_WithInvalidCron_ReturnsBadRequest()
+    {
+        // Arrange
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Cron Schedule Provider",
+            WebsiteUrl = "https://cronschedule.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        // Act
+        var response = await AuthenticatedPostAsync("/api/admin/schedules", new
+        {
+            ProviderId = provider!.Id,
+            Frequency = CrawlScheduleFrequency.Cron,
+            CronExpression = "0 25 * * *",
+            TimeZoneId = "UTC"
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task UpdateSchedule_Disabled_ClearsNextRun()
+    {
+        // Arrange
+        var providerResponse = await AuthenticatedPostAsync("/api/admin/providers", new
+        {
+            Name = "Paused Schedule Provider",
+            WebsiteUrl = "https://pausedschedule.com"
+        });
+        var provider = await providerResponse.Content.ReadFromJsonAsync<AdminProviderDto>();
+
+        var createResponse = await AuthenticatedPostAsync("/api/admin/schedules", new
+        {
+            ProviderId = provider!.Id,
+            Frequency = CrawlScheduleFrequency.Daily,
+            TimeOfDay = "03:00",
+            TimeZoneId = "UTC"
+        });
+        var created = await createResponse.Content.ReadFromJsonAsync<CrawlScheduleDto>();
+
+        // Act
+        var response = await AuthenticatedPutAsync($"/api/admin/schedules/{created!.Id}", new
+        {
+            Frequency = CrawlScheduleFrequency.Daily,
+            TimeOfDay = "03:00",
+            TimeZoneId = "UTC",
+            IsEnabled = false
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var schedule = await response.Content.ReadFromJsonAsync<CrawlScheduleDto>();
+        schedule!.IsEnabled.Should().BeFalse();
+        schedule.NextRunAt.Should().BeNull();
+    }
+
+    #endregion
+
+    #region Settings Tests
+
+    [Fact]
+    public async Task GetAllSettings_IncludesDefaultsAndRanges()
+    {
+        // Act
+        var response = await AuthenticatedGetAsync("/api/settings");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var settings = await response.Content.ReadFromJsonAsync<List<SettingDto>>();
+        var jpegQuality = settings!.Single(s => s.Key == "search.jpegQuality");
+        jpegQuality.Type.Should().Be("integer");
+        jpegQuality.DefaultValue.Should().Be("85");
+        jpegQuality.Min.Should().Be(1);
+        jpegQuality.Max.Should().Be(100);
+    }
+
+    [Fact]
+    public async Task UpdateSetting_WithValueOutOfRange_ReturnsBadRequest()
+    {
+        // Act
+        var response = await AuthenticatedPutAsync("/api/settings/search.jpegQuality", new { Value = "150" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task ResetSetting_AfterUpdate_RestoresDefaultValue()
+    {
+        // Arrange
+        var updateResponse = await AuthenticatedPutAsync("/api/settings/search.maxResults", new { Value = "42" });
+        updateResponse.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        // Act
+        var response = await AuthenticatedPostAsync("/api/settings/search.maxResults/reset", new { });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var setting = await response.Content.ReadFromJsonAsync<SettingDto>();
+        setting!.Value.Should().Be("20");
+    }
+
+    [Fact]
+    public async Task UpdateSetting_WithEmptyValue_IsAllowedOnlyForOptionalSettings()
+    {
+        // Act
+        var logoResponse = await AuthenticatedPutAsync("/api/settings/ui.logoUrl", new { Value = "" });
+        var siteNameResponse = await AuthenticatedPutAsync("/api/settings/ui.siteName", new { Value = "" });
+
+        // Assert
+        logoResponse.StatusCode.Should().Be(HttpStatusCode.OK);
+        var logo = await logoResponse.Content.ReadFromJsonAsync<SettingDto>();
+        logo!.AllowEmpty.Should().BeTrue();
+        siteNameResponse.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
     #endregion
 
     #region Authorization Tests
@@ -0,0 +1,150 @@
+using VisualSearch.Contracts.Crawling;
+
+namespace VisualSearch.Api.Tests.Unit;
+
+public class CrawlScheduleCalculatorTests
+{
+    // Central European Time: clocks go forward at 02:00 on 2025-03-30 and back at 03:00 on 2025-10-26
+    private const string BerlinTimeZone = "Europe/Berlin";
+
+    #region Expression Tests
+
+    [Fact]
+    public void GetExpression_WithDailyFrequency_RunsEveryDayAtTimeOfDay()
+    {
+        // Arrange
+        var expression = CrawlScheduleCalculator.GetExpression(
+            CrawlScheduleFrequency.Daily, new TimeOnly(7, 45), null, null);
+
+        // Act
+        var next = expression.GetNextOccurrence(new DateTime(2025, 1, 1, 7, 45, 0));
+
+        // Assert
+        next.Should().Be(new DateTime(2025, 1, 2, 7, 45, 0));
+    }
+
+    [Fact]
+    public void GetExpression_WithWeeklyFrequency_RunsOnDayOfWeek()
+    {
+        // Arrange
+        var expression = CrawlScheduleCalculator.GetExpression(
+            CrawlScheduleFrequency.Weekly, new TimeOnly(3, 0), DayOfWeek.Monday, null);
+
+        // Act - 2025-01-01 is a Wednesday
+        var next = expression.GetNextOccurrence(new DateTime(2025, 1, 1));
+
+        // Assert
+        next.Should().Be(new DateTime(2025, 1, 6, 3, 0, 0));
+    }
+
+    [Theory]
+    [InlineData(CrawlScheduleFrequency.Daily, null, null, null)]
+    [InlineData(CrawlScheduleFrequency.Weekly, "03:00", null, null)]
+    [InlineData(CrawlScheduleFrequency.Cron, null, null, " ")]
+    [InlineData(CrawlScheduleFrequency.Cron, null, null, "0 0 * *")]
+    [InlineData((CrawlScheduleFrequency)99, "03:00", DayOfWeek.Monday, "0 0 * * *")]
+    public void GetExpression_WithIncompleteSchedule_ThrowsFormatException(
+        CrawlScheduleFrequency frequency, string? timeOfDay, DayOfWeek? dayOfWeek, string? cronExpression)
+    {
+        // Act
+        var act = () => CrawlScheduleCalculator.GetExpression(
+            frequency, timeOfDay is null ? null : TimeOnly.Parse(timeOfDay), dayOfWeek, cronExpression);
+
+        // Assert
+        act.Should().Throw<FormatException>();
+    }
+
+    #endregion
+
+    #region Time Zone Tests
+
+    [Fact]
+    public void GetNextRunUtc_ConvertsFromScheduleTimeZone()
+    {
+        // Arrange - 09:00 in Berlin is 08:00 UTC in winter
+        var expression = CronExpression.Parse("0 9 * * *");
+
+        // Act
+        var next = CrawlScheduleCalculator.GetNextRunUtc(
+            expression, BerlinTimeZone, new DateTime(2025, 1, 1, 12, 0, 0, DateTimeKind.Utc));
+
+        // Assert
+        next.Should().Be(new DateTime(2025, 1, 2, 8, 0, 0, DateTimeKind.Utc));
+    }
+
+    [Fact]
+    public void GetNextRunUtc_WhenLocalTimeIsSkippedByDst_RunsOnNextValidDay()
+    {
+        // Arrange - 02:30 doesn't exist in Berlin on 2025-03-30
+        var expression = CronExpression.Parse("30 2 * * *");
+
+        // Act
+        var next = CrawlScheduleCalculator.GetNextRunUtc(
+            expression, BerlinTimeZone, new DateTime(2025, 3, 29, 12, 0, 0, DateTimeKind.Utc));
+
+        // Assert - 02:30 summer time on 2025-03-31
+        next.Should().Be(new DateTime(2025, 3, 31, 0, 30, 0, DateTimeKind.Utc));
+    }
+
+    [Fact]
+    public void GetNextRunUtc_WhenLocalTimeRepeatsAtDstEnd_RunsOnce()
+    {
+        // Arrange - 02:30 happens twice in Berlin on 2025-10-26
+        var expression = CronExpression.Parse("30 2 * * *");
+
+        // Act
+        var first = CrawlScheduleCalculator.GetNextRunUtc(
+            expression, BerlinTimeZone, new DateTime(2025, 10, 25, 12, 0, 0, DateTimeKind.Utc));
+        var second = CrawlScheduleCalculator.GetNextRunUtc(expression, BerlinTimeZone, first!.Value);
+
+        // Assert - the ambiguous time is taken as standard time, and the next run is a day later
+        first.Should().Be(new DateTime(2025, 10, 26, 1, 30, 0, DateTimeKind.Utc));
+        second.Should().Be(new DateTime(2025, 10, 27, 1, 30, 0, DateTimeKind.Utc));
+    }
+
+    [Fact]
+    public void GetNextRunUtc_WithImpossibleDate_ReturnsNull()
+    {
+        // Arrange
+        var expression = CronExpression.Parse("0 0 30 2 *");
+
+        // Act
+        var next = CrawlScheduleCalculator.GetNextRunUtc(
+            expression, BerlinTimeZone, new DateTime(2025, 1, 1, 0, 0, 0, DateTimeKind.Utc));
+
+        // Assert
+        next.Should().BeNull();
+    }
+
+    [Fact]
+    public void GetNextRunUtc_WithUnknownTimeZone_ThrowsTimeZoneNotFoundException()
+    {
+        // Arrange
+        var expression = CronExpression.Parse("0 0 * * *");
+
+        // Act
+        var act = () => CrawlScheduleCalculator.GetNextRunUtc(expression, "Not/A_Zone", DateTime.UtcNow);
+
+        // Assert
+        act.Should().Throw<TimeZoneNotFoundException>();
+    }
+
+    #endregion
+
+    #region Overlap Tests
+
+    [Theory]
+    [InlineData(CrawlJobStatus.Queued, true)]
+    [InlineData(CrawlJobStatus.Running, true)]
+    [InlineData(CrawlJobStatus.Paused, true)]
+    [InlineData(CrawlJobStatus.Succeeded, false)]
+    [InlineData(CrawlJobStatus.Failed, false)]
+    [InlineData(CrawlJobStatus.Canceled, false)]
+    public void BlockingJobStatuses_SkipRunsOnlyWhileAJobIsUnfinished(CrawlJobStatus status, bool blocks)
+    {
+        // Act & Assert
+        CrawlScheduleCalculator.BlockingJobStatuses.Contains(status).Should().Be(blocks);
+    }
+
+    #endregion
+}
@@ -0,0 +1,178 @@
+using VisualSearch.Contracts.Crawling;
+
+namespace VisualSearch.Api.Tests.Unit;
+
+public class CronExpressionTests
+{
+    #region Parsing Tests
+
+    [Theory]
+    [InlineData("60 * * * *")]
+    [InlineData("* 24 * * *")]
+    [InlineData("* * 0 * *")]
+    [InlineData("* * 32 * *")]
+    [InlineData("* * * 0 *")]
+    [InlineData("* * * 13 *")]
+    [InlineData("* * * * 8")]
+    [InlineData("-1 * * * *")]
+    [InlineData("30-10 * * * *")]
+    [InlineData("*/0 * * * *")]
+    [InlineData("*/x * * * *")]
+    [InlineData("1/2/3 * * * *")]
+    [InlineData("1,,2 * * * *")]
+    [InlineData("a * * * *")]
+    [InlineData("* * * *")]
+    [InlineData("* * * * * *")]
+    public void Parse_WithInvalidExpression_ThrowsFormatException(string expression)
+    {
+        // Act
+        var act = () => CronExpression.Parse(expression);
+
+        // Assert
+        act.Should().Throw<FormatException>();
+    }
+
+    [Theory]
+    [InlineData(null)]
+    [InlineData("")]
+    [InlineData("   ")]
+    public void TryParse_WithEmptyExpression_ReturnsRequiredError(string? expression)
+    {
+        // Act
+        var parsed = CronExpression.TryParse(expression, out var result, out var error);
+
+        // Assert
+        parsed.Should().BeFalse();
+        result.Should().BeNull();
+        error.Should().Be("Cron expression is required.");
+    }
+
+    [Fact]
+    public void TryParse_WithOutOfRangeValue_ReturnsErrorNamingTheField()
+    {
+        // Act
+        var parsed = CronExpression.TryParse("0 25 * * *", out var result, out var error);
+
+        // Assert
+        parsed.Should().BeFalse();
+        result.Should().BeNull();
+        error.Should().Be("'25' is not a valid hour; expected 0-23.");
+    }
+
+    [Fact]
+    public void TryParse_WithValidExpression_ReturnsExpression()
+    {
+        // Act
+        var parsed = CronExpression.TryParse("  0   6 * * 1-5 ", out var result, out var error);
+
+        // Assert
+        parsed.Should().BeTrue();
+        result.Should().NotBeNull();
+        error.Should().BeNull();
+    }
+
+    #endregion
+
+    #region Field Syntax Tests
+
+    [Theory]
+    [InlineData("0 9-17 * * *", "2025-01-01T17:30", "2025-01-02T09:00")]
+    [InlineData("0 9-17 * * *", "2025-01-01T09:00", "2025-01-01T10:00")]
+    [InlineData("*/15 * * * *", "2025-01-01T10:07", "2025-01-01T10:15")]
+    [InlineData("0-30/10 * * * *", "2025-01-01T10:31", "2025-01-01T11:00")]
+    [InlineData("5/20 * * * *", "2025-01-01T10:26", "2025-01-01T10:45")]
+    [InlineData("0 8,12,18 * * *", "2025-01-01T12:00", "2025-01-01T18:00")]
+    [InlineData("0,30 1-3/2 * * *", "2025-01-01T01:30", "2025-01-01T03:00")]
+    public void GetNextOccurrence_WithRangesStepsAndLists_ReturnsNextMatch(
+        string expression, string after, string expected)
+    {
+        // Arrange
+        var cron = CronExpression.Parse(expression);
+
+        // Act
+        var next = cron.GetNextOccurrence(DateTime.Parse(after));
+
+        // Assert
+        next.Should().Be(DateTime.Parse(expected));
+    }
+
+    [Fact]
+    public void GetNextOccurrence_WithSevenAsDayOfWeek_MatchesSunday()
+    {
+        // Arrange - 2025-01-01 is a Wednesday
+        var cron = CronExpression.Parse("0 0 * * 7");
+
+        // Act
+        var next = cron.GetNextOccurrence(new DateTime(2025, 1, 1, 12, 0, 0));
+
+        // Assert
+        next.Should().Be(new DateTime(2025, 1, 5, 0, 0, 0));
+    }
+
+    [Fact]
+    public void GetNextOccurrence_WithDayOfMonthAndDayOfWeek_MatchesEither()
+    {
+        // Arrange - the 13th or any Friday; 2025-01-03 is the first Friday
+        var cron = CronExpression.Parse("0 0 13 * 5");
+
+        // Act
+        var next = cron.GetNextOccurrence(new DateTime(2025, 1, 1, 12, 0, 0));
+
+        // Assert
+        next.Should().Be(new DateTime(2025, 1, 3, 0, 0, 0));
+    }
+
+    [Fact]
+    public void GetNextOccurrence_IgnoresSecondsOfTheStartTime()
+    {
+        // Arrange
+        var cron = CronExpression.Parse("* * * * *");
+
+        // Act
+        var next = cron.GetNextOccurrence(new DateTime(2025, 1, 1, 10, 0, 30));
+
+        // Assert
+        next.Should().Be(new DateTime(2025, 1, 1, 10, 1, 0));
+    }
+
+    #endregion
+
+    #region Rollover Tests
+
+    [Theory]
+    [InlineData("0 0 1 * *", "2025-01-31T12:00", "2025-02-01T00:00")]
+    [InlineData("0 0 31 * *", "2025-01-31T12:00", "2025-03-31T00:00")]
+    [InlineData("0 0 1 1 *", "2025-06-15T08:00", "2026-01-01T00:00")]
+    [InlineData("* * * * *", "2025-12-31T23:59", "2026-01-01T00:00")]
+    [InlineData("0 12 * 2 *", "2025-02-28T12:00", "2026-02-01T12:00")]
+    [InlineData("0 0 29 2 *", "2025-03-01T00:00", "2028-02-29T00:00")]
+    public void GetNextOccurrence_AcrossMonthAndYearBoundaries_ReturnsNextMatch(
+        string expression, string after, string expected)
+    {
+        // Arrange
+        var cron = CronExpression.Parse(expression);
+
+        // Act
+        var next = cron.GetNextOccurrence(DateTime.Parse(after));
+
+        // Assert
+        next.Should().Be(DateTime.Parse(expected));
+    }
+
+    [Theory]
+    [InlineData("0 0 30 2 *")]
+    [InlineData("0 0 31 4,6,9,11 *")]
+    public void GetNextOccurrence_WithImpossibleDate_ReturnsNull(string expression)
+    {
+        // Arrange
+        var cron = CronExpression.Parse(expression);
+
+        // Act
+        var next = cron.GetNextOccurrence(new DateTime(2025, 1, 1));
+
+        // Assert
+        next.Should().BeNull();
+    }
+
+    #endregion
+}